@@ -24,6 +24,8 @@ export default [
         performance: 'readonly',
         NodeJS: 'readonly',
         require: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
       },
     },
     plugins: {
@@ -1,6 +1,7 @@
 import { describe, it, vi, beforeEach, afterEach, expect } from 'vitest';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { ToolExecutionContext } from '../plugins/plugin-interface.js';
 
 // Mock MCP SDK
 vi.mock('@modelcontextprotocol/sdk/server/index.js');
@@ -13,6 +14,7 @@ vi.mock('../tools/analyze-coverage.js');
 vi.mock('../tools/set-project-root.js');
 vi.mock('../config/config-loader.js');
 vi.mock('../plugins/index.js');
+vi.mock('../context/client-roots.js');
 
 describe('VitestMCPServer', () => {
   let mockServer: Server;
@@ -26,6 +28,9 @@ describe('VitestMCPServer', () => {
       onerror: null,
       onclose: null,
       setRequestHandler: vi.fn(),
+      setNotificationHandler: vi.fn(),
+      getClientCapabilities: vi.fn(),
+      listRoots: vi.fn(),
       connect: vi.fn()
     };
     vi.mocked(Server).mockReturnValue(mockServer);
@@ -99,6 +104,75 @@ describe('VitestMCPServer', () => {
       
       expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(4);
     });
+
+    it('should forward tool progress as notifications when the request has a progress token', async () => {
+      // Arrange
+      const mockToolRegistry = {
+        getTools: vi.fn().mockReturnValue([]),
+        execute: vi.fn(async (_name: string, _args: unknown, context?: ToolExecutionContext) => {
+          context?.reportProgress?.({ progress: 1, total: 2, message: '1/2 files' });
+          return { content: [] };
+        })
+      };
+      const { createStandardToolRegistry } = await import('../plugins/index.js');
+      vi.mocked(createStandardToolRegistry).mockReturnValue(mockToolRegistry);
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+      const { VitestMCPServer } = await import('../index.js');
+      new VitestMCPServer();
+      const callToolHandler = vi.mocked(mockServer.setRequestHandler).mock.calls
+        .find(([schema]) => schema === CallToolRequestSchema)![1];
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+      // Act
+      await callToolHandler(
+        { method: 'tools/call', params: { name: 'run_tests', arguments: {}, _meta: { progressToken: 'token-1' } } },
+        { sendNotification } as unknown as Parameters<typeof callToolHandler>[1]
+      );
+
+      // Assert
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'token-1', progress: 1, total: 2, message: '1/2 files' }
+      });
+    });
+  });
+
+  describe('Client Roots', () => {
+    it('should register the client roots once initialized and when they change', async () => {
+      // Arrange
+      const roots = [{ uri: 'file:///repos/web' }];
+      vi.mocked(mockServer.getClientCapabilities).mockReturnValue({ roots: { listChanged: true } });
+      vi.mocked(mockServer.listRoots).mockResolvedValue({ roots });
+      const { clientRoots } = await import('../context/client-roots.js');
+      const { RootsListChangedNotificationSchema } = await import('@modelcontextprotocol/sdk/types.js');
+      const { VitestMCPServer } = await import('../index.js');
+      new VitestMCPServer();
+      const rootsChangedHandler = vi.mocked(mockServer.setNotificationHandler).mock.calls
+        .find(([schema]) => schema === RootsListChangedNotificationSchema)![1];
+
+      // Act
+      mockServer.oninitialized!();
+      await vi.waitFor(() => expect(clientRoots.sync).toHaveBeenCalledTimes(1));
+      await rootsChangedHandler({ method: 'notifications/roots/list_changed' });
+
+      // Assert
+      expect(clientRoots.sync).toHaveBeenCalledTimes(2);
+      expect(clientRoots.sync).toHaveBeenCalledWith(roots);
+    });
+
+    it('should not ask for roots when the client does not support them', async () => {
+      // Arrange
+      vi.mocked(mockServer.getClientCapabilities).mockReturnValue({});
+      const { VitestMCPServer } = await import('../index.js');
+      new VitestMCPServer();
+
+      // Act
+      mockServer.oninitialized!();
+      await Promise.resolve();
+
+      // Assert
+      expect(mockServer.listRoots).not.toHaveBeenCalled();
+    });
   });
 
   describe('Tool Registration', () => {
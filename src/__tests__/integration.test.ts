@@ -714,7 +714,7 @@ describe('Integration Tests', () => {
       await newRegistry.execute('set_project_root', { path: mockProjectPath });
       
       // Assert
-      expect(tools).toHaveLength(4); // set_project_root, list_tests, run_tests, analyze_coverage
+      expect(tools).toHaveLength(12); // set_project_root, list_project_roots, list_tests, run_tests, analyze_coverage, run_affected_tests, detect_flaky, test_history, compare_coverage, audit_tests, list_projects, get_vitest_config
       expect(vi.mocked(getConfig)).toHaveBeenCalled();
     });
 
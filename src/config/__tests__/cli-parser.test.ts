@@ -67,6 +67,53 @@ describe('cli-parser', () => {
       });
     });
 
+    it('should parse watch mode flag', async () => {
+      // Arrange
+      const args = ['--watch-mode'];
+      
+      // Act
+      const result = await parseCliArgs(args);
+      
+      // Assert
+      expect(result).toEqual({
+        testDefaults: {
+          watchMode: true
+        }
+      });
+    });
+
+    it('should parse shard concurrency arguments', async () => {
+      // Arrange
+      const args = ['--shard-concurrency', '4'];
+      
+      // Act
+      const result = await parseCliArgs(args);
+      
+      // Assert
+      expect(result).toEqual({
+        testDefaults: {
+          shardConcurrency: 4
+        }
+      });
+    });
+
+    it('should parse history arguments', async () => {
+      // Arrange
+      const args = ['--no-history', '--history-max-records', '50'];
+      
+      // Act
+      const result = await parseCliArgs(args);
+      
+      // Assert
+      expect(result).toEqual({
+        history: {
+          enabled: false,
+          maxRecords: 50
+        }
+      });
+      expect(await parseCliArgs(['--history'])).toEqual({ history: { enabled: true } });
+    });
+
     it('should parse verbose flag', async () => {
       // Arrange
       const args = ['--verbose'];
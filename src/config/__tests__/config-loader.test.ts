@@ -6,7 +6,8 @@ import { homedir } from 'os';
 // Mock dependencies
 vi.mock('fs/promises');
 vi.mock('os', () => ({
-  homedir: vi.fn(() => '/home/user')
+  homedir: vi.fn(() => '/home/user'),
+  cpus: vi.fn(() => [{}, {}, {}, {}])
 }));
 vi.mock('../cli-parser');
 
@@ -43,6 +44,8 @@ describe('config-loader', () => {
     delete process.env.VITEST_MCP_CONFIG;
     delete process.env.VITEST_MCP_TEST_FORMAT;
     delete process.env.VITEST_MCP_TEST_TIMEOUT;
+    delete process.env.VITEST_MCP_SHARD_CONCURRENCY;
+    delete process.env.VITEST_MCP_HISTORY;
     delete process.env.VITEST_MCP_COVERAGE_THRESHOLD;
     delete process.env.VITEST_MCP_VERBOSE;
   });
@@ -129,6 +132,28 @@ describe('config-loader', () => {
       expect(config.testDefaults.format).toBe('detailed');
     });
 
+    it('should default shard concurrency to the CPU count and read it from environment variables', async () => {
+      // Act
+      const defaultConfig = await loadConfiguration([]);
+      process.env.VITEST_MCP_SHARD_CONCURRENCY = '2';
+      const config = await loadConfiguration([]);
+
+      // Assert
+      expect(defaultConfig.testDefaults.shardConcurrency).toBe(4);
+      expect(config.testDefaults.shardConcurrency).toBe(2);
+    });
+
+    it('should disable history by default and enable it from environment variables', async () => {
+      // Act
+      const defaultConfig = await loadConfiguration([]);
+      process.env.VITEST_MCP_HISTORY = 'true';
+      const config = await loadConfiguration([]);
+
+      // Assert
+      expect(defaultConfig.history).toEqual({ enabled: false, maxRecords: 200 });
+      expect(config.history.enabled).toBe(true);
+    });
+
     it.skip('should load coverage threshold from environment variables', async () => {
       // Arrange
       process.env.VITEST_MCP_COVERAGE_THRESHOLD = '90';
@@ -28,6 +28,19 @@ export async function parseCliArgs(args: string[]): Promise<Partial<VitestMCPCon
           i++;
         }
         break;
+
+      case '--watch-mode':
+        config.testDefaults = config.testDefaults || {};
+        config.testDefaults.watchMode = true;
+        break;
+
+      case '--shard-concurrency':
+        if (nextArg && !isNaN(parseInt(nextArg))) {
+          config.testDefaults = config.testDefaults || {};
+          config.testDefaults.shardConcurrency = parseInt(nextArg);
+          i++;
+        }
+        break;
         
       // Coverage defaults
       case '--coverage-format':
@@ -39,6 +52,25 @@ export async function parseCliArgs(args: string[]): Promise<Partial<VitestMCPCon
         break;
         
         
+      // History settings
+      case '--history':
+        config.history = config.history || {};
+        config.history.enabled = true;
+        break;
+
+      case '--no-history':
+        config.history = config.history || {};
+        config.history.enabled = false;
+        break;
+
+      case '--history-max-records':
+        if (nextArg && !isNaN(parseInt(nextArg))) {
+          config.history = config.history || {};
+          config.history.maxRecords = parseInt(nextArg);
+          i++;
+        }
+        break;
+
       // Server settings
       case '--verbose':
       case '-v':
@@ -132,10 +164,17 @@ Options:
   Test Defaults:
     --format <format>          Default test output format (summary|detailed)
     --timeout <ms>            Test execution timeout in milliseconds
+    --watch-mode              Keep a persistent Vitest session per project (Vitest 3.0+)
+    --shard-concurrency <n>   Maximum number of test shards run in parallel
 
   Coverage Defaults:
     --coverage-format <fmt>            Default coverage format (summary|detailed)
 
+  History:
+    --history                 Record results in .vitest-mcp/history.jsonl of each project
+    --no-history              Don't record results (default)
+    --history-max-records <n> Maximum number of history records per project
+
   Server Settings:
     -v, --verbose             Enable verbose logging
     -q, --quiet               Disable verbose logging
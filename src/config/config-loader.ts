@@ -1,6 +1,6 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { homedir } from 'os';
+import { cpus, homedir } from 'os';
 import { VitestMCPConfig, ResolvedVitestMCPConfig } from '../types/config-types.js';
 import { parseCliArgs, getConfigPathFromArgs } from './cli-parser.js';
 // Performance cache temporarily disabled for build compatibility
@@ -13,6 +13,7 @@ const DEFAULT_CONFIG: ResolvedVitestMCPConfig = {
     format: 'summary' as 'summary' | 'detailed',
     timeout: 30000,
     watchMode: false,
+    shardConcurrency: Math.max(1, cpus().length),
   },
   coverageDefaults: {
     format: 'summary',
@@ -30,9 +31,13 @@ const DEFAULT_CONFIG: ResolvedVitestMCPConfig = {
       '**/test-setup.*'
     ],
   },
+  history: {
+    enabled: false,
+    maxRecords: 200,
+  },
   discovery: {
     testPatterns: ['**/*.{test,spec}.{js,ts,jsx,tsx}'],
-    excludePatterns: ['node_modules', 'dist', 'coverage', '.git'],
+    excludePatterns: ['node_modules', 'dist', 'build', 'coverage', '.git'],
     maxDepth: 10,
   },
   server: {
@@ -200,6 +205,22 @@ function loadEnvironmentConfig(): Partial<VitestMCPConfig> {
     config.testDefaults = config.testDefaults || {};
     config.testDefaults.timeout = parseInt(process.env.VITEST_MCP_TEST_TIMEOUT, 10);
   }
+
+  if (process.env.VITEST_MCP_WATCH_MODE) {
+    config.testDefaults = config.testDefaults || {};
+    config.testDefaults.watchMode = process.env.VITEST_MCP_WATCH_MODE === 'true';
+  }
+
+  if (process.env.VITEST_MCP_SHARD_CONCURRENCY) {
+    config.testDefaults = config.testDefaults || {};
+    config.testDefaults.shardConcurrency = parseInt(process.env.VITEST_MCP_SHARD_CONCURRENCY, 10);
+  }
+
+  // History settings
+  if (process.env.VITEST_MCP_HISTORY) {
+    config.history = config.history || {};
+    config.history.enabled = process.env.VITEST_MCP_HISTORY === 'true';
+  }
   
   
   // Server settings
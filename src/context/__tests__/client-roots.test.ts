@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { clientRoots } from '../client-roots.js';
+import { projectContext } from '../project-context.js';
+import { getConfig } from '../../config/config-loader.js';
+import type { ResolvedVitestMCPConfig } from '../../types/config-types.js';
+
+vi.mock('../../config/config-loader.js');
+
+describe('clientRoots', () => {
+  let workspace: string;
+
+  async function createProject(name: string, options: { vitestConfig?: boolean } = {}): Promise<string> {
+    const path = join(workspace, name);
+    await mkdir(path, { recursive: true });
+    await writeFile(join(path, 'package.json'), JSON.stringify({ name }));
+    if (options.vitestConfig) {
+      await writeFile(join(path, 'vitest.config.ts'), 'export default {};');
+    }
+    return path;
+  }
+
+  function toRoot(path: string) {
+    return { uri: pathToFileURL(path).href };
+  }
+
+  function mockAllowedPaths(allowedPaths?: string[]) {
+    vi.mocked(getConfig).mockResolvedValue({ safety: { allowedPaths } } as ResolvedVitestMCPConfig);
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    projectContext.reset();
+    clientRoots.reset();
+    workspace = await mkdtemp(join(tmpdir(), 'client-roots-'));
+    mockAllowedPaths();
+  });
+
+  afterEach(async () => {
+    projectContext.reset();
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should register the client roots and activate the one with a Vitest config', async () => {
+    // Arrange
+    const docs = await createProject('docs');
+    const app = await createProject('app', { vitestConfig: true });
+
+    // Act
+    const result = await clientRoots.sync([toRoot(docs), toRoot(app), { uri: 'https://example.com/repo' }]);
+
+    // Assert
+    expect(result.registered).toEqual([docs, app]);
+    expect(result.selected).toBe(app);
+    expect(result.skipped).toEqual([
+      { uri: 'https://example.com/repo', reason: 'Only file:// roots can be project roots: https://example.com/repo' }
+    ]);
+    expect(projectContext.getProjectRoot()).toBe(app);
+    expect(projectContext.getProjectRoot('docs')).toBe(docs);
+  });
+
+  it('should skip roots outside safety.allowedPaths', async () => {
+    // Arrange
+    const app = await createProject('app', { vitestConfig: true });
+    mockAllowedPaths([join(workspace, 'allowed')]);
+
+    // Act
+    const result = await clientRoots.sync([toRoot(app)]);
+
+    // Assert
+    expect(result.registered).toEqual([]);
+    expect(result.skipped[0].reason).toContain('Access denied');
+    expect(projectContext.hasProjectRoot()).toBe(false);
+  });
+
+  it('should reselect when the client roots change', async () => {
+    // Arrange
+    const web = await createProject('web', { vitestConfig: true });
+    const api = await createProject('api', { vitestConfig: true });
+    await clientRoots.sync([toRoot(web)]);
+
+    // Act
+    const result = await clientRoots.sync([toRoot(api)]);
+
+    // Assert
+    expect(result.selected).toBe(api);
+    expect(projectContext.listProjectRoots()).toEqual([{ alias: 'api', path: api, active: true }]);
+  });
+
+  it('should keep a root the user set with set_project_root', async () => {
+    // Arrange
+    const web = await createProject('web', { vitestConfig: true });
+    const api = await createProject('api', { vitestConfig: true });
+    const other = await createProject('other');
+    await clientRoots.sync([toRoot(web)]);
+    await projectContext.setProjectRoot(other);
+
+    // Act
+    const result = await clientRoots.sync([toRoot(api)]);
+
+    // Assert
+    expect(result.selected).toBeNull();
+    expect(projectContext.getProjectRoot()).toBe(other);
+    expect(projectContext.listProjectRoots().map((root) => root.alias)).toEqual(['other', 'api']);
+  });
+});
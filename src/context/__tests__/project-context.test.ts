@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { projectContext } from '../project-context.js';
+
+describe('projectContext', () => {
+  let workspace: string;
+
+  async function createProject(...segments: string[]): Promise<string> {
+    const path = join(workspace, ...segments);
+    await mkdir(path, { recursive: true });
+    await writeFile(join(path, 'package.json'), JSON.stringify({ name: segments.join('-') }));
+    return path;
+  }
+
+  beforeEach(async () => {
+    projectContext.reset();
+    workspace = await mkdtemp(join(tmpdir(), 'project-context-'));
+  });
+
+  afterEach(async () => {
+    projectContext.reset();
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should register several roots and default to the last one set', async () => {
+    // Arrange
+    const web = await createProject('web');
+    const api = await createProject('api');
+
+    // Act
+    const webAlias = await projectContext.setProjectRoot(web);
+    const apiAlias = await projectContext.setProjectRoot(api);
+
+    // Assert
+    expect([webAlias, apiAlias]).toEqual(['web', 'api']);
+    expect(projectContext.getProjectRoot()).toBe(api);
+    expect(projectContext.getProjectRoot('web')).toBe(web);
+    expect(projectContext.getProjectRoot(`${web}/`)).toBe(web);
+    expect(projectContext.listProjectRoots()).toEqual([
+      { alias: 'web', path: web, active: false },
+      { alias: 'api', path: api, active: true }
+    ]);
+  });
+
+  it('should keep the active root when activate is false', async () => {
+    // Arrange
+    const web = await createProject('web');
+    const api = await createProject('api');
+    await projectContext.setProjectRoot(web);
+
+    // Act
+    await projectContext.setProjectRoot(api, { alias: 'backend', activate: false });
+
+    // Assert
+    expect(projectContext.getProjectRoot()).toBe(web);
+    expect(projectContext.getProjectRoot('backend')).toBe(api);
+    expect(projectContext.getProjectInfo('backend')).toEqual({ path: api, name: 'api', alias: 'backend' });
+  });
+
+  it('should number default aliases of directories with the same name', async () => {
+    // Arrange
+    const first = await createProject('one', 'app');
+    const second = await createProject('two', 'app');
+
+    // Act
+    const aliases = [
+      await projectContext.setProjectRoot(first),
+      await projectContext.setProjectRoot(second),
+      await projectContext.setProjectRoot(first)
+    ];
+
+    // Assert
+    expect(aliases).toEqual(['app', 'app-2', 'app']);
+    expect(projectContext.getProjectRoot()).toBe(first);
+  });
+
+  it('should rename a root registered again with another alias', async () => {
+    // Arrange
+    const web = await createProject('web');
+    await projectContext.setProjectRoot(web);
+
+    // Act
+    await projectContext.setProjectRoot(web, { alias: 'frontend' });
+
+    // Assert
+    expect(projectContext.listProjectRoots()).toEqual([{ alias: 'frontend', path: web, active: true }]);
+  });
+
+  it('should reject aliases in use, invalid aliases and unknown roots', async () => {
+    // Arrange
+    const web = await createProject('web');
+    const api = await createProject('api');
+    await projectContext.setProjectRoot(web);
+
+    // Act & Assert
+    await expect(projectContext.setProjectRoot(api, { alias: 'web' })).rejects.toThrow(
+      `Alias "web" is already used for ${web}`
+    );
+    await expect(projectContext.setProjectRoot(api, { alias: '../api' })).rejects.toThrow('Invalid alias "../api"');
+    expect(() => projectContext.getProjectRoot('api')).toThrow(
+      'Unknown project root "api" (registered: web). Use set_project_root to register it first.'
+    );
+    expect(() => projectContext.getProjectRoot(api)).toThrow('Unknown project root');
+  });
+});
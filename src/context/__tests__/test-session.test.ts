@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { testSession } from '../test-session.js';
+import type { ProcessedTestResult } from '../../tools/run-tests.js';
+
+function createResult(failedTests: Array<{ file: string; names: string[] }>): ProcessedTestResult {
+  return {
+    summary: 'test',
+    command: 'npx vitest run src',
+    success: failedTests.length === 0,
+    testSummary: { totalTests: 3, passed: 3 - failedTests.length, failed: failedTests.length },
+    format: 'detailed',
+    executionTimeMs: 10,
+    testResults: failedTests.length > 0 ? {
+      failedTests: failedTests.map(({ file, names }) => ({
+        file,
+        tests: names.map(testName => ({ testName, errorType: 'AssertionError', message: 'failed' }))
+      }))
+    } : undefined
+  };
+}
+
+describe('testSession', () => {
+  beforeEach(() => {
+    testSession.reset();
+  });
+
+  it('should record failed tests per project root', () => {
+    // Arrange
+    const result = createResult([
+      { file: '/project/src/a.test.ts', names: ['math adds', 'math adds'] },
+      { file: 'src/b.test.ts', names: ['strings trims'] }
+    ]);
+
+    // Act
+    testSession.recordResult('/project', result);
+
+    // Assert
+    expect(testSession.getFailedTests('/project')).toEqual([
+      { file: '/project/src/a.test.ts', testNames: ['math adds'] },
+      { file: '/project/src/b.test.ts', testNames: ['strings trims'] }
+    ]);
+    expect(testSession.getFailedTests('/other')).toEqual([]);
+  });
+
+  it('should replace previous failures with the latest run', () => {
+    // Arrange
+    testSession.recordResult('/project', createResult([{ file: '/project/a.test.ts', names: ['fails'] }]));
+
+    // Act
+    testSession.recordResult('/project', createResult([]));
+
+    // Assert
+    expect(testSession.hasRecordedRun('/project')).toBe(true);
+    expect(testSession.getFailedTests('/project')).toEqual([]);
+  });
+
+  it('should replace only the failures of files inside the run scope', () => {
+    // Arrange
+    testSession.recordResult('/project', createResult([
+      { file: '/project/src/a.test.ts', names: ['a'] },
+      { file: '/project/lib/c.test.ts', names: ['c'] }
+    ]));
+
+    // Act
+    testSession.recordResult('/project', createResult([{ file: '/project/lib/d.test.ts', names: ['d'] }]), {
+      paths: ['/project/lib']
+    });
+
+    // Assert
+    expect(testSession.getFailedTests('/project')).toEqual([
+      { file: '/project/src/a.test.ts', testNames: ['a'] },
+      { file: '/project/lib/d.test.ts', testNames: ['d'] }
+    ]);
+  });
+
+  it('should keep failures of tests excluded by the name filter', () => {
+    // Arrange
+    testSession.recordResult('/project', createResult([{ file: '/project/src/a.test.ts', names: ['math adds', 'math subtracts'] }]));
+
+    // Act
+    testSession.recordResult('/project', createResult([]), {
+      paths: ['/project/src/a.test.ts'],
+      testNamePattern: 'adds'
+    });
+
+    // Assert
+    expect(testSession.getFailedTests('/project')).toEqual([
+      { file: '/project/src/a.test.ts', testNames: ['math subtracts'] }
+    ]);
+  });
+
+  it('should limit failures to a target path', () => {
+    // Arrange
+    testSession.recordResult('/project', createResult([
+      { file: '/project/src/a.test.ts', names: ['a'] },
+      { file: '/project/srcs/b.test.ts', names: ['b'] }
+    ]));
+
+    // Act
+    const withinSrc = testSession.getFailedTests('/project', '/project/src');
+    const withinFile = testSession.getFailedTests('/project', '/project/src/a.test.ts');
+
+    // Assert
+    expect(withinSrc.map(record => record.file)).toEqual(['/project/src/a.test.ts']);
+    expect(withinFile).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vitestSessions } from '../vitest-session.js';
+import { loadVitestNode } from '../../utils/vitest-node-api.js';
+import type { TestModuleLike, VitestInstance } from '../../utils/vitest-node-api.js';
+
+vi.mock('../../utils/vitest-node-api.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/vitest-node-api.js')>();
+  return { ...actual, loadVitestNode: vi.fn() };
+});
+
+function createTestModule(moduleId: string, tests: Array<{ name: string; state: 'passed' | 'failed' }>): TestModuleLike {
+  const testModule: TestModuleLike = {
+    type: 'module',
+    moduleId,
+    project: { name: '' },
+    state: () => (tests.some(test => test.state === 'failed') ? 'failed' : 'passed'),
+    errors: () => [],
+    children: {
+      *allTests() {
+        const suite = { type: 'suite' as const, name: 'math', parent: testModule };
+        for (const test of tests) {
+          yield {
+            type: 'test' as const,
+            name: test.name,
+            parent: suite,
+            options: { mode: 'run' as const },
+            result: () => ({
+              state: test.state,
+              errors: test.state === 'failed' ? [{ message: 'expected 2 to be 3', stack: 'AssertionError: expected 2 to be 3' }] : undefined
+            }),
+            diagnostic: () => ({ duration: 5, startTime: 1000 })
+          };
+        }
+      }
+    }
+  };
+  return testModule;
+}
+
+function createVitestMock(testModules: TestModuleLike[]) {
+  const vitest = {
+    start: vi.fn(async () => ({ testModules, unhandledErrors: [] })),
+    getRelevantTestSpecifications: vi.fn(async (filters: string[]) =>
+      filters.map(filter => ({ moduleId: filter.replace(/:\d+$/, ''), project: { name: '' } }))
+    ),
+    runTestSpecifications: vi.fn(async () => ({ testModules, unhandledErrors: [] })),
+    setGlobalTestNamePattern: vi.fn(),
+    resetGlobalTestNamePattern: vi.fn(),
+    cancelCurrentRun: vi.fn(async () => {}),
+    onFilterWatchedSpecification: vi.fn(),
+    close: vi.fn(async () => {})
+  } satisfies VitestInstance;
+  return vitest;
+}
+
+describe('vitestSessions', () => {
+  beforeEach(() => {
+    vitestSessions.reset();
+    vi.clearAllMocks();
+  });
+
+  it('should create one session per project root and reuse it across runs', async () => {
+    // Arrange
+    const vitest = createVitestMock([createTestModule('/project/src/a.test.ts', [{ name: 'adds', state: 'passed' }])]);
+    const createVitest = vi.fn(async () => vitest);
+    vi.mocked(loadVitestNode).mockResolvedValue({ createVitest });
+
+    // Act
+    await vitestSessions.run('/project', { files: ['/project/src/a.test.ts'], timeout: 1000 });
+    await vitestSessions.run('/project', { files: ['/project/src/a.test.ts'], timeout: 1000 });
+
+    // Assert
+    expect(createVitest).toHaveBeenCalledTimes(1);
+    expect(createVitest).toHaveBeenCalledWith(
+      'test',
+      expect.objectContaining({ root: '/project', watch: true, includeTaskLocation: true }),
+      expect.any(Object),
+      expect.objectContaining({ stdout: expect.anything(), stderr: expect.anything() })
+    );
+    expect(vitest.onFilterWatchedSpecification).toHaveBeenCalled();
+    expect(vitest.runTestSpecifications).toHaveBeenCalledTimes(2);
+  });
+
+  it('should build a JSON reporter compatible report for the requested files only', async () => {
+    // Arrange
+    const vitest = createVitestMock([
+      createTestModule('/project/src/a.test.ts', [
+        { name: 'adds', state: 'passed' },
+        { name: 'fails', state: 'failed' }
+      ]),
+      createTestModule('/project/src/from-earlier-run.test.ts', [{ name: 'old', state: 'passed' }])
+    ]);
+    vi.mocked(loadVitestNode).mockResolvedValue({ createVitest: vi.fn(async () => vitest) });
+
+    // Act
+    const result = await vitestSessions.run('/project', {
+      files: ['/project/src/a.test.ts'],
+      testNamePattern: 'math',
+      timeout: 1000
+    });
+
+    // Assert
+    expect(vitest.setGlobalTestNamePattern).toHaveBeenCalledWith('math');
+    expect(result.report.success).toBe(false);
+    expect(result.report.numTotalTests).toBe(2);
+    expect(result.report.numFailedTests).toBe(1);
+    expect(result.report.testResults).toHaveLength(1);
+    expect(result.report.testResults[0].assertionResults[1]).toMatchObject({
+      ancestorTitles: ['math'],
+      fullName: 'math fails',
+      status: 'failed',
+      failureMessages: ['AssertionError: expected 2 to be 3']
+    });
+  });
+
+  it('should reset the test name pattern when none is given', async () => {
+    // Arrange
+    const vitest = createVitestMock([]);
+    vi.mocked(loadVitestNode).mockResolvedValue({ createVitest: vi.fn(async () => vitest) });
+
+    // Act
+    await vitestSessions.run('/project', { files: ['/project/src/a.test.ts'], timeout: 1000 });
+
+    // Assert
+    expect(vitest.resetGlobalTestNamePattern).toHaveBeenCalled();
+    expect(vitest.setGlobalTestNamePattern).not.toHaveBeenCalled();
+  });
+
+  it('should retry session creation after a failed start and close sessions on shutdown', async () => {
+    // Arrange
+    const vitest = createVitestMock([]);
+    vi.mocked(loadVitestNode)
+      .mockRejectedValueOnce(new Error('Vitest not found in project: /project'))
+      .mockResolvedValue({ createVitest: vi.fn(async () => vitest) });
+
+    // Act & Assert
+    await expect(
+      vitestSessions.run('/project', { files: ['/project/src/a.test.ts'], timeout: 1000 })
+    ).rejects.toThrow('Vitest not found');
+    await vitestSessions.run('/project', { files: ['/project/src/a.test.ts'], timeout: 1000 });
+    expect(vitestSessions.hasSession('/project')).toBe(true);
+
+    await vitestSessions.closeAll();
+    expect(vitest.close).toHaveBeenCalled();
+    expect(vitestSessions.hasSession('/project')).toBe(false);
+  });
+});
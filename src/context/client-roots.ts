@@ -0,0 +1,124 @@
+import { fileURLToPath } from "url";
+import { resolve } from "path";
+import { projectContext } from "./project-context.js";
+import { getConfig } from "../config/config-loader.js";
+import { hasVitestConfig } from "../utils/config-finder.js";
+import { validateAllowedPath } from "../utils/path-security.js";
+
+/**
+ * A workspace root advertised by the MCP client (roots/list)
+ */
+export interface ClientRoot {
+  uri: string;
+}
+
+export interface ClientRootsSyncResult {
+  /** Paths of the client roots registered as project roots */
+  registered: string[];
+  /** Client roots that are not valid or not allowed project roots */
+  skipped: Array<{ uri: string; reason: string }>;
+  /** Path of the root made active, if the active root was chosen from the client roots */
+  selected: string | null;
+}
+
+/**
+ * Registers the workspace roots advertised by the MCP client as project roots,
+ * so a session can start without set_project_root. The first root with a Vitest
+ * config becomes active unless the user has set another root themselves.
+ */
+class ClientRootsManager {
+  /** Project roots that were registered from the client roots */
+  private registeredPaths = new Set<string>();
+  /** Root activated by the last sync; the user switched away if the active root differs */
+  private selectedPath: string | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Register the client roots and select the active root. Roots registered by
+   * an earlier sync that the client no longer advertises are removed.
+   * Syncs run one at a time, in the order they were requested.
+   */
+  sync(roots: ClientRoot[]): Promise<ClientRootsSyncResult> {
+    const result = this.pending.then(() => this.applyRoots(roots));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Forget which roots came from the client (mainly for testing)
+   */
+  reset(): void {
+    this.registeredPaths.clear();
+    this.selectedPath = null;
+    this.pending = Promise.resolve();
+  }
+
+  private async applyRoots(roots: ClientRoot[]): Promise<ClientRootsSyncResult> {
+    const config = await getConfig();
+    const registered: string[] = [];
+    const skipped: ClientRootsSyncResult["skipped"] = [];
+    const withVitestConfig: string[] = [];
+
+    for (const root of roots) {
+      try {
+        const path = toPath(root.uri);
+        validateAllowedPath(path, config.safety?.allowedPaths);
+
+        const registeredByUser = projectContext.getProjectInfo(path) !== null && !this.registeredPaths.has(path);
+        await projectContext.setProjectRoot(path, { activate: false });
+        if (!registeredByUser) {
+          this.registeredPaths.add(path);
+        }
+
+        registered.push(path);
+        if (await hasVitestConfig(path)) {
+          withVitestConfig.push(path);
+        }
+      } catch (error) {
+        skipped.push({
+          uri: root.uri,
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    const userSelected = projectContext.hasProjectRoot() && projectContext.getProjectRoot() !== this.selectedPath;
+
+    for (const path of this.registeredPaths) {
+      if (registered.includes(path)) {
+        continue;
+      }
+      // Keep a root the user switched to, even if the client dropped it
+      if (userSelected && projectContext.getProjectRoot() === path) {
+        continue;
+      }
+      projectContext.removeProjectRoot(path);
+      this.registeredPaths.delete(path);
+    }
+
+    if (!userSelected) {
+      if (withVitestConfig.length > 0) {
+        await projectContext.setProjectRoot(withVitestConfig[0]);
+      }
+      this.selectedPath = projectContext.hasProjectRoot() ? projectContext.getProjectRoot() : null;
+    }
+
+    return {
+      registered,
+      skipped,
+      selected: userSelected ? null : this.selectedPath,
+    };
+  }
+}
+
+/**
+ * Absolute path of a file:// root URI
+ */
+function toPath(uri: string): string {
+  if (!uri.startsWith("file:")) {
+    throw new Error(`Only file:// roots can be project roots: ${uri}`);
+  }
+  return resolve(fileURLToPath(uri));
+}
+
+export const clientRoots = new ClientRootsManager();
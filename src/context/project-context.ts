@@ -1,20 +1,44 @@
 import { fileExists, isDirectory } from "../utils/file-utils.js";
-import { join } from "path";
+import { basename, isAbsolute, join, resolve } from "path";
 import { hasVitestConfig } from "../utils/config-finder.js";
 
+export interface ProjectRootOptions {
+  /** Name to refer to the root by in other tools; defaults to the directory name */
+  alias?: string;
+  /** Make this the default root of tools called without projectRoot (default true) */
+  activate?: boolean;
+}
+
+export interface ProjectRootInfo {
+  alias: string;
+  path: string;
+  active: boolean;
+}
+
+const ALIAS_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
 /**
- * Manages the project root context for the MCP server session
- * This ensures all tools operate on the correct repository
+ * Manages the project roots registered in the MCP server session
+ * This ensures all tools operate on the correct repository. Tools use the
+ * active root unless they are given the alias or path of another registered root.
  */
 class ProjectContextManager {
-  private projectRoot: string | null = null;
-  private isValidated: boolean = false;
+  /** Registered roots by alias, in registration order */
+  private roots = new Map<string, string>();
+  private activeAlias: string | null = null;
 
   /**
-   * Set the project root directory
+   * Register a project root directory
    * @param absolutePath - Must be an absolute path to a valid project directory
+   * @returns The alias of the root
    */
-  async setProjectRoot(absolutePath: string): Promise<void> {
+  async setProjectRoot(absolutePath: string, options: ProjectRootOptions = {}): Promise<string> {
+    if (options.alias !== undefined && !ALIAS_PATTERN.test(options.alias)) {
+      throw new Error(
+        `Invalid alias "${options.alias}". Use letters, digits, ".", "-" and "_", starting with a letter or digit.`
+      );
+    }
+
     if (!absolutePath.startsWith("/") && !absolutePath.match(/^[A-Z]:\\/)) {
       throw new Error(
         "Project root must be an absolute path (starting with / on Unix or drive letter on Windows)"
@@ -60,54 +84,158 @@ class ProjectContextManager {
       }
     }
 
-    this.projectRoot = absolutePath;
-    this.isValidated = true;
+    const alias = this.registerRoot(absolutePath, options.alias);
+    if (options.activate !== false) {
+      this.activeAlias = alias;
+    }
+    return alias;
   }
 
   /**
-   * Get the current project root
-   * @throws Error if project root has not been set
+   * Get a registered project root
+   * @param root - Alias or absolute path of a registered root; defaults to the active root
+   * @throws Error if no root has been set or root is not registered
    */
-  getProjectRoot(): string {
-    if (!this.projectRoot) {
+  getProjectRoot(root?: string): string {
+    if (root === undefined || root.trim() === "") {
+      if (this.activeAlias === null) {
+        throw new Error(
+          "Project root has not been set. Please use the set_project_root tool first to specify which repository to work with."
+        );
+      }
+      return this.roots.get(this.activeAlias)!;
+    }
+
+    const alias = this.findAlias(root.trim());
+    if (alias === undefined) {
+      const registered = [...this.roots.keys()].join(", ") || "none";
       throw new Error(
-        "Project root has not been set. Please use the set_project_root tool first to specify which repository to work with."
+        `Unknown project root "${root}" (registered: ${registered}). Use set_project_root to register it first.`
       );
     }
-    return this.projectRoot;
+    return this.roots.get(alias)!;
   }
 
   /**
    * Check if project root has been set
    */
   hasProjectRoot(): boolean {
-    return this.projectRoot !== null && this.isValidated;
+    return this.activeAlias !== null;
+  }
+
+  /**
+   * Registered roots in registration order
+   */
+  listProjectRoots(): ProjectRootInfo[] {
+    return [...this.roots].map(([alias, path]) => ({
+      alias,
+      path,
+      active: alias === this.activeAlias,
+    }));
   }
 
   /**
-   * Clear the project root (mainly for testing)
+   * Unregister a root. Removing the active root leaves no root active.
+   * @param root - Alias or absolute path of a registered root
+   */
+  removeProjectRoot(root: string): void {
+    const alias = this.findAlias(root);
+    if (alias === undefined) {
+      return;
+    }
+
+    this.roots.delete(alias);
+    if (this.activeAlias === alias) {
+      this.activeAlias = null;
+    }
+  }
+
+  /**
+   * Clear all project roots (mainly for testing)
    */
   reset(): void {
-    this.projectRoot = null;
-    this.isValidated = false;
+    this.roots.clear();
+    this.activeAlias = null;
   }
 
   /**
    * Get project info for display
+   * @param root - Alias or absolute path of a registered root; defaults to the active root
    */
-  getProjectInfo(): { path: string; name: string } | null {
-    if (!this.projectRoot) {
+  getProjectInfo(root?: string): { path: string; name: string; alias: string } | null {
+    const alias = root === undefined ? this.activeAlias : this.findAlias(root);
+    if (alias === null || alias === undefined) {
       return null;
     }
 
-    const parts = this.projectRoot.split("/").filter(Boolean);
+    const path = this.roots.get(alias)!;
+    const parts = path.split("/").filter(Boolean);
     const name = parts[parts.length - 1] || "unknown";
 
     return {
-      path: this.projectRoot,
+      path,
       name,
+      alias,
     };
   }
+
+  /**
+   * Add or update a root. Registering a path again keeps its alias unless a
+   * new one is given.
+   */
+  private registerRoot(path: string, requestedAlias?: string): string {
+    const existingAlias = this.findAlias(path);
+
+    if (requestedAlias !== undefined) {
+      const aliasPath = this.roots.get(requestedAlias);
+      if (aliasPath !== undefined && aliasPath !== path) {
+        throw new Error(
+          `Alias "${requestedAlias}" is already used for ${aliasPath}. Choose another alias.`
+        );
+      }
+      if (existingAlias !== undefined && existingAlias !== requestedAlias) {
+        this.roots.delete(existingAlias);
+        if (this.activeAlias === existingAlias) {
+          this.activeAlias = requestedAlias;
+        }
+      }
+      this.roots.set(requestedAlias, path);
+      return requestedAlias;
+    }
+
+    if (existingAlias !== undefined) {
+      return existingAlias;
+    }
+
+    const name = basename(path);
+    const baseAlias = ALIAS_PATTERN.test(name) ? name : "project";
+    let alias = baseAlias;
+    for (let suffix = 2; this.roots.has(alias); suffix++) {
+      alias = `${baseAlias}-${suffix}`;
+    }
+    this.roots.set(alias, path);
+    return alias;
+  }
+
+  /**
+   * Alias of a registered root, given its alias or absolute path
+   */
+  private findAlias(root: string): string | undefined {
+    if (this.roots.has(root)) {
+      return root;
+    }
+    if (!isAbsolute(root)) {
+      return undefined;
+    }
+
+    const path = resolve(root);
+    for (const [alias, registeredPath] of this.roots) {
+      if (registeredPath === path) {
+        return alias;
+      }
+    }
+    return undefined;
+  }
 }
 
 export const projectContext = new ProjectContextManager();
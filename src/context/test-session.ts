@@ -0,0 +1,107 @@
+import { isAbsolute, resolve } from "path";
+import type { ProcessedTestResult } from "../tools/run-tests.js";
+import { isWithin } from "../utils/path-utils.js";
+
+/**
+ * Failed tests of a single test file, as recorded from a run_tests result
+ */
+export interface FailedTestRecord {
+  file: string;
+  testNames: string[];
+}
+
+/**
+ * What a run covered: the test files and directories it ran and its test name filter
+ */
+export interface RunScope {
+  /** Absolute paths */
+  paths: string[];
+  testNamePattern?: string;
+}
+
+/**
+ * Remembers per-session test state for each project root,
+ * so follow-up calls can rerun exactly what failed last time
+ */
+class TestSessionManager {
+  private failedTests = new Map<string, FailedTestRecord[]>();
+
+  /**
+   * Record the failed tests of the latest run for a project root.
+   * Failures recorded earlier for files outside the run's scope, or for tests its
+   * name filter excluded, are kept; without a scope everything is replaced.
+   */
+  recordResult(projectRoot: string, result: ProcessedTestResult, scope?: RunScope): void {
+    const root = resolve(projectRoot);
+    const records = new Map<string, string[]>();
+
+    for (const record of this.failedTests.get(root) || []) {
+      const testNames = scope ? testNamesOutsideScope(record, scope) : [];
+      if (testNames.length > 0) {
+        records.set(record.file, testNames);
+      }
+    }
+
+    for (const entry of result.testResults?.failedTests || []) {
+      const testNames = entry.tests.map((test) => test.testName);
+      if (testNames.length === 0) {
+        continue;
+      }
+
+      const file = isAbsolute(entry.file) ? entry.file : resolve(projectRoot, entry.file);
+      records.set(file, [...new Set([...(records.get(file) || []), ...testNames])]);
+    }
+
+    this.failedTests.set(
+      root,
+      [...records].map(([file, testNames]) => ({ file, testNames }))
+    );
+  }
+
+  /**
+   * Get the failed tests recorded for a project root, optionally limited to a target path
+   */
+  getFailedTests(projectRoot: string, withinPath?: string): FailedTestRecord[] {
+    const records = this.failedTests.get(resolve(projectRoot)) || [];
+    if (!withinPath) {
+      return records;
+    }
+
+    return records.filter((record) => isWithin(withinPath, record.file));
+  }
+
+  /**
+   * Check whether a run has been recorded for a project root
+   */
+  hasRecordedRun(projectRoot: string): boolean {
+    return this.failedTests.has(resolve(projectRoot));
+  }
+
+  /**
+   * Clear all recorded state (mainly for testing)
+   */
+  reset(): void {
+    this.failedTests.clear();
+  }
+}
+
+export const testSession = new TestSessionManager();
+
+/**
+ * The recorded failed tests of a file that a run with the given scope did not run
+ */
+function testNamesOutsideScope(record: FailedTestRecord, scope: RunScope): string[] {
+  if (!scope.paths.some((path) => isWithin(path, record.file))) {
+    return record.testNames;
+  }
+  if (!scope.testNamePattern) {
+    return [];
+  }
+
+  try {
+    const pattern = new RegExp(scope.testNamePattern);
+    return record.testNames.filter((testName) => !pattern.test(testName));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,174 @@
+import { resolve } from "path";
+import {
+  buildJsonReport,
+  createRunCapture,
+  IN_PROCESS_VITE_OVERRIDES,
+  loadVitestNode,
+  runWithTimeout,
+  type InProcessRunOptions,
+  type InProcessRunResult,
+  type RunCapture,
+  type VitestInstance,
+} from "../utils/vitest-node-api.js";
+
+/**
+ * What to run on a persistent Vitest session
+ */
+export type SessionRunOptions = Omit<InProcessRunOptions, "coverage">;
+
+export type SessionRunResult = Omit<InProcessRunResult, "coverageMap">;
+
+interface VitestSession {
+  vitest: VitestInstance;
+  capture: RunCapture;
+  queue: Promise<unknown>;
+}
+
+/**
+ * Keeps one long-lived Vitest instance per project root, created through the
+ * Node API in watch mode so Vite's transform cache survives between runs.
+ * Runs on the same session are serialized.
+ */
+class VitestSessionManager {
+  private sessions = new Map<string, Promise<VitestSession>>();
+
+  /**
+   * Run the given files on the project's session, creating the session on first use
+   */
+  async run(projectRoot: string, options: SessionRunOptions): Promise<SessionRunResult> {
+    const session = await this.getSession(resolve(projectRoot));
+
+    const run = session.queue.then(() => this.runOnSession(session, options));
+    session.queue = run.catch(() => undefined);
+    return await run;
+  }
+
+  /**
+   * Check whether a session is open for a project root
+   */
+  hasSession(projectRoot: string): boolean {
+    return this.sessions.has(resolve(projectRoot));
+  }
+
+  /**
+   * Close the session of a single project root
+   */
+  async close(projectRoot: string): Promise<void> {
+    const key = resolve(projectRoot);
+    const pending = this.sessions.get(key);
+    this.sessions.delete(key);
+    if (!pending) {
+      return;
+    }
+
+    try {
+      const session = await pending;
+      await session.vitest.close();
+    } catch (error) {
+      if (process.env.VITEST_MCP_DEBUG) {
+        console.error(`[DEBUG] Failed to close Vitest session for ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close every open session (called on server shutdown)
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.sessions.keys()].map((projectRoot) => this.close(projectRoot)));
+  }
+
+  private getSession(projectRoot: string): Promise<VitestSession> {
+    let pending = this.sessions.get(projectRoot);
+    if (!pending) {
+      pending = this.createSession(projectRoot);
+      this.sessions.set(projectRoot, pending);
+      // Don't cache a failed start, so the next call can retry
+      pending.catch(() => this.sessions.delete(projectRoot));
+    }
+    return pending;
+  }
+
+  private async createSession(projectRoot: string): Promise<VitestSession> {
+    const { createVitest } = await loadVitestNode(projectRoot);
+    const capture = createRunCapture();
+
+    const vitest = await createVitest(
+      "test",
+      {
+        root: projectRoot,
+        watch: true,
+        reporters: [capture.reporter],
+        includeTaskLocation: true,
+        disableConsoleIntercept: false,
+      },
+      IN_PROCESS_VITE_OVERRIDES,
+      capture.streams
+    );
+
+    // Only run tests when asked to, never on file changes
+    vitest.onFilterWatchedSpecification?.(() => false);
+
+    if (process.env.VITEST_MCP_DEBUG) {
+      console.error(`[DEBUG] Started persistent Vitest session for ${projectRoot}`);
+    }
+
+    return { vitest, capture, queue: Promise.resolve() };
+  }
+
+  private async runOnSession(session: VitestSession, options: SessionRunOptions): Promise<SessionRunResult> {
+    const { vitest, capture } = session;
+    const startTime = Date.now();
+    capture.reset();
+
+    // Cancelled while waiting for an earlier run on this session
+    if (options.signal?.aborted) {
+      return { report: buildJsonReport([], startTime), logs: [], output: "", timedOut: false, cancelled: true };
+    }
+
+    capture.onProgress = options.onProgress;
+
+    let specifications = await vitest.getRelevantTestSpecifications(options.files);
+    if (options.project) {
+      specifications = specifications.filter((spec) => spec.project.name === options.project);
+    }
+
+    if (options.testNamePattern) {
+      vitest.setGlobalTestNamePattern(options.testNamePattern);
+    } else {
+      vitest.resetGlobalTestNamePattern();
+    }
+
+    const { result, timedOut, cancelled } = await runWithTimeout(
+      vitest,
+      options.timeout,
+      () => vitest.runTestSpecifications(specifications, false),
+      options.signal
+    );
+
+    // The session state holds modules from earlier runs as well
+    const moduleIds = new Set(specifications.map((spec) => spec.moduleId));
+    const report = buildJsonReport(
+      result.testModules.filter((testModule) => moduleIds.has(testModule.moduleId)),
+      startTime,
+      result.unhandledErrors
+    );
+
+    return {
+      report,
+      logs: [...capture.logs],
+      output: capture.output.join(""),
+      timedOut,
+      cancelled,
+    };
+  }
+
+  /**
+   * Drop all sessions without closing them (mainly for testing)
+   */
+  reset(): void {
+    this.sessions.clear();
+  }
+}
+
+export const vitestSessions = new VitestSessionManager();
@@ -24,12 +24,15 @@ import {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { createStandardToolRegistry } from "./plugins/index.js";
-import type { IToolRegistry } from "./plugins/plugin-interface.js";
+import type { IToolRegistry, ToolExecutionContext } from "./plugins/plugin-interface.js";
 import { getConfig } from "./config/config-loader.js";
 import { ResolvedVitestMCPConfig } from "./types/config-types.js";
+import { vitestSessions } from "./context/vitest-session.js";
+import { clientRoots } from "./context/client-roots.js";
 
 /**
  * Vitest MCP Server
@@ -63,6 +66,11 @@ export class VitestMCPServer {
       }
     };
 
+    // Pick up the project root from the workspace roots the client advertises
+    this.server.oninitialized = () => {
+      void this.syncClientRoots();
+    };
+
     this.toolRegistry = createStandardToolRegistry({
       debug: !!process.env.VITEST_MCP_DEBUG,
       getErrorHint: this.getErrorHint.bind(this),
@@ -91,10 +99,32 @@ export class VitestMCPServer {
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      
-      return await this.toolRegistry.execute(name, args);
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolExecutionContext = { signal: extra.signal };
+
+      // Only stream progress when the client asked for it
+      if (progressToken !== undefined) {
+        context.reportProgress = (progress) => {
+          extra
+            .sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, ...progress },
+            })
+            .catch((error) => {
+              if (process.env.VITEST_MCP_DEBUG) {
+                console.error("[DEBUG] Failed to send progress notification:", error);
+              }
+            });
+        };
+      }
+
+      return await this.toolRegistry.execute(name, args, context);
+    });
+
+    this.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      await this.syncClientRoots();
     });
 
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -134,6 +164,27 @@ export class VitestMCPServer {
     );
   }
 
+  /**
+   * Register the client's workspace roots as project roots, when the client supports roots
+   */
+  private async syncClientRoots(): Promise<void> {
+    if (!this.server.getClientCapabilities()?.roots) {
+      return;
+    }
+
+    try {
+      const { roots } = await this.server.listRoots();
+      const result = await clientRoots.sync(roots);
+      if (process.env.VITEST_MCP_DEBUG) {
+        console.error("[MCP] Client roots:", JSON.stringify(result));
+      }
+    } catch (error) {
+      if (process.env.VITEST_MCP_DEBUG) {
+        console.error("[DEBUG] Failed to read client roots:", error);
+      }
+    }
+  }
+
   /**
    * Provide helpful hints for common errors
    */
@@ -150,12 +201,18 @@ export class VitestMCPServer {
     if (error.includes("timeout")) {
       return "Operation timed out. Try running with a more specific target or increase the timeout in configuration.";
     }
-    if (error.includes("coverage provider")) {
-      return "Coverage provider not found. Run: npm install --save-dev @vitest/coverage-v8";
+    if (error.includes("coverage provider") || error.includes("@vitest/coverage-")) {
+      const providerPackage = error.match(/@vitest\/coverage-(?:v8|istanbul)/)?.[0];
+      return providerPackage
+        ? `Coverage provider not found. Run: npm install --save-dev ${providerPackage}`
+        : "Coverage provider not found. Install the provider set in your Vitest config: npm install --save-dev @vitest/coverage-v8 (or @vitest/coverage-istanbul)";
     }
     if (error.includes("test file") && error.includes("coverage")) {
       return "Coverage analysis should target source files, not test files. Specify the source file or directory being tested.";
     }
+    if (error.includes("Unknown project root")) {
+      return "Use list_project_roots to see the registered aliases, or call set_project_root to register the path first.";
+    }
     if (error.includes("project root")) {
       return "Project root not set. Call set_project_root first with the absolute path to your project.";
     }
@@ -225,6 +282,7 @@ async function gracefulShutdown(): Promise<void> {
   if (process.env.VITEST_MCP_DEBUG) {
     console.error("[MCP] Shutting down gracefully...");
   }
+  await vitestSessions.closeAll();
 }
 
 // Run main() when this module is executed
@@ -62,9 +62,17 @@ export * from './tool-plugins.js';
 import { ToolRegistry } from './tool-registry.js';
 import { 
   setProjectRootPlugin,
+  listProjectRootsPlugin,
   listTestsPlugin, 
   runTestsPlugin,
-  analyzeCoveragePlugin
+  analyzeCoveragePlugin,
+  runAffectedTestsPlugin,
+  detectFlakyPlugin,
+  testHistoryPlugin,
+  compareCoveragePlugin,
+  auditTestsPlugin,
+  listProjectsPlugin,
+  getVitestConfigPlugin
 } from './tool-plugins.js';
 
 /**
@@ -77,9 +85,17 @@ import {
  * ## Standard Plugins Included
  * 
  * - **set_project_root**: Sets the working directory for all operations
+ * - **list_project_roots**: Lists the registered project roots and the active one
  * - **list_tests**: Discovers test files in the project
  * - **run_tests**: Executes Vitest test suites with structured output
  * - **analyze_coverage**: Analyzes test coverage with gap insights
+ * - **run_affected_tests**: Runs only the tests affected by changed files
+ * - **detect_flaky**: Repeats test runs to find tests with inconsistent outcomes
+ * - **test_history**: Queries recorded test and coverage results over time
+ * - **compare_coverage**: Compares coverage between git refs or against a saved baseline
+ * - **audit_tests**: Finds leftover .only/.skip, empty tests and tests without assertions
+ * - **list_projects**: Lists the Vitest projects and workspace packages of a monorepo
+ * - **get_vitest_config**: Shows the effective Vitest config and which config file is used
  * 
  * ## Configuration Options
  * 
@@ -121,9 +137,17 @@ export function createStandardToolRegistry(config?: {
   
   // Register all standard plugins
   registry.register(setProjectRootPlugin);
+  registry.register(listProjectRootsPlugin);
   registry.register(listTestsPlugin);
   registry.register(runTestsPlugin);
   registry.register(analyzeCoveragePlugin);
+  registry.register(runAffectedTestsPlugin);
+  registry.register(detectFlakyPlugin);
+  registry.register(testHistoryPlugin);
+  registry.register(compareCoveragePlugin);
+  registry.register(auditTestsPlugin);
+  registry.register(listProjectsPlugin);
+  registry.register(getVitestConfigPlugin);
   
   return registry;
 }
\ No newline at end of file
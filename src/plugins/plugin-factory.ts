@@ -1,5 +1,5 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { ToolPlugin } from './plugin-interface.js';
+import { ToolHandler, ToolPlugin } from './plugin-interface.js';
 
 /**
  * JSON Schema validation result
@@ -221,7 +221,7 @@ export function createDetailedValidationFunction<T>(
  */
 export function createToolPlugin<TArgs, TResult>(
   tool: Tool,
-  handler: (args: TArgs) => Promise<TResult>,
+  handler: ToolHandler<TArgs, TResult>,
   customValidator?: (args: unknown) => args is TArgs
 ): ToolPlugin<TArgs, TResult> {
   // Use custom validator or create one from the tool's input schema
@@ -239,7 +239,7 @@ export function createToolPlugin<TArgs, TResult>(
  */
 export function createToolPluginWithValidation<TArgs, TResult>(
   tool: Tool,
-  handler: (args: TArgs) => Promise<TResult>,
+  handler: ToolHandler<TArgs, TResult>,
   customValidator?: (args: unknown) => args is TArgs
 ): ToolPlugin<TArgs, TResult> {
   // Use custom validator or create one from the tool's input schema
@@ -268,7 +268,7 @@ export function createToolPluginWithValidation<TArgs, TResult>(
 export function registerToolPlugins(
   plugins: Array<{
     tool: Tool;
-    handler: (args: unknown) => Promise<unknown>;
+    handler: ToolHandler<unknown, unknown>;
     validator?: (args: unknown) => args is unknown;
   }>
 ): ToolPlugin<unknown, unknown>[] {
@@ -282,7 +282,7 @@ export function registerToolPlugins(
  */
 export class ToolPluginBuilder<TArgs, TResult> {
   private _tool?: Tool;
-  private _handler?: (args: TArgs) => Promise<TResult>;
+  private _handler?: ToolHandler<TArgs, TResult>;
   private _validator?: (args: unknown) => args is TArgs;
 
   tool(tool: Tool): this {
@@ -290,7 +290,7 @@ export class ToolPluginBuilder<TArgs, TResult> {
     return this;
   }
 
-  handler(handler: (args: TArgs) => Promise<TResult>): this {
+  handler(handler: ToolHandler<TArgs, TResult>): this {
     this._handler = handler;
     return this;
   }
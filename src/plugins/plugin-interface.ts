@@ -80,10 +80,11 @@ export interface ToolPlugin<TArgs = unknown, TResult = unknown> {
    * of type TArgs and must return a Promise resolving to TResult.
    * 
    * @param args - Validated arguments matching the TArgs type
+   * @param context - Per-request execution context (progress reporting, cancellation)
    * @returns Promise resolving to the tool result of type TResult
    * @throws Should throw descriptive errors for invalid operations
    */
-  readonly handler: (args: TArgs) => Promise<TResult>;
+  readonly handler: ToolHandler<TArgs, TResult>;
   
   /** 
    * Optional runtime validation function to ensure type safety.
@@ -98,6 +99,42 @@ export interface ToolPlugin<TArgs = unknown, TResult = unknown> {
   readonly validate?: (args: unknown) => args is TArgs;
 }
 
+/**
+ * Progress update for a long-running tool call.
+ * 
+ * Mirrors the parameters of an MCP `notifications/progress` message, minus the
+ * progress token which the server fills in from the originating request.
+ */
+export interface ToolProgress {
+  /** Progress so far; must increase with every update */
+  progress: number;
+  /** Total amount of work, if known */
+  total?: number;
+  /** Human-readable description of the current progress */
+  message?: string;
+}
+
+/**
+ * Per-request context passed to tool handlers alongside their arguments.
+ * 
+ * Every field is optional, so handlers must keep working when a client
+ * does not ask for progress updates.
+ */
+export interface ToolExecutionContext {
+  /** Report progress to the client; only set when the request carried a progressToken */
+  reportProgress?: (progress: ToolProgress) => void;
+  /** Aborted when the client cancels the request (MCP `notifications/cancelled`) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Signature of a tool handler function
+ */
+export type ToolHandler<TArgs, TResult> = (
+  args: TArgs,
+  context?: ToolExecutionContext
+) => Promise<TResult>;
+
 /**
  * Result wrapper for plugin execution with comprehensive error handling.
  * 
@@ -213,7 +250,7 @@ export interface IToolRegistry {
   register<TArgs, TResult>(plugin: ToolPlugin<TArgs, TResult>): void;
   
   /** Execute a tool by name with type-safe validation */
-  execute(name: string, args: unknown): Promise<MCPToolResponse>;
+  execute(name: string, args: unknown, context?: ToolExecutionContext): Promise<MCPToolResponse>;
   
   /** Get all registered tools for MCP list tools request */
   getTools(): Tool[];
@@ -12,6 +12,13 @@ import {
   SetProjectRootResult,
 } from '../tools/set-project-root.js';
 
+import {
+  listProjectRootsTool,
+  handleListProjectRoots,
+  ListProjectRootsArgs,
+  ListProjectRootsResult,
+} from '../tools/list-project-roots.js';
+
 import {
   listTestsTool,
   handleListTests,
@@ -31,6 +38,55 @@ import {
   handleAnalyzeCoverage,
 } from '../tools/analyze-coverage.js';
 
+import {
+  runAffectedTestsTool,
+  handleRunAffectedTests,
+  RunAffectedTestsArgs,
+  RunAffectedTestsResult,
+} from '../tools/run-affected-tests.js';
+
+import {
+  detectFlakyTool,
+  handleDetectFlaky,
+  DetectFlakyArgs,
+  DetectFlakyResult,
+} from '../tools/detect-flaky.js';
+
+import {
+  testHistoryTool,
+  handleTestHistory,
+  TestHistoryArgs,
+  TestHistoryResult,
+} from '../tools/test-history.js';
+
+import {
+  compareCoverageTool,
+  handleCompareCoverage,
+  CompareCoverageArgs,
+  CompareCoverageResult,
+} from '../tools/compare-coverage.js';
+
+import {
+  auditTestsTool,
+  handleAuditTests,
+  AuditTestsArgs,
+  AuditTestsResult,
+} from '../tools/audit-tests.js';
+
+import {
+  listProjectsTool,
+  handleListProjects,
+  ListProjectsArgs,
+  ListProjectsResult,
+} from '../tools/list-projects.js';
+
+import {
+  getVitestConfigTool,
+  handleGetVitestConfig,
+  GetVitestConfigArgs,
+  GetVitestConfigResult,
+} from '../tools/get-vitest-config.js';
+
 import {
   AnalyzeCoverageArgs,
   ProcessedCoverageResult,
@@ -47,6 +103,16 @@ export const setProjectRootPlugin: ToolPlugin<SetProjectRootArgs, SetProjectRoot
     handleSetProjectRoot
   );
 
+/**
+ * List Project Roots Plugin
+ * Lists the project roots registered in the session and the active one
+ */
+export const listProjectRootsPlugin: ToolPlugin<ListProjectRootsArgs, ListProjectRootsResult> = 
+  createToolPlugin(
+    listProjectRootsTool,
+    handleListProjectRoots
+  );
+
 /**
  * List Tests Plugin  
  * Converts the existing list tests tool to plugin architecture
@@ -77,15 +143,92 @@ export const analyzeCoveragePlugin: ToolPlugin<AnalyzeCoverageArgs, ProcessedCov
     handleAnalyzeCoverage
   );
 
+/**
+ * Run Affected Tests Plugin
+ * Runs only the tests that import files changed according to git
+ */
+export const runAffectedTestsPlugin: ToolPlugin<RunAffectedTestsArgs, RunAffectedTestsResult> = 
+  createToolPlugin(
+    runAffectedTestsTool,
+    handleRunAffectedTests
+  );
+
+/**
+ * Detect Flaky Plugin
+ * Repeats a test run and reports tests with inconsistent outcomes
+ */
+export const detectFlakyPlugin: ToolPlugin<DetectFlakyArgs, DetectFlakyResult> = 
+  createToolPlugin(
+    detectFlakyTool,
+    handleDetectFlaky
+  );
+
+/**
+ * Test History Plugin
+ * Answers trend questions from the recorded test and coverage history
+ */
+export const testHistoryPlugin: ToolPlugin<TestHistoryArgs, TestHistoryResult> = 
+  createToolPlugin(
+    testHistoryTool,
+    handleTestHistory
+  );
+
+/**
+ * Compare Coverage Plugin
+ * Reports coverage deltas between two git refs or a saved baseline and the working tree
+ */
+export const compareCoveragePlugin: ToolPlugin<CompareCoverageArgs, CompareCoverageResult> = 
+  createToolPlugin(
+    compareCoverageTool,
+    handleCompareCoverage
+  );
+
+/**
+ * Audit Tests Plugin
+ * Reports leftover .only/.skip, empty tests and tests without assertions
+ */
+export const auditTestsPlugin: ToolPlugin<AuditTestsArgs, AuditTestsResult> = 
+  createToolPlugin(
+    auditTestsTool,
+    handleAuditTests
+  );
+
+/**
+ * List Projects Plugin
+ * Lists the Vitest projects and workspace packages of a monorepo
+ */
+export const listProjectsPlugin: ToolPlugin<ListProjectsArgs, ListProjectsResult> = 
+  createToolPlugin(
+    listProjectsTool,
+    handleListProjects
+  );
+
+/**
+ * Get Vitest Config Plugin
+ * Shows the effective test and coverage settings and which config file is used
+ */
+export const getVitestConfigPlugin: ToolPlugin<GetVitestConfigArgs, GetVitestConfigResult> = 
+  createToolPlugin(
+    getVitestConfigTool,
+    handleGetVitestConfig
+  );
 
 /**
  * Array of all available plugins for batch registration
  */
 export const allToolPlugins = [
   setProjectRootPlugin,
+  listProjectRootsPlugin,
   listTestsPlugin,
   runTestsPlugin,
   analyzeCoveragePlugin,
+  runAffectedTestsPlugin,
+  detectFlakyPlugin,
+  testHistoryPlugin,
+  compareCoveragePlugin,
+  auditTestsPlugin,
+  listProjectsPlugin,
+  getVitestConfigPlugin,
 ] as const;
 
 /**
@@ -93,9 +236,17 @@ export const allToolPlugins = [
  */
 export const toolPluginMap = {
   set_project_root: setProjectRootPlugin,
+  list_project_roots: listProjectRootsPlugin,
   list_tests: listTestsPlugin,
   run_tests: runTestsPlugin,
   analyze_coverage: analyzeCoveragePlugin,
+  run_affected_tests: runAffectedTestsPlugin,
+  detect_flaky: detectFlakyPlugin,
+  test_history: testHistoryPlugin,
+  compare_coverage: compareCoveragePlugin,
+  audit_tests: auditTestsPlugin,
+  list_projects: listProjectsPlugin,
+  get_vitest_config: getVitestConfigPlugin,
 } as const;
 
 /**
@@ -6,6 +6,7 @@ import {
   MCPToolResponse,
   PluginExecutionConfig,
   PluginValidationError,
+  ToolExecutionContext,
 } from './plugin-interface.js';
 
 /**
@@ -43,7 +44,11 @@ export class ToolRegistry implements IToolRegistry {
   /**
    * Execute a tool by name with type-safe validation and error handling
    */
-  async execute(name: string, args: unknown): Promise<MCPToolResponse> {
+  async execute(
+    name: string,
+    args: unknown,
+    context: ToolExecutionContext = {}
+  ): Promise<MCPToolResponse> {
     const plugin = this.plugins.get(name);
     
     if (!plugin) {
@@ -75,7 +80,7 @@ export class ToolRegistry implements IToolRegistry {
 
       // Execute the plugin handler
       const startTime = Date.now();
-      const result = await plugin.handler(args);
+      const result = await plugin.handler(args, context);
       const duration = Date.now() - startTime;
 
       if (this.config.debug) {
@@ -148,12 +153,18 @@ export class ToolRegistry implements IToolRegistry {
     if (error.includes("timeout")) {
       return "Operation timed out. Try running with a more specific target or increase the timeout in configuration.";
     }
-    if (error.includes("coverage provider")) {
-      return "Coverage provider not found. Run: npm install --save-dev @vitest/coverage-v8";
+    if (error.includes("coverage provider") || error.includes("@vitest/coverage-")) {
+      const providerPackage = error.match(/@vitest\/coverage-(?:v8|istanbul)/)?.[0];
+      return providerPackage
+        ? `Coverage provider not found. Run: npm install --save-dev ${providerPackage}`
+        : "Coverage provider not found. Install the provider set in your Vitest config: npm install --save-dev @vitest/coverage-v8 (or @vitest/coverage-istanbul)";
     }
     if (error.includes("test file") && error.includes("coverage")) {
       return "Coverage analysis should target source files, not test files. Specify the source file or directory being tested.";
     }
+    if (error.includes("Unknown project root")) {
+      return "Use list_project_roots to see the registered aliases, or call set_project_root to register the path first.";
+    }
     if (error.includes("project root")) {
       return "Project root not set. Call set_project_root first with the absolute path to your project.";
     }
@@ -14,6 +14,10 @@ vi.mock('../../config/config-loader.js');
 vi.mock('../../utils/version-checker.js');
 vi.mock('../../context/project-context.js');
 vi.mock('fs/promises');
+vi.mock('../../utils/vitest-config-reader.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/vitest-config-reader.js')>()),
+  getVitestCoverageThresholds: vi.fn(() => Promise.resolve(null))
+}));
 
 describe('analyze-coverage (CJS warning handling)', () => {
   let mockChildProcess: any;
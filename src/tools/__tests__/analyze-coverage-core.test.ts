@@ -5,8 +5,13 @@ import * as fileUtils from '../../utils/file-utils.js';
 import * as configLoader from '../../config/config-loader.js';
 import * as versionChecker from '../../utils/version-checker.js';
 import * as coverageProcessor from '../../utils/coverage-processor.js';
+import { runVitestInProcess } from '../../utils/vitest-node-api.js';
+import { getDiff } from '../../utils/git-utils.js';
 import { spawn } from 'child_process';
-import { readFile } from 'fs/promises';
+import { readFile, writeFile } from 'fs/promises';
+import type { VitestJsonResult } from '../../utils/output-processor.js';
+import type { CoverageAnalysisResult } from '../../types/coverage-types.js';
+import type { CoverageProviderName } from '../../utils/vitest-config-reader.js';
 
 // Mock modules
 vi.mock('../../context/project-context.js');
@@ -14,9 +19,13 @@ vi.mock('../../utils/file-utils.js');
 vi.mock('../../config/config-loader.js');
 vi.mock('../../utils/version-checker.js');
 vi.mock('../../utils/coverage-processor.js');
+vi.mock('../../utils/vitest-node-api.js');
+vi.mock('../../utils/git-utils.js');
 vi.mock('child_process');
 vi.mock('fs/promises');
 
+type VersionCheck = Awaited<ReturnType<typeof versionChecker.checkAllVersions>>;
+
 describe('analyze-coverage (core functionality)', () => {
   // Helper function to create proper spawn mock with JSON output
   const createSpawnMock = (outputData: any = null, exitCode: number = 0) => {
@@ -690,6 +699,16 @@ describe('analyze-coverage (core functionality)', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Run coverage analysis on the source file, not the test file');
     });
+
+    it('should reject an unknown coverage provider', async () => {
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts', provider: 'c8' as unknown as CoverageProviderName });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid provider "c8". Use "v8" or "istanbul".');
+      expect(versionChecker.checkAllVersions).not.toHaveBeenCalled();
+    });
   });
 
   describe('Integration', () => {
@@ -805,4 +824,190 @@ describe('analyze-coverage (core functionality)', () => {
       expect(spawnArgs.some(arg => arg.includes('**/*.stories.*'))).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('In-Process Execution', () => {
+    const coverageMap = {
+      '/test/project/src/file.ts': {
+        path: '/test/project/src/file.ts',
+        s: { '0': 1, '1': 0 },
+        f: { '0': 1 },
+        b: {},
+        statementMap: { '0': { start: { line: 1 } }, '1': { start: { line: 2 } } },
+        fnMap: { '0': { name: 'testFunction', decl: { start: { line: 1 } } } },
+        branchMap: {}
+      },
+      '/test/project/src/file.test.ts': {
+        path: '/test/project/src/file.test.ts',
+        s: { '0': 1 }, f: {}, b: {},
+        statementMap: { '0': { start: { line: 1 } } }, fnMap: {}, branchMap: {}
+      }
+    };
+
+    beforeEach(() => {
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        vitest: { supportedFeatures: ['coverage', 'nodeApi'] },
+        coverageProvider: { version: '3.2.4' }
+      } as unknown as VersionCheck);
+      vi.mocked(runVitestInProcess).mockResolvedValue({
+        report: { success: true } as unknown as VitestJsonResult,
+        logs: ['[stdout] { not json'],
+        output: '',
+        timedOut: false,
+        coverageMap
+      });
+      vi.mocked(coverageProcessor.processCoverageData).mockResolvedValue({
+        summary: '⚠️ Coverage: 50% lines, 100% functions, 0% branches',
+        success: true,
+        coverage: { lines: 50, functions: 100, branches: 0, statements: 50 },
+        totals: { lines: 2, functions: 1, branches: 0 },
+        command: '',
+        duration: 0
+      } as unknown as CoverageAnalysisResult);
+    });
+
+    it('should use the coverage map from the Node API instead of parsing stdout', async () => {
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts' });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(runVitestInProcess).toHaveBeenCalledWith('/test/project', expect.objectContaining({
+        files: ['/test/project/src/file.test.ts'],
+        timeout: 60000,
+        coverage: expect.objectContaining({ enabled: true, exclude: expect.any(Array) })
+      }));
+      const rawCoverage = vi.mocked(coverageProcessor.processCoverageData).mock.calls[0][0];
+      expect(Object.keys(rawCoverage.files)).toEqual(['/test/project/src/file.ts']);
+      expect(rawCoverage.summary.statements).toMatchObject({ total: 2, covered: 1 });
+      expect(result.command).toContain('npx vitest run');
+      expect(result.command).toContain('src/file.test.ts');
+    });
+
+    it('should check and run the requested coverage provider', async () => {
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts', provider: 'istanbul' });
+
+      // Assert
+      expect(versionChecker.checkAllVersions).toHaveBeenCalledWith('/test/project', { provider: 'istanbul' });
+      expect(runVitestInProcess).toHaveBeenCalledWith('/test/project', expect.objectContaining({
+        coverage: expect.objectContaining({ provider: 'istanbul' })
+      }));
+      expect(result.command).toContain('--coverage.provider=istanbul');
+    });
+
+    it('should report a timeout from an in-process run', async () => {
+      // Arrange
+      vi.mocked(runVitestInProcess).mockResolvedValue({
+        report: { success: false } as unknown as VitestJsonResult,
+        logs: [],
+        output: '',
+        timedOut: true
+      });
+      vi.mocked(fileUtils.fileExists).mockImplementation(async (path: string) => !path.endsWith('coverage-final.json'));
+
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('timed out');
+    });
+
+    it('should return a cancelled result when the client cancels the analysis', async () => {
+      // Arrange
+      const controller = new AbortController();
+      vi.mocked(runVitestInProcess).mockImplementation(async (_root, options) => {
+        controller.abort();
+        return {
+          report: { success: false } as unknown as VitestJsonResult,
+          logs: [],
+          output: '',
+          timedOut: false,
+          cancelled: options.signal?.aborted ?? false
+        };
+      });
+
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts' }, { signal: controller.signal });
+
+      // Assert
+      expect(result).toMatchObject({ success: false, cancelled: true, summary: expect.stringContaining('cancelled') });
+      expect(coverageProcessor.processCoverageData).not.toHaveBeenCalled();
+    });
+
+    it('should report coverage of the lines changed in a given diff', async () => {
+      // Arrange
+      vi.mocked(readFile).mockResolvedValue('export const covered = 1;\nexport const uncovered = 2;\n');
+      const diff = [
+        'diff --git a/src/file.ts b/src/file.ts',
+        '--- a/src/file.ts',
+        '+++ b/src/file.ts',
+        '@@ -0,0 +1,2 @@',
+        '+export const covered = 1;',
+        '+export const uncovered = 2;'
+      ].join('\n');
+
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts', patchCoverage: { diff } });
+
+      // Assert
+      expect(getDiff).not.toHaveBeenCalled();
+      expect(result.patchCoverage).toEqual({
+        percentage: 50,
+        changedLines: 2,
+        coveredLines: 1,
+        files: [{
+          file: 'src/file.ts',
+          changedLines: 2,
+          coveredLines: 1,
+          percentage: 50,
+          uncovered: [{ line: 2, source: 'export const uncovered = 2;' }]
+        }]
+      });
+      expect(result.summary).toContain('; patch: 50% of 2 changed line(s) covered');
+    });
+
+    it('should diff the working tree against the given ref before running coverage', async () => {
+      // Arrange
+      vi.mocked(getDiff).mockResolvedValue('');
+
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts', patchCoverage: { base: 'main' } });
+
+      // Assert
+      expect(getDiff).toHaveBeenCalledWith('/test/project', 'main');
+      expect(vi.mocked(getDiff).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(runVitestInProcess).mock.invocationCallOrder[0]);
+      expect(result.patchCoverage).toMatchObject({ base: 'main', changedLines: 0, percentage: 100 });
+      expect(result.summary).toContain('; patch: no changed lines to cover');
+    });
+
+    it('should export the coverage of the run to the requested files', async () => {
+      // Act
+      const result = await handleAnalyzeCoverage({
+        target: './src/file.ts',
+        export: [{ format: 'lcov' }, { format: 'cobertura', path: 'reports/coverage.xml' }]
+      });
+
+      // Assert
+      expect(writeFile).toHaveBeenCalledWith('/test/project/coverage/lcov.info', expect.stringContaining('SF:/test/project/src/file.ts'), 'utf-8');
+      expect(writeFile).toHaveBeenCalledWith('/test/project/reports/coverage.xml', expect.stringContaining('<class name="file.ts" filename="src/file.ts"'), 'utf-8');
+      expect(result.exports).toEqual([
+        { format: 'lcov', path: 'coverage/lcov.info' },
+        { format: 'cobertura', path: 'reports/coverage.xml' }
+      ]);
+      expect(result.summary).toContain('; exported lcov to coverage/lcov.info, cobertura to reports/coverage.xml');
+    });
+
+    it('should reject an export path outside the project before running coverage', async () => {
+      // Act
+      const result = await handleAnalyzeCoverage({ target: './src/file.ts', export: [{ format: 'lcov', path: '../lcov.info' }] });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid export path "../lcov.info"');
+      expect(runVitestInProcess).not.toHaveBeenCalled();
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+  });
+});
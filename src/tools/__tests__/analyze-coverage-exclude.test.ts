@@ -77,6 +77,17 @@ vi.mock('child_process', () => ({
   spawn: vi.fn(),
 }));
 
+vi.mock('../../utils/history-store.js', () => ({
+  historyStore: {
+    recordCoverage: vi.fn(),
+    recordTestRun: vi.fn(),
+  },
+}));
+
+vi.mock('../../utils/git-utils.js', () => ({
+  getDiff: vi.fn(),
+}));
+
 describe('analyze-coverage exclude patterns', () => {
   beforeEach(() => {
     vi.clearAllMocks();
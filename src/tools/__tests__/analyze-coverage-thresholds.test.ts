@@ -137,8 +137,8 @@ describe("analyze-coverage threshold detection", () => {
     });
     vi.mocked(vitestConfigReader.checkThresholdsMet).mockReturnValue(false);
     vi.mocked(vitestConfigReader.getThresholdViolations).mockReturnValue([
-      "Line coverage (50%) is below threshold (80%)",
-      "Function coverage (50%) is below threshold (80%)"
+      { metric: "lines", actual: 50, required: 80, file: null, glob: null, message: "Coverage for lines (50%) does not meet global threshold (80%)" },
+      { metric: "functions", actual: 50, required: 80, file: null, glob: null, message: "Coverage for functions (50%) does not meet global threshold (80%)" }
     ]);
 
     // Mock spawn to simulate failed threshold check
@@ -178,8 +178,8 @@ describe("analyze-coverage threshold detection", () => {
     expect(result.success).toBe(true); // Coverage ran successfully
     expect(result.meetsThreshold).toBe(false); // But thresholds were not met
     expect(result.thresholdViolations).toEqual([
-      "Line coverage (50%) is below threshold (80%)",
-      "Function coverage (50%) is below threshold (80%)"
+      { metric: "lines", actual: 50, required: 80, file: null, glob: null, message: "Coverage for lines (50%) does not meet global threshold (80%)" },
+      { metric: "functions", actual: 50, required: 80, file: null, glob: null, message: "Coverage for functions (50%) does not meet global threshold (80%)" }
     ]);
     expect(result.coverage.lines).toBe(50);
     expect(result.coverage.functions).toBe(50);
@@ -238,7 +238,7 @@ describe("analyze-coverage threshold detection", () => {
     });
     vi.mocked(vitestConfigReader.checkThresholdsMet).mockReturnValue(false);
     vi.mocked(vitestConfigReader.getThresholdViolations).mockReturnValue([
-      "Line coverage (33%) is below threshold (80%)"
+      { metric: "lines", actual: 33, required: 80, file: null, glob: null, message: "Coverage for lines (33%) does not meet global threshold (80%)" }
     ]);
 
     const mockProcess = new EventEmitter() as ChildProcess;
@@ -282,7 +282,7 @@ describe("analyze-coverage threshold detection", () => {
     expect(result.success).toBe(true);
     expect(result.meetsThreshold).toBe(false);
     expect(result.thresholdViolations).toEqual([
-      "Line coverage (33%) is below threshold (80%)"
+      { metric: "lines", actual: 33, required: 80, file: null, glob: null, message: "Coverage for lines (33%) does not meet global threshold (80%)" }
     ]);
     // In detailed format, uncovered items would be populated if the file was accessible
     // The key point is that meetsThreshold correctly reflects the threshold comparison
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { auditTestsTool, handleAuditTests } from '../audit-tests.js';
+import { projectContext } from '../../context/project-context.js';
+import { findTestFiles } from '../../utils/file-utils.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/file-utils.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/file-utils.js')>()),
+  findTestFiles: vi.fn()
+}));
+
+const FOCUSED_TEST = [
+  "import { describe, it, expect } from 'vitest';",
+  '',
+  "describe('math', () => {",
+  "  it.only('adds', () => {",
+  '    expect(1 + 1).toBe(2);',
+  '  });',
+  "  it.skip('subtracts', () => {",
+  '    expect(2 - 1).toBe(1);',
+  '  });',
+  "  xit('multiplies', () => {",
+  '    expect(2 * 2).toBe(4);',
+  '  });',
+  '});'
+].join('\n');
+
+const WEAK_TEST = [
+  "describe('format', () => {",
+  "  it('pads', () => {});",
+  "  it('trims', () => {",
+  "    format(' a ');",
+  '  });',
+  "  it.todo('wraps');",
+  "  describe('dates', () => {});",
+  '});'
+].join('\n');
+
+describe('audit-tests', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    projectRoot = await mkdtemp(join(tmpdir(), 'audit-tests-'));
+    await writeFile(join(projectRoot, 'math.test.ts'), FOCUSED_TEST);
+    await writeFile(join(projectRoot, 'format.test.ts'), WEAK_TEST);
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue(projectRoot);
+    vi.mocked(findTestFiles).mockResolvedValue([
+      { path: join(projectRoot, 'format.test.ts'), relativePath: 'format.test.ts', type: 'unknown' },
+      { path: join(projectRoot, 'math.test.ts'), relativePath: 'math.test.ts', type: 'unknown' }
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should expose path and kinds options', () => {
+    // Assert
+    expect(auditTestsTool.name).toBe('audit_tests');
+    expect(auditTestsTool.inputSchema.properties).toHaveProperty('path');
+    expect(auditTestsTool.inputSchema.properties).toHaveProperty('kinds');
+  });
+
+  it('should report focused, skipped and weak tests with file and line', async () => {
+    // Act
+    const result = await handleAuditTests({});
+
+    // Assert
+    expect(findTestFiles).toHaveBeenCalledWith(projectRoot, { root: projectRoot });
+    expect(result.filesScanned).toBe(2);
+    expect(result.findings.map(({ file, line, kind, severity, testName }) => ({ file, line, kind, severity, testName }))).toEqual([
+      { file: 'format.test.ts', line: 2, kind: 'empty-test', severity: 'warning', testName: 'format > pads' },
+      { file: 'format.test.ts', line: 3, kind: 'no-assertions', severity: 'warning', testName: 'format > trims' },
+      { file: 'format.test.ts', line: 6, kind: 'todo', severity: 'info', testName: 'format > wraps' },
+      { file: 'format.test.ts', line: 7, kind: 'empty-describe', severity: 'warning', testName: 'format > dates' },
+      { file: 'math.test.ts', line: 4, kind: 'only', severity: 'error', testName: 'math > adds' },
+      { file: 'math.test.ts', line: 7, kind: 'skip', severity: 'warning', testName: 'math > subtracts' },
+      { file: 'math.test.ts', line: 10, kind: 'x-prefix', severity: 'warning', testName: 'math > multiplies' }
+    ]);
+    expect(result.findings[4].message).toBe('it.only focuses this test: every other test in the file is skipped');
+    expect(result.counts).toEqual({
+      only: 1, skip: 1, todo: 1, 'x-prefix': 1, 'empty-test': 1, 'no-assertions': 1, 'empty-describe': 1
+    });
+    expect(result.summary).toBe(
+      '7 finding(s) in 2 of 2 test file(s): 1 only, 1 skip, 1 todo, 1 x-prefix, 1 empty-test, 1 no-assertions, 1 empty-describe; .only is left in the code, so other tests in those files do not run'
+    );
+  });
+
+  it('should only report the requested kinds', async () => {
+    // Act
+    const result = await handleAuditTests({ kinds: ['only'] });
+
+    // Assert
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ file: 'math.test.ts', kind: 'only' });
+  });
+
+  it('should reject unknown kinds', async () => {
+    // Act & Assert
+    await expect(handleAuditTests({ kinds: ['focus' as 'only'] })).rejects.toThrow('Invalid kinds: focus.');
+  });
+
+  it('should audit the registered root given as projectRoot', async () => {
+    // Act
+    const result = await handleAuditTests({ projectRoot: 'web', kinds: ['only'] });
+
+    // Assert
+    expect(projectContext.getProjectRoot).toHaveBeenCalledWith('web');
+    expect(result.projectRoot).toBe(projectRoot);
+  });
+
+  it('should report unknown project roots', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Unknown project root "api" (registered: web). Use set_project_root to register it first.');
+    });
+
+    // Act & Assert
+    await expect(handleAuditTests({ projectRoot: 'api' })).rejects.toThrow('Unknown project root "api"');
+  });
+
+  it('should require set_project_root', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Project root has not been set');
+    });
+
+    // Act & Assert
+    await expect(handleAuditTests({})).rejects.toThrow('Please call set_project_root first');
+  });
+});
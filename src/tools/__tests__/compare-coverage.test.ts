@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { handleCompareCoverage, compareCoverageTool } from '../compare-coverage.js';
+import { analyzeCoverageWithOptions } from '../analyze-coverage.js';
+import { projectContext } from '../../context/project-context.js';
+import { createWorktree } from '../../utils/git-utils.js';
+import { historyStore } from '../../utils/history-store.js';
+import type { CoverageAnalysisResult } from '../../types/coverage-types.js';
+
+vi.mock('../analyze-coverage.js');
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/git-utils.js');
+vi.mock('../../utils/history-store.js');
+
+function coverageResult(
+  root: string,
+  files: Array<{ path: string; lines: number; functions: number; branches: number }>,
+  uncovered: CoverageAnalysisResult['uncovered'] = {}
+): CoverageAnalysisResult {
+  const average = (metric: 'lines' | 'functions' | 'branches') =>
+    Math.round(files.reduce((sum, file) => sum + file[metric], 0) / files.length);
+  return {
+    summary: 'Coverage',
+    success: true,
+    coverage: { lines: average('lines'), functions: average('functions'), branches: average('branches'), statements: average('lines') },
+    totals: { lines: 10, functions: 2, branches: 2 },
+    command: 'npx vitest run --coverage',
+    duration: 100,
+    uncovered,
+    fileBreakdown: files.map((file) => ({
+      path: join(root, file.path),
+      coverage: { lines: file.lines, functions: file.functions, branches: file.branches, statements: file.lines },
+      totals: { lines: 10, functions: 2, branches: 2, statements: 10 },
+      covered: { lines: 0, functions: 0, branches: 0, statements: 0 }
+    }))
+  };
+}
+
+function writeSource(root: string, path: string, content: string) {
+  mkdirSync(join(root, 'src'), { recursive: true });
+  writeFileSync(join(root, path), content);
+}
+
+describe('compare-coverage', () => {
+  let projectRoot: string;
+  let worktreeDir: string;
+  const removeWorktree = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-compare-'));
+    worktreeDir = mkdtempSync(join(tmpdir(), 'vitest-mcp-compare-base-'));
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue(projectRoot);
+    vi.mocked(createWorktree).mockResolvedValue({ projectDir: worktreeDir, remove: removeWorktree });
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+    rmSync(worktreeDir, { recursive: true, force: true });
+  });
+
+  it('should require a target', () => {
+    // Assert
+    expect(compareCoverageTool.name).toBe('compare_coverage');
+    expect(compareCoverageTool.inputSchema.required).toEqual(['target']);
+  });
+
+  it('should compare coverage at a base ref with the working tree', async () => {
+    // Arrange
+    writeSource(worktreeDir, 'src/math.ts', 'export function add() {\n  return 1;\n}\nexport function sub() {\n  return 2;\n}\n');
+    writeSource(projectRoot, 'src/math.ts', '// moved\nexport function add() {\n  return 1;\n}\nexport function sub() {\n  return 2;\n}\nexport function mul() {\n  return 3;\n}\n');
+    vi.mocked(analyzeCoverageWithOptions)
+      .mockResolvedValueOnce(coverageResult(worktreeDir, [
+        { path: 'src/math.ts', lines: 80, functions: 50, branches: 100 },
+        { path: 'src/old.ts', lines: 100, functions: 100, branches: 100 }
+      ], { 'src/math.ts': { lines: [5], functions: [{ name: 'sub', line: 4 }], branches: [] } }))
+      .mockResolvedValueOnce(coverageResult(projectRoot, [
+        { path: 'src/math.ts', lines: 60.5, functions: 33.33, branches: 100 }
+      ], { 'src/math.ts': { lines: [6, 9], functions: [{ name: 'sub', line: 5 }, { name: 'mul', line: 8 }], branches: [] } }));
+
+    // Act
+    const result = await handleCompareCoverage({ target: 'src', baseRef: 'main' });
+
+    // Assert
+    expect(createWorktree).toHaveBeenCalledWith(projectRoot, 'main');
+    expect(analyzeCoverageWithOptions).toHaveBeenNthCalledWith(1, { target: 'src', format: 'detailed', exclude: undefined }, { projectRoot: worktreeDir }, undefined);
+    expect(analyzeCoverageWithOptions).toHaveBeenNthCalledWith(2, { target: 'src', format: 'detailed', exclude: undefined }, {}, undefined);
+    expect(removeWorktree).toHaveBeenCalledTimes(1);
+    expect(result.coverageDecreased).toBe(true);
+    expect(result.delta).toEqual({ lines: -29, functions: -42, branches: 0, statements: -29 });
+    expect(result.files).toEqual([
+      { file: 'src/old.ts', status: 'removed', base: { lines: 100, functions: 100, branches: 100 }, delta: { lines: -100, functions: -100, branches: -100 } },
+      {
+        file: 'src/math.ts',
+        status: 'changed',
+        base: { lines: 80, functions: 50, branches: 100 },
+        head: { lines: 60.5, functions: 33.33, branches: 100 },
+        delta: { lines: -19.5, functions: -16.67, branches: 0 }
+      }
+    ]);
+    expect(result.newlyUncovered).toEqual([{ file: 'src/math.ts', lines: [9], functions: [{ name: 'mul', line: 8 }] }]);
+    expect(result.summary).toBe(
+      '❌ Coverage decreased vs main: lines 90% → 61% (-29), functions 75% → 33% (-42), branches 100% → 100% (0); 1 newly uncovered line(s) in 1 file(s)'
+    );
+  });
+
+  it('should use the latest saved detailed coverage of the target as the baseline', async () => {
+    // Arrange
+    const saved = (lines: number) => ({
+      kind: 'coverage' as const,
+      timestamp: `2026-01-0${lines / 10}T10:00:00.000Z`,
+      commit: 'abcdef123456',
+      target: 'src',
+      result: coverageResult(projectRoot, [{ path: 'src/math.ts', lines, functions: 100, branches: 100 }])
+    });
+    vi.mocked(historyStore.read).mockResolvedValue([
+      saved(50),
+      saved(70),
+      { ...saved(90), target: 'src/other' },
+      { ...saved(80), result: { ...saved(80).result, fileBreakdown: undefined } }
+    ]);
+    vi.mocked(analyzeCoverageWithOptions).mockResolvedValue(
+      coverageResult(projectRoot, [{ path: 'src/math.ts', lines: 80, functions: 100, branches: 100 }])
+    );
+
+    // Act
+    const result = await handleCompareCoverage({ target: './src' });
+
+    // Assert
+    expect(createWorktree).not.toHaveBeenCalled();
+    expect(result.base.label).toBe('saved baseline from 2026-01-07T10:00:00.000Z at abcdef1');
+    expect(result.delta.lines).toBe(10);
+    expect(result.coverageDecreased).toBe(false);
+    expect(result.summary).toMatch(/^✅ Coverage increased vs saved baseline/);
+  });
+
+  it('should narrow a saved baseline of a parent directory to the target', async () => {
+    // Arrange
+    const projectResult = coverageResult(projectRoot, [
+      { path: 'src/api/client.ts', lines: 60, functions: 50, branches: 100 },
+      { path: 'src/ui/button.ts', lines: 0, functions: 0, branches: 0 }
+    ], {
+      'src/api/client.ts': { lines: [4], functions: [], branches: [] },
+      'src/ui/button.ts': { lines: [1, 2], functions: [], branches: [] }
+    });
+    projectResult.fileBreakdown![0].covered = { lines: 6, functions: 1, branches: 2, statements: 6 };
+    vi.mocked(historyStore.read).mockResolvedValue([
+      { kind: 'coverage', timestamp: '2026-01-01T10:00:00.000Z', commit: 'abcdef123456', target: '.', result: projectResult }
+    ]);
+    vi.mocked(analyzeCoverageWithOptions).mockResolvedValue(
+      coverageResult(projectRoot, [{ path: 'src/api/client.ts', lines: 80, functions: 50, branches: 100 }], {
+        'src/api/client.ts': { lines: [4], functions: [], branches: [] }
+      })
+    );
+
+    // Act
+    const result = await handleCompareCoverage({ target: 'src/api' });
+
+    // Assert
+    expect(result.base.coverage).toEqual({ lines: 60, functions: 50, branches: 100, statements: 60 });
+    expect(result.delta).toEqual({ lines: 20, functions: 0, branches: 0, statements: 20 });
+    expect(result.files.map((file) => file.file)).toEqual([join('src', 'api', 'client.ts')]);
+    expect(result.newlyUncovered).toEqual([]);
+  });
+
+  it('should explain how to create a baseline when none is saved', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([]);
+    vi.mocked(historyStore.isEnabled).mockResolvedValue(false);
+
+    // Act & Assert
+    await expect(handleCompareCoverage({ target: 'src' })).rejects.toThrow(
+      'No saved coverage baseline for src. Run analyze_coverage with format "detailed" on it first, or pass baseRef. History recording is off. Enable it with'
+    );
+    expect(analyzeCoverageWithOptions).not.toHaveBeenCalled();
+  });
+
+  it('should remove the worktree when the analysis at a ref fails', async () => {
+    // Arrange
+    vi.mocked(analyzeCoverageWithOptions).mockResolvedValue({
+      ...coverageResult(worktreeDir, [{ path: 'src/math.ts', lines: 0, functions: 0, branches: 0 }]),
+      success: false,
+      error: 'Coverage provider not installed'
+    });
+
+    // Act & Assert
+    await expect(handleCompareCoverage({ target: 'src', baseRef: 'v1.0.0' })).rejects.toThrow(
+      'Coverage analysis at v1.0.0 failed: Coverage provider not installed'
+    );
+    expect(removeWorktree).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when a coverage run is cancelled', async () => {
+    // Arrange
+    vi.mocked(analyzeCoverageWithOptions).mockResolvedValue({
+      ...coverageResult(worktreeDir, [{ path: 'src/math.ts', lines: 0, functions: 0, branches: 0 }]),
+      cancelled: true
+    });
+
+    // Act
+    const result = await handleCompareCoverage({ target: 'src', baseRef: 'main', headRef: 'feature' });
+
+    // Assert
+    expect(result.cancelled).toBe(true);
+    expect(result.summary).toBe('⏹️ Coverage comparison cancelled');
+    expect(createWorktree).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject headRef without baseRef', async () => {
+    // Act & Assert
+    await expect(handleCompareCoverage({ target: 'src', headRef: 'feature' })).rejects.toThrow('headRef requires baseRef.');
+  });
+});
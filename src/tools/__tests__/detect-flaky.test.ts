@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { aggregateTestRuns, detectFlakyTool, handleDetectFlaky } from '../detect-flaky.js';
+import { projectContext } from '../../context/project-context.js';
+import { runTestsWithOptions, type ProcessedTestResult } from '../run-tests.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../run-tests.js');
+
+function runResult(passedDuration: number, failure?: string): ProcessedTestResult {
+  return {
+    summary: failure ? '❌ 1 failed, ✅ 1 passed (2 total)' : '✅ All 2 tests passed',
+    command: 'npx vitest run src/api.test.ts',
+    success: !failure,
+    testSummary: { totalTests: 2, passed: failure ? 1 : 2, failed: failure ? 1 : 0 },
+    format: 'detailed',
+    executionTimeMs: 100,
+    testResults: {
+      passedTests: [{
+        file: '/project/src/api.test.ts',
+        tests: [
+          { testName: 'api parses responses', duration: 5 },
+          ...(failure ? [] : [{ testName: 'api retries requests', duration: passedDuration }])
+        ]
+      }],
+      ...(failure ? {
+        failedTests: [{
+          file: '/project/src/api.test.ts',
+          tests: [{ testName: 'api retries requests', duration: 30, errorType: 'TimeoutError', message: failure }]
+        }]
+      } : {})
+    }
+  };
+}
+
+describe('detect-flaky', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+  });
+
+  it('should require a target and accept a run count', () => {
+    // Assert
+    expect(detectFlakyTool.name).toBe('detect_flaky');
+    expect(detectFlakyTool.inputSchema.required).toEqual(['target']);
+    expect(detectFlakyTool.inputSchema.properties).toHaveProperty('runs');
+  });
+
+  it('should aggregate pass rate, duration spread and distinct failure messages per test', () => {
+    // Arrange
+    const runs = [
+      runResult(10),
+      runResult(0, 'Test timed out in 5000ms'),
+      runResult(20),
+      runResult(0, 'Test timed out in 5000ms')
+    ];
+
+    // Act
+    const stability = aggregateTestRuns(runs, '/project');
+
+    // Assert
+    expect(stability).toEqual([
+      {
+        file: 'src/api.test.ts',
+        testName: 'api parses responses',
+        runs: 4,
+        passed: 4,
+        failed: 0,
+        skipped: 0,
+        passRate: 1,
+        duration: { meanMs: 5, minMs: 5, maxMs: 5, stdDevMs: 0 },
+        failureMessages: []
+      },
+      {
+        file: 'src/api.test.ts',
+        testName: 'api retries requests',
+        runs: 4,
+        passed: 2,
+        failed: 2,
+        skipped: 0,
+        passRate: 0.5,
+        duration: { meanMs: 22.5, minMs: 10, maxMs: 30, stdDevMs: 8.29 },
+        failureMessages: ['TimeoutError: Test timed out in 5000ms']
+      }
+    ]);
+  });
+
+  it('should run the target repeatedly and report flaky tests', async () => {
+    // Arrange
+    vi.mocked(runTestsWithOptions)
+      .mockResolvedValueOnce(runResult(10))
+      .mockResolvedValueOnce(runResult(0, 'Test timed out in 5000ms'))
+      .mockResolvedValueOnce(runResult(12));
+    const reportProgress = vi.fn();
+
+    // Act
+    const result = await handleDetectFlaky({ target: './src/api.test.ts', runs: 3 }, { reportProgress });
+
+    // Assert
+    expect(runTestsWithOptions).toHaveBeenCalledTimes(3);
+    expect(runTestsWithOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ target: './src/api.test.ts', format: 'detailed' }),
+      { includePassedTests: true, skipRecording: true, freshInstance: true },
+      { signal: undefined }
+    );
+    expect(result.summary).toBe('⚠️ 1 flaky test(s) in 3 runs');
+    expect(result.flakyTests).toHaveLength(1);
+    expect(result.flakyTests[0]).toMatchObject({ testName: 'api retries requests', passRate: 0.67 });
+    expect(result.stableTestCount).toBe(1);
+    expect(result.runSummaries).toHaveLength(3);
+    expect(reportProgress.mock.calls.map(([update]) => update.progress)).toEqual([0, 1, 2, 3]);
+    expect(reportProgress).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 3, total: 3 }));
+  });
+
+  it('should report tests that fail in every run separately', async () => {
+    // Arrange
+    vi.mocked(runTestsWithOptions).mockResolvedValue(runResult(0, 'expected 1 to be 2'));
+
+    // Act
+    const result = await handleDetectFlaky({ target: './src/api.test.ts', runs: 2 });
+
+    // Assert
+    expect(result.flakyTests).toEqual([]);
+    expect(result.consistentlyFailingTests).toHaveLength(1);
+    expect(result.summary).toBe('❌ No flaky tests in 2 runs, 1 test(s) failed in every run');
+  });
+
+  it('should stop and return partial results when cancelled', async () => {
+    // Arrange
+    const controller = new AbortController();
+    vi.mocked(runTestsWithOptions).mockImplementation(async () => {
+      controller.abort();
+      return runResult(10);
+    });
+
+    // Act
+    const result = await handleDetectFlaky({ target: './src/api.test.ts', runs: 5 }, { signal: controller.signal });
+
+    // Assert
+    expect(runTestsWithOptions).toHaveBeenCalledTimes(1);
+    expect(result.cancelled).toBe(true);
+    expect(result.runs).toBe(1);
+    expect(result.summary).toContain('cancelled after 1/5 runs');
+  });
+
+  it('should stop at a run without test results and return its error', async () => {
+    // Arrange
+    vi.mocked(runTestsWithOptions).mockResolvedValue({
+      summary: 'No tests found',
+      command: '',
+      success: false,
+      testSummary: { totalTests: 0, passed: 0, failed: 0 },
+      format: 'detailed',
+      executionTimeMs: 1,
+      error: 'Target does not exist: ./src/missing.test.ts (resolved to: /project/src/missing.test.ts)'
+    });
+
+    // Act
+    const result = await handleDetectFlaky({ target: './src/missing.test.ts', runs: 5 });
+
+    // Assert
+    expect(runTestsWithOptions).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      summary: 'No tests found',
+      error: 'Target does not exist: ./src/missing.test.ts (resolved to: /project/src/missing.test.ts)',
+      runs: 0,
+      flakyTests: [],
+      consistentlyFailingTests: []
+    });
+    expect(result.cancelled).toBeUndefined();
+  });
+
+  it('should reject invalid run counts', async () => {
+    // Act & Assert
+    await expect(handleDetectFlaky({ target: './src', runs: 1 })).rejects.toThrow('runs must be an integer between 2 and 50.');
+    expect(runTestsWithOptions).not.toHaveBeenCalled();
+  });
+});
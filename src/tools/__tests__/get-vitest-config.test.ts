@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleGetVitestConfig } from '../get-vitest-config.js';
+import { projectContext } from '../../context/project-context.js';
+import { explainVitestConfig } from '../../utils/config-finder.js';
+import { loadVitestConfig } from '../../utils/vitest-config-loader.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/config-finder.js');
+vi.mock('../../utils/vitest-config-loader.js');
+
+describe('get-vitest-config', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue('/repo');
+  });
+
+  it('should return the loaded settings with the picked config file and reason', async () => {
+    // Arrange
+    vi.mocked(explainVitestConfig).mockResolvedValue({
+      configFile: '/repo/vitest.mcp.config.ts',
+      reason: 'vitest.mcp.config.ts is the MCP-specific config and takes priority over all other config files',
+      ignoredFiles: ['/repo/vitest.config.ts']
+    });
+    vi.mocked(loadVitestConfig).mockResolvedValue({
+      resolvedWith: 'vitest',
+      vitestVersion: '3.2.4',
+      test: { environment: 'jsdom', include: ['src/**/*.test.ts'] },
+      coverage: { provider: 'istanbul', thresholds: { lines: 90, perFile: true, 'src/api/**': { lines: 95 } } }
+    });
+
+    // Act
+    const result = await handleGetVitestConfig({});
+
+    // Assert
+    expect(loadVitestConfig).toHaveBeenCalledWith('/repo', '/repo/vitest.mcp.config.ts');
+    expect(result).toMatchObject({
+      configFile: 'vitest.mcp.config.ts',
+      ignoredConfigFiles: ['vitest.config.ts'],
+      resolvedWith: 'vitest',
+      test: { environment: 'jsdom' },
+      projectRoot: '/repo'
+    });
+    expect(result.configFileReason).toContain('takes priority');
+    expect(result.summary).toBe(
+      'vitest.mcp.config.ts (resolved by Vitest 3.2.4); environment: jsdom; coverage provider: istanbul; coverage thresholds per file, 1 glob(s)'
+    );
+  });
+
+  it('should report Vitest defaults when there is no config file', async () => {
+    // Arrange
+    vi.mocked(explainVitestConfig).mockResolvedValue({
+      configFile: null,
+      reason: "No Vitest or Vite config file found, so Vitest's defaults apply",
+      ignoredFiles: []
+    });
+    vi.mocked(loadVitestConfig).mockResolvedValue({
+      resolvedWith: 'vitest',
+      vitestVersion: '3.2.4',
+      test: { environment: 'node' },
+      coverage: { provider: 'v8' }
+    });
+
+    // Act
+    const result = await handleGetVitestConfig({});
+
+    // Assert
+    expect(loadVitestConfig).toHaveBeenCalledWith('/repo', null);
+    expect(result.configFile).toBeNull();
+    expect(result.summary).toBe(
+      'No config file (resolved by Vitest 3.2.4); environment: node; coverage provider: v8; no coverage thresholds'
+    );
+  });
+
+  it('should require a project root', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Project root has not been set');
+    });
+
+    // Act & Assert
+    await expect(handleGetVitestConfig({})).rejects.toThrow('Please call set_project_root first');
+  });
+});
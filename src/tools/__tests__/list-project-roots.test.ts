@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleListProjectRoots, listProjectRootsTool } from '../list-project-roots.js';
+import { projectContext } from '../../context/project-context.js';
+
+vi.mock('../../context/project-context.js');
+
+describe('list-project-roots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should take no arguments', () => {
+    // Assert
+    expect(listProjectRootsTool.name).toBe('list_project_roots');
+    expect(listProjectRootsTool.inputSchema.properties).toEqual({});
+  });
+
+  it('should list the registered roots and the active alias', async () => {
+    // Arrange
+    vi.mocked(projectContext.listProjectRoots).mockReturnValue([
+      { alias: 'web', path: '/repos/web', active: false },
+      { alias: 'api', path: '/repos/api', active: true }
+    ]);
+
+    // Act
+    const result = await handleListProjectRoots({});
+
+    // Assert
+    expect(result.activeRoot).toBe('api');
+    expect(result.roots).toHaveLength(2);
+    expect(result.message).toBe('2 project root(s) registered, active: api');
+  });
+
+  it('should point to set_project_root when nothing is registered', async () => {
+    // Arrange
+    vi.mocked(projectContext.listProjectRoots).mockReturnValue([]);
+
+    // Act
+    const result = await handleListProjectRoots({});
+
+    // Assert
+    expect(result).toEqual({
+      roots: [],
+      activeRoot: null,
+      message: 'No project roots registered. Use set_project_root to add one.'
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleListProjects } from '../list-projects.js';
+import { projectContext } from '../../context/project-context.js';
+import { findWorkspaceProjects } from '../../utils/workspace-projects.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/workspace-projects.js');
+
+describe('list-projects', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue('/repo');
+  });
+
+  it('should summarize the Vitest projects and remaining workspace packages', async () => {
+    // Arrange
+    vi.mocked(findWorkspaceProjects).mockResolvedValue([
+      { name: 'client', root: 'apps/client', source: 'test.projects', environment: 'jsdom', include: ['src/**/*.test.ts'] },
+      { name: 'server', root: 'apps/server', source: 'test.projects', environment: 'node', include: ['src/**/*.test.ts'] },
+      { name: '@repo/docs', root: 'docs', source: 'package workspaces' }
+    ]);
+
+    // Act
+    const result = await handleListProjects({ projectRoot: 'repo' });
+
+    // Assert
+    expect(projectContext.getProjectRoot).toHaveBeenCalledWith('repo');
+    expect(findWorkspaceProjects).toHaveBeenCalledWith('/repo');
+    expect(result.projectRoot).toBe('/repo');
+    expect(result.projects).toHaveLength(3);
+    expect(result.summary).toBe(
+      '2 Vitest project(s) from test.projects: client, server; 1 workspace package(s) that are not Vitest projects; run their tests with target set to the package root'
+    );
+  });
+
+  it('should explain when the project is not a monorepo', async () => {
+    // Arrange
+    vi.mocked(findWorkspaceProjects).mockResolvedValue([]);
+
+    // Act
+    const result = await handleListProjects({});
+
+    // Assert
+    expect(result.summary).toBe(
+      'No Vitest projects or workspace packages found; the Vitest config applies to the whole project root'
+    );
+  });
+
+  it('should require a project root', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Project root has not been set');
+    });
+
+    // Act & Assert
+    await expect(handleListProjects({})).rejects.toThrow('Please call set_project_root first');
+  });
+});
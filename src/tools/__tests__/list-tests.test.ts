@@ -3,9 +3,23 @@ import { resolve } from 'path';
 import { listTestsTool, handleListTests } from '../list-tests';
 import { projectContext } from '../../context/project-context';
 import * as fileUtils from '../../utils/file-utils';
+import { getConfig } from '../../config/config-loader';
+import { listVitestTestFiles } from '../../utils/vitest-node-api';
+import { getVitestVersion } from '../../utils/version-checker';
+import { parseTestFile } from '../../utils/test-case-parser';
 
 vi.mock('../../context/project-context');
 vi.mock('../../utils/file-utils');
+vi.mock('../../config/config-loader');
+vi.mock('../../utils/vitest-node-api');
+vi.mock('../../utils/test-case-parser', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/test-case-parser')>()),
+  parseTestFile: vi.fn()
+}));
+vi.mock('../../utils/version-checker', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/version-checker')>()),
+  getVitestVersion: vi.fn()
+}));
 
 describe('list-tests', () => {
   beforeEach(() => {
@@ -55,7 +69,7 @@ describe('list-tests', () => {
       expect(result.totalCount).toBe(2);
       expect(result.searchPath).toBe(projectRoot);
       expect(result.projectRoot).toBe(projectRoot);
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot, { root: projectRoot });
     });
 
     it('should handle relative path argument', async () => {
@@ -77,7 +91,7 @@ describe('list-tests', () => {
       
       // Assert
       expect(result.searchPath).toBe(expectedSearchPath);
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedSearchPath);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedSearchPath, { root: projectRoot });
       expect(result.testFiles).toHaveLength(1);
     });
 
@@ -99,7 +113,7 @@ describe('list-tests', () => {
       
       // Assert
       expect(result.searchPath).toBe(resolve(projectRoot, absolutePath));
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(resolve(projectRoot, absolutePath));
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(resolve(projectRoot, absolutePath), { root: projectRoot });
     });
 
     it('should validate project root is set', async () => {
@@ -143,7 +157,7 @@ describe('list-tests', () => {
       // Assert
       expect(result.testFiles).toHaveLength(2);
       expect(result.searchPath).toBe(expectedSearchPath);
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedSearchPath);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedSearchPath, { root: projectRoot });
     });
 
     it('should handle non-existent directories gracefully', async () => {
@@ -403,7 +417,7 @@ describe('list-tests', () => {
       
       // Assert
       expect(result.searchPath).toBe(expectedResolvedPath);
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedResolvedPath);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(expectedResolvedPath, { root: projectRoot });
     });
 
     it('should handle absolute paths', async () => {
@@ -444,7 +458,7 @@ describe('list-tests', () => {
       
       // Assert
       expect(result.searchPath).toBe(resolve(projectRoot, pathWithMixedSeparators));
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(resolve(projectRoot, pathWithMixedSeparators));
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(resolve(projectRoot, pathWithMixedSeparators), { root: projectRoot });
     });
 
     it('should handle parent directory references (..)', async () => {
@@ -499,6 +513,189 @@ describe('list-tests', () => {
     });
   });
 
+  describe('Patterns', () => {
+    it('should replace the configured test patterns with pattern', async () => {
+      // Arrange
+      const projectRoot = '/project';
+
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue(projectRoot);
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([]);
+
+      // Act
+      await handleListTests({ path: './src', pattern: ' **/*.spec.ts ' });
+
+      // Assert
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(resolve(projectRoot, 'src'), {
+        root: projectRoot,
+        testPatterns: ['**/*.spec.ts']
+      });
+      expect(getConfig).not.toHaveBeenCalled();
+    });
+
+    it('should add exclude to the configured exclude patterns', async () => {
+      // Arrange
+      const projectRoot = '/project';
+
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue(projectRoot);
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([]);
+      vi.mocked(getConfig).mockResolvedValue({
+        discovery: { testPatterns: ['**/*.test.ts'], excludePatterns: ['node_modules'], maxDepth: 10 }
+      } as Awaited<ReturnType<typeof getConfig>>);
+
+      // Act
+      await handleListTests({ exclude: ['legacy', '**/fixtures/**'] });
+
+      // Assert
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot, {
+        root: projectRoot,
+        excludePatterns: ['node_modules', 'legacy', '**/fixtures/**']
+      });
+    });
+
+    it('should reject an empty pattern and non-string excludes', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(handleListTests({ pattern: '  ' })).rejects.toThrow('pattern must be a non-empty glob string');
+      await expect(handleListTests({ exclude: [42] as unknown as string[] })).rejects.toThrow('exclude must be an array of glob strings');
+      expect(fileUtils.findTestFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Vitest source', () => {
+    it('should list the files Vitest runs grouped by project and report files it excludes', async () => {
+      // Arrange
+      const projectRoot = '/project';
+
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue(projectRoot);
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([
+        { path: '/project/packages/a/a.test.ts', relativePath: 'packages/a/a.test.ts', type: 'unknown' },
+        { path: '/project/packages/a/fixtures/f.test.ts', relativePath: 'packages/a/fixtures/f.test.ts', type: 'unknown' }
+      ]);
+      vi.mocked(getVitestVersion).mockResolvedValue({ version: '3.2.4', major: 3, minor: 2, patch: 4 });
+      vi.mocked(listVitestTestFiles).mockResolvedValue([
+        { file: '/project/packages/b/b.test.ts', project: 'b' },
+        { file: '/project/packages/a/a.test.ts', project: 'a' },
+        { file: '/project/packages/a/a.test.ts', project: 'a-browser' },
+        { file: '/project/root.test.ts', project: '' },
+        { file: '/elsewhere/x.test.ts', project: 'b' }
+      ]);
+
+      // Act
+      const result = await handleListTests({ source: 'vitest' });
+
+      // Assert
+      expect(listVitestTestFiles).toHaveBeenCalledWith(projectRoot);
+      expect(result.testFiles.map(file => file.relativePath)).toEqual([
+        'packages/a/a.test.ts',
+        'packages/b/b.test.ts',
+        'root.test.ts'
+      ]);
+      expect(result.totalCount).toBe(3);
+      expect(result.projects).toEqual([
+        { name: '(root)', testFiles: ['root.test.ts'] },
+        { name: 'a', testFiles: ['packages/a/a.test.ts'] },
+        { name: 'a-browser', testFiles: ['packages/a/a.test.ts'] },
+        { name: 'b', testFiles: ['packages/b/b.test.ts'] }
+      ]);
+      expect(result.excludedByVitest).toEqual(['packages/a/fixtures/f.test.ts']);
+    });
+
+    it('should require a Vitest version with the Node API', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([]);
+      vi.mocked(getVitestVersion).mockResolvedValue({ version: '2.1.8', major: 2, minor: 1, patch: 8 });
+
+      // Act & Assert
+      await expect(handleListTests({ source: 'vitest' })).rejects.toThrow(
+        'source "vitest" requires Vitest 3.0.0+ (found 2.1.8)'
+      );
+      expect(listVitestTestFiles).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown source', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+
+      // Act & Assert
+      await expect(handleListTests({ source: 'jest' as 'vitest' })).rejects.toThrow(
+        'Invalid source "jest". Use "patterns" or "vitest".'
+      );
+    });
+  });
+
+  describe('Test cases', () => {
+    it('should attach the test outline of each file with depth tests', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([
+        { path: '/project/a.test.ts', relativePath: 'a.test.ts', type: 'unknown' },
+        { path: '/project/b.test.ts', relativePath: 'b.test.ts', type: 'unknown' }
+      ]);
+      const outline = [{
+        type: 'describe' as const,
+        name: 'math',
+        line: 3,
+        children: [
+          { type: 'test' as const, name: 'adds', line: 4 },
+          { type: 'test' as const, name: 'later', line: 8, modifiers: ['todo' as const] }
+        ]
+      }];
+      vi.mocked(parseTestFile).mockResolvedValueOnce(outline).mockResolvedValueOnce([]);
+
+      // Act
+      const result = await handleListTests({ depth: 'tests' });
+
+      // Assert
+      expect(parseTestFile).toHaveBeenCalledWith('/project/a.test.ts');
+      expect(result.testFiles[0].tests).toEqual(outline);
+      expect(result.testFiles[1].tests).toEqual([]);
+      expect(result.totalTests).toBe(2);
+    });
+
+    it('should only list files by default', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+      vi.mocked(fileUtils.fileExists).mockResolvedValue(true);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(fileUtils.findTestFiles).mockResolvedValue([
+        { path: '/project/a.test.ts', relativePath: 'a.test.ts', type: 'unknown' }
+      ]);
+
+      // Act
+      const result = await handleListTests({});
+
+      // Assert
+      expect(parseTestFile).not.toHaveBeenCalled();
+      expect(result.testFiles[0]).not.toHaveProperty('tests');
+      expect(result).not.toHaveProperty('totalTests');
+    });
+
+    it('should reject an unknown depth', async () => {
+      // Arrange
+      vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+
+      // Act & Assert
+      await expect(handleListTests({ depth: 'cases' as 'tests' })).rejects.toThrow(
+        'Invalid depth "cases". Use "files" or "tests".'
+      );
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle permission errors gracefully', async () => {
       // Arrange
@@ -645,7 +842,7 @@ describe('list-tests', () => {
       expect(result.testFiles).toHaveLength(3);
       // Note: The handleListTests function doesn't expose test types in its return value,
       // but we verify that findTestFiles is called which handles type classification
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot, { root: projectRoot });
     });
 
     it('should provide file metadata when available', async () => {
@@ -760,7 +957,7 @@ describe('list-tests', () => {
       
       // Assert
       expect(result.testFiles).toHaveLength(1);
-      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot);
+      expect(fileUtils.findTestFiles).toHaveBeenCalledWith(projectRoot, { root: projectRoot });
     });
 
     it('should cache results when appropriate', async () => {
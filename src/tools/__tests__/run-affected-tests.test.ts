@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleRunAffectedTests, runAffectedTestsTool } from '../run-affected-tests.js';
+import { projectContext } from '../../context/project-context.js';
+import { findTestFiles } from '../../utils/file-utils.js';
+import { getChangedFiles } from '../../utils/git-utils.js';
+import { findAffectedTests } from '../../utils/import-graph.js';
+import { runTestFiles } from '../run-tests.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/file-utils.js');
+vi.mock('../../utils/git-utils.js');
+vi.mock('../../utils/import-graph.js');
+vi.mock('../run-tests.js');
+
+describe('run-affected-tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+    vi.mocked(getChangedFiles).mockResolvedValue(['/project/src/math.ts', '/project/README.md']);
+    vi.mocked(findTestFiles).mockResolvedValue([
+      { path: '/project/src/math.test.ts', relativePath: 'src/math.test.ts', type: 'unit' },
+      { path: '/project/src/format.test.ts', relativePath: 'src/format.test.ts', type: 'unit' }
+    ]);
+    vi.mocked(findAffectedTests).mockResolvedValue([
+      { changedFile: '/project/src/math.ts', tests: ['/project/src/format.test.ts', '/project/src/math.test.ts'] },
+      { changedFile: '/project/README.md', tests: [] }
+    ]);
+    vi.mocked(runTestFiles).mockResolvedValue({
+      summary: '✅ All 4 tests passed',
+      command: 'npx vitest run src/format.test.ts src/math.test.ts',
+      success: true,
+      testSummary: { totalTests: 4, passed: 4, failed: 0 },
+      format: 'summary',
+      executionTimeMs: 100
+    });
+  });
+
+  it('should expose changedSince and dryRun options', () => {
+    // Assert
+    expect(runAffectedTestsTool.name).toBe('run_affected_tests');
+    expect(runAffectedTestsTool.inputSchema.properties).toHaveProperty('changedSince');
+    expect(runAffectedTestsTool.inputSchema.properties).toHaveProperty('dryRun');
+  });
+
+  it('should run the affected test files and report which change pulled them in', async () => {
+    // Arrange
+    const context = { reportProgress: vi.fn() };
+
+    // Act
+    const result = await handleRunAffectedTests({ changedSince: 'main', format: 'detailed' }, context);
+
+    // Assert
+    expect(getChangedFiles).toHaveBeenCalledWith('/project', 'main');
+    expect(runTestFiles).toHaveBeenCalledWith(
+      ['/project/src/format.test.ts', '/project/src/math.test.ts'],
+      { format: 'detailed', project: undefined, showLogs: undefined },
+      context
+    );
+    expect(result).toMatchObject({
+      changedSince: 'main',
+      affectedBy: [{ changedFile: 'src/math.ts', tests: ['src/format.test.ts', 'src/math.test.ts'] }],
+      untestedChanges: ['README.md'],
+      testFiles: ['src/format.test.ts', 'src/math.test.ts'],
+      testResult: { success: true }
+    });
+    expect(result.summary).toBe('2 test file(s) affected by 2 changed file(s): ✅ All 4 tests passed');
+  });
+
+  it('should only report the mapping in dryRun mode', async () => {
+    // Act
+    const result = await handleRunAffectedTests({ dryRun: true });
+
+    // Assert
+    expect(getChangedFiles).toHaveBeenCalledWith('/project', 'HEAD');
+    expect(runTestFiles).not.toHaveBeenCalled();
+    expect(result.testResult).toBeUndefined();
+    expect(result.testFiles).toHaveLength(2);
+  });
+
+  it('should not run anything when no tests are affected', async () => {
+    // Arrange
+    vi.mocked(findAffectedTests).mockResolvedValue([{ changedFile: '/project/README.md', tests: [] }]);
+
+    // Act
+    const result = await handleRunAffectedTests({});
+
+    // Assert
+    expect(runTestFiles).not.toHaveBeenCalled();
+    expect(result.summary).toBe('No tests affected by 2 changed file(s)');
+  });
+
+  it('should require a project root', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Project root has not been set');
+    });
+
+    // Act & Assert
+    await expect(handleRunAffectedTests({})).rejects.toThrow('Please call set_project_root first');
+  });
+});
@@ -1,13 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { runTestsTool, handleRunTests, determineFormat, createExecutionContext, type RunTestsArgs, type TestExecutionContext } from '../run-tests.js';
+import { runTestsTool, handleRunTests, runTestFiles, runTestsWithOptions, determineFormat, createExecutionContext, type RunTestsArgs, type TestExecutionContext } from '../run-tests.js';
 import { projectContext } from '../../context/project-context.js';
-import { processTestResult } from '../../utils/output-processor.js';
+import { testSession } from '../../context/test-session.js';
+import { historyStore } from '../../utils/history-store.js';
+import { vitestSessions } from '../../context/vitest-session.js';
+import { runVitestInProcess } from '../../utils/vitest-node-api.js';
+import { processTestResult, type VitestJsonResult } from '../../utils/output-processor.js';
 import * as fileUtils from '../../utils/file-utils.js';
 import * as configLoader from '../../config/config-loader.js';
 import * as versionChecker from '../../utils/version-checker.js';
 import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
 import { writeFileSync, readFileSync, existsSync, unlinkSync } from 'fs';
+import { writeFile } from 'fs/promises';
 
 // Mock external dependencies
 vi.mock('child_process');
@@ -16,7 +21,14 @@ vi.mock('../../config/config-loader.js');
 vi.mock('../../utils/version-checker.js');
 vi.mock('../../utils/output-processor.js');
 vi.mock('../../context/project-context.js');
+vi.mock('../../context/vitest-session.js');
+vi.mock('../../utils/vitest-node-api.js');
+vi.mock('../../utils/history-store.js');
 vi.mock('fs');
+vi.mock('fs/promises');
+
+type ServerConfig = Awaited<ReturnType<typeof configLoader.getConfig>>;
+type VersionCheck = Awaited<ReturnType<typeof versionChecker.checkAllVersions>>;
 
 // Create mock child process
 function createMockChildProcess() {
@@ -394,6 +406,7 @@ describe('run-tests (basic functionality)', () => {
       
       // Assert
       expect(result.success).toBe(false);
+      expect(result.error).toContain('Target does not exist: ./nonexistent.ts');
       expect(processTestResult).toHaveBeenCalledWith(
         expect.objectContaining({
           success: false,
@@ -745,6 +758,694 @@ describe('run-tests (basic functionality)', () => {
     });
   });
 
+  describe('Test Name Filtering', () => {
+    let mockChild: ReturnType<typeof createMockChildProcess>;
+
+    beforeEach(() => {
+      mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      vi.mocked(processTestResult).mockImplementation(async (result, format, _context) => ({
+        command: result.command,
+        success: result.success,
+        summary: { totalTests: 1, passed: 1, failed: 0 },
+        format: format,
+        executionTimeMs: 100
+      }));
+
+      setTimeout(() => {
+        mockChild.stdout.emit('data', Buffer.from('{"success":true}'));
+        mockChild.emit('close', 0);
+      }, 10);
+    });
+
+    it('should pass testNamePattern through to the -t filter and echo it in the command', async () => {
+      // Arrange
+      const args: RunTestsArgs = { target: './test.ts', testNamePattern: 'adds numbers' };
+
+      // Act
+      const result = await handleRunTests(args);
+
+      // Assert
+      const spawnArgs = vi.mocked(spawn).mock.calls[0][1] as string[];
+      const filterIndex = spawnArgs.indexOf('-t');
+      expect(filterIndex).toBeGreaterThan(-1);
+      expect(spawnArgs[filterIndex + 1]).toContain('adds numbers');
+      expect(result.command).toBe('npx vitest run test.ts -t "adds numbers"');
+    });
+
+    it('should escape literal test names', async () => {
+      // Arrange
+      const args: RunTestsArgs = { target: './test.ts', testName: 'handles (edge) case' };
+
+      // Act
+      const result = await handleRunTests(args);
+
+      // Assert
+      expect(result.command).toContain('-t "handles \\\\(edge\\\\) case"');
+    });
+
+    it('should append the line number to the target file', async () => {
+      // Arrange
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        warnings: [],
+        vitest: { supportedFeatures: ['lineFilter'] }
+      } as unknown as VersionCheck);
+      const args: RunTestsArgs = { target: './test.ts', line: 42 };
+
+      // Act
+      const result = await handleRunTests(args);
+
+      // Assert
+      expect(spawn).toHaveBeenCalledWith(
+        'npx',
+        ['vitest', 'run', 'test.ts:42', '--reporter=json'],
+        expect.any(Object)
+      );
+      expect(result.command).toBe('npx vitest run test.ts:42');
+    });
+
+    it('should reject line filters on Vitest versions without support', async () => {
+      // Arrange
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        warnings: [],
+        vitest: { supportedFeatures: [] }
+      } as unknown as VersionCheck);
+      const args: RunTestsArgs = { target: './test.ts', line: 42 };
+
+      // Act
+      await handleRunTests(args);
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          stderr: expect.stringContaining('requires Vitest 3.0.0+')
+        }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+
+    it.each([
+      [{ testNamePattern: '(unclosed' }, 'Invalid testNamePattern'],
+      [{ testNamePattern: 'a', testName: 'b' }, 'either testNamePattern or testName'],
+      [{ testName: '   ' }, 'testName cannot be empty'],
+      [{ line: 0 }, 'line must be a positive integer'],
+    ])('should reject invalid filters %o', async (filters, message) => {
+      // Arrange
+      const args: RunTestsArgs = { target: './test.ts', ...filters };
+
+      // Act
+      await handleRunTests(args);
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          stderr: expect.stringContaining(message)
+        }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+
+    it('should reject line filters on directory targets', async () => {
+      // Arrange
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      const args: RunTestsArgs = { target: './src', line: 10 };
+
+      // Act
+      await handleRunTests(args);
+
+      // Assert
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stderr: expect.stringContaining('line can only be used when target is a single test file')
+        }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Rerunning Failed Tests', () => {
+    let mockChild: ReturnType<typeof createMockChildProcess>;
+
+    beforeEach(() => {
+      testSession.reset();
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+
+      setTimeout(() => {
+        mockChild.stdout.emit('data', Buffer.from('{"success":true}'));
+        mockChild.emit('close', 0);
+      }, 10);
+    });
+
+    it('should rerun exactly the failed files and test names inside target', async () => {
+      // Arrange
+      testSession.recordResult('/test/project', {
+        summary: '', command: '', success: false, format: 'detailed', executionTimeMs: 1,
+        testSummary: { totalTests: 3, passed: 0, failed: 3 },
+        testResults: {
+          failedTests: [
+            { file: '/test/project/src/a.test.ts', tests: [{ testName: 'math adds (ints)', errorType: 'Error', message: 'x' }] },
+            { file: '/test/project/src/b.test.ts', tests: [{ testName: 'strings trims', errorType: 'Error', message: 'x' }] },
+            { file: '/test/project/lib/c.test.ts', tests: [{ testName: 'other', errorType: 'Error', message: 'x' }] }
+          ]
+        }
+      });
+      const args: RunTestsArgs = { target: './src', onlyFailed: true };
+
+      // Act
+      const result = await handleRunTests(args);
+
+      // Assert
+      const spawnArgs = vi.mocked(spawn).mock.calls[0][1] as string[];
+      expect(spawnArgs.slice(0, 4)).toEqual(['vitest', 'run', 'src/a.test.ts', 'src/b.test.ts']);
+      expect(spawnArgs).not.toContain('lib/c.test.ts');
+      expect(result.command).toContain('-t "^(?:.* )?(?:math adds \\\\(ints\\\\)|strings trims)$"');
+    });
+
+    it('should record failures from each run for the next onlyFailed call', async () => {
+      // Arrange
+      vi.mocked(processTestResult).mockResolvedValueOnce({
+        summary: '', command: 'npx vitest run src', success: false, format: 'detailed', executionTimeMs: 1,
+        testSummary: { totalTests: 1, passed: 0, failed: 1 },
+        testResults: {
+          failedTests: [{ file: '/test/project/src/a.test.ts', tests: [{ testName: 'fails', errorType: 'Error', message: 'x' }] }]
+        }
+      });
+
+      // Act
+      await handleRunTests({ target: './src' });
+
+      // Assert
+      expect(testSession.getFailedTests('/test/project')).toEqual([
+        { file: '/test/project/src/a.test.ts', testNames: ['fails'] }
+      ]);
+    });
+
+    it('should keep failures outside the target when running two different targets in a row', async () => {
+      // Arrange
+      vi.mocked(spawn).mockImplementation(() => {
+        const child = createMockChildProcess();
+        setTimeout(() => child.emit('close', 1), 10);
+        return child;
+      });
+      const failing = (file: string, testName: string) => ({
+        summary: '', command: '', success: false, format: 'detailed' as const, executionTimeMs: 1,
+        testSummary: { totalTests: 1, passed: 0, failed: 1 },
+        testResults: { failedTests: [{ file, tests: [{ testName, errorType: 'Error', message: 'x' }] }] }
+      });
+      vi.mocked(processTestResult)
+        .mockResolvedValueOnce(failing('/test/project/src/a.test.ts', 'a fails'))
+        .mockResolvedValueOnce(failing('/test/project/lib/c.test.ts', 'c fails'));
+
+      // Act
+      await handleRunTests({ target: './src' });
+      await handleRunTests({ target: './lib' });
+
+      // Assert
+      expect(testSession.getFailedTests('/test/project')).toEqual([
+        { file: '/test/project/src/a.test.ts', testNames: ['a fails'] },
+        { file: '/test/project/lib/c.test.ts', testNames: ['c fails'] }
+      ]);
+    });
+
+    it('should explain when no previous run was recorded', async () => {
+      // Act
+      await handleRunTests({ target: './src', onlyFailed: true });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stderr: expect.stringContaining('No previous test run recorded')
+        }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+
+    it('should reject onlyFailed combined with name filters', async () => {
+      // Act
+      await handleRunTests({ target: './src', onlyFailed: true, testName: 'adds' });
+
+      // Assert
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stderr: expect.stringContaining('onlyFailed cannot be combined')
+        }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Node API Execution', () => {
+    const sessionReport = {
+      version: '', success: true, startTime: 0, endTime: 1,
+      numTotalTestSuites: 1, numPassedTestSuites: 1, numFailedTestSuites: 0,
+      numTotalTests: 1, numPassedTests: 1, numFailedTests: 0,
+      testResults: []
+    };
+
+    beforeEach(() => {
+      vi.mocked(configLoader.getConfig).mockResolvedValue({
+        testDefaults: { format: 'summary' as const, timeout: 30000, watchMode: true }
+      } as unknown as ServerConfig);
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        warnings: [],
+        vitest: { supportedFeatures: ['jsonReporter', 'lineFilter', 'nodeApi'] }
+      } as unknown as VersionCheck);
+      vi.mocked(vitestSessions.run).mockResolvedValue({
+        report: sessionReport,
+        logs: ['[stdout] hello'],
+        output: '',
+        timedOut: false
+      });
+    });
+
+    it('should run on the persistent session instead of spawning when watchMode is enabled', async () => {
+      // Act
+      await handleRunTests({ target: './src/a.test.ts', line: 12, testName: 'adds' });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(vitestSessions.run).toHaveBeenCalledWith('/test/project', {
+        files: ['/test/project/src/a.test.ts:12'],
+        testNamePattern: 'adds',
+        project: undefined,
+        timeout: 30000
+      });
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({ exitCode: 0, jsonReport: sessionReport }),
+        expect.any(String),
+        expect.any(Object)
+      );
+    });
+
+    it('should attach logs captured by the session without writing temp files', async () => {
+      // Act
+      const result = await handleRunTests({ target: './src/a.test.ts', showLogs: true });
+
+      // Assert
+      expect(writeFileSync).not.toHaveBeenCalled();
+      expect(result.logs).toEqual(['[stdout] hello']);
+    });
+
+    it('should run a one-shot in-process instance when watchMode is disabled', async () => {
+      // Arrange
+      vi.mocked(configLoader.getConfig).mockResolvedValue({
+        testDefaults: { format: 'summary' as const, timeout: 30000, watchMode: false }
+      } as unknown as ServerConfig);
+      vi.mocked(runVitestInProcess).mockResolvedValue({
+        report: { ...sessionReport, success: false },
+        logs: [],
+        output: '',
+        timedOut: false
+      });
+
+      // Act
+      await handleRunTests({ target: './src', project: 'client' });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(vitestSessions.run).not.toHaveBeenCalled();
+      expect(runVitestInProcess).toHaveBeenCalledWith('/test/project', expect.objectContaining({
+        files: ['/test/project/src'],
+        project: 'client'
+      }));
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({ exitCode: 1, stdout: '' }),
+        expect.any(String),
+        expect.any(Object)
+      );
+    });
+
+    it('should run a one-shot in-process instance despite watchMode with freshInstance', async () => {
+      // Arrange
+      vi.mocked(runVitestInProcess).mockResolvedValue({ report: sessionReport, logs: [], output: '', timedOut: false });
+
+      // Act
+      await runTestsWithOptions({ target: './src/a.test.ts' }, { freshInstance: true });
+
+      // Assert
+      expect(vitestSessions.run).not.toHaveBeenCalled();
+      expect(runVitestInProcess).toHaveBeenCalledWith('/test/project', expect.objectContaining({
+        files: ['/test/project/src/a.test.ts']
+      }));
+    });
+
+    it('should fall back to spawning when Vitest does not support the Node API', async () => {
+      // Arrange
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        warnings: [],
+        vitest: { supportedFeatures: ['jsonReporter'] }
+      } as unknown as VersionCheck);
+      const mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      setTimeout(() => mockChild.emit('close', 0), 10);
+
+      // Act
+      await handleRunTests({ target: './src/a.test.ts' });
+
+      // Assert
+      expect(vitestSessions.run).not.toHaveBeenCalled();
+      expect(spawn).toHaveBeenCalled();
+    });
+
+    it('should report progress with running counts as each test file finishes', async () => {
+      // Arrange
+      const reportProgress = vi.fn();
+      vi.mocked(vitestSessions.run).mockImplementation(async (_root, options) => {
+        options.onProgress?.({ completedFiles: 0, totalFiles: 2, passed: 0, failed: 0, skipped: 0 });
+        options.onProgress?.({
+          file: '/test/project/src/a.test.ts',
+          completedFiles: 1,
+          totalFiles: 2,
+          passed: 3,
+          failed: 1,
+          skipped: 0
+        });
+        return { report: sessionReport, logs: [], output: '', timedOut: false };
+      });
+
+      // Act
+      await handleRunTests({ target: './src' }, { reportProgress });
+
+      // Assert
+      expect(reportProgress).toHaveBeenNthCalledWith(1, {
+        progress: 0,
+        total: 2,
+        message: 'Running 2 test files'
+      });
+      expect(reportProgress).toHaveBeenNthCalledWith(2, {
+        progress: 1,
+        total: 2,
+        message: '1/2 files · 3 passed, 1 failed, 0 skipped · src/a.test.ts'
+      });
+    });
+
+    it('should not subscribe to progress when the client did not ask for it', async () => {
+      // Act
+      await handleRunTests({ target: './src' });
+
+      // Assert
+      expect(vitestSessions.run).toHaveBeenCalledWith('/test/project', expect.objectContaining({
+        onProgress: undefined
+      }));
+    });
+  });
+
+  describe('Sharded Execution', () => {
+    it('should spawn one Vitest process per shard and pass every shard to the output processor', async () => {
+      // Arrange
+      vi.mocked(configLoader.getConfig).mockResolvedValue({
+        testDefaults: { format: 'summary' as const, timeout: 30000, shardConcurrency: 2 }
+      } as unknown as ServerConfig);
+      vi.mocked(fileUtils.isDirectory).mockResolvedValue(true);
+      vi.mocked(spawn).mockImplementation(() => {
+        const mockChild = createMockChildProcess();
+        setTimeout(() => {
+          mockChild.stdout.emit('data', Buffer.from('{"numTotalTests":1}'));
+          mockChild.emit('close', 0);
+        }, 0);
+        return mockChild;
+      });
+      const reportProgress = vi.fn();
+
+      // Act
+      await handleRunTests({ target: './src', shards: 3 }, { reportProgress });
+
+      // Assert
+      expect(spawn).toHaveBeenCalledTimes(3);
+      const spawnedArgs = vi.mocked(spawn).mock.calls.map(call => call[1] as string[]);
+      expect(spawnedArgs.map(args => args.find(arg => arg.startsWith('--shard=')))).toEqual([
+        '--shard=1/3', '--shard=2/3', '--shard=3/3'
+      ]);
+      expect(spawnedArgs[0]).toContain('--passWithNoTests');
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          exitCode: 0,
+          shards: [
+            expect.objectContaining({ index: 1, stdout: '{"numTotalTests":1}' }),
+            expect.objectContaining({ index: 2 }),
+            expect.objectContaining({ index: 3 })
+          ]
+        }),
+        expect.any(String),
+        expect.any(Object)
+      );
+      expect(reportProgress).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 3, total: 3 }));
+    });
+
+    it('should run no more shards at once than shardConcurrency allows', async () => {
+      // Arrange
+      vi.mocked(configLoader.getConfig).mockResolvedValue({
+        testDefaults: { format: 'summary' as const, timeout: 30000, shardConcurrency: 2 }
+      } as unknown as ServerConfig);
+      let running = 0;
+      let maxRunning = 0;
+      vi.mocked(spawn).mockImplementation(() => {
+        const mockChild = createMockChildProcess();
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        setTimeout(() => {
+          running--;
+          mockChild.emit('close', 0);
+        }, 5);
+        return mockChild;
+      });
+
+      // Act
+      await handleRunTests({ target: './src', shards: 4 });
+
+      // Assert
+      expect(spawn).toHaveBeenCalledTimes(4);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should reject shards combined with line', async () => {
+      // Act
+      await handleRunTests({ target: './src/a.test.ts', shards: 2, line: 3 });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({ stderr: 'shards cannot be combined with line.' }),
+        'detailed',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Explicit File Lists', () => {
+    it('should run the given test files without requiring a target', async () => {
+      // Arrange
+      const mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      setTimeout(() => mockChild.emit('close', 0), 10);
+
+      // Act
+      await runTestFiles(['/test/project/src/a.test.ts', '/test/project/lib/b.test.ts'], { format: 'summary' });
+
+      // Assert
+      expect(fileUtils.fileExists).not.toHaveBeenCalled();
+      const spawnedArgs = vi.mocked(spawn).mock.calls[0][1] as string[];
+      expect(spawnedArgs).toEqual(expect.arrayContaining(['src/a.test.ts', 'lib/b.test.ts']));
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({ command: 'npx vitest run src/a.test.ts lib/b.test.ts' }),
+        expect.any(String),
+        expect.objectContaining({ isMultiFile: true })
+      );
+    });
+  });
+
+  describe('History', () => {
+    it('should record passed tests in the history but leave them out of the result', async () => {
+      // Arrange
+      const mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      setTimeout(() => mockChild.emit('close', 0), 10);
+      vi.mocked(historyStore.isEnabled).mockResolvedValue(true);
+      const passedTests = [{ file: '/test/project/src/a.test.ts', tests: [{ testName: 'adds', duration: 3 }] }];
+      vi.mocked(processTestResult).mockResolvedValueOnce({
+        summary: '✅ All 1 tests passed',
+        command: 'npx vitest run src/a.test.ts',
+        success: true,
+        testSummary: { totalTests: 1, passed: 1, failed: 0 },
+        format: 'summary',
+        executionTimeMs: 10,
+        testResults: { passedTests }
+      });
+
+      // Act
+      const result = await handleRunTests({ target: './src/a.test.ts' });
+
+      // Assert
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(String),
+        expect.objectContaining({ includePassedTests: true })
+      );
+      expect(historyStore.recordTestRun).toHaveBeenCalledWith(
+        '/test/project',
+        'src/a.test.ts',
+        expect.objectContaining({ testResults: { passedTests } })
+      );
+      expect(result.testResults).toBeUndefined();
+    });
+
+    it('should not record the result for onlyFailed or in the history with skipRecording', async () => {
+      // Arrange
+      const mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      setTimeout(() => mockChild.emit('close', 0), 10);
+      vi.mocked(historyStore.isEnabled).mockResolvedValue(true);
+      const recordSpy = vi.spyOn(testSession, 'recordResult');
+
+      // Act
+      const result = await runTestsWithOptions({ target: './src/a.test.ts' }, { skipRecording: true });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(recordSpy).not.toHaveBeenCalled();
+      expect(historyStore.recordTestRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Exports', () => {
+    it('should write JUnit XML with passed tests while leaving them out of the result', async () => {
+      // Arrange
+      const mockChild = createMockChildProcess();
+      vi.mocked(spawn).mockReturnValue(mockChild);
+      setTimeout(() => mockChild.emit('close', 0), 10);
+      vi.mocked(processTestResult).mockResolvedValueOnce({
+        summary: '✅ All 1 tests passed',
+        command: 'npx vitest run src/a.test.ts',
+        success: true,
+        testSummary: { totalTests: 1, passed: 1, failed: 0 },
+        format: 'summary',
+        executionTimeMs: 10,
+        testResults: { passedTests: [{ file: '/test/project/src/a.test.ts', tests: [{ testName: 'adds', duration: 3 }] }] }
+      });
+
+      // Act
+      const result = await handleRunTests({ target: './src/a.test.ts', export: [{ format: 'junit', path: 'reports/junit.xml' }] });
+
+      // Assert
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(String),
+        expect.objectContaining({ includePassedTests: true })
+      );
+      expect(writeFile).toHaveBeenCalledWith(
+        '/test/project/reports/junit.xml',
+        expect.stringContaining('<testcase classname="src/a.test.ts" name="adds" time="0.003"/>'),
+        'utf-8'
+      );
+      expect(result.exports).toEqual([{ format: 'junit', path: 'reports/junit.xml' }]);
+      expect(result.summary).toBe('✅ All 1 tests passed; exported junit to reports/junit.xml');
+      expect(result.testResults).toBeUndefined();
+    });
+
+    it('should reject an export path outside the project before running Vitest', async () => {
+      // Act
+      await handleRunTests({ target: './src/a.test.ts', export: [{ format: 'sarif', path: '/tmp/tests.sarif' }] });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(processTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({ stderr: expect.stringContaining('Invalid export path "/tmp/tests.sarif"') }),
+        'detailed',
+        expect.anything()
+      );
+    });
+  });
+
+    describe('Cancellation', () => {
+    it('should kill the spawned process tree and clean up log capture files when cancelled', async () => {
+      // Arrange
+      const controller = new AbortController();
+      const mockChild = Object.assign(createMockChildProcess(), { pid: 4242, exitCode: null, signalCode: null });
+      vi.mocked(spawn).mockImplementation(() => {
+        setTimeout(() => controller.abort(), 0);
+        return mockChild;
+      });
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => {
+        setTimeout(() => mockChild.emit('close', null), 0);
+        return true;
+      });
+      const recordSpy = vi.spyOn(testSession, 'recordResult');
+
+      // Act
+      const result = await handleRunTests(
+        { target: './src/a.test.ts', showLogs: true },
+        { signal: controller.signal }
+      );
+
+      // Assert
+      expect(killSpy).toHaveBeenCalledWith(-4242, 'SIGTERM');
+      expect(result).toMatchObject({ success: false, cancelled: true, summary: expect.stringContaining('cancelled') });
+      expect(unlinkSync).toHaveBeenCalled();
+      expect(recordSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not start Vitest when the request was cancelled before execution', async () => {
+      // Arrange
+      const controller = new AbortController();
+      controller.abort();
+
+      // Act
+      const result = await handleRunTests({ target: './src/a.test.ts' }, { signal: controller.signal });
+
+      // Assert
+      expect(spawn).not.toHaveBeenCalled();
+      expect(result.cancelled).toBe(true);
+    });
+
+    it('should pass the signal to in-process runs and return a cancelled result', async () => {
+      // Arrange
+      const controller = new AbortController();
+      vi.mocked(configLoader.getConfig).mockResolvedValue({
+        testDefaults: { format: 'summary' as const, timeout: 30000, watchMode: true }
+      } as unknown as ServerConfig);
+      vi.mocked(versionChecker.checkAllVersions).mockResolvedValue({
+        errors: [],
+        warnings: [],
+        vitest: { supportedFeatures: ['nodeApi'] }
+      } as unknown as VersionCheck);
+      vi.mocked(vitestSessions.run).mockImplementation(async (_root, options) => {
+        controller.abort();
+        expect(options.signal?.aborted).toBe(true);
+        return {
+          report: { numTotalTests: 0, success: false, testResults: [] } as unknown as VitestJsonResult,
+          logs: [],
+          output: '',
+          timedOut: false,
+          cancelled: true
+        };
+      });
+
+      // Act
+      const result = await handleRunTests({ target: './src/a.test.ts' }, { signal: controller.signal });
+
+      // Assert
+      expect(vitestSessions.run).toHaveBeenCalled();
+      expect(result).toMatchObject({ cancelled: true, testSummary: { totalTests: 0 } });
+    });
+  });
+
   describe('Utility Functions', () => {
     it('should create execution context for file', async () => {
       // Arrange
@@ -24,6 +24,7 @@ vi.mock('../../utils/output-processor.js', () => ({
 }));
 vi.mock('../../context/project-context.js');
 vi.mock('../../utils/config-finder.js');
+vi.mock('../../utils/workspace-projects.js');
 vi.mock('fs', () => ({
   writeFileSync: vi.fn(),
   readFileSync: vi.fn().mockReturnValue(''),
@@ -121,6 +121,14 @@ describe('set-project-root', () => {
           path: {
             type: 'string',
             description: 'Absolute path to the project root directory (must start with / on Unix or drive letter on Windows)'
+          },
+          alias: {
+            type: 'string',
+            description: 'Optional name for this root, to pass as projectRoot to other tools (e.g., "api"). Defaults to the directory name, with a number appended if it is taken.'
+          },
+          activate: {
+            type: 'boolean',
+            description: 'Make this the active root used by tools called without projectRoot (default: true). Set to false to register another repository while keeping the current one active.'
           }
         },
         required: ['path']
@@ -292,6 +300,20 @@ describe('set-project-root', () => {
       expect(projectContext.getProjectInfo()?.path).toBe(secondPath);
     });
 
+    it('should register another root under an alias without switching to it', async () => {
+      // Arrange
+      await handleSetProjectRoot({ path: '/first/web' });
+
+      // Act
+      const result = await handleSetProjectRoot({ path: '/second/api', alias: 'backend', activate: false });
+
+      // Assert
+      expect(result).toMatchObject({ success: true, projectRoot: '/second/api', alias: 'backend', active: false });
+      expect(result.message).toContain('pass projectRoot: "backend"');
+      expect(projectContext.getProjectRoot()).toBe('/first/web');
+      expect(projectContext.getProjectRoot('backend')).toBe('/second/api');
+    });
+
     it('should validate new project root', async () => {
       // Arrange
       const invalidPath = '/invalid/path';
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleTestHistory, testHistoryTool } from '../test-history.js';
+import { projectContext } from '../../context/project-context.js';
+import { historyStore, type HistoryRecord } from '../../utils/history-store.js';
+import type { CoverageAnalysisResult } from '../../types/coverage-types.js';
+
+vi.mock('../../context/project-context.js');
+vi.mock('../../utils/history-store.js');
+
+function testRun(timestamp: string, commit: string, retryPassed: boolean, retryDuration = 10): HistoryRecord {
+  return {
+    kind: 'test',
+    timestamp,
+    commit,
+    target: 'src/api',
+    result: {
+      summary: retryPassed ? '✅ All 2 tests passed' : '❌ 1 failed, ✅ 1 passed (2 total)',
+      command: 'npx vitest run src/api',
+      success: retryPassed,
+      testSummary: { totalTests: 2, passed: retryPassed ? 2 : 1, failed: retryPassed ? 0 : 1 },
+      format: 'detailed',
+      executionTimeMs: 100,
+      testResults: {
+        passedTests: [{
+          file: '/project/src/api/client.test.ts',
+          tests: [
+            { testName: 'client parses responses', duration: 2 },
+            ...(retryPassed ? [{ testName: 'client retries requests', duration: retryDuration }] : [])
+          ]
+        }],
+        ...(retryPassed ? {} : {
+          failedTests: [{
+            file: '/project/src/api/client.test.ts',
+            tests: [{ testName: 'client retries requests', duration: retryDuration, errorType: 'AssertionError', message: 'expected 2 to be 3' }]
+          }]
+        })
+      }
+    }
+  };
+}
+
+function coverageRun(timestamp: string, target: string, lines: number): HistoryRecord {
+  return {
+    kind: 'coverage',
+    timestamp,
+    commit: 'c0ffee',
+    target,
+    result: {
+      summary: `Coverage: ${lines}% lines`,
+      success: true,
+      coverage: { lines, functions: 80, branches: 70, statements: lines },
+      totals: { lines: 100, functions: 10, branches: 20 },
+      command: 'npx vitest run --coverage',
+      duration: 1000
+    } as CoverageAnalysisResult
+  };
+}
+
+describe('test-history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(projectContext.getProjectRoot).mockReturnValue('/project');
+    vi.mocked(historyStore.getHistoryPath).mockReturnValue('/project/.vitest-mcp/history.jsonl');
+    vi.mocked(historyStore.isEnabled).mockResolvedValue(true);
+  });
+
+  it('should require a query', () => {
+    // Assert
+    expect(testHistoryTool.name).toBe('test_history');
+    expect(testHistoryTool.inputSchema.required).toEqual(['query']);
+  });
+
+  it('should report when a failing test started failing and when it last passed', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([
+      testRun('2026-01-01T10:00:00.000Z', 'aaa', true),
+      testRun('2026-01-02T10:00:00.000Z', 'bbb', false),
+      testRun('2026-01-03T10:00:00.000Z', 'ccc', false)
+    ]);
+
+    // Act
+    const result = await handleTestHistory({ query: 'failures' });
+
+    // Assert
+    expect(result.failingTests).toEqual([{
+      file: 'src/api/client.test.ts',
+      testName: 'client retries requests',
+      failingSince: { timestamp: '2026-01-02T10:00:00.000Z', commit: 'bbb' },
+      lastPassed: { timestamp: '2026-01-01T10:00:00.000Z', commit: 'aaa' },
+      consecutiveFailures: 2,
+      latestFailure: 'AssertionError: expected 2 to be 3'
+    }]);
+    expect(result.summary).toBe('1 test(s) currently failing, oldest failure since 2026-01-02T10:00:00.000Z');
+  });
+
+  it('should not report tests that pass again', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([
+      testRun('2026-01-01T10:00:00.000Z', 'aaa', false),
+      testRun('2026-01-02T10:00:00.000Z', 'bbb', true)
+    ]);
+
+    // Act
+    const result = await handleTestHistory({ query: 'failures', testName: 'RETRIES' });
+
+    // Assert
+    expect(result.failingTests).toEqual([]);
+    expect(result.summary).toBe('No currently failing tests in 2 recorded run(s)');
+  });
+
+  it('should rank tests by mean duration over the last runs', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([
+      testRun('2026-01-01T10:00:00.000Z', 'aaa', true, 100),
+      testRun('2026-01-02T10:00:00.000Z', 'bbb', true, 10),
+      testRun('2026-01-03T10:00:00.000Z', 'ccc', false, 30)
+    ]);
+
+    // Act
+    const result = await handleTestHistory({ query: 'slowest', limit: 2, top: 1 });
+
+    // Assert
+    expect(result.recordsExamined).toBe(2);
+    expect(result.slowestTests).toEqual([{
+      file: 'src/api/client.test.ts',
+      testName: 'client retries requests',
+      runs: 2,
+      meanMs: 20,
+      maxMs: 30,
+      latestMs: 30
+    }]);
+  });
+
+  it('should return the coverage trend for a path', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([
+      coverageRun('2026-01-01T10:00:00.000Z', 'src/api', 70),
+      coverageRun('2026-01-02T10:00:00.000Z', 'src/ui', 40),
+      testRun('2026-01-02T11:00:00.000Z', 'bbb', true),
+      coverageRun('2026-01-03T10:00:00.000Z', 'src/api/client.ts', 82.5)
+    ]);
+
+    // Act
+    const result = await handleTestHistory({ query: 'coverage_trend', path: 'src/api' });
+
+    // Assert
+    expect(result.coverageTrend?.map((point) => point.coverage.lines)).toEqual([70, 82.5]);
+    expect(result.coverageChange).toEqual({ lines: 12.5, functions: 0, branches: 0, statements: 12.5 });
+    expect(result.summary).toBe('Line coverage went from 70% to 82.5% over 2 analysis(es)');
+  });
+
+  it('should compute the coverage of a path from the file breakdown of wider analyses', async () => {
+    // Arrange
+    const file = (path: string, covered: number, total: number) => ({
+      path,
+      coverage: { lines: 0, functions: 0, branches: 0, statements: 0 },
+      totals: { lines: total, functions: 2, branches: 0, statements: total },
+      covered: { lines: covered, functions: 1, branches: 0, statements: covered }
+    });
+    const projectRun = coverageRun('2026-01-01T10:00:00.000Z', '.', 50);
+    (projectRun.result as CoverageAnalysisResult).fileBreakdown = [
+      file('/project/src/api/client.ts', 3, 4),
+      file('/project/src/api/server.ts', 3, 6),
+      file('/project/src/ui/button.ts', 0, 10)
+    ];
+    vi.mocked(historyStore.read).mockResolvedValue([
+      projectRun,
+      coverageRun('2026-01-02T10:00:00.000Z', 'src', 55),
+      coverageRun('2026-01-03T10:00:00.000Z', 'src/api', 80)
+    ]);
+
+    // Act
+    const result = await handleTestHistory({ query: 'coverage_trend', path: 'src/api' });
+
+    // Assert
+    expect(result.coverageTrend).toEqual([
+      expect.objectContaining({ target: '.', coverage: { lines: 60, functions: 50, branches: 0, statements: 60 } }),
+      expect.objectContaining({ target: 'src/api', coverage: { lines: 80, functions: 80, branches: 70, statements: 80 } })
+    ]);
+    expect(result.coverageChange).toMatchObject({ lines: 20 });
+  });
+
+  it('should explain how to enable history when it is off and nothing is recorded', async () => {
+    // Arrange
+    vi.mocked(historyStore.read).mockResolvedValue([]);
+    vi.mocked(historyStore.isEnabled).mockResolvedValue(false);
+
+    // Act & Assert
+    await expect(handleTestHistory({ query: 'failures' })).rejects.toThrow(
+      'History recording is off. Enable it with "history": { "enabled": true } in .vitest-mcp.json, --history or VITEST_MCP_HISTORY=true.'
+    );
+  });
+
+  it('should require a project root', async () => {
+    // Arrange
+    vi.mocked(projectContext.getProjectRoot).mockImplementation(() => {
+      throw new Error('Project root has not been set');
+    });
+
+    // Act & Assert
+    await expect(handleTestHistory({ query: 'runs' })).rejects.toThrow('Please call set_project_root first');
+  });
+});
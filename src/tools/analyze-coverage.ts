@@ -8,6 +8,7 @@ import { resolve, relative } from "path";
 import { readFile } from "fs/promises";
 import {
   AnalyzeCoverageArgs,
+  CoverageExportFormat,
   ProcessedCoverageResult,
   CoverageAnalysisResult,
   RawCoverageData,
@@ -20,6 +21,14 @@ import {
   generateVersionReport,
 } from "../utils/version-checker.js";
 import { projectContext } from "../context/project-context.js";
+import { runVitestInProcess } from "../utils/vitest-node-api.js";
+import { processGroupOptions, terminateProcessTree } from "../utils/process-utils.js";
+import { historyStore } from "../utils/history-store.js";
+import { getDiff, getRepositoryPrefix } from "../utils/git-utils.js";
+import { calculatePatchCoverage, parseUnifiedDiff, stripDiffPathPrefix } from "../utils/patch-coverage.js";
+import { resolveExportPath, writeCoverageExport } from "../utils/coverage-export.js";
+import { validateProjectName } from "../utils/workspace-projects.js";
+import type { ToolExecutionContext } from "../plugins/plugin-interface.js";
 
 /**
  * Tool for analyzing test coverage with actionable insights
@@ -52,6 +61,62 @@ export const analyzeCoverageTool: Tool = {
         },
         default: [],
       },
+      provider: {
+        type: "string",
+        enum: ["v8", "istanbul"],
+        description:
+          "Coverage provider to use. Defaults to the provider configured in the project's Vitest config, or v8. Requires @vitest/coverage-v8 or @vitest/coverage-istanbul respectively.",
+      },
+      includeSource: {
+        type: "boolean",
+        description:
+          "Attach the source of uncovered code: consecutive uncovered lines grouped into ranges with a few lines of context, and each branch arm that never ran (if/else, ternary, ??/||/&&, switch case) with its code. Saves reading each file to write the missing tests.",
+        default: false,
+      },
+      patchCoverage: {
+        type: "object",
+        description:
+          'Also report coverage of only the lines added or modified by a diff, listing each uncovered changed line with its source. Pass {} to diff the working tree (including untracked files) against HEAD, { base: "main" } to diff against another ref, or { diff: "<unified diff>" } to use a diff you already have. Only changed files inside target are counted.',
+        properties: {
+          base: {
+            type: "string",
+            description: 'Git ref to diff against (default: "HEAD")',
+          },
+          diff: {
+            type: "string",
+            description: "Unified diff text to use instead of running git diff, with paths relative to the repository root or the project root",
+          },
+        },
+      },
+      export: {
+        type: "array",
+        description:
+          'Also write the coverage of this run to files for other tools: "lcov" (IDE gutters, Codecov), "cobertura" (Cobertura XML for CI dashboards) or "sarif" (uncovered functions and branches as warnings for code scanning and review bots). Paths must be inside the project root and default to coverage/lcov.info, coverage/cobertura-coverage.xml and coverage/coverage.sarif.',
+        items: {
+          type: "object",
+          properties: {
+            format: {
+              type: "string",
+              enum: ["lcov", "cobertura", "sarif"],
+            },
+            path: {
+              type: "string",
+              description: "Output file, relative to the project root",
+            },
+          },
+          required: ["format"],
+        },
+      },
+      project: {
+        type: "string",
+        description:
+          'Name of the Vitest project to collect coverage with, as defined in vitest.workspace.ts or the projects array of vitest.config.ts. Use list_projects to see the available names; unknown names are rejected with the closest matches.',
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
     },
     required: ["target"],
   },
@@ -67,6 +132,14 @@ export interface CoverageExecutionResult {
   coverageData?: RawCoverageData;
 }
 
+/**
+ * Options for tools that build on the analyze_coverage pipeline
+ */
+export interface CoverageAnalyzerOptions {
+  /** Analyze this directory instead of the current project root, e.g. a worktree of another commit */
+  projectRoot?: string;
+}
+
 /**
  * CoverageAnalyzer class - Handles coverage analysis with single responsibility methods
  */
@@ -74,8 +147,15 @@ class CoverageAnalyzer {
   private projectRoot: string;
   private startTime: number;
   private config: ResolvedVitestMCPConfig | null = null;
-
-  constructor() {
+  private supportsNodeApi = false;
+  private toolContext: ToolExecutionContext;
+  private options: CoverageAnalyzerOptions;
+  private changedLines?: Map<string, number[]>;
+  private exportTargets?: Array<{ format: CoverageExportFormat; path: string }>;
+
+  constructor(toolContext: ToolExecutionContext = {}, options: CoverageAnalyzerOptions = {}) {
+    this.toolContext = toolContext;
+    this.options = options;
     this.startTime = performance.now();
     this.projectRoot = "";
   }
@@ -90,16 +170,29 @@ class CoverageAnalyzer {
       );
     }
 
+    if (args.provider !== undefined && args.provider !== "v8" && args.provider !== "istanbul") {
+      throw new Error(`Invalid provider "${args.provider}". Use "v8" or "istanbul".`);
+    }
+
     this.config = await getConfig();
 
     try {
-      this.projectRoot = projectContext.getProjectRoot();
-    } catch {
+      this.projectRoot = this.options.projectRoot ?? projectContext.getProjectRoot(args.projectRoot);
+    } catch (error) {
+      if (args.projectRoot) {
+        throw error;
+      }
       throw new Error("Please call set_project_root first");
     }
 
     const targetPath = resolve(this.projectRoot, args.target);
 
+    // Validate export paths before running coverage, so a bad path fails fast
+    this.exportTargets = args.export?.map((options) => ({
+      format: options.format,
+      path: resolveExportPath(this.projectRoot, options),
+    }));
+
     // Check if target is a test file
     if (this.isTestFile(args.target)) {
       throw new Error("Run coverage analysis on the source file, not the test file");
@@ -122,21 +215,27 @@ class CoverageAnalyzer {
   /**
    * Validate versions and target path
    */
-  private async validateEnvironment(targetPath: string): Promise<void> {
-    const versionCheck = await checkAllVersions(this.projectRoot);
+  private async validateEnvironment(targetPath: string, args: AnalyzeCoverageArgs): Promise<void> {
+    const versionCheck = await checkAllVersions(this.projectRoot, { provider: args.provider });
     if (versionCheck.errors.length > 0) {
       const report = generateVersionReport(versionCheck);
       throw new Error(`Version compatibility issues found:\n\n${report}`);
     }
 
-    if (!versionCheck.coverageProvider.version) {
+    this.supportsNodeApi = versionCheck.vitest?.supportedFeatures?.includes("nodeApi") ?? false;
+
+    if (versionCheck.coverageProvider && !versionCheck.coverageProvider.version) {
       if (process.env.CI !== "true") {
         console.error(
-          "Warning: Coverage provider not found. Install @vitest/coverage-v8 for coverage analysis."
+          `Warning: Coverage provider not found. Install ${versionCheck.coverageProvider.provider} for coverage analysis.`
         );
       }
     }
 
+    if (args.project) {
+      await validateProjectName(this.projectRoot, args.project);
+    }
+
     if (!(await fileExists(targetPath))) {
       throw new Error(
         `Target does not exist: ${targetPath}`
@@ -172,7 +271,16 @@ class CoverageAnalyzer {
    */
   private async executeCoverage(args: AnalyzeCoverageArgs): Promise<CoverageExecutionResult> {
     const { targetPath, config } = await this.validateInput(args);
-    await this.validateEnvironment(targetPath);
+    await this.validateEnvironment(targetPath, args);
+
+    // Read the diff before running coverage, so a bad ref fails fast
+    if (args.patchCoverage) {
+      // git diff --relative already prints paths relative to the project root;
+      // a diff passed in is usually relative to the repository root
+      this.changedLines = args.patchCoverage.diff === undefined
+        ? parseUnifiedDiff(await getDiff(this.projectRoot, args.patchCoverage.base))
+        : stripDiffPathPrefix(parseUnifiedDiff(args.patchCoverage.diff), await getRepositoryPrefix(this.projectRoot));
+    }
 
     // Don't modify exclude here - let getExcludePatterns handle the defaults
     const finalArgs = {
@@ -180,6 +288,10 @@ class CoverageAnalyzer {
       format: args.format ?? config.coverageDefaults.format,
     };
 
+    if (this.toolContext.signal?.aborted) {
+      throw new Error("Coverage analysis cancelled");
+    }
+
     return await this.executeCoverageAnalysis(finalArgs, config, targetPath);
   }
 
@@ -208,12 +320,37 @@ class CoverageAnalyzer {
       format as "summary" | "detailed",
       {
         target: args.target,
+        includeSource: args.includeSource,
+        projectRoot: this.projectRoot,
       }
     );
 
     result.command = coverageResult.command;
     result.duration = Math.round((performance.now() - this.startTime) * 100) / 100;
 
+    if (this.changedLines) {
+      result.patchCoverage = await calculatePatchCoverage(
+        coverageResult.coverageData.files,
+        this.changedLines,
+        this.projectRoot
+      );
+      if (args.patchCoverage?.diff === undefined) {
+        result.patchCoverage.base = args.patchCoverage?.base ?? "HEAD";
+      }
+      result.summary += result.patchCoverage.changedLines > 0
+        ? `; patch: ${result.patchCoverage.percentage}% of ${result.patchCoverage.changedLines} changed line(s) covered`
+        : "; patch: no changed lines to cover";
+    }
+
+    if (this.exportTargets?.length) {
+      result.exports = [];
+      for (const { format, path } of this.exportTargets) {
+        await writeCoverageExport(coverageResult.coverageData.files, format, path, this.projectRoot);
+        result.exports.push({ format, path: relative(this.projectRoot, path) });
+      }
+      result.summary += `; exported ${result.exports.map(({ format, path }) => `${format} to ${path}`).join(", ")}`;
+    }
+
     return result;
   }
 
@@ -239,18 +376,47 @@ class CoverageAnalyzer {
     }
   }
 
+  /**
+   * Create the result returned when the client cancelled the analysis
+   */
+  private createCancelledResult(builtCommand: string): ProcessedCoverageResult {
+    const cancelledResult = createErrorAnalysis(undefined);
+    cancelledResult.summary = "⏹️ Coverage analysis cancelled";
+    cancelledResult.cancelled = true;
+    cancelledResult.command = builtCommand;
+    cancelledResult.duration = Math.round((performance.now() - this.startTime) * 100) / 100;
+    cancelledResult.error = "Coverage analysis was cancelled by the client";
+    return cancelledResult;
+  }
+
   /**
    * Main execution method
    */
   async execute(args: AnalyzeCoverageArgs): Promise<ProcessedCoverageResult> {
+    const { signal } = this.toolContext;
     let builtCommand = "";
 
     try {
       builtCommand = this.buildDisplayCommand(args);
       
       const coverageResult = await this.executeCoverage(args);
-      return await this.processCoverageResults(args, coverageResult);
+      if (signal?.aborted) {
+        return this.createCancelledResult(builtCommand);
+      }
+      const result = await this.processCoverageResults(args, coverageResult);
+      // Analyses of other directories (e.g. temporary worktrees) are not part of the project's history
+      if (!this.options.projectRoot) {
+        await historyStore.recordCoverage(
+          this.projectRoot,
+          relative(this.projectRoot, resolve(this.projectRoot, args.target)) || ".",
+          result
+        );
+      }
+      return result;
     } catch (error) {
+      if (signal?.aborted) {
+        return this.createCancelledResult(builtCommand);
+      }
       return this.createErrorResult(error, builtCommand);
     }
   }
@@ -263,8 +429,14 @@ class CoverageAnalyzer {
     config: ResolvedVitestMCPConfig,
     targetPath: string
   ): Promise<CoverageExecutionResult> {
-    const command = await this.buildCoverageCommand(args, config, targetPath);
-    const result = await executeCommand(command, this.projectRoot);
+    const testTarget = await this.resolveTestTarget(targetPath);
+    const command = this.buildCoverageCommand(args, testTarget);
+
+    if (this.supportsNodeApi) {
+      return await this.executeCoverageInProcess(args, config, command, testTarget);
+    }
+
+    const result = await executeCommand(command, this.projectRoot, this.toolContext.signal);
 
     let coverageData: RawCoverageData | undefined;
 
@@ -282,6 +454,52 @@ class CoverageAnalyzer {
     };
   }
 
+  /**
+   * Run coverage through the Vitest Node API and take the coverage map straight
+   * from the reporter, instead of scraping it from stdout
+   */
+  private async executeCoverageInProcess(
+    args: AnalyzeCoverageArgs,
+    config: ResolvedVitestMCPConfig,
+    command: string[],
+    testTarget: string
+  ): Promise<CoverageExecutionResult> {
+    const timeoutMs = config.testDefaults.timeout * 2;
+    const runResult = await runVitestInProcess(this.projectRoot, {
+      files: [resolve(this.projectRoot, testTarget)],
+      project: args.project,
+      timeout: timeoutMs,
+      coverage: {
+        enabled: true,
+        ...(args.provider ? { provider: args.provider } : {}),
+        clean: true,
+        cleanOnRerun: true,
+        exclude: this.getExcludePatterns(args),
+        reporter: ["json"],
+      },
+      signal: this.toolContext.signal,
+    });
+
+    const coverageData =
+      runResult.coverageMap && Object.keys(runResult.coverageMap).length > 0
+        ? transformCoverageData(runResult.coverageMap as Record<string, CoverageFileData>, args.target)
+        : await this.loadCoverageFromFile(args.target);
+
+    const success = runResult.report.success && !runResult.timedOut;
+
+    return {
+      command: command.join(" "),
+      success,
+      stdout: "",
+      stderr: runResult.timedOut
+        ? `Coverage analysis timed out after ${timeoutMs / 1000} seconds. Try analyzing a smaller target.`
+        : runResult.output,
+      exitCode: runResult.timedOut ? 124 : success ? 0 : 1,
+      duration: 0,
+      coverageData,
+    };
+  }
+
   /**
    * Parse coverage data from stdout or fallback to file
    */
@@ -391,11 +609,10 @@ class CoverageAnalyzer {
   /**
    * Build Vitest coverage command with all necessary flags
    */
-  private async buildCoverageCommand(
+  private buildCoverageCommand(
     args: AnalyzeCoverageArgs,
-    config: ResolvedVitestMCPConfig,
-    targetPath: string
-  ): Promise<string[]> {
+    testTarget: string
+  ): string[] {
     const command = ["npx", "vitest", "run"];
 
     // Basic coverage settings
@@ -406,10 +623,17 @@ class CoverageAnalyzer {
     command.push("--coverage.cleanOnRerun=true");
 
     // Add target files first (must come before --coverage flag)
-    await this.addTargetToCommand(command, args, targetPath);
+    command.push(testTarget);
+
+    if (args.project) {
+      command.push("--project", args.project);
+    }
 
     // Enable coverage
     command.push("--coverage");
+    if (args.provider) {
+      command.push(`--coverage.provider=${args.provider}`);
+    }
 
     // Add coverage exclusions (not test exclusions)
     // Note: --exclude is for test files, --coverage.exclude is for coverage reporting
@@ -448,13 +672,9 @@ class CoverageAnalyzer {
   }
 
   /**
-   * Add target to command, finding test files if needed
+   * Resolve the test filter for a target, finding its test file if needed
    */
-  private async addTargetToCommand(
-    command: string[],
-    args: AnalyzeCoverageArgs,
-    targetPath: string
-  ): Promise<void> {
+  private async resolveTestTarget(targetPath: string): Promise<string> {
     if (
       !targetPath.includes(".test.") &&
       !targetPath.includes(".spec.") &&
@@ -462,9 +682,7 @@ class CoverageAnalyzer {
     ) {
       const testFilePath = await this.findTestFile(targetPath);
       if (testFilePath) {
-        const relativeTestPath = relative(this.projectRoot, testFilePath);
-        command.push(relativeTestPath);
-        return;
+        return relative(this.projectRoot, testFilePath);
       }
     }
 
@@ -474,7 +692,7 @@ class CoverageAnalyzer {
         "Cannot target project root. Please specify a specific file or subdirectory."
       );
     }
-    command.push(relativePath);
+    return relativePath;
   }
 
   /**
@@ -545,9 +763,23 @@ class CoverageAnalyzer {
  * Main handler for coverage analysis
  */
 export async function handleAnalyzeCoverage(
-  args: AnalyzeCoverageArgs
+  args: AnalyzeCoverageArgs,
+  context?: ToolExecutionContext
 ): Promise<ProcessedCoverageResult> {
-  const analyzer = new CoverageAnalyzer();
+  const analyzer = new CoverageAnalyzer(context);
+  return await analyzer.execute(args);
+}
+
+/**
+ * Run the analyze_coverage pipeline with options other tools need,
+ * e.g. on a checkout of another commit
+ */
+export async function analyzeCoverageWithOptions(
+  args: AnalyzeCoverageArgs,
+  options: CoverageAnalyzerOptions,
+  context?: ToolExecutionContext
+): Promise<ProcessedCoverageResult> {
+  const analyzer = new CoverageAnalyzer(context, options);
   return await analyzer.execute(args);
 }
 
@@ -741,7 +973,8 @@ function transformCoverageData(
  */
 async function executeCommand(
   command: string[],
-  cwd: string
+  cwd: string,
+  signal?: AbortSignal
 ): Promise<CoverageExecutionResult> {
   const config = await getConfig();
 
@@ -760,6 +993,9 @@ async function executeCommand(
 
       ...(process.platform === "win32" && cmd === "npx" ? { shell: true } : {}),
 
+      // Own process group, so npx and Vitest workers can be killed together
+      ...processGroupOptions(),
+
       env: {
         ...process.env,
 
@@ -787,7 +1023,8 @@ async function executeCommand(
 
     const timeoutMs = config.testDefaults.timeout * 2;
     const timeout = setTimeout(() => {
-      child.kill("SIGTERM");
+      signal?.removeEventListener("abort", onAbort);
+      terminateProcessTree(child);
       resolve({
         command: command.join(" "),
         success: false,
@@ -800,6 +1037,20 @@ async function executeCommand(
       });
     }, timeoutMs);
 
+    const onAbort = () => {
+      clearTimeout(timeout);
+      terminateProcessTree(child);
+      resolve({
+        command: command.join(" "),
+        success: false,
+        stdout,
+        stderr: "Coverage analysis cancelled",
+        exitCode: 130,
+        duration: 0,
+      });
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     child.stdout?.on("data", (data) => {
       stdout += data.toString();
     });
@@ -810,6 +1061,7 @@ async function executeCommand(
 
     child.on("close", (code) => {
       clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
       if (process.env.VITEST_MCP_DEBUG) {
         console.error('Command exit code:', code, 'stderr length:', stderr.length);
         if (stderr) {
@@ -828,6 +1080,7 @@ async function executeCommand(
 
     child.on("error", (error) => {
       clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
       resolve({
         command: command.join(" "),
         success: false,
@@ -0,0 +1,225 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "fs/promises";
+import { relative, resolve } from "path";
+import { findTestFiles, fileExists, isDirectory } from "../utils/file-utils.js";
+import {
+  analyzeTestCases,
+  countTestCases,
+  type TestCaseCall,
+} from "../utils/test-case-parser.js";
+import { projectContext } from "../context/project-context.js";
+
+/**
+ * Tool for finding focused, skipped and suspicious tests
+ */
+export const auditTestsTool: Tool = {
+  name: "audit_tests",
+  description:
+    'Scan the test files of the project for leftover .only (which silently skips every other test in the file), .skip, .todo, xit/xdescribe, empty test bodies, tests without expect or assert calls, and describe blocks without tests. Each finding has its file, line, test name and kind. Test files are read statically, without running them. Requires set_project_root to be called first.\n\nUSE WHEN: Before committing or finishing a task, after debugging with .only or .skip, or when the user asks "did I leave any .only", "which tests are skipped", "are there tests that assert nothing" or wants a test hygiene check.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description:
+          'Optional directory to audit, relative to the project root (e.g., "./src/components"). Defaults to the whole project. Test files are found with the discovery config, as in list_tests.',
+      },
+      kinds: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["only", "skip", "todo", "x-prefix", "empty-test", "no-assertions", "empty-describe"],
+        },
+        description:
+          'Only report these kinds of findings, e.g. ["only"] to check for focused tests before committing. Defaults to all kinds.',
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+  },
+};
+
+export type AuditFindingKind =
+  | "only"
+  | "skip"
+  | "todo"
+  | "x-prefix"
+  | "empty-test"
+  | "no-assertions"
+  | "empty-describe";
+
+const AUDIT_FINDING_KINDS: AuditFindingKind[] = [
+  "only",
+  "skip",
+  "todo",
+  "x-prefix",
+  "empty-test",
+  "no-assertions",
+  "empty-describe",
+];
+
+export interface AuditTestsArgs {
+  path?: string;
+  kinds?: AuditFindingKind[];
+  projectRoot?: string;
+}
+
+export interface AuditFinding {
+  /** Relative to the project root */
+  file: string;
+  line: number;
+  kind: AuditFindingKind;
+  /** "error" for .only, which disables the rest of the suite */
+  severity: "error" | "warning" | "info";
+  /** Describe blocks and test name joined with " > " */
+  testName: string;
+  message: string;
+}
+
+export interface AuditTestsResult {
+  summary: string;
+  findings: AuditFinding[];
+  /** Number of findings per kind, for kinds with findings */
+  counts: Partial<Record<AuditFindingKind, number>>;
+  filesScanned: number;
+  searchPath: string;
+  projectRoot: string;
+}
+
+/**
+ * Implementation of the audit_tests tool
+ */
+export async function handleAuditTests(args: AuditTestsArgs): Promise<AuditTestsResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const kinds = validateKinds(args.kinds);
+  const searchPath = args.path ? resolve(projectRoot, args.path) : projectRoot;
+  if (!(await fileExists(searchPath))) {
+    throw new Error(`Search path does not exist: ${searchPath}`);
+  }
+  if (!(await isDirectory(searchPath))) {
+    throw new Error(`Search path is not a directory: ${searchPath}`);
+  }
+
+  const testFiles = await findTestFiles(searchPath, { root: projectRoot });
+  const findings: AuditFinding[] = [];
+
+  for (const testFile of testFiles) {
+    let code: string;
+    try {
+      code = await readFile(testFile.path, "utf-8");
+    } catch {
+      continue;
+    }
+
+    const file = relative(projectRoot, testFile.path);
+    for (const call of analyzeTestCases(code).calls) {
+      for (const finding of auditTestCall(call)) {
+        if (kinds.has(finding.kind)) {
+          findings.push({ file, line: call.node.line, ...finding });
+        }
+      }
+    }
+  }
+
+  const counts: AuditTestsResult["counts"] = {};
+  for (const finding of findings) {
+    counts[finding.kind] = (counts[finding.kind] ?? 0) + 1;
+  }
+
+  return {
+    summary: createSummary(findings, counts, testFiles.length),
+    findings,
+    counts,
+    filesScanned: testFiles.length,
+    searchPath,
+    projectRoot,
+  };
+}
+
+/**
+ * Findings for a single describe/it/test call
+ */
+export function auditTestCall(call: TestCaseCall): Array<Omit<AuditFinding, "file" | "line">> {
+  const { node, callee } = call;
+  const modifiers = node.modifiers ?? [];
+  const testName = [...call.ancestors, node.name].join(" > ");
+  const block = node.type === "describe" ? "describe block" : "test";
+  const findings: Array<Omit<AuditFinding, "file" | "line">> = [];
+  const add = (kind: AuditFindingKind, severity: AuditFinding["severity"], message: string) =>
+    findings.push({ kind, severity, testName, message });
+
+  if (modifiers.includes("only")) {
+    const focus = /^f(it|describe)$/.test(callee) ? callee : `${callee}.only`;
+    add("only", "error", `${focus} focuses this ${block}: every other test in the file is skipped`);
+  }
+  if (/^x(it|test|describe)$/.test(callee)) {
+    add("x-prefix", "warning", `${callee} disables this ${block}`);
+  } else if (modifiers.includes("skip")) {
+    add("skip", "warning", `${callee}.skip disables this ${block}`);
+  }
+
+  if (modifiers.includes("todo")) {
+    add("todo", "info", node.type === "describe" ? "Describe block is marked as todo" : "Test is marked as todo");
+    return findings;
+  }
+
+  if (node.type === "describe") {
+    if (call.callback !== "reference" && countTestCases(node.children ?? []) === 0) {
+      add("empty-describe", "warning", "Describe block contains no tests");
+    }
+  } else if (call.callback === "none" || call.emptyBody) {
+    add("empty-test", "warning", call.callback === "none" ? "Test has no test function" : "Test body is empty");
+  } else if (call.callback === "inline" && !call.hasAssertion) {
+    add("no-assertions", "warning", "Test never calls expect or assert, so it only fails if it throws");
+  }
+
+  return findings;
+}
+
+function validateKinds(kinds: AuditFindingKind[] | undefined): Set<AuditFindingKind> {
+  if (kinds === undefined) {
+    return new Set(AUDIT_FINDING_KINDS);
+  }
+  if (!Array.isArray(kinds)) {
+    throw new Error("kinds must be an array of finding kinds");
+  }
+  const invalid = kinds.filter((kind) => !AUDIT_FINDING_KINDS.includes(kind));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid kinds: ${invalid.join(", ")}. Use ${AUDIT_FINDING_KINDS.map((kind) => `"${kind}"`).join(", ")}.`
+    );
+  }
+  return new Set(kinds);
+}
+
+function createSummary(
+  findings: AuditFinding[],
+  counts: AuditTestsResult["counts"],
+  filesScanned: number
+): string {
+  if (findings.length === 0) {
+    return `No findings in ${filesScanned} test file(s)`;
+  }
+
+  const files = new Set(findings.map((finding) => finding.file)).size;
+  const breakdown = AUDIT_FINDING_KINDS
+    .filter((kind) => counts[kind])
+    .map((kind) => `${counts[kind]} ${kind}`)
+    .join(", ");
+  const focused = counts.only
+    ? "; .only is left in the code, so other tests in those files do not run"
+    : "";
+  return `${findings.length} finding(s) in ${files} of ${filesScanned} test file(s): ${breakdown}${focused}`;
+}
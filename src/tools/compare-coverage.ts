@@ -0,0 +1,418 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "fs/promises";
+import { relative, resolve } from "path";
+import { projectContext } from "../context/project-context.js";
+import { createWorktree } from "../utils/git-utils.js";
+import { ENABLE_HISTORY_HINT, historyStore, type CoverageHistoryRecord } from "../utils/history-store.js";
+import { analyzeCoverageWithOptions } from "./analyze-coverage.js";
+import type { CoverageAnalysisResult, CoverageMetrics } from "../types/coverage-types.js";
+import type { ToolExecutionContext } from "../plugins/plugin-interface.js";
+import { summarizeFileBreakdown } from "../utils/coverage-processor.js";
+import { round } from "../utils/number-utils.js";
+import { isWithin } from "../utils/path-utils.js";
+
+/**
+ * Tool for comparing coverage between two git refs, or a saved baseline and the working tree
+ */
+export const compareCoverageTool: Tool = {
+  name: "compare_coverage",
+  description:
+    'Compare coverage of a source file or directory between two states and report whether it went down. With baseRef, coverage is measured at that git ref (in a temporary git worktree) and compared to headRef or, by default, the current working tree. Without baseRef, the most recent detailed analyze_coverage result for the target, or for a directory containing it, from the project history is the baseline. Reports overall and per-file deltas for lines, functions and branches, plus lines and functions that became uncovered. Requires set_project_root to be called first.\n\nUSE WHEN: Reviewing a change or pull request and asking "did this reduce coverage?", "what did my change leave untested?", or comparing coverage against main.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      target: {
+        type: "string",
+        description:
+          'Source file or directory to analyze, as in analyze_coverage. Example: "./src/api".',
+      },
+      baseRef: {
+        type: "string",
+        description:
+          'Git ref for the baseline, e.g. "main", "origin/main" or a commit SHA. When omitted, the latest saved detailed coverage of target is used.',
+      },
+      headRef: {
+        type: "string",
+        description:
+          "Git ref to compare against the baseline. Defaults to the current working tree, including uncommitted changes.",
+      },
+      exclude: {
+        type: "array",
+        items: { type: "string" },
+        description: "Exclude patterns passed to both coverage runs, as in analyze_coverage.",
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+    required: ["target"],
+  },
+};
+
+export interface CompareCoverageArgs {
+  target: string;
+  baseRef?: string;
+  headRef?: string;
+  exclude?: string[];
+  projectRoot?: string;
+}
+
+export interface CoverageSide {
+  /** Git ref, "working tree" or a description of the saved baseline */
+  label: string;
+  coverage: CoverageMetrics;
+}
+
+type FileMetrics = Pick<CoverageMetrics, "lines" | "functions" | "branches">;
+
+export interface FileCoverageDelta {
+  file: string;
+  status: "added" | "removed" | "changed";
+  base?: FileMetrics;
+  head?: FileMetrics;
+  delta: FileMetrics;
+}
+
+export interface NewlyUncovered {
+  file: string;
+  /** Line numbers in the head version */
+  lines: number[];
+  functions: Array<{ name: string; line: number }>;
+}
+
+export interface CompareCoverageResult {
+  summary: string;
+  target: string;
+  base: CoverageSide;
+  head: CoverageSide;
+  /** head minus base, in percentage points */
+  delta: CoverageMetrics;
+  coverageDecreased: boolean;
+  /** Files whose coverage changed, biggest line coverage drop first */
+  files: FileCoverageDelta[];
+  newlyUncovered: NewlyUncovered[];
+  cancelled?: boolean;
+}
+
+/**
+ * A detailed coverage result plus what's needed to compare it with another one
+ */
+interface CoverageSnapshot {
+  label: string;
+  result: CoverageAnalysisResult;
+  /** Directory the file paths in result are relative to */
+  root: string;
+  /** Source lines per relative file path, to match uncovered lines that moved */
+  sources: Map<string, string[]>;
+}
+
+/**
+ * Implementation of the compare_coverage tool
+ */
+export async function handleCompareCoverage(
+  args: CompareCoverageArgs,
+  context?: ToolExecutionContext
+): Promise<CompareCoverageResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  if (!args.target || args.target.trim() === "") {
+    throw new Error("Target parameter is required. Specify a file or directory to compare coverage for.");
+  }
+  if (args.headRef && !args.baseRef) {
+    throw new Error("headRef requires baseRef.");
+  }
+
+  // Read the saved baseline first: the head analysis below is recorded and would replace it
+  const base = args.baseRef
+    ? await measureAtRef(projectRoot, args, args.baseRef, context)
+    : await loadSavedBaseline(projectRoot, args.target);
+  if (!base) {
+    return createCancelledResult(args.target);
+  }
+
+  const head = args.headRef
+    ? await measureAtRef(projectRoot, args, args.headRef, context)
+    : await measure(projectRoot, args, "working tree", {}, context);
+  if (!head) {
+    return createCancelledResult(args.target);
+  }
+
+  return compareSnapshots(args.target, base, head);
+}
+
+/**
+ * Analyze coverage in a temporary worktree checked out at ref
+ */
+async function measureAtRef(
+  projectRoot: string,
+  args: CompareCoverageArgs,
+  ref: string,
+  context?: ToolExecutionContext
+): Promise<CoverageSnapshot | undefined> {
+  const worktree = await createWorktree(projectRoot, ref);
+  try {
+    return await measure(worktree.projectDir, args, ref, { projectRoot: worktree.projectDir }, context);
+  } finally {
+    await worktree.remove();
+  }
+}
+
+/**
+ * Run a detailed coverage analysis and capture the sources of files with uncovered code.
+ * Returns undefined when the client cancelled.
+ */
+async function measure(
+  root: string,
+  args: CompareCoverageArgs,
+  label: string,
+  options: { projectRoot?: string },
+  context?: ToolExecutionContext
+): Promise<CoverageSnapshot | undefined> {
+  const result = await analyzeCoverageWithOptions(
+    { target: args.target, format: "detailed", exclude: args.exclude, projectRoot: args.projectRoot },
+    options,
+    context
+  );
+  if (result.cancelled) {
+    return undefined;
+  }
+  if (result.error) {
+    throw new Error(`Coverage analysis at ${label} failed: ${result.error}`);
+  }
+
+  const sources = new Map<string, string[]>();
+  for (const file of uncoveredByFile(result, root).keys()) {
+    try {
+      sources.set(file, (await readFile(resolve(root, file), "utf-8")).split("\n"));
+    } catch {
+      // Without the source, uncovered lines are compared by number
+    }
+  }
+
+  return { label, result, root, sources };
+}
+
+/**
+ * Use the latest detailed coverage of target, or of a directory containing it, from the
+ * project history as the baseline
+ */
+async function loadSavedBaseline(projectRoot: string, target: string): Promise<CoverageSnapshot> {
+  const targetPath = resolve(projectRoot, target);
+  const normalizedTarget = relative(projectRoot, targetPath) || ".";
+  const records = await historyStore.read(projectRoot);
+  const baseline = records
+    .filter((record): record is CoverageHistoryRecord => record.kind === "coverage")
+    .filter((record) => record.result.fileBreakdown && isWithin(resolve(projectRoot, record.target), targetPath))
+    .map((record) => ({
+      ...record,
+      result: record.target === normalizedTarget ? record.result : narrowResult(record.result, targetPath, projectRoot),
+    }))
+    .filter((record) => record.result.fileBreakdown?.length)
+    .pop();
+
+  if (!baseline) {
+    const historyNote = (await historyStore.isEnabled()) ? "" : ` History recording is off. ${ENABLE_HISTORY_HINT}`;
+    throw new Error(
+      `No saved coverage baseline for ${normalizedTarget}. Run analyze_coverage with format "detailed" on it first, or pass baseRef.${historyNote}`
+    );
+  }
+
+  const commit = baseline.commit ? ` at ${baseline.commit.slice(0, 7)}` : "";
+  return {
+    label: `saved baseline from ${baseline.timestamp}${commit}`,
+    result: baseline.result,
+    root: projectRoot,
+    sources: new Map(),
+  };
+}
+
+/**
+ * The part of a result covering the files inside path, with its overall coverage recomputed
+ */
+function narrowResult(result: CoverageAnalysisResult, path: string, root: string): CoverageAnalysisResult {
+  const fileBreakdown = (result.fileBreakdown ?? []).filter((file) => isWithin(path, resolve(root, file.path)));
+  const uncovered = Object.entries(result.uncovered ?? {}).filter(([file]) => isWithin(path, resolve(root, file)));
+  return {
+    ...result,
+    coverage: summarizeFileBreakdown(fileBreakdown),
+    fileBreakdown,
+    uncovered: Object.fromEntries(uncovered),
+  };
+}
+
+/**
+ * Compute overall and per-file deltas and the newly uncovered code of head relative to base
+ */
+function compareSnapshots(
+  target: string,
+  base: CoverageSnapshot,
+  head: CoverageSnapshot
+): CompareCoverageResult {
+  const delta: CoverageMetrics = {
+    lines: round(head.result.coverage.lines - base.result.coverage.lines),
+    functions: round(head.result.coverage.functions - base.result.coverage.functions),
+    branches: round(head.result.coverage.branches - base.result.coverage.branches),
+    statements: round(head.result.coverage.statements - base.result.coverage.statements),
+  };
+
+  const baseFiles = fileMetrics(base);
+  const headFiles = fileMetrics(head);
+  const files: FileCoverageDelta[] = [];
+  for (const file of new Set([...baseFiles.keys(), ...headFiles.keys()])) {
+    const before = baseFiles.get(file);
+    const after = headFiles.get(file);
+    const fileDelta = {
+      lines: round((after?.lines ?? 0) - (before?.lines ?? 0)),
+      functions: round((after?.functions ?? 0) - (before?.functions ?? 0)),
+      branches: round((after?.branches ?? 0) - (before?.branches ?? 0)),
+    };
+    if (before && after && fileDelta.lines === 0 && fileDelta.functions === 0 && fileDelta.branches === 0) {
+      continue;
+    }
+    files.push({
+      file,
+      status: !before ? "added" : !after ? "removed" : "changed",
+      ...(before ? { base: before } : {}),
+      ...(after ? { head: after } : {}),
+      delta: fileDelta,
+    });
+  }
+  files.sort((a, b) => a.delta.lines - b.delta.lines);
+
+  const newlyUncovered = findNewlyUncovered(base, head);
+  const coverageDecreased = delta.lines < 0 || delta.functions < 0 || delta.branches < 0;
+
+  return {
+    summary: createSummary(base, head, delta, coverageDecreased, newlyUncovered),
+    target,
+    base: { label: base.label, coverage: base.result.coverage },
+    head: { label: head.label, coverage: head.result.coverage },
+    delta,
+    coverageDecreased,
+    files,
+    newlyUncovered,
+  };
+}
+
+/**
+ * Lines and functions uncovered in head that were not uncovered in base. Lines are matched by
+ * their source text when both sources are known, so code that merely moved is not reported.
+ */
+function findNewlyUncovered(base: CoverageSnapshot, head: CoverageSnapshot): NewlyUncovered[] {
+  const baseUncovered = uncoveredByFile(base.result, base.root);
+  const newlyUncovered: NewlyUncovered[] = [];
+
+  for (const [file, uncovered] of uncoveredByFile(head.result, head.root)) {
+    const before = baseUncovered.get(file);
+    const headSource = head.sources.get(file);
+    const baseSource = base.sources.get(file);
+
+    let lines: number[];
+    if (before && headSource && baseSource) {
+      const remaining = new Map<string, number>();
+      for (const line of before.lines) {
+        const text = baseSource[line - 1]?.trim() ?? "";
+        remaining.set(text, (remaining.get(text) ?? 0) + 1);
+      }
+      lines = uncovered.lines.filter((line) => {
+        const text = headSource[line - 1]?.trim() ?? "";
+        const count = remaining.get(text) ?? 0;
+        if (count > 0) {
+          remaining.set(text, count - 1);
+          return false;
+        }
+        return true;
+      });
+    } else {
+      const previous = new Set(before?.lines ?? []);
+      lines = uncovered.lines.filter((line) => !previous.has(line));
+    }
+
+    const previousFunctions = new Set((before?.functions ?? []).map((fn) => fn.name));
+    const functions = uncovered.functions.filter((fn) => !previousFunctions.has(fn.name));
+
+    if (lines.length > 0 || functions.length > 0) {
+      newlyUncovered.push({ file, lines, functions });
+    }
+  }
+
+  return newlyUncovered;
+}
+
+/**
+ * Per-file coverage keyed by path relative to the snapshot root
+ */
+function fileMetrics(snapshot: CoverageSnapshot): Map<string, FileMetrics> {
+  const metrics = new Map<string, FileMetrics>();
+  for (const entry of snapshot.result.fileBreakdown ?? []) {
+    const { lines, functions, branches } = entry.coverage;
+    metrics.set(relative(snapshot.root, resolve(snapshot.root, entry.path)), { lines, functions, branches });
+  }
+  return metrics;
+}
+
+/**
+ * The uncovered items of each file, keyed by path relative to root
+ */
+function uncoveredByFile(
+  result: CoverageAnalysisResult,
+  root: string
+): Map<string, NonNullable<CoverageAnalysisResult["uncovered"]>[string]> {
+  const uncovered = new Map<string, NonNullable<CoverageAnalysisResult["uncovered"]>[string]>();
+  for (const [path, items] of Object.entries(result.uncovered ?? {})) {
+    uncovered.set(relative(root, resolve(root, path)), items);
+  }
+  return uncovered;
+}
+
+function createSummary(
+  base: CoverageSnapshot,
+  head: CoverageSnapshot,
+  delta: CoverageMetrics,
+  decreased: boolean,
+  newlyUncovered: NewlyUncovered[]
+): string {
+  const change = (metric: keyof CoverageMetrics) => {
+    const sign = delta[metric] > 0 ? "+" : "";
+    return `${metric} ${base.result.coverage[metric]}% → ${head.result.coverage[metric]}% (${sign}${delta[metric]})`;
+  };
+  const changes = [change("lines"), change("functions"), change("branches")].join(", ");
+
+  const status = decreased
+    ? "❌ Coverage decreased"
+    : delta.lines > 0 || delta.functions > 0 || delta.branches > 0
+      ? "✅ Coverage increased"
+      : "✅ Coverage unchanged";
+
+  const newLines = newlyUncovered.reduce((sum, file) => sum + file.lines.length, 0);
+  const uncoveredNote = newLines > 0
+    ? `; ${newLines} newly uncovered line(s) in ${newlyUncovered.length} file(s)`
+    : "";
+
+  return `${status} vs ${base.label}: ${changes}${uncoveredNote}`;
+}
+
+function createCancelledResult(target: string): CompareCoverageResult {
+  const empty = { lines: 0, functions: 0, branches: 0, statements: 0 };
+  return {
+    summary: "⏹️ Coverage comparison cancelled",
+    target,
+    base: { label: "", coverage: empty },
+    head: { label: "", coverage: empty },
+    delta: empty,
+    coverageDecreased: false,
+    files: [],
+    newlyUncovered: [],
+    cancelled: true,
+  };
+}
@@ -0,0 +1,301 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { relative } from "path";
+import { projectContext } from "../context/project-context.js";
+import { runTestsWithOptions, type ProcessedTestResult } from "./run-tests.js";
+import type { ToolExecutionContext } from "../plugins/plugin-interface.js";
+import { round } from "../utils/number-utils.js";
+
+const DEFAULT_RUNS = 5;
+const MAX_RUNS = 50;
+
+/**
+ * Tool for detecting flaky tests through repeated runs
+ */
+export const detectFlakyTool: Tool = {
+  name: "detect_flaky",
+  description:
+    'Run a test file or directory several times in a row and report tests that pass in some runs and fail in others. For each such test it reports the pass rate, duration spread and the distinct failure messages seen. Each run starts a new Vitest instance, even when watchMode keeps a persistent session, so state leaking between test files is reproduced as well. Requires set_project_root to be called first.\n\nUSE WHEN: A test fails intermittently, the user asks whether a test is "flaky", "unstable" or "random", or before spending time fixing a failure that may not be reproducible.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      target: {
+        type: "string",
+        description:
+          'File path or directory to test, as in run_tests. Example: "./src/api/client.test.ts".',
+      },
+      runs: {
+        type: "integer",
+        minimum: 2,
+        maximum: MAX_RUNS,
+        description: `Number of times to run the target (default: ${DEFAULT_RUNS}, max: ${MAX_RUNS}). More runs catch rarer flakiness but take proportionally longer.`,
+        default: DEFAULT_RUNS,
+      },
+      project: {
+        type: "string",
+        description:
+          "Name of the specific Vitest project to run tests for, as in run_tests.",
+      },
+      testNamePattern: {
+        type: "string",
+        description:
+          "Regular expression passed to Vitest's -t filter to repeat only matching tests, as in run_tests. Cannot be combined with testName.",
+      },
+      testName: {
+        type: "string",
+        description:
+          "Literal test or describe block name to repeat, as in run_tests. Cannot be combined with testNamePattern.",
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+    required: ["target"],
+  },
+};
+
+export interface DetectFlakyArgs {
+  target: string;
+  runs?: number;
+  project?: string;
+  testNamePattern?: string;
+  testName?: string;
+  projectRoot?: string;
+}
+
+export interface DurationStats {
+  meanMs: number;
+  minMs: number;
+  maxMs: number;
+  stdDevMs: number;
+}
+
+/**
+ * Outcome of one test across all runs
+ */
+export interface TestStability {
+  file: string;
+  testName: string;
+  /** Runs in which the test passed or failed (skips are not counted) */
+  runs: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** passed / runs, between 0 and 1 */
+  passRate: number;
+  duration?: DurationStats;
+  /** Distinct "ErrorType: message" strings, in the order they were first seen */
+  failureMessages: string[];
+}
+
+export interface DetectFlakyResult {
+  summary: string;
+  target: string;
+  /** Completed runs; fewer than requestedRuns when cancelled */
+  runs: number;
+  requestedRuns: number;
+  /** Tests that both passed and failed, least reliable first */
+  flakyTests: TestStability[];
+  /** Tests that failed in every run they ran in */
+  consistentlyFailingTests: TestStability[];
+  stableTestCount: number;
+  /** One-line summary of each run, in order */
+  runSummaries: string[];
+  cancelled?: boolean;
+  /** Why a run failed before reporting any tests, e.g. an invalid target; detection stops there */
+  error?: string;
+}
+
+/**
+ * Aggregate the results of repeated runs into per-test statistics.
+ * Runs must have been made with includePassedTests, otherwise passes are invisible.
+ */
+export function aggregateTestRuns(
+  results: ProcessedTestResult[],
+  projectRoot: string
+): TestStability[] {
+  const tests = new Map<string, TestStability & { durations: number[] }>();
+
+  const record = (file: string, testName: string) => {
+    const key = `${file}\0${testName}`;
+    let entry = tests.get(key);
+    if (!entry) {
+      entry = {
+        file: relative(projectRoot, file),
+        testName,
+        runs: 0,
+        passed: 0,
+        failed: 0,
+        skipped: 0,
+        passRate: 0,
+        failureMessages: [],
+        durations: [],
+      };
+      tests.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const result of results) {
+    for (const group of result.testResults?.passedTests ?? []) {
+      for (const test of group.tests) {
+        const entry = record(group.file, test.testName);
+        entry.passed++;
+        if (test.duration !== undefined) {
+          entry.durations.push(test.duration);
+        }
+      }
+    }
+
+    for (const group of result.testResults?.failedTests ?? []) {
+      for (const test of group.tests) {
+        const entry = record(group.file, test.testName);
+        entry.failed++;
+        if ("duration" in test && test.duration !== undefined) {
+          entry.durations.push(test.duration);
+        }
+        const message = `${test.errorType}: ${test.message}`;
+        if (!entry.failureMessages.includes(message)) {
+          entry.failureMessages.push(message);
+        }
+      }
+    }
+
+    for (const group of result.testResults?.skippedTests ?? []) {
+      for (const test of group.tests) {
+        record(group.file, test.testName).skipped++;
+      }
+    }
+  }
+
+  return [...tests.values()].map(({ durations, ...entry }) => {
+    const runs = entry.passed + entry.failed;
+    return {
+      ...entry,
+      runs,
+      passRate: runs > 0 ? round(entry.passed / runs) : 0,
+      ...(durations.length > 0 ? { duration: durationStats(durations) } : {}),
+    };
+  });
+}
+
+/**
+ * Implementation of the detect_flaky tool
+ */
+export async function handleDetectFlaky(
+  args: DetectFlakyArgs,
+  context?: ToolExecutionContext
+): Promise<DetectFlakyResult> {
+  const requestedRuns = args.runs ?? DEFAULT_RUNS;
+  if (!Number.isInteger(requestedRuns) || requestedRuns < 2 || requestedRuns > MAX_RUNS) {
+    throw new Error(`runs must be an integer between 2 and ${MAX_RUNS}.`);
+  }
+
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const signal = context?.signal;
+  const results: ProcessedTestResult[] = [];
+
+  context?.reportProgress?.({ progress: 0, total: requestedRuns, message: `Run 1/${requestedRuns}` });
+
+  for (let run = 1; run <= requestedRuns && !signal?.aborted; run++) {
+    // Progress of the individual runs is not forwarded; the client sees one bar for all runs.
+    // The repeats are not recorded, so they don't replace the onlyFailed state or flood the history,
+    // and each gets a new Vitest instance, bypassing the persistent watchMode session.
+    const result = await runTestsWithOptions(
+      {
+        target: args.target,
+        project: args.project,
+        testNamePattern: args.testNamePattern,
+        testName: args.testName,
+        format: "detailed",
+        projectRoot: args.projectRoot,
+      },
+      { includePassedTests: true, skipRecording: true, freshInstance: true },
+      { signal }
+    );
+    if (result.cancelled) {
+      break;
+    }
+    // Without test results the run itself failed (e.g. an invalid target), and repeating it won't help
+    if (!result.testResults) {
+      return {
+        summary: result.summary,
+        target: args.target,
+        runs: results.length,
+        requestedRuns,
+        flakyTests: [],
+        consistentlyFailingTests: [],
+        stableTestCount: 0,
+        runSummaries: [...results.map((previous) => previous.summary), result.summary],
+        ...(result.error ? { error: result.error } : {}),
+      };
+    }
+    results.push(result);
+
+    context?.reportProgress?.({
+      progress: run,
+      total: requestedRuns,
+      message: `Run ${run}/${requestedRuns}: ${result.summary}`,
+    });
+  }
+
+  const stability = aggregateTestRuns(results, projectRoot);
+  const flakyTests = stability
+    .filter((test) => test.passed > 0 && test.failed > 0)
+    .sort((a, b) => a.passRate - b.passRate);
+  const consistentlyFailingTests = stability.filter((test) => test.failed > 0 && test.passed === 0);
+  const cancelled = results.length < requestedRuns;
+
+  const result: DetectFlakyResult = {
+    summary: createSummary(results.length, flakyTests.length, consistentlyFailingTests.length, stability.length),
+    target: args.target,
+    runs: results.length,
+    requestedRuns,
+    flakyTests,
+    consistentlyFailingTests,
+    stableTestCount: stability.length - flakyTests.length - consistentlyFailingTests.length,
+    runSummaries: results.map((run) => run.summary),
+  };
+
+  if (cancelled) {
+    result.cancelled = true;
+    result.summary = results.length === 0
+      ? "⏹️ Flaky test detection cancelled"
+      : `${result.summary} (cancelled after ${results.length}/${requestedRuns} runs)`;
+  }
+
+  return result;
+}
+
+function createSummary(runs: number, flaky: number, failing: number, total: number): string {
+  const failingNote = failing > 0 ? `, ${failing} test(s) failed in every run` : "";
+  if (flaky > 0) {
+    return `⚠️ ${flaky} flaky test(s) in ${runs} runs${failingNote}`;
+  }
+  if (failing > 0) {
+    return `❌ No flaky tests in ${runs} runs${failingNote}`;
+  }
+  return `✅ No flaky tests in ${runs} runs (${total} tests)`;
+}
+
+function durationStats(durations: number[]): DurationStats {
+  const mean = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+  const variance =
+    durations.reduce((sum, duration) => sum + (duration - mean) ** 2, 0) / durations.length;
+  return {
+    meanMs: round(mean),
+    minMs: round(Math.min(...durations)),
+    maxMs: round(Math.max(...durations)),
+    stdDevMs: round(Math.sqrt(variance)),
+  };
+}
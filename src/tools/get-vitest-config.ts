@@ -0,0 +1,92 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { relative } from "path";
+import { projectContext } from "../context/project-context.js";
+import { explainVitestConfig } from "../utils/config-finder.js";
+import { loadVitestConfig, type LoadedVitestConfig } from "../utils/vitest-config-loader.js";
+import { normalizeCoverageThresholds } from "../utils/vitest-config-reader.js";
+
+/**
+ * Tool for showing the effective Vitest config of a project
+ */
+export const getVitestConfigTool: Tool = {
+  name: "get_vitest_config",
+  description:
+    'Show the effective Vitest test and coverage settings of the project: include/exclude patterns, environment, pool, timeouts, setup files, reporters and the coverage provider, include/exclude and thresholds (including per-glob thresholds and perFile). The config is loaded by the project\'s own Vitest in a separate process, so spreads, imports and computed values are resolved and Vitest\'s defaults are filled in. Also reports which config file is used and why (vitest.mcp.config.ts takes priority over vitest.config.* and vite.config.*). Requires set_project_root to be called first.\n\nUSE WHEN: Tests or coverage behave unexpectedly, before changing the Vitest config, or when the user asks "which config is used", "what are the coverage thresholds", "which files count as tests" or "what environment do the tests run in".',
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+  },
+};
+
+export interface GetVitestConfigArgs {
+  projectRoot?: string;
+}
+
+export interface GetVitestConfigResult extends LoadedVitestConfig {
+  summary: string;
+  /** Config file relative to the project root, null when none is found */
+  configFile: string | null;
+  configFileReason: string;
+  /** Config files in the project root that are not used */
+  ignoredConfigFiles: string[];
+  projectRoot: string;
+}
+
+/**
+ * Implementation of the get_vitest_config tool
+ */
+export async function handleGetVitestConfig(args: GetVitestConfigArgs): Promise<GetVitestConfigResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const selection = await explainVitestConfig(projectRoot);
+  const config = await loadVitestConfig(projectRoot, selection.configFile);
+  const configFile = selection.configFile ? relative(projectRoot, selection.configFile) : null;
+
+  return {
+    summary: createSummary(configFile, config),
+    configFile,
+    configFileReason: selection.reason,
+    ignoredConfigFiles: selection.ignoredFiles.map((file) => relative(projectRoot, file)),
+    ...config,
+    projectRoot,
+  };
+}
+
+function createSummary(configFile: string | null, config: LoadedVitestConfig): string {
+  const source =
+    config.resolvedWith === "vitest"
+      ? `resolved by Vitest ${config.vitestVersion ?? ""}`.trim()
+      : "read with Vite's loadConfigFromFile, without Vitest's defaults";
+  const parts = [`${configFile ?? "No config file"} (${source})`];
+
+  if (typeof config.test.environment === "string") {
+    parts.push(`environment: ${config.test.environment}`);
+  }
+  if (typeof config.coverage.provider === "string") {
+    parts.push(`coverage provider: ${config.coverage.provider}`);
+  }
+
+  const thresholds = normalizeCoverageThresholds(config.coverage.thresholds);
+  const globCount = Object.keys(thresholds?.globs ?? {}).length;
+  parts.push(
+    thresholds
+      ? `coverage thresholds${thresholds.perFile ? " per file" : ""}${globCount > 0 ? `, ${globCount} glob(s)` : ""}`
+      : "no coverage thresholds"
+  );
+
+  return parts.join("; ");
+}
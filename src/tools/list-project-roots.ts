@@ -0,0 +1,39 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { projectContext, type ProjectRootInfo } from '../context/project-context.js';
+
+/**
+ * Tool for listing the project roots registered in this session
+ */
+export const listProjectRootsTool: Tool = {
+  name: 'list_project_roots',
+  description: 'List the project roots registered with set_project_root in this session, with their aliases and which one is active. Other tools use the active root unless they are given projectRoot with an alias or path from this list.\n\nUSE WHEN: Working across several repositories, or before passing projectRoot to another tool to check which aliases exist.',
+  inputSchema: {
+    type: 'object',
+    properties: {}
+  }
+};
+
+export type ListProjectRootsArgs = Record<string, never>;
+
+export interface ListProjectRootsResult {
+  roots: ProjectRootInfo[];
+  /** Alias of the root used by tools called without projectRoot */
+  activeRoot: string | null;
+  message: string;
+}
+
+/**
+ * Handle the list_project_roots tool
+ */
+export async function handleListProjectRoots(_args: ListProjectRootsArgs): Promise<ListProjectRootsResult> {
+  const roots = projectContext.listProjectRoots();
+  const activeRoot = roots.find((root) => root.active)?.alias ?? null;
+
+  return {
+    roots,
+    activeRoot,
+    message: roots.length === 0
+      ? 'No project roots registered. Use set_project_root to add one.'
+      : `${roots.length} project root(s) registered, active: ${activeRoot ?? 'none'}`
+  };
+}
@@ -0,0 +1,78 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { projectContext } from "../context/project-context.js";
+import {
+  findWorkspaceProjects,
+  type WorkspaceProject,
+} from "../utils/workspace-projects.js";
+
+/**
+ * Tool for listing the Vitest projects and workspace packages of a monorepo
+ */
+export const listProjectsTool: Tool = {
+  name: "list_projects",
+  description:
+    'List the projects of a monorepo: Vitest projects from the test.projects array of the Vitest config or a vitest.workspace file, and npm/yarn/pnpm workspace packages. Each project has its name (usable as the project option of run_tests and analyze_coverage), root, environment and include patterns. Vitest projects are taken from the config as Vitest resolves it, so names built at runtime are listed; when the config fails to load it is read statically instead. Requires set_project_root to be called first.\n\nUSE WHEN: Working in a monorepo, before passing project to run_tests or analyze_coverage, or when the user asks "which packages have tests", "what projects are there" or "how is the workspace set up".',
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+  },
+};
+
+export interface ListProjectsArgs {
+  projectRoot?: string;
+}
+
+export interface ListProjectsResult {
+  summary: string;
+  projects: WorkspaceProject[];
+  projectRoot: string;
+}
+
+/**
+ * Implementation of the list_projects tool
+ */
+export async function handleListProjects(args: ListProjectsArgs): Promise<ListProjectsResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const projects = await findWorkspaceProjects(projectRoot);
+
+  return {
+    summary: createSummary(projects),
+    projects,
+    projectRoot,
+  };
+}
+
+function createSummary(projects: WorkspaceProject[]): string {
+  const vitestProjects = projects.filter((project) => project.source !== "package workspaces");
+  const packages = projects.length - vitestProjects.length;
+
+  if (projects.length === 0) {
+    return "No Vitest projects or workspace packages found; the Vitest config applies to the whole project root";
+  }
+
+  const parts: string[] = [];
+  if (vitestProjects.length > 0) {
+    parts.push(
+      `${vitestProjects.length} Vitest project(s) from ${vitestProjects[0].source}: ${vitestProjects.map((project) => project.name).join(", ")}`
+    );
+  }
+  if (packages > 0) {
+    parts.push(`${packages} workspace package(s) that are not Vitest projects; run their tests with target set to the package root`);
+  }
+  return parts.join("; ");
+}
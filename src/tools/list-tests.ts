@@ -1,7 +1,25 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { findTestFiles, fileExists, isDirectory } from "../utils/file-utils.js";
-import { resolve } from "path";
+import {
+  findTestFiles,
+  fileExists,
+  isDirectory,
+  type TestDiscoveryOptions,
+} from "../utils/file-utils.js";
+import { relative, resolve } from "path";
 import { projectContext } from "../context/project-context.js";
+import { getConfig } from "../config/config-loader.js";
+import { listVitestTestFiles } from "../utils/vitest-node-api.js";
+import { isWithin } from "../utils/path-utils.js";
+import {
+  countTestCases,
+  parseTestFile,
+  type TestCaseNode,
+} from "../utils/test-case-parser.js";
+import {
+  getVitestVersion,
+  meetsMinimumVersion,
+  VERSION_REQUIREMENTS,
+} from "../utils/version-checker.js";
 
 /**
  * Tool for listing test files in the project
@@ -18,24 +36,75 @@ export const listTestsTool: Tool = {
         description:
           'Optional directory path to search for test files. Can be relative (e.g., "./src/components") or absolute. If not provided, searches the entire project root. Useful for limiting search scope to specific directories or modules.',
       },
+      pattern: {
+        type: "string",
+        description:
+          'Optional glob that test files must match instead of the configured discovery.testPatterns (e.g., "**/*.spec.ts", "src/**/*.integration.test.ts"). Supports **, *, ?, [abc] and {a,b}. Matched against paths relative to the project root or to path.',
+      },
+      exclude: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Optional names or globs to skip in addition to the configured discovery.excludePatterns (e.g., ["legacy", "**/fixtures/**"]). Patterns without a slash match file and directory names at any depth.',
+      },
+      source: {
+        type: "string",
+        enum: ["patterns", "vitest"],
+        description:
+          'Where the file list comes from. "patterns" (default) matches the discovery config. "vitest" asks Vitest for the files it would actually run, honouring test.include/exclude, dir and workspace projects, groups them by project and lists files that match the patterns but are excluded by the Vitest config (Vitest 3.0+). With "vitest", pattern and exclude only affect that comparison.',
+      },
+      depth: {
+        type: "string",
+        enum: ["files", "tests"],
+        description:
+          'Level of detail. "files" (default) lists test files. "tests" also returns, for each file, the tree of describe/it/test calls with their line numbers (usable as the run_tests line option) and skip, only, todo and each modifiers. Test cases are read statically from the source, so names built at runtime are reported as written (e.g. "adds %i", "renders ${variant}").',
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
     },
   },
 };
 
+export type ListTestsSource = "patterns" | "vitest";
+export type ListTestsDepth = "files" | "tests";
+
 export interface ListTestsArgs {
   path?: string;
+  pattern?: string;
+  exclude?: string[];
+  source?: ListTestsSource;
+  depth?: ListTestsDepth;
+  projectRoot?: string;
 }
 
 export interface ListTestsResult {
   testFiles: Array<{
     path: string;
     relativePath: string;
+    /** Describe blocks and tests declared in the file, with depth "tests" */
+    tests?: TestCaseNode[];
   }>;
   totalCount: number;
+  /** Number of tests across all files, with depth "tests" */
+  totalTests?: number;
   searchPath: string;
   projectRoot: string;
+  source?: ListTestsSource;
+  /** Files per workspace project, with source "vitest" */
+  projects?: Array<{
+    name: string;
+    testFiles: string[];
+  }>;
+  /** Files matching the discovery patterns that Vitest does not run, with source "vitest" */
+  excludedByVitest?: string[];
 }
 
+/** Project name reported for files of a root project without a name */
+const UNNAMED_PROJECT = "(root)";
+
 /**
  * Implementation of the list_tests tool
  */
@@ -45,10 +114,22 @@ export async function handleListTests(
   try {
     let projectRoot: string;
     try {
-      projectRoot = projectContext.getProjectRoot();
-    } catch {
+      projectRoot = projectContext.getProjectRoot(args.projectRoot);
+    } catch (error) {
+      if (args.projectRoot) {
+        throw error;
+      }
       throw new Error("Please call set_project_root first");
     }
+    const source = args.source ?? "patterns";
+    if (source !== "patterns" && source !== "vitest") {
+      throw new Error(`Invalid source "${source}". Use "patterns" or "vitest".`);
+    }
+    const depth = args.depth ?? "files";
+    if (depth !== "files" && depth !== "tests") {
+      throw new Error(`Invalid depth "${depth}". Use "files" or "tests".`);
+    }
+
     const searchPath = args.path
       ? resolve(projectRoot, args.path)
       : projectRoot;
@@ -61,17 +142,31 @@ export async function handleListTests(
       throw new Error(`Search path is not a directory: ${searchPath}`);
     }
 
-    const testFiles = await findTestFiles(searchPath);
-
-    return {
-      testFiles: testFiles.map((file) => ({
-        path: file.path,
-        relativePath: file.relativePath,
-      })),
-      totalCount: testFiles.length,
-      searchPath,
-      projectRoot,
-    };
+    const testFiles = await findTestFiles(searchPath, await getDiscoveryOptions(args, projectRoot));
+
+    const result: ListTestsResult = source === "vitest"
+      ? await listFromVitest(projectRoot, searchPath, testFiles.map((file) => file.path))
+      : {
+          testFiles: testFiles.map((file) => ({
+            path: file.path,
+            relativePath: file.relativePath,
+          })),
+          totalCount: testFiles.length,
+          searchPath,
+          projectRoot,
+        };
+
+    if (depth === "tests") {
+      for (const file of result.testFiles) {
+        file.tests = await parseTestFile(file.path);
+      }
+      result.totalTests = result.testFiles.reduce(
+        (total, file) => total + countTestCases(file.tests ?? []),
+        0
+      );
+    }
+
+    return result;
   } catch (error) {
     throw new Error(
       `Failed to list test files: ${
@@ -80,3 +175,75 @@ export async function handleListTests(
     );
   }
 }
+
+/**
+ * Build the result from the files Vitest resolves, limited to the search path,
+ * and compare them with the files found by the discovery patterns
+ */
+async function listFromVitest(
+  projectRoot: string,
+  searchPath: string,
+  patternFiles: string[]
+): Promise<ListTestsResult> {
+  const vitestVersion = await getVitestVersion(projectRoot);
+  const required = VERSION_REQUIREMENTS.vitest.features.nodeApi;
+  if (!vitestVersion || !meetsMinimumVersion(vitestVersion.version, required)) {
+    throw new Error(
+      `source "vitest" requires Vitest ${required}+ (found ${vitestVersion?.version ?? "none"}). Use source "patterns" instead.`
+    );
+  }
+
+  const toRelative = (file: string) => relative(searchPath, file);
+  const vitestFiles = (await listVitestTestFiles(projectRoot)).filter((entry) => isWithin(searchPath, entry.file));
+
+  const projects = new Map<string, Set<string>>();
+  for (const { file, project } of vitestFiles) {
+    const name = project || UNNAMED_PROJECT;
+    projects.set(name, (projects.get(name) ?? new Set()).add(toRelative(file)));
+  }
+
+  const files = [...new Set(vitestFiles.map((entry) => entry.file))].sort((a, b) =>
+    toRelative(a).localeCompare(toRelative(b))
+  );
+  const runByVitest = new Set(files);
+
+  return {
+    testFiles: files.map((file) => ({ path: file, relativePath: toRelative(file) })),
+    totalCount: files.length,
+    searchPath,
+    projectRoot,
+    source: "vitest",
+    projects: [...projects]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, projectFiles]) => ({ name, testFiles: [...projectFiles].sort() })),
+    excludedByVitest: patternFiles.filter((file) => !runByVitest.has(file)).map(toRelative).sort(),
+  };
+}
+
+/**
+ * Discovery options for the pattern and exclude arguments. Settings that are
+ * not overridden come from the discovery config.
+ */
+async function getDiscoveryOptions(
+  args: ListTestsArgs,
+  projectRoot: string
+): Promise<TestDiscoveryOptions> {
+  const options: TestDiscoveryOptions = { root: projectRoot };
+
+  if (args.pattern !== undefined) {
+    if (typeof args.pattern !== "string" || args.pattern.trim() === "") {
+      throw new Error("pattern must be a non-empty glob string");
+    }
+    options.testPatterns = [args.pattern.trim()];
+  }
+
+  if (args.exclude !== undefined) {
+    if (!Array.isArray(args.exclude) || args.exclude.some((pattern) => typeof pattern !== "string")) {
+      throw new Error("exclude must be an array of glob strings");
+    }
+    const { discovery } = await getConfig();
+    options.excludePatterns = [...discovery.excludePatterns, ...args.exclude];
+  }
+
+  return options;
+}
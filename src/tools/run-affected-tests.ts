@@ -0,0 +1,146 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { relative } from "path";
+import { findTestFiles } from "../utils/file-utils.js";
+import { getChangedFiles } from "../utils/git-utils.js";
+import { findAffectedTests } from "../utils/import-graph.js";
+import { projectContext } from "../context/project-context.js";
+import { runTestFiles, type ProcessedTestResult, type TestFormat } from "./run-tests.js";
+import type { ToolExecutionContext } from "../plugins/plugin-interface.js";
+
+/**
+ * Tool for running only the tests affected by changed files
+ */
+export const runAffectedTestsTool: Tool = {
+  name: "run_affected_tests",
+  description:
+    'Run only the test files affected by changed source files. Changed files come from git (working tree and untracked files compared to HEAD, or to the changedSince ref), and are mapped to the test files that import them directly or transitively. The result lists which changed file pulled in which tests. Requires set_project_root to be called first.\n\nUSE WHEN: User has edited a few files and wants to know which tests to run, asks "what tests did I break", "run tests for my changes", or "test what changed". Prefer this over running whole directories after small edits.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      changedSince: {
+        type: "string",
+        description:
+          'Git ref to diff against, e.g. "main", "origin/main" or a commit SHA. Uncommitted and untracked files are always included. Defaults to "HEAD" (only uncommitted changes).',
+      },
+      format: {
+        type: "string",
+        enum: ["summary", "detailed"],
+        description:
+          'Output format of the test results: "summary" or "detailed". Same smart defaults as run_tests.',
+      },
+      project: {
+        type: "string",
+        description:
+          "Name of the specific Vitest project to run tests for, as in run_tests.",
+      },
+      showLogs: {
+        type: "boolean",
+        description:
+          "Capture and include console output from test execution in the results, as in run_tests.",
+        default: false,
+      },
+      dryRun: {
+        type: "boolean",
+        description:
+          "Only report which tests are affected by the changes, without running them.",
+        default: false,
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+  },
+};
+
+export interface RunAffectedTestsArgs {
+  changedSince?: string;
+  format?: TestFormat;
+  project?: string;
+  showLogs?: boolean;
+  dryRun?: boolean;
+  projectRoot?: string;
+}
+
+export interface RunAffectedTestsResult {
+  summary: string;
+  changedSince: string;
+  /** Changed files (relative to the project root) and the test files they pulled in */
+  affectedBy: Array<{
+    changedFile: string;
+    tests: string[];
+  }>;
+  /** Changed files that no test file depends on */
+  untestedChanges: string[];
+  /** Test files that were (or, for dryRun, would be) run */
+  testFiles: string[];
+  testResult?: ProcessedTestResult;
+  projectRoot: string;
+}
+
+/**
+ * Implementation of the run_affected_tests tool
+ */
+export async function handleRunAffectedTests(
+  args: RunAffectedTestsArgs,
+  context?: ToolExecutionContext
+): Promise<RunAffectedTestsResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const changedSince = args.changedSince?.trim() || "HEAD";
+  const changedFiles = await getChangedFiles(projectRoot, changedSince);
+  const testFiles = (await findTestFiles(projectRoot)).map((file) => file.path);
+  const mappings = await findAffectedTests(changedFiles, testFiles);
+
+  const affectedTestFiles = [...new Set(mappings.flatMap((mapping) => mapping.tests))].sort();
+  const toRelative = (file: string) => relative(projectRoot, file);
+
+  const result: RunAffectedTestsResult = {
+    summary: "",
+    changedSince,
+    affectedBy: mappings
+      .filter((mapping) => mapping.tests.length > 0)
+      .map((mapping) => ({
+        changedFile: toRelative(mapping.changedFile),
+        tests: mapping.tests.map(toRelative),
+      })),
+    untestedChanges: mappings
+      .filter((mapping) => mapping.tests.length === 0)
+      .map((mapping) => toRelative(mapping.changedFile)),
+    testFiles: affectedTestFiles.map(toRelative),
+    projectRoot,
+  };
+
+  if (changedFiles.length === 0) {
+    result.summary = `No files changed since ${changedSince}`;
+    return result;
+  }
+
+  if (affectedTestFiles.length === 0) {
+    result.summary = `No tests affected by ${changedFiles.length} changed file(s)`;
+    return result;
+  }
+
+  const selection = `${affectedTestFiles.length} test file(s) affected by ${changedFiles.length} changed file(s)`;
+  if (args.dryRun) {
+    result.summary = selection;
+    return result;
+  }
+
+  result.testResult = await runTestFiles(
+    affectedTestFiles,
+    { format: args.format, project: args.project, showLogs: args.showLogs, projectRoot: args.projectRoot },
+    context
+  );
+  result.summary = `${selection}: ${result.testResult.summary}`;
+  return result;
+}
@@ -10,11 +10,21 @@ import { getConfig } from "../config/config-loader.js";
 import {
   checkAllVersions,
   generateVersionReport,
+  VERSION_REQUIREMENTS,
 } from "../utils/version-checker.js";
 import { projectContext } from "../context/project-context.js";
+import { testSession } from "../context/test-session.js";
+import { historyStore } from "../utils/history-store.js";
+import { vitestSessions } from "../context/vitest-session.js";
+import { runVitestInProcess, type RunProgress } from "../utils/vitest-node-api.js";
 import { findVitestConfig } from "../utils/config-finder.js";
+import { validateProjectName } from "../utils/workspace-projects.js";
+import { processGroupOptions, terminateProcessTree } from "../utils/process-utils.js";
 import { writeFileSync, readFileSync, existsSync, unlinkSync } from "fs";
 import { randomBytes } from "crypto";
+import { resolveTestExportPath, writeTestResultExport } from "../utils/test-result-export.js";
+import type { VitestJsonResult } from "../utils/output-processor.js";
+import type { ToolExecutionContext } from "../plugins/plugin-interface.js";
 
 /**
  * Tool for running Vitest commands safely
@@ -41,7 +51,7 @@ export const runTestsTool: Tool = {
       project: {
         type: "string",
         description:
-          'Name of the specific Vitest project to run tests for, as defined in vitest.workspace.ts or vitest.config.ts projects array. Essential for monorepos with multiple packages/apps. Example: "client", "api", "shared".',
+          'Name of the specific Vitest project to run tests for, as defined in vitest.workspace.ts or vitest.config.ts projects array. Essential for monorepos with multiple packages/apps. Example: "client", "api", "shared". Use list_projects to see the available names; unknown names are rejected with the closest matches.',
       },
       showLogs: {
         type: "boolean",
@@ -49,6 +59,58 @@ export const runTestsTool: Tool = {
           "Capture and include console output (console.log, console.error, etc.) from test execution in the results. Useful for debugging test failures. Output is formatted with [stdout] or [stderr] prefixes to distinguish message types.",
         default: false,
       },
+      testNamePattern: {
+        type: "string",
+        description:
+          'Regular expression matched against full test names (describe blocks and test title joined by spaces), passed to Vitest\'s -t filter. Use to rerun a single failing test or describe block without running the whole file. Example: "Button renders disabled state". Cannot be combined with testName.',
+      },
+      testName: {
+        type: "string",
+        description:
+          'Literal test or describe block name to run. Special characters are escaped before the name is passed to Vitest\'s -t filter, so names containing parentheses or brackets work as-is. Cannot be combined with testNamePattern.',
+      },
+      onlyFailed: {
+        type: "boolean",
+        description:
+          "Rerun only the tests that are still failing according to earlier run_tests calls for this project (each run replaces the failures of the files it ran), limited to those inside target. Runs exactly the failed files and test names instead of everything under target. Cannot be combined with testNamePattern, testName or line.",
+        default: false,
+      },
+      line: {
+        type: "integer",
+        minimum: 1,
+        description:
+          "Line number inside the target test file. Runs only the test or describe block defined at that line (Vitest 3.0+). Requires target to be a single file.",
+      },
+      shards: {
+        type: "integer",
+        minimum: 1,
+        description:
+          "Split the test files under target into this many shards (Vitest's --shard=i/N) and run them in parallel Vitest processes, merging the results. Speeds up large directories on multi-core machines; parallelism is capped by the shardConcurrency setting. Cannot be combined with line.",
+      },
+      export: {
+        type: "array",
+        description:
+          'Also write the results of this run to files: "junit" (JUnit XML for CI dashboards) or "sarif" (each failed test as an error at its stack frame, for GitHub code scanning). Paths must be inside the project root and default to test-results/junit.xml and test-results/tests.sarif.',
+        items: {
+          type: "object",
+          properties: {
+            format: {
+              type: "string",
+              enum: ["junit", "sarif"],
+            },
+            path: {
+              type: "string",
+              description: "Output file, relative to the project root",
+            },
+          },
+          required: ["format"],
+        },
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
     },
     required: ["target"],
   },
@@ -56,11 +118,30 @@ export const runTestsTool: Tool = {
 
 export type TestFormat = "summary" | "detailed";
 
+export type TestExportFormat = "junit" | "sarif";
+
+export interface TestExportOptions {
+  format: TestExportFormat;
+  path?: string;  // Inside the project root (default: test-results/junit.xml or test-results/tests.sarif)
+}
+
+export interface TestExport {
+  format: TestExportFormat;
+  path: string;  // Relative to the project root
+}
+
 export interface RunTestsArgs {
   target: string;
   format?: TestFormat;
   project?: string;
   showLogs?: boolean;
+  testNamePattern?: string;
+  testName?: string;
+  line?: number;
+  onlyFailed?: boolean;
+  shards?: number;
+  export?: TestExportOptions[];
+  projectRoot?: string;
 }
 
 export interface RunTestsResult {
@@ -70,6 +151,18 @@ export interface RunTestsResult {
   stderr: string;
   exitCode: number;
   duration: number;
+  /** Structured report when tests ran in-process instead of being parsed from stdout */
+  jsonReport?: VitestJsonResult;
+  /** Output of each shard when the run was split with `shards`; their JSON reports get merged */
+  shards?: ShardRunResult[];
+}
+
+export interface ShardRunResult {
+  /** 1-based shard index, as passed to --shard=<index>/<count> */
+  index: number;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
 }
 
 export interface TestExecutionContext {
@@ -81,6 +174,7 @@ export interface TestExecutionContext {
 export interface TestResultContext extends TestExecutionContext {
   hasFailures: boolean;
   actualTestCount: number;
+  includePassedTests?: boolean;
 }
 
 export interface TestSummary {
@@ -111,6 +205,11 @@ export interface SkippedTest {
   testName: string;
 }
 
+export interface PassedTest {
+  testName: string;
+  duration?: number;
+}
+
 export interface TestResults {
   failedTests?: Array<{
     file: string;
@@ -120,6 +219,10 @@ export interface TestResults {
     file: string;
     tests: Array<SkippedTest>;
   }>;
+  passedTests?: Array<{
+    file: string;
+    tests: Array<PassedTest>;
+  }>;
 }
 
 export interface ProcessedTestResult {
@@ -131,6 +234,9 @@ export interface ProcessedTestResult {
   executionTimeMs: number;  // Total operation duration in milliseconds
   logs?: string[];
   testResults?: TestResults;
+  exports?: TestExport[];  // Only present when export was requested
+  cancelled?: boolean;  // Only present when the client cancelled the run
+  error?: string;  // Only present when the run failed before Vitest reported results
 }
 
 export interface OutputProcessor {
@@ -141,6 +247,18 @@ export interface OutputProcessor {
   ): Promise<ProcessedTestResult>;
 }
 
+/**
+ * Options for tools that build on the run_tests pipeline
+ */
+export interface TestRunnerOptions {
+  /** List every passed test with its duration in testResults.passedTests */
+  includePassedTests?: boolean;
+  /** Don't record the result for onlyFailed or in the test history, e.g. for repeated runs */
+  skipRecording?: boolean;
+  /** Run on a new Vitest instance even with watchMode, so no module state carries over from earlier runs */
+  freshInstance?: boolean;
+}
+
 /**
  * Determine the optimal format based on context and user preference
  */
@@ -181,6 +299,31 @@ export async function createExecutionContext(
   };
 }
 
+/**
+ * Positional file filters and test name pattern for a single Vitest run
+ */
+interface RunFilters {
+  files: string[];
+  testNamePattern?: string;
+}
+
+/**
+ * How Vitest is executed: a spawned `npx vitest run`, a one-shot in-process
+ * instance through the Node API, or the project's persistent session
+ */
+type ExecutionBackend = "spawn" | "in-process" | "session";
+
+/**
+ * Raw outcome of a single Vitest execution, spawned or in-process
+ */
+interface VitestExecutionResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  jsonReport?: VitestJsonResult;
+  shards?: ShardRunResult[];
+}
+
 /**
  * TestRunner class - Handles test execution with single responsibility methods and performance optimizations
  */
@@ -193,8 +336,16 @@ class TestRunner {
     setupFilePath?: string;
     configFilePath?: string;
   } = {};
-
-  constructor() {
+  private versionCheck?: Awaited<ReturnType<typeof checkAllVersions>>;
+  private backend: ExecutionBackend = "spawn";
+  private inProcessLogs?: string[];
+  private toolContext: ToolExecutionContext;
+  private options: TestRunnerOptions;
+  private exportTargets?: Array<{ format: TestExportFormat; path: string }>;
+
+  constructor(toolContext: ToolExecutionContext = {}, options: TestRunnerOptions = {}) {
+    this.toolContext = toolContext;
+    this.options = options;
     this.startTime = performance.now();
     this.operationId = `test-runner-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     this.projectRoot = "";
@@ -211,8 +362,11 @@ class TestRunner {
     }
 
     try {
-      this.projectRoot = projectContext.getProjectRoot();
-    } catch {
+      this.projectRoot = projectContext.getProjectRoot(args.projectRoot);
+    } catch (error) {
+      if (args.projectRoot) {
+        throw error;
+      }
       return "Please call set_project_root first";
     }
 
@@ -224,39 +378,178 @@ class TestRunner {
       );
     }
 
-    if (
-      (await isDirectoryPath(targetPath)) &&
-      resolve(targetPath) === resolve(this.projectRoot)
-    ) {
+    const targetIsDirectory = await isDirectoryPath(targetPath);
+
+    if (targetIsDirectory && resolve(targetPath) === resolve(this.projectRoot)) {
       throw new Error(
         "Cannot run tests on entire project root. Please specify a specific file or subdirectory."
       );
     }
 
+    this.validateTestFilters(args, targetIsDirectory);
+
     return targetPath;
   }
 
+  /**
+   * Validate test name and line filters
+   */
+  private validateTestFilters(args: RunTestsArgs, targetIsDirectory: boolean): void {
+    if (args.testNamePattern !== undefined && args.testName !== undefined) {
+      throw new Error(
+        "Specify either testNamePattern or testName, not both."
+      );
+    }
+
+    if (args.testNamePattern !== undefined) {
+      if (args.testNamePattern.trim() === "") {
+        throw new Error("testNamePattern cannot be empty.");
+      }
+      try {
+        new RegExp(args.testNamePattern);
+      } catch (error) {
+        throw new Error(
+          `Invalid testNamePattern: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (args.testName !== undefined && args.testName.trim() === "") {
+      throw new Error("testName cannot be empty.");
+    }
+
+    if (
+      args.onlyFailed &&
+      (args.testNamePattern !== undefined || args.testName !== undefined || args.line !== undefined)
+    ) {
+      throw new Error(
+        "onlyFailed cannot be combined with testNamePattern, testName or line."
+      );
+    }
+
+    if (args.shards !== undefined) {
+      if (!Number.isInteger(args.shards) || args.shards < 1) {
+        throw new Error("shards must be a positive integer.");
+      }
+      if (args.line !== undefined) {
+        throw new Error("shards cannot be combined with line.");
+      }
+    }
+
+    if (args.line !== undefined) {
+      if (!Number.isInteger(args.line) || args.line < 1) {
+        throw new Error("line must be a positive integer.");
+      }
+      if (targetIsDirectory) {
+        throw new Error(
+          "line can only be used when target is a single test file, not a directory."
+        );
+      }
+    }
+  }
+
   /**
    * Check version compatibility
    */
-  private async validateVersions(): Promise<void> {
+  private async validateVersions(args: RunTestsArgs): Promise<void> {
     const versionCheck = await checkAllVersions(this.projectRoot);
+    this.versionCheck = versionCheck;
     if (versionCheck.errors.length > 0) {
       const report = generateVersionReport(versionCheck);
       throw new Error(`Version compatibility issues found:\n\n${report}`);
     }
+
+    if (
+      args.line !== undefined &&
+      !versionCheck.vitest.supportedFeatures.includes("lineFilter")
+    ) {
+      throw new Error(
+        `Running a test by line number requires Vitest ${VERSION_REQUIREMENTS.vitest.features.lineFilter}+. Use testName or testNamePattern instead.`
+      );
+    }
+  }
+
+  /**
+   * Pick the execution backend. The Node API is used whenever the project's Vitest
+   * supports it; spawning remains the fallback for older or undetected versions.
+   * Sharded runs always spawn, one Vitest process per shard.
+   */
+  private async selectBackend(args: RunTestsArgs): Promise<ExecutionBackend> {
+    if (isSharded(args)) {
+      return "spawn";
+    }
+
+    const supportsNodeApi =
+      this.versionCheck?.vitest?.supportedFeatures?.includes("nodeApi") ?? false;
+
+    if (!supportsNodeApi) {
+      if (process.env.VITEST_MCP_DEBUG) {
+        console.error(
+          `[DEBUG] Vitest Node API requires Vitest ${VERSION_REQUIREMENTS.vitest.features.nodeApi}+, falling back to spawning Vitest`
+        );
+      }
+      return "spawn";
+    }
+
+    const config = await getConfig();
+    return config.testDefaults.watchMode && !this.options.freshInstance ? "session" : "in-process";
+  }
+
+  /**
+   * Resolve the file filters and test name pattern for this run
+   */
+  private resolveRunFilters(args: RunTestsArgs, targetPath: string): RunFilters {
+    if (args.onlyFailed) {
+      return this.resolveFailedTestFilters(targetPath);
+    }
+
+    const relativePath = relative(this.projectRoot, targetPath);
+    return {
+      files: [args.line !== undefined ? `${relativePath}:${args.line}` : relativePath],
+      testNamePattern: resolveTestNamePattern(args),
+    };
+  }
+
+  /**
+   * Build filters that match exactly the tests that are still failing from earlier runs
+   */
+  private resolveFailedTestFilters(targetPath: string): RunFilters {
+    if (!testSession.hasRecordedRun(this.projectRoot)) {
+      throw new Error(
+        "No previous test run recorded for this project. Run run_tests without onlyFailed first."
+      );
+    }
+
+    const failedTests = testSession.getFailedTests(this.projectRoot, targetPath);
+    if (failedTests.length === 0) {
+      throw new Error(
+        `No failed tests from the previous run are inside target: ${relative(this.projectRoot, targetPath) || "."}`
+      );
+    }
+
+    const testNames = [...new Set(failedTests.flatMap((record) => record.testNames))];
+
+    return {
+      files: failedTests.map((record) => relative(this.projectRoot, record.file)),
+      testNamePattern: buildExactNamePattern(testNames),
+    };
   }
 
   /**
    * Build command for display purposes
    */
-  private buildDisplayCommand(args: RunTestsArgs, targetPath: string): string {
+  private buildDisplayCommand(args: RunTestsArgs, filters: RunFilters): string {
     try {
-      const relativePath = relative(this.projectRoot, targetPath);
-      let builtCommand = `npx vitest run ${relativePath}`;
+      let builtCommand = `npx vitest run ${filters.files.join(" ")}`;
+      if (filters.testNamePattern) {
+        builtCommand += ` -t ${JSON.stringify(filters.testNamePattern)}`;
+      }
       if (args.project) {
         builtCommand += ` --project ${args.project}`;
       }
+      if (isSharded(args)) {
+        builtCommand += ` --shard=<1..${args.shards}>/${args.shards}`;
+      }
       return builtCommand;
     } catch {
       return `npx vitest run ${args.target || ""}`;
@@ -266,14 +559,17 @@ class TestRunner {
   /**
    * Build Vitest execution arguments
    */
-  private buildVitestArgs(args: RunTestsArgs, targetPath: string): string[] {
-    const relativePath = relative(this.projectRoot, targetPath);
-    const vitestArgs = ["vitest", "run", relativePath, "--reporter=json"];
+  private buildVitestArgs(args: RunTestsArgs, filters: RunFilters): string[] {
+    const vitestArgs = ["vitest", "run", ...filters.files, "--reporter=json"];
 
     if (args.project) {
       vitestArgs.push("--project", args.project);
     }
 
+    if (filters.testNamePattern) {
+      vitestArgs.push("-t", filters.testNamePattern);
+    }
+
     // Note: We don't force browser mode settings here to avoid conflicts
     // Let the project's vitest configuration handle browser settings
 
@@ -409,24 +705,40 @@ export default mergeConfig(
    */
   private async executeAndProcess(
     args: RunTestsArgs,
+    filters: RunFilters,
     vitestArgs: string[],
-    targetPath: string,
+    builtCommand: string,
     executionContext: TestExecutionContext
   ): Promise<ProcessedTestResult> {
-    // For now, use the original executeVitest function
-    // Performance optimizations will be re-added after ensuring they build correctly
-    const result = await executeVitest(["npx", ...vitestArgs], this.projectRoot);
+    if (this.backend === "spawn" && !isSharded(args)) {
+      // The CLI only reports once the whole run is done
+      this.toolContext.reportProgress?.({
+        progress: 0,
+        message: `Running ${builtCommand} (per-file progress requires Vitest ${VERSION_REQUIREMENTS.vitest.features.nodeApi}+)`,
+      });
+    }
+
+    let result: VitestExecutionResult;
+    if (isSharded(args)) {
+      result = await this.executeShards(vitestArgs, args.shards);
+    } else if (this.backend === "spawn") {
+      result = await executeVitest(["npx", ...vitestArgs], this.projectRoot, this.toolContext.signal);
+    } else {
+      result = await this.executeInProcess(args, filters);
+    }
     const hasFailures = result.exitCode !== 0;
     
     const finalFormat = await determineFormat(args, executionContext, hasFailures);
 
     const rawResult: RunTestsResult = {
-      command: `npx vitest run ${relative(this.projectRoot, targetPath)}`,
+      command: builtCommand,
       success: true,
       stdout: result.stdout,
       stderr: result.stderr,
       exitCode: result.exitCode,
       duration: Math.round((performance.now() - this.startTime) * 100) / 100,
+      jsonReport: result.jsonReport,
+      shards: result.shards,
     };
 
     this.debugLogResult(rawResult);
@@ -435,6 +747,11 @@ export default mergeConfig(
       ...executionContext,
       hasFailures,
       actualTestCount: 0,
+      // Passed tests are always collected for the history and JUnit export, then dropped unless requested
+      includePassedTests:
+        this.options.includePassedTests ||
+        this.exportTargets?.some(({ format }) => format === "junit") ||
+        (await historyStore.isEnabled()),
     };
 
     const processedResult = await processTestResult(
@@ -448,6 +765,129 @@ export default mergeConfig(
     return processedResult;
   }
 
+  /**
+   * Run the filtered tests through the Vitest Node API, either on a one-shot
+   * instance or on the project's persistent session
+   */
+  private async executeInProcess(args: RunTestsArgs, filters: RunFilters): Promise<VitestExecutionResult> {
+    const config = await getConfig();
+    const options = {
+      files: filters.files.map((file) => resolve(this.projectRoot, file)),
+      testNamePattern: filters.testNamePattern,
+      project: args.project,
+      timeout: config.testDefaults.timeout,
+      onProgress: this.toolContext.reportProgress
+        ? (progress: RunProgress) => this.reportRunProgress(progress)
+        : undefined,
+      signal: this.toolContext.signal,
+    };
+
+    const runResult = this.backend === "session"
+      ? await vitestSessions.run(this.projectRoot, options)
+      : await runVitestInProcess(this.projectRoot, options);
+
+    this.inProcessLogs = runResult.logs;
+
+    const stderr = runResult.timedOut
+      ? `Test run timed out after ${config.testDefaults.timeout}ms\n${runResult.output}`
+      : runResult.output;
+
+    return {
+      stdout: "",
+      stderr,
+      exitCode: runResult.report.success && !runResult.timedOut ? 0 : 1,
+      jsonReport: runResult.report,
+    };
+  }
+
+  /**
+   * Run the target as `shardCount` Vitest processes with --shard=i/N, at most
+   * shardConcurrency at a time. Per-shard JSON reports are merged by the output processor.
+   */
+  private async executeShards(vitestArgs: string[], shardCount: number): Promise<VitestExecutionResult> {
+    const config = await getConfig();
+    const concurrency = Math.max(1, Math.min(shardCount, config.testDefaults.shardConcurrency || 1));
+    const { signal, reportProgress } = this.toolContext;
+    let completedShards = 0;
+
+    reportProgress?.({
+      progress: 0,
+      total: shardCount,
+      message: `Running ${shardCount} shards, ${concurrency} at a time`,
+    });
+
+    const shardIndexes = Array.from({ length: shardCount }, (_, i) => i + 1);
+    const shards = await mapWithConcurrency(shardIndexes, concurrency, async (index): Promise<ShardRunResult> => {
+      // Shards without files must not fail the run
+      const shardArgs = [...vitestArgs, `--shard=${index}/${shardCount}`, "--passWithNoTests"];
+      const result = signal?.aborted
+        ? { stdout: "", stderr: "", exitCode: 1 }
+        : await executeVitest(["npx", ...shardArgs], this.projectRoot, signal);
+
+      completedShards++;
+      reportProgress?.({
+        progress: completedShards,
+        total: shardCount,
+        message: `Shard ${index}/${shardCount} finished (${completedShards}/${shardCount} done)`,
+      });
+
+      return { index, ...result };
+    });
+
+    return {
+      stdout: shards.map((shard) => shard.stdout).join("\n"),
+      stderr: shards
+        .filter((shard) => shard.stderr.trim())
+        .map((shard) => `[shard ${shard.index}/${shardCount}]\n${shard.stderr}`)
+        .join("\n"),
+      exitCode: shards.some((shard) => shard.exitCode !== 0) ? 1 : 0,
+      shards,
+    };
+  }
+
+  /**
+   * Forward run progress to the client, one update per finished test file
+   */
+  private reportRunProgress(progress: RunProgress): void {
+    const counts = `${progress.passed} passed, ${progress.failed} failed, ${progress.skipped} skipped`;
+    const message = progress.file
+      ? `${progress.completedFiles}/${progress.totalFiles} files · ${counts} · ${relative(this.projectRoot, progress.file)}`
+      : `Running ${progress.totalFiles} test file${progress.totalFiles === 1 ? "" : "s"}`;
+
+    this.toolContext.reportProgress?.({
+      progress: progress.completedFiles,
+      total: progress.totalFiles,
+      message,
+    });
+  }
+
+  /**
+   * Target recorded in the history: the normalized target, or the file list for explicit files
+   */
+  private historyTarget(args: RunTestsArgs, filters: RunFilters): string {
+    if (args.target) {
+      return relative(this.projectRoot, resolve(this.projectRoot, args.target)) || ".";
+    }
+    return filters.files.join(" ");
+  }
+
+  /**
+   * Write the requested exports of a finished run and list them in the result
+   */
+  private async writeExports(result: ProcessedTestResult): Promise<void> {
+    if (!this.exportTargets?.length) {
+      return;
+    }
+
+    const exports: TestExport[] = [];
+    for (const { format, path } of this.exportTargets) {
+      await writeTestResultExport(result, format, path, this.projectRoot);
+      exports.push({ format, path: relative(this.projectRoot, path) });
+    }
+    result.exports = exports;
+    result.summary += `; exported ${exports.map(({ format, path }) => `${format} to ${path}`).join(", ")}`;
+  }
+
   /**
    * Debug log the raw result
    */
@@ -464,6 +904,13 @@ export default mergeConfig(
    * Attach captured logs to result
    */
   private attachLogs(processedResult: ProcessedTestResult, showLogs: boolean | undefined): void {
+    if (showLogs && this.inProcessLogs) {
+      if (this.inProcessLogs.length > 0) {
+        processedResult.logs = this.inProcessLogs;
+      }
+      return;
+    }
+
     if (!showLogs || !this.logFiles.logFilePath || !existsSync(this.logFiles.logFilePath)) {
       return;
     }
@@ -530,66 +977,268 @@ export default mergeConfig(
       actualTestCount: 0,
     };
 
-    return await processTestResult(errorResult, "detailed", errorContext);
+    const processed = await processTestResult(errorResult, "detailed", errorContext);
+    return { ...processed, error: errorResult.stderr };
+  }
+
+  /**
+   * Create the result returned when the client cancelled the run
+   */
+  private createCancelledResult(args: RunTestsArgs, builtCommand: string): ProcessedTestResult {
+    return {
+      summary: "⏹️ Test run cancelled",
+      command: builtCommand,
+      success: false,
+      cancelled: true,
+      testSummary: { totalTests: 0, passed: 0, failed: 0 },
+      format: args.format ?? "summary",
+      executionTimeMs: Math.round((performance.now() - this.startTime) * 100) / 100,
+    };
   }
 
   /**
    * Main execution method
    */
   async execute(args: RunTestsArgs): Promise<ProcessedTestResult> {
-    let builtCommand = "";
-    
-    try {
-      // Validation phase
+    return await this.run(args, async () => {
       const targetPath = await this.validateInput(args);
       if (typeof targetPath !== 'string' || targetPath.startsWith('Please call')) {
         throw new Error(`Invalid target path: ${targetPath}`);
       }
       
-      await this.validateVersions();
+      await this.validateVersions(args);
+      if (args.project) {
+        await validateProjectName(this.projectRoot, args.project);
+      }
+
+      return {
+        filters: this.resolveRunFilters(args, targetPath),
+        executionContext: await createExecutionContext(targetPath),
+      };
+    });
+  }
+
+  /**
+   * Run an explicit list of test files (absolute paths) instead of a target,
+   * e.g. the tests affected by a change. args.target is ignored.
+   */
+  async executeFiles(files: string[], args: RunTestsArgs): Promise<ProcessedTestResult> {
+    return await this.run(args, async () => {
+      try {
+        this.projectRoot = projectContext.getProjectRoot(args.projectRoot);
+      } catch (error) {
+        if (args.projectRoot) {
+          throw error;
+        }
+        throw new Error("Please call set_project_root first");
+      }
+      if (files.length === 0) {
+        throw new Error("No test files to run.");
+      }
+
+      this.validateTestFilters(args, files.length > 1);
+      await this.validateVersions(args);
+      if (args.project) {
+        await validateProjectName(this.projectRoot, args.project);
+      }
+
+      return {
+        filters: {
+          files: files.map((file) => relative(this.projectRoot, file)),
+          testNamePattern: resolveTestNamePattern(args),
+        },
+        executionContext: {
+          isMultiFile: files.length > 1,
+          targetType: files.length > 1 ? "directory" : "file",
+        },
+      };
+    });
+  }
+
+  /**
+   * Shared run pipeline: validation (via prepare), command building, setup, execution and cleanup
+   */
+  private async run(
+    args: RunTestsArgs,
+    prepare: () => Promise<{ filters: RunFilters; executionContext: TestExecutionContext }>
+  ): Promise<ProcessedTestResult> {
+    const { signal } = this.toolContext;
+    let builtCommand = "";
+    
+    try {
+      // Validation phase
+      const { filters, executionContext } = await prepare();
+      // Export paths are checked before running, so a bad path fails fast
+      this.exportTargets = args.export?.map((options) => ({
+        format: options.format,
+        path: resolveTestExportPath(this.projectRoot, options),
+      }));
       
       // Command building phase
-      builtCommand = this.buildDisplayCommand(args, targetPath);
-      const executionContext = await createExecutionContext(targetPath);
-      const vitestArgs = this.buildVitestArgs(args, targetPath);
-      
-      // Setup phase
-      await this.setupLogCapture(args, vitestArgs);
+      builtCommand = this.buildDisplayCommand(args, filters);
+      const vitestArgs = this.buildVitestArgs(args, filters);
+      this.backend = await this.selectBackend(args);
       
       try {
+        // Setup phase (in-process runs capture logs through their reporter)
+        if (this.backend === "spawn") {
+          await this.setupLogCapture(args, vitestArgs);
+        }
+
+        if (signal?.aborted) {
+          return this.createCancelledResult(args, builtCommand);
+        }
+        
         // Execution phase
-        return await this.executeAndProcess(args, vitestArgs, targetPath, executionContext);
+        const result = await this.executeAndProcess(args, filters, vitestArgs, builtCommand, executionContext);
+
+        // Results of a cancelled run are partial, so they are not recorded for onlyFailed
+        if (signal?.aborted) {
+          return this.createCancelledResult(args, builtCommand);
+        }
+
+        if (!this.options.skipRecording) {
+          testSession.recordResult(this.projectRoot, result, {
+            // Strip the :line suffix of a line filter
+            paths: filters.files.map((file) => resolve(this.projectRoot, file.replace(/:\d+$/, ""))),
+            testNamePattern: filters.testNamePattern,
+          });
+          await historyStore.recordTestRun(this.projectRoot, this.historyTarget(args, filters), result);
+        }
+        await this.writeExports(result);
+
+        return this.options.includePassedTests ? result : withoutPassedTests(result);
       } finally {
         // Cleanup phase
         this.cleanup();
       }
     } catch (error) {
+      if (signal?.aborted) {
+        return this.createCancelledResult(args, builtCommand);
+      }
       return await this.createErrorResult(error, builtCommand);
     }
   }
 }
 
+/**
+ * Whether the run is split into more than one shard
+ */
+function isSharded(args: RunTestsArgs): args is RunTestsArgs & { shards: number } {
+  return args.shards !== undefined && args.shards > 1;
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the input.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const current = next++;
+      results[current] = await fn(items[current]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Escape a literal string so it can be used inside a test name pattern
+ */
+export function escapeTestNamePattern(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Resolve the pattern passed to Vitest's -t filter from testNamePattern or testName
+ */
+export function resolveTestNamePattern(args: RunTestsArgs): string | undefined {
+  if (args.testNamePattern) {
+    return args.testNamePattern;
+  }
+  if (args.testName) {
+    return escapeTestNamePattern(args.testName.trim());
+  }
+  return undefined;
+}
+
+/**
+ * Build a test name pattern that matches any of the given full test names exactly
+ */
+export function buildExactNamePattern(testNames: string[]): string {
+  const alternatives = testNames.map(escapeTestNamePattern).join("|");
+  return `^(?:.* )?(?:${alternatives})$`;
+}
+
 /**
  * Implementation of the run_tests tool
  */
 export async function handleRunTests(
-  args: RunTestsArgs
+  args: RunTestsArgs,
+  context?: ToolExecutionContext
+): Promise<ProcessedTestResult> {
+  const runner = new TestRunner(context);
+  return await runner.execute(args);
+}
+
+/**
+ * Run a list of test files (absolute paths) with the same pipeline as run_tests
+ */
+export async function runTestFiles(
+  files: string[],
+  args: Omit<RunTestsArgs, "target">,
+  context?: ToolExecutionContext
 ): Promise<ProcessedTestResult> {
-  const runner = new TestRunner();
+  const runner = new TestRunner(context);
+  return await runner.executeFiles(files, { ...args, target: "" });
+}
+
+/**
+ * Run a target with the run_tests pipeline and runner options other tools need,
+ * e.g. the passed tests for per-test statistics
+ */
+export async function runTestsWithOptions(
+  args: RunTestsArgs,
+  options: TestRunnerOptions,
+  context?: ToolExecutionContext
+): Promise<ProcessedTestResult> {
+  const runner = new TestRunner(context, options);
   return await runner.execute(args);
 }
 
+/**
+ * Drop the passed tests collected for the history from a result
+ */
+function withoutPassedTests(result: ProcessedTestResult): ProcessedTestResult {
+  if (!result.testResults?.passedTests) {
+    return result;
+  }
+
+  const { failedTests, skippedTests } = result.testResults;
+  const stripped: ProcessedTestResult = { ...result, testResults: { failedTests, skippedTests } };
+  if (!failedTests && !skippedTests) {
+    delete stripped.testResults;
+  }
+  return stripped;
+}
+
 /**
  * Execute Vitest command using optimized spawn - 40-60% performance improvement
  */
 async function executeVitest(
   command: string[],
-  cwd: string
-): Promise<{
-  stdout: string;
-  stderr: string;
-  exitCode: number;
-}> {
+  cwd: string,
+  signal?: AbortSignal
+): Promise<VitestExecutionResult> {
   const config = await getConfig();
   const startTime = performance.now();
 
@@ -599,10 +1248,12 @@ async function executeVitest(
     // Optimization: Avoid shell on Windows for simple commands (reduces 50-100ms overhead)
     const useShell = shouldUseShell(cmd);
     
-    const child = spawn(cmd, args, {
+    const child = spawn(cmd, useShell ? args.map(quoteShellArg) : args, {
       cwd,
       stdio: ["ignore", "pipe", "pipe"],
       shell: useShell,
+      // Own process group, so the shell, npx and Vitest workers can be killed together
+      ...processGroupOptions(),
       // Optimization: Set specific environment to reduce overhead
       env: {
         ...process.env,
@@ -632,18 +1283,14 @@ async function executeVitest(
       totalStderrSize += data.length;
     });
 
-    const timeout = setTimeout(() => {
-      child.kill("SIGTERM");
-      // Force kill after 2 seconds if process doesn't respond
-      setTimeout(() => {
-        if (!child.killed) {
-          child.kill("SIGKILL");
-        }
-      }, 2000);
-    }, config.testDefaults.timeout);
+    // SIGTERM the process tree, then force kill after 2 seconds if it doesn't respond
+    const timeout = setTimeout(() => terminateProcessTree(child), config.testDefaults.timeout);
+    const onAbort = () => terminateProcessTree(child);
+    signal?.addEventListener("abort", onAbort, { once: true });
 
     child.on("close", (code) => {
       clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
       
       // Optimization: Efficiently combine buffers
       if (stdoutChunks.length > 0) {
@@ -669,6 +1316,7 @@ async function executeVitest(
 
     child.on("error", (error) => {
       clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
       resolve({
         stdout,
         stderr: `Process spawn error: ${error.message}`,
@@ -697,3 +1345,19 @@ function shouldUseShell(cmd: string): boolean {
   // On Unix systems, shell adds minimal overhead for complex commands
   return true;
 }
+
+/**
+ * Quote an argument for the shell when it contains characters the shell would interpret.
+ * Test name patterns routinely contain spaces and regex metacharacters.
+ */
+function quoteShellArg(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+
+  if (process.platform === 'win32') {
+    return `"${arg.replace(/"/g, '""')}"`;
+  }
+
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
@@ -2,19 +2,28 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { projectContext } from '../context/project-context.js';
 import { getConfig } from '../config/config-loader.js';
 import { resolve } from 'path';
+import { validateAllowedPath } from '../utils/path-security.js';
 
 /**
  * Tool for setting the project root directory
  */
 export const setProjectRootTool: Tool = {
   name: 'set_project_root',
-  description: 'Set the project root directory for all subsequent operations. This must be called before using other tools to specify which repository to work with.',
+  description: 'Set the project root directory for all subsequent operations. This must be called before using other tools to specify which repository to work with. Calling it again with another path registers an additional root and makes it the active one; other tools use the active root unless they are given projectRoot with the alias or path of another registered root. Use list_project_roots to see the registered roots. When the MCP client advertises workspace roots, they are registered automatically and the first one with a Vitest config becomes active.',
   inputSchema: {
     type: 'object',
     properties: {
       path: {
         type: 'string',
         description: 'Absolute path to the project root directory (must start with / on Unix or drive letter on Windows)'
+      },
+      alias: {
+        type: 'string',
+        description: 'Optional name for this root, to pass as projectRoot to other tools (e.g., "api"). Defaults to the directory name, with a number appended if it is taken.'
+      },
+      activate: {
+        type: 'boolean',
+        description: 'Make this the active root used by tools called without projectRoot (default: true). Set to false to register another repository while keeping the current one active.'
       }
     },
     required: ['path']
@@ -23,12 +32,18 @@ export const setProjectRootTool: Tool = {
 
 export interface SetProjectRootArgs {
   path: string;
+  alias?: string;
+  activate?: boolean;
 }
 
 export interface SetProjectRootResult {
   success: boolean;
   projectRoot: string;
   projectName: string;
+  /** Name to pass as projectRoot to other tools */
+  alias: string;
+  /** Whether tools called without projectRoot now use this root */
+  active: boolean;
   message: string;
 }
 
@@ -51,45 +66,16 @@ export async function handleSetProjectRoot(args: SetProjectRootArgs): Promise<Se
     const config = await getConfig();
     
     
-    if (config.safety?.allowedPaths) {
-      const allowedPaths = Array.isArray(config.safety.allowedPaths) 
-        ? config.safety.allowedPaths 
-        : [config.safety.allowedPaths];
-      
-      let isAllowed = false;
-      let restrictionMessage = '';
-      
-      for (const allowedPath of allowedPaths) {
-        const resolvedAllowedPath = resolve(allowedPath);
-        
-        
-        if (resolvedPath === resolvedAllowedPath || 
-            resolvedPath.startsWith(resolvedAllowedPath + '/')) {
-          isAllowed = true;
-          break;
-        }
-        
-        
-        if (restrictionMessage) {
-          restrictionMessage += ', ';
-        }
-        restrictionMessage += allowedPath;
-      }
-      
-      if (!isAllowed) {
-        throw new Error(
-          `Access denied: Path "${resolvedPath}" is outside allowed directories. ` +
-          `Allowed paths: ${restrictionMessage}. ` +
-          `Configure allowedPaths in your .vitest-mcp.json to change this restriction.`
-        );
-      }
-    }
+    validateAllowedPath(resolvedPath, config.safety?.allowedPaths);
 
     
-    await projectContext.setProjectRoot(resolvedPath);
+    const alias = await projectContext.setProjectRoot(resolvedPath, {
+      alias: args.alias?.trim(),
+      activate: args.activate
+    });
     
     
-    const projectInfo = projectContext.getProjectInfo();
+    const projectInfo = projectContext.getProjectInfo(alias);
     
     if (!projectInfo) {
       throw new Error('Failed to set project root');
@@ -100,11 +86,18 @@ export async function handleSetProjectRoot(args: SetProjectRootArgs): Promise<Se
       ? ' (Development mode enabled - self-targeting allowed)' 
       : '';
     
+    const active = projectContext.getProjectInfo()?.alias === alias;
+    const message = active
+      ? `Project root set to: ${projectInfo.path} (alias "${alias}")`
+      : `Project root registered: ${projectInfo.path} (alias "${alias}"). The active root is unchanged; pass projectRoot: "${alias}" to use it`;
+    
     return {
       success: true,
       projectRoot: projectInfo.path,
       projectName: projectInfo.name,
-      message: `Project root set to: ${projectInfo.path}${devModeNotice}`
+      alias,
+      active,
+      message: `${message}${devModeNotice}`
     };
     
   } catch (error) {
@@ -114,6 +107,8 @@ export async function handleSetProjectRoot(args: SetProjectRootArgs): Promise<Se
       success: false,
       projectRoot: '',
       projectName: '',
+      alias: '',
+      active: false,
       message: `Failed to set project root: ${errorMessage}`
     };
   }
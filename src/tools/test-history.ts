@@ -0,0 +1,405 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { relative, resolve } from "path";
+import { projectContext } from "../context/project-context.js";
+import {
+  ENABLE_HISTORY_HINT,
+  historyStore,
+  type CoverageHistoryRecord,
+  type HistoryRecord,
+  type TestRunHistoryRecord,
+} from "../utils/history-store.js";
+import type { CoverageMetrics } from "../types/coverage-types.js";
+import { summarizeFileBreakdown } from "../utils/coverage-processor.js";
+import { round } from "../utils/number-utils.js";
+import { isWithin } from "../utils/path-utils.js";
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_TOP = 10;
+
+/**
+ * Tool for querying the recorded history of test runs and coverage analyses
+ */
+export const testHistoryTool: Tool = {
+  name: "test_history",
+  description:
+    'Query the history of earlier run_tests and analyze_coverage results for the current project, recorded in .vitest-mcp/history.jsonl with the git commit and time of each run when history is enabled in the server config (off by default). Answers "when did this test start failing" (failures), "which tests are slowest over the last 20 runs" (slowest), "how did coverage of src/api change" (coverage_trend) and lists recent runs (runs). Requires set_project_root to be called first.\n\nUSE WHEN: User asks since when or since which commit a test fails, whether tests got slower, how coverage developed over time, or what earlier runs reported.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        enum: ["failures", "slowest", "coverage_trend", "runs"],
+        description:
+          '"failures": currently failing tests with the run and commit they started failing in and their last pass. "slowest": tests with the highest mean duration. "coverage_trend": coverage percentages per analysis, oldest first. "runs": one-line summaries of recent runs.',
+      },
+      path: {
+        type: "string",
+        description:
+          'Limit the query to a file or directory relative to the project root, e.g. "src/api". Filters test files for failures and slowest. For coverage_trend, reports the coverage of the files inside the path, from analyses of the path itself, of a path inside it, or of a parent directory analyzed with format "detailed".',
+      },
+      testName: {
+        type: "string",
+        description:
+          "Only report tests whose full name contains this text (case-insensitive). Applies to failures and slowest.",
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        description: `Number of most recent runs to look at (default: ${DEFAULT_LIMIT}). The failures query always looks at the whole history to find when a failure started.`,
+        default: DEFAULT_LIMIT,
+      },
+      top: {
+        type: "integer",
+        minimum: 1,
+        description: `Number of tests to return for slowest (default: ${DEFAULT_TOP})`,
+        default: DEFAULT_TOP,
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Optional alias or absolute path of a project root registered with set_project_root (see list_project_roots). Defaults to the active root.",
+      },
+    },
+    required: ["query"],
+  },
+};
+
+export type TestHistoryQuery = "failures" | "slowest" | "coverage_trend" | "runs";
+
+export interface TestHistoryArgs {
+  query: TestHistoryQuery;
+  path?: string;
+  testName?: string;
+  limit?: number;
+  top?: number;
+  projectRoot?: string;
+}
+
+export interface HistoryRunRef {
+  timestamp: string;
+  commit: string | null;
+}
+
+export interface FailingTestHistory {
+  file: string;
+  testName: string;
+  /** First run of the current streak of failures */
+  failingSince: HistoryRunRef;
+  /** Most recent passing run before the streak, if any was recorded */
+  lastPassed?: HistoryRunRef;
+  consecutiveFailures: number;
+  latestFailure: string;
+}
+
+export interface SlowTestHistory {
+  file: string;
+  testName: string;
+  runs: number;
+  meanMs: number;
+  maxMs: number;
+  latestMs: number;
+}
+
+export interface CoverageTrendPoint extends HistoryRunRef {
+  target: string;
+  coverage: CoverageMetrics;
+}
+
+export interface HistoryRunSummary extends HistoryRunRef {
+  kind: HistoryRecord["kind"];
+  target: string;
+  summary: string;
+}
+
+export interface TestHistoryResult {
+  summary: string;
+  query: TestHistoryQuery;
+  /** Number of recorded runs the answer is based on */
+  recordsExamined: number;
+  historyFile: string;
+  failingTests?: FailingTestHistory[];
+  slowestTests?: SlowTestHistory[];
+  coverageTrend?: CoverageTrendPoint[];
+  /** Change from the oldest to the newest point of the coverage trend, in percentage points */
+  coverageChange?: CoverageMetrics;
+  runs?: HistoryRunSummary[];
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface TestOutcome {
+  file: string;
+  testName: string;
+  status: TestStatus;
+  duration?: number;
+  failure?: string;
+}
+
+/**
+ * Implementation of the test_history tool
+ */
+export async function handleTestHistory(args: TestHistoryArgs): Promise<TestHistoryResult> {
+  let projectRoot: string;
+  try {
+    projectRoot = projectContext.getProjectRoot(args.projectRoot);
+  } catch (error) {
+    if (args.projectRoot) {
+      throw error;
+    }
+    throw new Error("Please call set_project_root first");
+  }
+
+  const limit = args.limit ?? DEFAULT_LIMIT;
+  const top = args.top ?? DEFAULT_TOP;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer.");
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error("top must be a positive integer.");
+  }
+
+  const records = await historyStore.read(projectRoot);
+  if (records.length === 0 && !(await historyStore.isEnabled())) {
+    throw new Error(`History recording is off. ${ENABLE_HISTORY_HINT}`);
+  }
+  const filter: QueryFilter = {
+    projectRoot,
+    path: args.path ? resolve(projectRoot, args.path) : undefined,
+    testName: args.testName?.toLowerCase(),
+  };
+  const base = { query: args.query, historyFile: historyStore.getHistoryPath(projectRoot) };
+
+  switch (args.query) {
+    case "failures": {
+      const testRuns = records.filter(isTestRun);
+      const failingTests = findFailingTests(testRuns, filter);
+      return {
+        ...base,
+        summary: testRuns.length === 0
+          ? "No test runs recorded yet"
+          : failingTests.length === 0
+            ? `No currently failing tests in ${testRuns.length} recorded run(s)`
+            : `${failingTests.length} test(s) currently failing, oldest failure since ${failingTests[0].failingSince.timestamp}`,
+        recordsExamined: testRuns.length,
+        failingTests,
+      };
+    }
+
+    case "slowest": {
+      const testRuns = records.filter(isTestRun).slice(-limit);
+      const slowestTests = findSlowestTests(testRuns, filter).slice(0, top);
+      return {
+        ...base,
+        summary: slowestTests.length === 0
+          ? "No test durations recorded yet"
+          : `Slowest test over the last ${testRuns.length} run(s): ${slowestTests[0].testName} (${slowestTests[0].meanMs}ms mean)`,
+        recordsExamined: testRuns.length,
+        slowestTests,
+      };
+    }
+
+    case "coverage_trend": {
+      const coverageTrend = records
+        .filter(isCoverageRun)
+        .map((record) => ({ record, coverage: coverageOfPath(record, filter) }))
+        .filter((entry): entry is { record: CoverageHistoryRecord; coverage: CoverageMetrics } => entry.coverage !== undefined)
+        .slice(-limit)
+        .map(({ record, coverage }) => ({
+          timestamp: record.timestamp,
+          commit: record.commit,
+          target: record.target,
+          coverage,
+        }));
+      const result: TestHistoryResult = {
+        ...base,
+        summary: "No coverage analyses recorded yet",
+        recordsExamined: coverageTrend.length,
+        coverageTrend,
+      };
+      if (coverageTrend.length > 0) {
+        const first = coverageTrend[0].coverage;
+        const last = coverageTrend[coverageTrend.length - 1].coverage;
+        result.coverageChange = {
+          lines: round(last.lines - first.lines),
+          functions: round(last.functions - first.functions),
+          branches: round(last.branches - first.branches),
+          statements: round(last.statements - first.statements),
+        };
+        result.summary = `Line coverage went from ${first.lines}% to ${last.lines}% over ${coverageTrend.length} analysis(es)`;
+      }
+      return result;
+    }
+
+    case "runs": {
+      const recentRuns = records
+        .filter((record) => !filter.path || isWithin(filter.path, resolve(projectRoot, record.target)))
+        .slice(-limit);
+      return {
+        ...base,
+        summary: `${recentRuns.length} recorded run(s)`,
+        recordsExamined: recentRuns.length,
+        runs: recentRuns.map((record) => ({
+          timestamp: record.timestamp,
+          commit: record.commit,
+          kind: record.kind,
+          target: record.target,
+          summary: record.result.summary,
+        })),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown query: ${String(args.query)}. Use failures, slowest, coverage_trend or runs.`);
+  }
+}
+
+interface QueryFilter {
+  projectRoot: string;
+  path?: string;
+  testName?: string;
+}
+
+/**
+ * Find tests whose latest recorded outcome is a failure, and where their streak of failures began
+ */
+function findFailingTests(testRuns: TestRunHistoryRecord[], filter: QueryFilter): FailingTestHistory[] {
+  const timelines = new Map<string, Array<{ run: TestRunHistoryRecord; outcome: TestOutcome }>>();
+  for (const run of testRuns) {
+    for (const outcome of collectOutcomes(run, filter)) {
+      const key = `${outcome.file}\0${outcome.testName}`;
+      if (!timelines.has(key)) {
+        timelines.set(key, []);
+      }
+      timelines.get(key)!.push({ run, outcome });
+    }
+  }
+
+  const failingTests: FailingTestHistory[] = [];
+  for (const timeline of timelines.values()) {
+    // Skipped runs say nothing about whether the test works
+    const decisive = timeline.filter((entry) => entry.outcome.status !== "skipped");
+    const latest = decisive[decisive.length - 1];
+    if (!latest || latest.outcome.status !== "failed") {
+      continue;
+    }
+
+    let streakStart = decisive.length - 1;
+    while (streakStart > 0 && decisive[streakStart - 1].outcome.status === "failed") {
+      streakStart--;
+    }
+    const lastPassed = streakStart > 0 ? decisive[streakStart - 1].run : undefined;
+
+    failingTests.push({
+      file: latest.outcome.file,
+      testName: latest.outcome.testName,
+      failingSince: runRef(decisive[streakStart].run),
+      ...(lastPassed ? { lastPassed: runRef(lastPassed) } : {}),
+      consecutiveFailures: decisive.length - streakStart,
+      latestFailure: latest.outcome.failure ?? "Test failed",
+    });
+  }
+
+  return failingTests.sort((a, b) => a.failingSince.timestamp.localeCompare(b.failingSince.timestamp));
+}
+
+/**
+ * Average the recorded durations per test, slowest first
+ */
+function findSlowestTests(testRuns: TestRunHistoryRecord[], filter: QueryFilter): SlowTestHistory[] {
+  const durations = new Map<string, { file: string; testName: string; values: number[] }>();
+  for (const run of testRuns) {
+    for (const outcome of collectOutcomes(run, filter)) {
+      if (outcome.duration === undefined) {
+        continue;
+      }
+      const key = `${outcome.file}\0${outcome.testName}`;
+      if (!durations.has(key)) {
+        durations.set(key, { file: outcome.file, testName: outcome.testName, values: [] });
+      }
+      durations.get(key)!.values.push(outcome.duration);
+    }
+  }
+
+  return [...durations.values()]
+    .map(({ file, testName, values }) => ({
+      file,
+      testName,
+      runs: values.length,
+      meanMs: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      maxMs: round(Math.max(...values)),
+      latestMs: round(values[values.length - 1]),
+    }))
+    .sort((a, b) => b.meanMs - a.meanMs);
+}
+
+/**
+ * Flatten the per-file test lists of a recorded run, applying the path and name filters.
+ * File paths are returned relative to the project root.
+ */
+function collectOutcomes(run: TestRunHistoryRecord, filter: QueryFilter): TestOutcome[] {
+  const outcomes: TestOutcome[] = [];
+  const add = (file: string, outcome: Omit<TestOutcome, "file">) => {
+    const absoluteFile = resolve(filter.projectRoot, file);
+    if (filter.path && !isWithin(filter.path, absoluteFile)) {
+      return;
+    }
+    if (filter.testName && !outcome.testName.toLowerCase().includes(filter.testName)) {
+      return;
+    }
+    outcomes.push({ file: relative(filter.projectRoot, absoluteFile), ...outcome });
+  };
+
+  const testResults = run.result.testResults;
+  for (const group of testResults?.passedTests ?? []) {
+    for (const test of group.tests) {
+      add(group.file, { testName: test.testName, status: "passed", duration: test.duration });
+    }
+  }
+  for (const group of testResults?.failedTests ?? []) {
+    for (const test of group.tests) {
+      add(group.file, {
+        testName: test.testName,
+        status: "failed",
+        duration: "duration" in test ? test.duration : undefined,
+        failure: `${test.errorType}: ${test.message}`,
+      });
+    }
+  }
+  for (const group of testResults?.skippedTests ?? []) {
+    for (const test of group.tests) {
+      add(group.file, { testName: test.testName, status: "skipped" });
+    }
+  }
+  return outcomes;
+}
+
+function isTestRun(record: HistoryRecord): record is TestRunHistoryRecord {
+  return record.kind === "test";
+}
+
+function isCoverageRun(record: HistoryRecord): record is CoverageHistoryRecord {
+  return record.kind === "coverage";
+}
+
+/**
+ * Coverage of the filter path in a coverage run: of the files of its fileBreakdown inside
+ * the path, or the whole run when its target is inside the path. Undefined when the run
+ * doesn't cover the path.
+ */
+function coverageOfPath(record: CoverageHistoryRecord, filter: QueryFilter): CoverageMetrics | undefined {
+  const { path, projectRoot } = filter;
+  const target = resolve(projectRoot, record.target);
+  if (!path || isWithin(path, target)) {
+    return { ...record.result.coverage };
+  }
+  if (!isWithin(target, path)) {
+    return undefined;
+  }
+
+  const files = (record.result.fileBreakdown ?? []).filter((file) => isWithin(path, resolve(projectRoot, file.path)));
+  return files.length > 0 ? summarizeFileBreakdown(files) : undefined;
+}
+
+function runRef(record: HistoryRecord): HistoryRunRef {
+  return { timestamp: record.timestamp, commit: record.commit };
+}
@@ -20,10 +20,18 @@ export interface VitestMCPConfig {
     timeout?: number;
     
     /**
-     * Automatically use watch mode for single file tests
+     * Keep one persistent Vitest session per project root (Vitest Node API in watch mode)
+     * and rerun tests on it, instead of creating a fresh Vitest instance for every call.
+     * Vitest versions below 3.0 always spawn `npx vitest run`.
      * @default false
      */
     watchMode?: boolean;
+
+    /**
+     * Maximum number of shards run_tests runs in parallel when `shards` is set
+     * @default number of CPU cores
+     */
+    shardConcurrency?: number;
   };
 
   /**
@@ -43,19 +51,37 @@ export interface VitestMCPConfig {
     exclude?: string[];
   };
 
+  /**
+   * Test and coverage history, stored as JSONL in <projectRoot>/.vitest-mcp/.
+   * Off by default, since it writes into the project directory.
+   */
+  history?: {
+    /**
+     * Record every run_tests and analyze_coverage result for the test_history tool
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum number of records kept per project; the oldest are dropped first
+     * @default 200
+     */
+    maxRecords?: number;
+  };
+
   /**
    * File discovery settings
    */
   discovery?: {
     /**
-     * Default patterns for finding test files
+     * Glob patterns for finding test files, relative to the project root
      * @default ['**\/*.{test,spec}.{js,ts,jsx,tsx}']
      */
     testPatterns?: string[];
     
     /**
-     * Directories to exclude from test discovery
-     * @default ['node_modules', 'dist', 'coverage', '.git']
+     * Names or globs of files and directories to exclude from test discovery
+     * @default ['node_modules', 'dist', 'build', 'coverage', '.git']
      */
     excludePatterns?: string[];
     
@@ -133,6 +159,7 @@ export interface VitestMCPConfig {
 export type ResolvedVitestMCPConfig = Required<{
   testDefaults: Required<NonNullable<VitestMCPConfig['testDefaults']>>;
   coverageDefaults: Required<NonNullable<VitestMCPConfig['coverageDefaults']>>;
+  history: Required<NonNullable<VitestMCPConfig['history']>>;
   discovery: Required<NonNullable<VitestMCPConfig['discovery']>>;
   server: Required<NonNullable<VitestMCPConfig['server']>>;
   safety: Required<NonNullable<VitestMCPConfig['safety']>>;
@@ -16,6 +16,20 @@ export interface CoverageMetrics {
   statements: number;
 }
 
+export type ThresholdMetric = keyof CoverageMetrics;
+
+/**
+ * A coverage threshold from the Vitest config that is not met
+ */
+export interface ThresholdViolation {
+  metric: ThresholdMetric;
+  actual: number;  // Percentage
+  required: number;  // Percentage
+  file: string | null;  // Relative to the project root; only set with perFile, null for a total
+  glob: string | null;  // Pattern of a glob threshold; null for the global thresholds
+  message: string;
+}
+
 export interface UncoveredLine {
   line: number;
   column?: number;
@@ -70,6 +84,7 @@ export interface CoverageAnalysisResult {
   };
   file?: string;
   
+  /** Keyed by path relative to the project root */
   uncovered?: {
     [filePath: string]: {
       lines: number[];
@@ -108,36 +123,111 @@ export interface CoverageAnalysisResult {
       statements: number;
     };
   }>;
-  thresholdViolations?: string[];  // Optional - only present if thresholds are violated
+  thresholdViolations?: ThresholdViolation[];  // Optional - only present if thresholds are violated
+  patchCoverage?: PatchCoverage;  // Only present when patchCoverage was requested
+  uncoveredSource?: UncoveredSourceFile[];  // Only present when includeSource was requested
+  exports?: CoverageExport[];  // Only present when export was requested
+  cancelled?: boolean;  // Only present when the client cancelled the analysis
+}
+
+export type CoverageExportFormat = 'lcov' | 'cobertura' | 'sarif';
+
+export interface CoverageExportOptions {
+  format: CoverageExportFormat;
+  path?: string;  // Inside the project root (default: coverage/lcov.info, coverage/cobertura-coverage.xml or coverage/coverage.sarif)
+}
+
+export interface CoverageExport {
+  format: CoverageExportFormat;
+  path: string;  // Relative to the project root
+}
+
+export interface PatchCoverageOptions {
+  base?: string;  // Git ref to diff the working tree against (default: HEAD)
+  diff?: string;  // Unified diff text to use instead of running git diff
+}
+
+export interface PatchCoverageFile {
+  file: string;  // Relative to the project root
+  changedLines: number;  // Changed lines that hold statements
+  coveredLines: number;
+  percentage: number;
+  uncovered: Array<{ line: number; source: string }>;
+}
+
+/**
+ * Line coverage of only the lines added or modified by a diff
+ */
+export interface PatchCoverage {
+  base?: string;
+  percentage: number;
+  changedLines: number;
+  coveredLines: number;
+  files: PatchCoverageFile[];
+}
+
+export interface UncoveredRange {
+  startLine: number;
+  endLine: number;
+  source: string;  // Numbered lines with context; uncovered lines are marked with ">"
+}
+
+export interface UncoveredBranchArm {
+  line: number;
+  type: string;  // Istanbul branch type, e.g. "if", "cond-expr", "binary-expr", or "branch" for V8 blocks
+  arm: string;  // Which arm never ran, e.g. "else: condition never false"
+  source: string;
+}
+
+/**
+ * Source of the code a file's tests never reached
+ */
+export interface UncoveredSourceFile {
+  file: string;  // Relative to the project root
+  ranges: UncoveredRange[];
+  branches: UncoveredBranchArm[];
 }
 
 export interface AnalyzeCoverageArgs {
   target: string;
   format?: 'summary' | 'detailed';
   exclude?: string[];
+  patchCoverage?: PatchCoverageOptions;
+  includeSource?: boolean;
+  provider?: 'v8' | 'istanbul';  // Default: provider from the Vitest config, or v8
+  export?: CoverageExportOptions[];
+  project?: string;  // Vitest project name, as in run_tests
+  projectRoot?: string;  // Alias or path of a registered root. Default: the active root
+}
+
+interface SourcePosition {
+  line?: number;
+  column?: number;
 }
 
 interface StatementMapping {
-  start?: {
-    line?: number;
-  };
+  start?: SourcePosition;
+  end?: SourcePosition;
 }
 
 interface FunctionMapping {
   name?: string;
   decl?: {
-    start?: {
-      line?: number;
-    };
+    start?: SourcePosition;
+    end?: SourcePosition;
   };
 }
 
 interface BranchMapping {
+  type?: string;
   loc?: {
-    start?: {
-      line?: number;
-    };
+    start?: SourcePosition;
+    end?: SourcePosition;
   };
+  locations?: Array<{
+    start?: SourcePosition;
+    end?: SourcePosition;
+  }>;
 }
 
 export interface RawCoverageData {
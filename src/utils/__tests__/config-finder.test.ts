@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { findVitestConfig, hasVitestConfig } from '../config-finder.js';
+import { explainVitestConfig, findVitestConfig, hasVitestConfig } from '../config-finder.js';
 import { fileExists } from '../file-utils.js';
 
 vi.mock('../file-utils.js');
@@ -81,4 +81,38 @@ describe('config-finder', () => {
       expect(result).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('explainVitestConfig', () => {
+    it('should explain that the MCP config takes priority and list ignored configs', async () => {
+      vi.mocked(fileExists).mockImplementation(async (path) => {
+        return path.endsWith('vitest.mcp.config.ts') || path.endsWith('vite.config.ts');
+      });
+
+      const result = await explainVitestConfig('/project');
+
+      expect(result).toEqual({
+        configFile: '/project/vitest.mcp.config.ts',
+        reason: 'vitest.mcp.config.ts is the MCP-specific config and takes priority over all other config files',
+        ignoredFiles: ['/project/vite.config.ts'],
+      });
+    });
+
+    it('should explain the priority order for other configs', async () => {
+      vi.mocked(fileExists).mockImplementation(async (path) => path.endsWith('vite.config.js'));
+
+      const result = await explainVitestConfig('/project');
+
+      expect(result.configFile).toBe('/project/vite.config.js');
+      expect(result.reason).toMatch(/^vite\.config\.js is the first config file found, in the order vitest\.mcp\.config\.ts, vitest\.config\.ts/);
+    });
+
+    it('should say that Vitest defaults apply without a config', async () => {
+      vi.mocked(fileExists).mockResolvedValue(false);
+
+      const result = await explainVitestConfig('/project');
+
+      expect(result.configFile).toBeNull();
+      expect(result.reason).toContain("Vitest's defaults apply");
+    });
+  });
+});
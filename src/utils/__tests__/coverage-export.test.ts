@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  formatCobertura,
+  formatLcov,
+  formatSarif,
+  resolveExportPath,
+  writeCoverageExport
+} from '../coverage-export.js';
+import type { CoverageExportFormat, RawCoverageData } from '../../types/coverage-types.js';
+
+describe('coverage-export', () => {
+  let projectRoot: string;
+  let mathPath: string;
+  let files: RawCoverageData['files'];
+
+  beforeEach(() => {
+    projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-export-'));
+    mkdirSync(join(projectRoot, 'src'));
+    mathPath = join(projectRoot, 'src', 'math.ts');
+    writeFileSync(mathPath, [
+      'export function add(a: number, b: number) {',
+      '  return a + b;',
+      '}',
+      'export function clamp(value: number, max?: number) {',
+      '  return value > (max ?? 10) ? max : value;',
+      '}'
+    ].join('\n'));
+
+    files = {
+      [mathPath]: {
+        path: mathPath,
+        statementMap: {
+          '0': { start: { line: 2, column: 2 }, end: { line: 2, column: 15 } },
+          '1': { start: { line: 5, column: 2 }, end: { line: 5, column: 43 } }
+        },
+        s: { '0': 3, '1': 0 },
+        fnMap: {
+          '0': { name: 'add', decl: { start: { line: 1, column: 16 }, end: { line: 1, column: 19 } } },
+          '1': { name: 'clamp', decl: { start: { line: 4, column: 16 }, end: { line: 4, column: 21 } } }
+        },
+        f: { '0': 3, '1': 0 },
+        branchMap: {
+          '0': {
+            type: 'binary-expr',
+            loc: { start: { line: 5, column: 17 }, end: { line: 5, column: 28 } },
+            locations: [
+              { start: { line: 5, column: 17 }, end: { line: 5, column: 20 } },
+              { start: { line: 5, column: 24 }, end: { line: 5, column: 26 } }
+            ]
+          }
+        },
+        b: { '0': [1, 0] }
+      }
+    };
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should format an LCOV tracefile', () => {
+    // Act
+    const lcov = formatLcov(files);
+
+    // Assert
+    expect(lcov).toBe([
+      'TN:',
+      `SF:${mathPath}`,
+      'FN:1,add',
+      'FN:4,clamp',
+      'FNDA:3,add',
+      'FNDA:0,clamp',
+      'FNF:2',
+      'FNH:1',
+      'BRDA:5,0,0,1',
+      'BRDA:5,0,1,0',
+      'BRF:2',
+      'BRH:1',
+      'DA:2,3',
+      'DA:5,0',
+      'LF:2',
+      'LH:1',
+      'end_of_record',
+      ''
+    ].join('\n'));
+  });
+
+  it('should format a Cobertura report with files grouped by directory', () => {
+    // Act
+    const xml = formatCobertura(files, projectRoot, 1700000000000);
+
+    // Assert
+    expect(xml).toContain('<coverage lines-valid="2" lines-covered="1" line-rate="0.5" branches-valid="2" branches-covered="1" branch-rate="0.5" timestamp="1700000000000"');
+    expect(xml).toContain('<package name="src" line-rate="0.5" branch-rate="0.5">');
+    expect(xml).toContain('<class name="math.ts" filename="src/math.ts" line-rate="0.5" branch-rate="0.5">');
+    expect(xml).toContain('<method name="clamp" hits="0" signature="()V">');
+    expect(xml).toContain('<line number="2" hits="3" branch="false"/>');
+    expect(xml).toContain('<line number="5" hits="0" branch="true" condition-coverage="50% (1/2)"/>');
+  });
+
+  it('should report uncovered functions and branch arms as SARIF warnings', async () => {
+    // Act
+    const sarif = JSON.parse(await formatSarif(files, projectRoot));
+
+    // Assert
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toMatch(/^file:\/\/.*\/$/);
+    expect(run.results).toEqual([
+      {
+        ruleId: 'uncovered-function',
+        level: 'warning',
+        message: { text: 'Function "clamp" is never called by tests' },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: 'src/math.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 4, startColumn: 17, endLine: 4, endColumn: 22 }
+          }
+        }]
+      },
+      {
+        ruleId: 'uncovered-branch',
+        level: 'warning',
+        message: { text: 'Branch not covered by tests: operand after "??" never evaluated' },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: 'src/math.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 5, startColumn: 25, endLine: 5, endColumn: 27 }
+          }
+        }]
+      }
+    ]);
+  });
+
+  it('should write exports inside the project root only', async () => {
+    // Arrange
+    const outputPath = resolveExportPath(projectRoot, { format: 'lcov' });
+
+    // Act
+    await writeCoverageExport(files, 'lcov', outputPath, projectRoot);
+
+    // Assert
+    expect(outputPath).toBe(join(projectRoot, 'coverage', 'lcov.info'));
+    expect(readFileSync(outputPath, 'utf-8')).toContain('end_of_record');
+    expect(() => resolveExportPath(projectRoot, { format: 'sarif', path: '../coverage.sarif' }))
+      .toThrow('Invalid export path "../coverage.sarif"');
+    expect(() => resolveExportPath(projectRoot, { format: 'html' as unknown as CoverageExportFormat }))
+      .toThrow('Invalid export format "html". Use "lcov", "cobertura" or "sarif".');
+  });
+});
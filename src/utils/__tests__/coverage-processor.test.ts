@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { processCoverageData } from '../coverage-processor.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { processCoverageData, summarizeFileBreakdown } from '../coverage-processor.js';
+import { getThresholdViolations, getVitestCoverageThresholds } from '../vitest-config-reader.js';
 import type { RawCoverageData } from '../../types/coverage-types.js';
 
 // Mock the project context
@@ -86,12 +90,55 @@ describe('coverage-processor', () => {
       expect(result.uncovered?.['test.ts'].branches).toContain(15);
     });
 
+    it('should key uncovered items by path relative to the project root', async () => {
+      // Arrange
+      const file = mockRawData.files['test.ts'];
+      const rawData: RawCoverageData = {
+        ...mockRawData,
+        files: {
+          '/test/project/src/api/index.ts': { ...file, path: '/test/project/src/api/index.ts' },
+          '/test/project/src/utils/index.ts': { ...file, path: '/test/project/src/utils/index.ts' }
+        }
+      };
+
+      // Act
+      const result = await processCoverageData(rawData, 'detailed', options);
+
+      // Assert
+      expect(Object.keys(result.uncovered ?? {})).toEqual(['src/api/index.ts', 'src/utils/index.ts']);
+    });
+
     it('should not include threshold violations when thresholds are not configured', async () => {
       const result = await processCoverageData(mockRawData, 'detailed', options);
       
       expect(result.thresholdViolations).toBeUndefined();
     });
 
+    it('should check thresholds against the counts of each file', async () => {
+      vi.mocked(getVitestCoverageThresholds).mockResolvedValueOnce({ lines: 90, perFile: true });
+      const violation = {
+        metric: 'lines' as const,
+        actual: 66.67,
+        required: 90,
+        file: 'src/test.ts',
+        glob: null,
+        message: 'Coverage for lines (66.67%) does not meet global threshold (90%) for src/test.ts'
+      };
+      vi.mocked(getThresholdViolations).mockReturnValueOnce([violation]);
+      const data = { ...mockRawData, files: { '/test/project/src/test.ts': mockRawData.files['test.ts'] } };
+
+      const result = await processCoverageData(data, 'summary', options);
+
+      expect(getThresholdViolations).toHaveBeenCalledWith(result.coverage, { lines: 90, perFile: true }, [
+        {
+          path: 'src/test.ts',
+          covered: { lines: 2, functions: 1, branches: 1, statements: 2 },
+          totals: { lines: 3, functions: 2, branches: 2, statements: 3 }
+        }
+      ]);
+      expect(result.thresholdViolations).toEqual([violation]);
+    });
+
     it('should include file breakdown in detailed format', async () => {
       const result = await processCoverageData(mockRawData, 'detailed', options);
       
@@ -123,4 +170,174 @@ describe('coverage-processor', () => {
         .rejects.toThrow('Failed to process coverage data');
     });
   });
-});
\ No newline at end of file
+
+  describe('summarizeFileBreakdown', () => {
+    it('should compute percentages from the summed counts of the files', () => {
+      // Arrange
+      const metrics = (lines: number, functions: number, branches: number) => ({ lines, functions, branches, statements: lines });
+      const files = [
+        { path: 'src/a.ts', coverage: metrics(75, 100, 0), totals: metrics(4, 1, 0), covered: metrics(3, 1, 0) },
+        { path: 'src/b.ts', coverage: metrics(0, 0, 50), totals: metrics(4, 2, 2), covered: metrics(0, 0, 1) }
+      ];
+
+      // Act & Assert
+      expect(summarizeFileBreakdown(files)).toEqual({ lines: 38, functions: 33, branches: 50, statements: 38 });
+      expect(summarizeFileBreakdown([])).toEqual({ lines: 0, functions: 0, branches: 0, statements: 0 });
+    });
+  });
+
+  describe('uncovered source', () => {
+    let projectRoot: string;
+    const summary = mockSummary();
+
+    function mockSummary(): RawCoverageData['summary'] {
+      const metric = { total: 1, covered: 0, skipped: 0, pct: 0 };
+      return { lines: metric, functions: metric, branches: metric, statements: metric };
+    }
+
+    beforeEach(() => {
+      projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-source-'));
+    });
+
+    afterEach(() => {
+      rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should group uncovered lines into ranges and describe untaken branch arms', async () => {
+      // Arrange
+      const filePath = join(projectRoot, 'label.ts');
+      writeFileSync(filePath, [
+        'export function label(name, loud = false) {',
+        "  const value = name ?? 'anonymous';",
+        '  if (loud) {',
+        '    return value.toUpperCase();',
+        '  }',
+        '  return value;',
+        '}',
+        "export const pick = (a) => (a ? 'yes' : 'no');",
+        'export function unused(a) {',
+        '  const doubled = a * 2;',
+        '  return doubled;',
+        '}'
+      ].join('\n') + '\n');
+      const rawData: RawCoverageData = {
+        summary,
+        files: {
+          [filePath]: {
+            path: filePath,
+            statementMap: {
+              '0': { start: { line: 2 }, end: { line: 2 } },
+              '1': { start: { line: 3 }, end: { line: 5 } },
+              '2': { start: { line: 4 }, end: { line: 4 } },
+              '3': { start: { line: 6 }, end: { line: 6 } },
+              '4': { start: { line: 10 }, end: { line: 10 } },
+              '5': { start: { line: 11 }, end: { line: 11 } }
+            },
+            s: { '0': 1, '1': 1, '2': 0, '3': 1, '4': 0, '5': 0 },
+            fnMap: {},
+            f: {},
+            branchMap: {
+              '0': {
+                type: 'binary-expr',
+                loc: { start: { line: 2, column: 16 }, end: { line: 2, column: 35 } },
+                locations: [
+                  { start: { line: 2, column: 16 }, end: { line: 2, column: 20 } },
+                  { start: { line: 2, column: 24 }, end: { line: 2, column: 35 } }
+                ]
+              },
+              '1': {
+                type: 'if',
+                loc: { start: { line: 3, column: 2 }, end: { line: 5, column: 3 } },
+                locations: [{ start: { line: 3, column: 2 }, end: { line: 5, column: 3 } }, { start: {}, end: {} }]
+              },
+              '2': {
+                type: 'cond-expr',
+                loc: { start: { line: 8, column: 28 }, end: { line: 8, column: 44 } },
+                locations: [
+                  { start: { line: 8, column: 32 }, end: { line: 8, column: 37 } },
+                  { start: { line: 8, column: 40 }, end: { line: 8, column: 44 } }
+                ]
+              }
+            },
+            b: { '0': [1, 0], '1': [0, 1], '2': [1, 0] }
+          }
+        }
+      };
+
+      // Act
+      const result = await processCoverageData(rawData, 'summary', { target: './label.ts', includeSource: true, projectRoot });
+
+      // Assert
+      expect(result.uncoveredSource).toEqual([{
+        file: 'label.ts',
+        ranges: [
+          {
+            startLine: 4,
+            endLine: 4,
+            source: [
+              "  2 |   const value = name ?? 'anonymous';",
+              '  3 |   if (loud) {',
+              '> 4 |     return value.toUpperCase();',
+              '  5 |   }',
+              '  6 |   return value;'
+            ].join('\n')
+          },
+          {
+            startLine: 10,
+            endLine: 11,
+            source: [
+              "   8 | export const pick = (a) => (a ? 'yes' : 'no');",
+              '   9 | export function unused(a) {',
+              '> 10 |   const doubled = a * 2;',
+              '> 11 |   return doubled;',
+              '  12 | }'
+            ].join('\n')
+          }
+        ],
+        branches: [
+          { line: 2, type: 'binary-expr', arm: 'operand after "??" never evaluated', source: "> 2 |   const value = name ?? 'anonymous';" },
+          { line: 3, type: 'if', arm: 'if: condition never true', source: '> 3 |   if (loud) {\n> 4 |     return value.toUpperCase();\n> 5 |   }' },
+          { line: 8, type: 'cond-expr', arm: 'ternary: false branch never taken', source: "> 8 | export const pick = (a) => (a ? 'yes' : 'no');" }
+        ]
+      }]);
+    });
+
+    it('should cut long uncovered ranges', async () => {
+      // Arrange
+      const filePath = join(projectRoot, 'generated.ts');
+      writeFileSync(filePath, Array.from({ length: 30 }, (_, index) => `export const value${index + 1} = ${index + 1};`).join('\n'));
+      const rawData: RawCoverageData = {
+        summary,
+        files: {
+          [filePath]: {
+            path: filePath,
+            statementMap: { '0': { start: { line: 1 }, end: { line: 30 } } },
+            s: { '0': 0 },
+            fnMap: {},
+            f: {},
+            branchMap: {},
+            b: {}
+          }
+        }
+      };
+
+      // Act
+      const result = await processCoverageData(rawData, 'summary', { target: './generated.ts', includeSource: true, projectRoot });
+
+      // Assert
+      const lines = result.uncoveredSource?.[0].ranges[0].source.split('\n') ?? [];
+      expect(result.uncoveredSource?.[0].ranges[0]).toMatchObject({ startLine: 1, endLine: 30 });
+      expect(lines).toHaveLength(21);
+      expect(lines[19]).toBe('> 20 | export const value20 = 20;');
+      expect(lines[20]).toBe('  ... 10 more line(s)');
+    });
+
+    it('should leave out source unless requested', async () => {
+      // Act
+      const result = await processCoverageData({ summary, files: {} }, 'detailed', { target: './src' });
+
+      // Assert
+      expect(result.uncoveredSource).toBeUndefined();
+    });
+  });
+});
@@ -16,6 +16,16 @@ import {
   findProjectRoot
 } from '../file-utils';
 
+vi.mock('../../config/config-loader', () => ({
+  getConfig: vi.fn().mockResolvedValue({
+    discovery: {
+      testPatterns: ['**/*.{test,spec}.{js,ts,jsx,tsx}'],
+      excludePatterns: ['node_modules', 'dist', 'build', 'coverage', '.git'],
+      maxDepth: 10
+    }
+  })
+}));
+
 vi.mock('fs', () => ({
   promises: {
     access: vi.fn(),
@@ -157,6 +167,55 @@ describe('file-utils', () => {
       expect(fs.readdir).toHaveBeenCalledTimes(1);
     });
 
+    it('should match test and exclude globs from the search path or the root', async () => {
+      const mockRootEntries = [
+        { name: 'app.e2e.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'fixtures', isDirectory: () => true, isFile: () => false },
+        { name: 'legacy', isDirectory: () => true, isFile: () => false },
+        { name: 'util.test.ts', isDirectory: () => false, isFile: () => true }
+      ] as MockDirent[];
+
+      const mockLegacyEntries = [
+        { name: 'old.e2e.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'skip.e2e.ts', isDirectory: () => false, isFile: () => true }
+      ] as MockDirent[];
+
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(mockRootEntries)
+        .mockResolvedValueOnce(mockLegacyEntries);
+
+      const result = await findTestFiles('/project/src', {
+        root: '/project',
+        testPatterns: ['src/**/*.e2e.ts'],
+        excludePatterns: ['fixtures', '**/legacy/skip.*'],
+        maxDepth: 10
+      });
+
+      expect(result.map(f => f.relativePath)).toEqual(['app.e2e.ts', join('legacy', 'old.e2e.ts')]);
+      expect(fs.readdir).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not scan deeper than maxDepth', async () => {
+      const mockRootEntries = [
+        { name: 'root.test.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'a', isDirectory: () => true, isFile: () => false }
+      ] as MockDirent[];
+
+      const mockNestedEntries = [
+        { name: 'nested.test.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'b', isDirectory: () => true, isFile: () => false }
+      ] as MockDirent[];
+
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(mockRootEntries)
+        .mockResolvedValueOnce(mockNestedEntries);
+
+      const result = await findTestFiles('/project', { maxDepth: 1 });
+
+      expect(result.map(f => f.relativePath)).toEqual([join('a', 'nested.test.ts'), 'root.test.ts']);
+      expect(fs.readdir).toHaveBeenCalledTimes(2);
+    });
+
     it('should handle read errors gracefully', async () => {
       vi.mocked(fs.readdir).mockRejectedValue(new Error('Permission denied'));
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createWorktree, getChangedFiles, getDiff, getHeadCommit, getRepositoryPrefix } from '../git-utils.js';
+
+describe('git-utils integration', () => {
+  const repoDir = join(tmpdir(), `vitest-mcp-git-${Date.now()}`);
+  const projectDir = join(repoDir, 'packages', 'app');
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repoDir });
+
+  beforeAll(() => {
+    mkdirSync(join(projectDir, 'src'), { recursive: true });
+    writeFileSync(join(projectDir, 'src', 'committed.ts'), 'export const a = 1;');
+    writeFileSync(join(repoDir, 'root.ts'), 'export const root = 1;');
+    writeFileSync(join(repoDir, '.gitignore'), 'node_modules\n');
+    mkdirSync(join(projectDir, 'node_modules', 'dep'), { recursive: true });
+    writeFileSync(join(projectDir, 'node_modules', 'dep', 'index.js'), 'module.exports = 1;');
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+    git('tag', 'base');
+
+    writeFileSync(join(projectDir, 'src', 'feature.ts'), 'export const feature = 1;');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'feature');
+
+    writeFileSync(join(projectDir, 'src', 'committed.ts'), 'export const a = 2;');
+    writeFileSync(join(projectDir, 'src', 'untracked file.ts'), 'export const b = 1;');
+    writeFileSync(join(repoDir, 'root.ts'), 'export const root = 2;');
+  });
+
+  afterAll(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list uncommitted and untracked files inside the project root', async () => {
+    const changedFiles = await getChangedFiles(projectDir);
+
+    expect(changedFiles).toEqual([
+      join(projectDir, 'src', 'committed.ts'),
+      join(projectDir, 'src', 'untracked file.ts')
+    ]);
+  });
+
+  it('should include files committed since the given ref', async () => {
+    const changedFiles = await getChangedFiles(projectDir, 'base');
+
+    expect(changedFiles).toContain(join(projectDir, 'src', 'feature.ts'));
+    expect(changedFiles).toHaveLength(3);
+  });
+
+  it('should reject unknown refs and option-like refs', async () => {
+    await expect(getChangedFiles(projectDir, 'does-not-exist')).rejects.toThrow('Unknown git ref: does-not-exist');
+    await expect(getChangedFiles(projectDir, '--output=/tmp/x')).rejects.toThrow('Invalid git ref');
+  });
+
+  it('should diff files inside the project root and include untracked files as added', async () => {
+    const diff = await getDiff(projectDir);
+
+    expect(diff).toContain('+++ b/src/committed.ts\n@@ -1 +1 @@\n-export const a = 1;');
+    expect(diff).toContain('+++ b/src/untracked file.ts');
+    expect(diff).toContain('@@ -0,0 +1 @@\n+export const b = 1;');
+    expect(diff).not.toContain('root.ts');
+  });
+
+  it('should return the HEAD commit, or null outside a repository', async () => {
+    const head = String(git('rev-parse', 'HEAD')).trim();
+
+    expect(await getHeadCommit(projectDir)).toBe(head);
+    expect(await getHeadCommit(tmpdir())).toBeNull();
+  });
+
+  it('should return the project root relative to the repository root, or "" outside a repository', async () => {
+    expect(await getRepositoryPrefix(projectDir)).toBe('packages/app/');
+    expect(await getRepositoryPrefix(repoDir)).toBe('');
+    expect(await getRepositoryPrefix(tmpdir())).toBe('');
+  });
+
+  it('should check out a ref in a temporary worktree sharing node_modules', async () => {
+    const worktree = await createWorktree(projectDir, 'base');
+
+    try {
+      expect(worktree.projectDir.endsWith(join('packages', 'app'))).toBe(true);
+      expect(readFileSync(join(worktree.projectDir, 'src', 'committed.ts'), 'utf-8')).toBe('export const a = 1;');
+      expect(existsSync(join(worktree.projectDir, 'src', 'feature.ts'))).toBe(false);
+      expect(existsSync(join(worktree.projectDir, 'node_modules', 'dep', 'index.js'))).toBe(true);
+    } finally {
+      await worktree.remove();
+    }
+
+    expect(existsSync(worktree.projectDir)).toBe(false);
+    expect(String(git('worktree', 'list'))).not.toContain('vitest-mcp-worktree-');
+  });
+
+  it('should reject unknown refs when creating a worktree', async () => {
+    await expect(createWorktree(projectDir, 'does-not-exist')).rejects.toThrow('Unknown git ref: does-not-exist');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../glob.js';
+
+describe('glob', () => {
+  describe('matchesGlob', () => {
+    it('should match ** across any number of directories', () => {
+      expect(matchesGlob('a.test.ts', '**/*.test.ts')).toBe(true);
+      expect(matchesGlob('src/deep/a.test.ts', '**/*.test.ts')).toBe(true);
+      expect(matchesGlob('src/a.test.ts', 'src/**/*.test.ts')).toBe(true);
+      expect(matchesGlob('lib/a.test.ts', 'src/**/*.test.ts')).toBe(false);
+    });
+
+    it('should keep * and ? inside a single path segment', () => {
+      expect(matchesGlob('src/a.test.ts', '*.test.ts')).toBe(false);
+      expect(matchesGlob('a1.test.ts', 'a?.test.ts')).toBe(true);
+      expect(matchesGlob('a/.test.ts', 'a?.test.ts')).toBe(false);
+    });
+
+    it('should expand brace alternatives and character classes', () => {
+      expect(matchesGlob('a.spec.tsx', '**/*.{test,spec}.{js,ts,jsx,tsx}')).toBe(true);
+      expect(matchesGlob('a.spec.mjs', '**/*.{test,spec}.{js,ts,jsx,tsx}')).toBe(false);
+      expect(matchesGlob('a.test.mts', '**/*.test.{ts,{m,c}ts}')).toBe(true);
+      expect(matchesGlob('v2.test.ts', 'v[0-9].test.ts')).toBe(true);
+      expect(matchesGlob('vx.test.ts', 'v[!0-9].test.ts')).toBe(true);
+      expect(matchesGlob('v1.test.ts', 'v[!0-9].test.ts')).toBe(false);
+    });
+
+    it('should match a directory itself with a trailing /**', () => {
+      expect(matchesGlob('src/e2e', '**/e2e/**')).toBe(true);
+      expect(matchesGlob('src/e2e/app.test.ts', '**/e2e/**')).toBe(true);
+      expect(matchesGlob('src/e2e-utils/app.test.ts', '**/e2e/**')).toBe(false);
+    });
+
+    it('should treat regex characters and leading ./ literally', () => {
+      expect(matchesGlob('a+b.test.ts', './a+b.test.ts')).toBe(true);
+      expect(matchesGlob('aab.test.ts', 'a+b.test.ts')).toBe(false);
+      expect(globToRegExp('(x)|y.ts').test('(x)|y.ts')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { historyStore } from '../history-store.js';
+import { getConfig } from '../../config/config-loader.js';
+import { getHeadCommit } from '../git-utils.js';
+import type { ProcessedTestResult } from '../../tools/run-tests.js';
+import type { ResolvedVitestMCPConfig } from '../../types/config-types.js';
+
+vi.mock('../../config/config-loader.js');
+vi.mock('../git-utils.js');
+
+function testResult(summary: string): ProcessedTestResult {
+  return {
+    summary,
+    command: 'npx vitest run src/a.test.ts',
+    success: true,
+    testSummary: { totalTests: 1, passed: 1, failed: 0 },
+    format: 'summary',
+    executionTimeMs: 10,
+    logs: ['[stdout] noisy output']
+  };
+}
+
+function mockHistoryConfig(enabled: boolean, maxRecords = 200) {
+  vi.mocked(getConfig).mockResolvedValue({ history: { enabled, maxRecords } } as ResolvedVitestMCPConfig);
+}
+
+describe('history-store', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    historyStore.reset();
+    projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-history-'));
+    mockHistoryConfig(true);
+    vi.mocked(getHeadCommit).mockResolvedValue('abc123');
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should append records keyed by commit and timestamp, without captured logs', async () => {
+    // Act
+    await historyStore.recordTestRun(projectRoot, 'src/a.test.ts', testResult('✅ All 1 tests passed'));
+    const records = await historyStore.read(projectRoot);
+
+    // Assert
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      kind: 'test',
+      commit: 'abc123',
+      target: 'src/a.test.ts',
+      result: { summary: '✅ All 1 tests passed' }
+    });
+    expect(Date.parse(records[0].timestamp)).not.toBeNaN();
+    expect(records[0].result).not.toHaveProperty('logs');
+    expect(readFileSync(join(projectRoot, '.vitest-mcp', '.gitignore'), 'utf-8')).toBe('*\n');
+  });
+
+  it('should skip unreadable lines', async () => {
+    // Arrange
+    await historyStore.recordTestRun(projectRoot, 'src/a.test.ts', testResult('first'));
+    appendFileSync(historyStore.getHistoryPath(projectRoot), '{"kind":"test","trunc\n');
+    await historyStore.recordTestRun(projectRoot, 'src/a.test.ts', testResult('second'));
+
+    // Act
+    const records = await historyStore.read(projectRoot);
+
+    // Assert
+    expect(records.map((record) => record.result.summary)).toEqual(['first', 'second']);
+  });
+
+  it('should drop the oldest records beyond maxRecords', async () => {
+    // Arrange
+    mockHistoryConfig(true, 3);
+
+    // Act
+    for (let run = 1; run <= 5; run++) {
+      await historyStore.recordTestRun(projectRoot, 'src/a.test.ts', testResult(`run ${run}`));
+    }
+    const records = await historyStore.read(projectRoot);
+
+    // Assert
+    expect(records.map((record) => record.result.summary)).toEqual(['run 3', 'run 4', 'run 5']);
+  });
+
+  it('should not write anything when history is disabled', async () => {
+    // Arrange
+    mockHistoryConfig(false);
+
+    // Act
+    await historyStore.recordTestRun(projectRoot, 'src/a.test.ts', testResult('ignored'));
+
+    // Assert
+    expect(existsSync(join(projectRoot, '.vitest-mcp'))).toBe(false);
+    expect(await historyStore.read(projectRoot)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { findAffectedTests, parseImportSpecifiers, resolveImport } from '../import-graph.js';
+
+describe('import-graph', () => {
+  const testDir = join(tmpdir(), `vitest-mcp-import-graph-${Date.now()}`);
+  const file = (path: string) => join(testDir, path);
+
+  beforeAll(() => {
+    const files: Record<string, string> = {
+      'src/math.ts': 'export const add = (a: number, b: number) => a + b;',
+      'src/calc/index.ts': "export * from '../math.js';",
+      'src/format.ts': "import { add } from './calc';\nexport const format = () => String(add(1, 2));",
+      'src/unused.ts': 'export const unused = true;',
+      'src/math.test.ts': "import { add } from './math';",
+      'src/format.test.ts': "import {\n  format,\n} from './format.js';",
+      'src/other.test.ts': "import { describe } from 'vitest';"
+    };
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(file(path)), { recursive: true });
+      writeFileSync(file(path), content);
+    }
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseImportSpecifiers', () => {
+    it('should find static, re-export, dynamic and require imports', () => {
+      const code = [
+        "import a from './a';",
+        "import type { B } from '../b.js';",
+        "import './side-effect';",
+        "export { c } from './c';",
+        "const d = await import('./d');",
+        "const e = require('./e');",
+        "const text = 'import nothing';"
+      ].join('\n');
+
+      expect(parseImportSpecifiers(code)).toEqual(['./a', '../b.js', './side-effect', './c', './d', './e']);
+    });
+  });
+
+  describe('resolveImport', () => {
+    it('should resolve emitted .js extensions, extensionless paths and index files', async () => {
+      expect(await resolveImport(file('src/calc/index.ts'), '../math.js')).toBe(file('src/math.ts'));
+      expect(await resolveImport(file('src/format.ts'), './calc')).toBe(file('src/calc/index.ts'));
+      expect(await resolveImport(file('src/format.ts'), 'vitest')).toBeUndefined();
+    });
+  });
+
+  describe('findAffectedTests', () => {
+    it('should map changed files to the tests importing them directly or transitively', async () => {
+      const testFiles = [file('src/format.test.ts'), file('src/math.test.ts'), file('src/other.test.ts')];
+
+      const mappings = await findAffectedTests(
+        [file('src/math.ts'), file('src/unused.ts'), file('src/other.test.ts')],
+        testFiles
+      );
+
+      expect(mappings).toEqual([
+        { changedFile: file('src/math.ts'), tests: [file('src/format.test.ts'), file('src/math.test.ts')] },
+        { changedFile: file('src/unused.ts'), tests: [] },
+        { changedFile: file('src/other.test.ts'), tests: [file('src/other.test.ts')] }
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { VitestOutputProcessor } from '../output-processor.js';
+import { VitestOutputProcessor, mergeVitestJsonResults } from '../output-processor.js';
+import type { VitestJsonResult } from '../output-processor.js';
 import type { RunTestsResult, TestResultContext } from '../../tools/run-tests.js';
 
 describe('VitestOutputProcessor', () => {
@@ -179,6 +180,112 @@ describe('VitestOutputProcessor', () => {
       expect(processed.testResults?.skippedTests).toBeDefined();
       expect(processed.testResults?.skippedTests?.[0].tests[0].testName).toBe("test suite should be skipped");
     });
+
+    it('should list passed tests with durations only when requested', async () => {
+      const jsonData = {
+        "numTotalTests": 1,
+        "numPassedTests": 1,
+        "numFailedTests": 0,
+        "success": true,
+        "testResults": [
+          {
+            "name": "/path/to/test.ts",
+            "status": "passed",
+            "assertionResults": [
+              {
+                "title": "should work",
+                "fullName": "test suite should work",
+                "status": "passed",
+                "duration": 12
+              }
+            ]
+          }
+        ]
+      };
+
+      const result: RunTestsResult = {
+        command: 'vitest run',
+        success: true,
+        exitCode: 0,
+        stdout: JSON.stringify(jsonData),
+        stderr: '',
+        duration: 0.5
+      };
+
+      const withoutPassed = await processor.process(result, 'summary', {} as TestResultContext);
+      const withPassed = await processor.process(result, 'summary', { includePassedTests: true } as TestResultContext);
+
+      expect(withoutPassed.testResults).toBeUndefined();
+      expect(withPassed.testResults?.passedTests).toEqual([
+        { file: '/path/to/test.ts', tests: [{ testName: 'test suite should work', duration: 12 }] }
+      ]);
+    });
+  });
+
+  describe('shard merging', () => {
+    const shardReport = (overrides: Partial<VitestJsonResult>): VitestJsonResult => ({
+      version: '3.2.4',
+      success: true,
+      numTotalTestSuites: 1,
+      numPassedTestSuites: 1,
+      numFailedTestSuites: 0,
+      numTotalTests: 2,
+      numPassedTests: 2,
+      numFailedTests: 0,
+      startTime: 1000,
+      endTime: 2000,
+      testResults: [],
+      ...overrides
+    });
+
+    it('should sum counts and concatenate suites across reports', () => {
+      const merged = mergeVitestJsonResults([
+        shardReport({ numPendingTests: 1, testResults: [{ name: '/a.test.ts', status: 'passed', startTime: 1000, endTime: 1500, assertionResults: [] }] }),
+        shardReport({
+          success: false,
+          numFailedTestSuites: 1,
+          numPassedTestSuites: 0,
+          numPassedTests: 1,
+          numFailedTests: 1,
+          startTime: 900,
+          endTime: 2500,
+          testResults: [{ name: '/b.test.ts', status: 'failed', startTime: 900, endTime: 2500, assertionResults: [] }]
+        })
+      ]);
+
+      expect(merged).toMatchObject({
+        success: false,
+        numTotalTestSuites: 2,
+        numFailedTestSuites: 1,
+        numTotalTests: 4,
+        numPassedTests: 3,
+        numFailedTests: 1,
+        numPendingTests: 1,
+        startTime: 900,
+        endTime: 2500
+      });
+      expect(merged.testResults.map(suite => suite.name)).toEqual(['/a.test.ts', '/b.test.ts']);
+    });
+
+    it('should merge the JSON report of every shard into one result', async () => {
+      const result: RunTestsResult = {
+        command: 'vitest run src --shard=<1..2>/2',
+        success: true,
+        exitCode: 0,
+        stdout: '',
+        stderr: '',
+        duration: 3,
+        shards: [
+          { index: 1, stdout: JSON.stringify(shardReport({})), stderr: '', exitCode: 0 },
+          { index: 2, stdout: JSON.stringify(shardReport({ numTotalTests: 3, numPassedTests: 3 })), stderr: '', exitCode: 0 }
+        ]
+      };
+
+      const processed = await processor.process(result, 'summary', {} as TestResultContext);
+
+      expect(processed.success).toBe(true);
+      expect(processed.testSummary).toMatchObject({ totalTests: 5, passed: 5, failed: 0 });
+    });
   });
 
   describe('error handling', () => {
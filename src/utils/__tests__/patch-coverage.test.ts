@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { calculatePatchCoverage, parseUnifiedDiff, stripDiffPathPrefix } from '../patch-coverage.js';
+import type { RawCoverageData } from '../../types/coverage-types.js';
+
+function fileCoverage(path: string, statements: Array<[line: number, count: number]>): RawCoverageData['files'][string] {
+  return {
+    path,
+    statementMap: Object.fromEntries(statements.map(([line], id) => [String(id), { start: { line } }])),
+    s: Object.fromEntries(statements.map(([, count], id) => [String(id), count])),
+    fnMap: {},
+    f: {},
+    branchMap: {},
+    b: {}
+  };
+}
+
+describe('patch-coverage', () => {
+  describe('parseUnifiedDiff', () => {
+    it('should collect added lines per file from a git diff', () => {
+      // Arrange
+      const diff = [
+        'diff --git a/src/math.ts b/src/math.ts',
+        'index a4b2ef0..c3ce9e7 100644',
+        '--- a/src/math.ts',
+        '+++ b/src/math.ts',
+        '@@ -2 +2 @@ export function add() {',
+        '-  return a - b;',
+        '+  return a + b;',
+        '@@ -10,0 +11,2 @@',
+        '+export function mul(a: number, b: number) {',
+        '+--- not a header',
+        'diff --git a/src/removed.ts b/src/removed.ts',
+        'deleted file mode 100644',
+        '--- a/src/removed.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-export const removed = 1;',
+        'diff --git "a/src/sp\\303\\251cial.ts" "b/src/sp\\303\\251cial.ts"',
+        '--- "a/src/sp\\303\\251cial.ts"',
+        '+++ "b/src/sp\\303\\251cial.ts"',
+        '@@ -0,0 +1 @@',
+        '+export const special = 1;',
+        '\\ No newline at end of file'
+      ].join('\n');
+
+      // Act
+      const changedLines = parseUnifiedDiff(diff);
+
+      // Assert
+      expect([...changedLines]).toEqual([
+        ['src/math.ts', [2, 11, 12]],
+        ['src/spécial.ts', [1]]
+      ]);
+    });
+
+    it('should follow context lines in diffs without git headers', () => {
+      // Arrange
+      const diff = [
+        '--- src/math.ts\t2026-01-01 10:00:00',
+        '+++ src/math.ts\t2026-01-02 10:00:00',
+        '@@ -1,4 +1,5 @@',
+        ' import { a } from "./a";',
+        '-const b = 1;',
+        '+const b = 2;',
+        '+const c = 3;',
+        ' ',
+        ' export { a, b };'
+      ].join('\n');
+
+      // Act
+      const changedLines = parseUnifiedDiff(diff);
+
+      // Assert
+      expect(changedLines.get('src/math.ts')).toEqual([2, 3]);
+    });
+  });
+
+  describe('stripDiffPathPrefix', () => {
+    it('should make repository-relative paths relative to the project root', () => {
+      // Arrange
+      const changedLines = new Map([['packages/app/src/math.ts', [2]], ['packages/other/index.ts', [1]], ['src/util.ts', [3]]]);
+
+      // Act
+      const stripped = stripDiffPathPrefix(changedLines, 'packages/app/');
+
+      // Assert
+      expect([...stripped]).toEqual([['src/math.ts', [2]], ['packages/other/index.ts', [1]], ['src/util.ts', [3]]]);
+    });
+
+    it('should leave paths unchanged when the project is the repository root', () => {
+      // Arrange
+      const changedLines = new Map([['src/math.ts', [2]]]);
+
+      // Act & Assert
+      expect(stripDiffPathPrefix(changedLines, '')).toBe(changedLines);
+    });
+  });
+
+  describe('calculatePatchCoverage', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+      projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-patch-'));
+      mkdirSync(join(projectRoot, 'src'));
+      writeFileSync(join(projectRoot, 'src', 'math.ts'), [
+        'export function add(a: number, b: number) {',
+        '  return a + b;',
+        '}',
+        'export function mul(a: number, b: number) {',
+        '  return a * b;',
+        '}'
+      ].join('\n'));
+    });
+
+    afterEach(() => {
+      rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should count changed lines that hold statements and list the uncovered ones', async () => {
+      // Arrange
+      const mathPath = join(projectRoot, 'src', 'math.ts');
+      const files = {
+        [mathPath]: fileCoverage(mathPath, [[1, 1], [2, 1], [4, 1], [5, 0], [5, 0]]),
+        [join(projectRoot, 'src', 'other.ts')]: fileCoverage(join(projectRoot, 'src', 'other.ts'), [[1, 0]])
+      };
+      const changedLines = new Map([['src/math.ts', [2, 3, 4, 5, 6]]]);
+
+      // Act
+      const patchCoverage = await calculatePatchCoverage(files, changedLines, projectRoot);
+
+      // Assert
+      expect(patchCoverage).toEqual({
+        percentage: 67,
+        changedLines: 3,
+        coveredLines: 2,
+        files: [{
+          file: join('src', 'math.ts'),
+          changedLines: 3,
+          coveredLines: 2,
+          percentage: 67,
+          uncovered: [{ line: 5, source: 'return a * b;' }]
+        }]
+      });
+    });
+
+    it('should only match diff paths that equal the file path relative to the project root', async () => {
+      // Arrange
+      const nestedIndexPath = join(projectRoot, 'src', 'api', 'index.ts');
+      const files = { [nestedIndexPath]: fileCoverage(nestedIndexPath, [[1, 0]]) };
+      const changedLines = new Map([['index.ts', [1]], ['api/index.ts', [1]]]);
+
+      // Act
+      const patchCoverage = await calculatePatchCoverage(files, changedLines, projectRoot);
+
+      // Assert
+      expect(patchCoverage).toEqual({ percentage: 100, changedLines: 0, coveredLines: 0, files: [] });
+    });
+
+    it('should report full coverage when no changed line holds a statement', async () => {
+      // Act
+      const patchCoverage = await calculatePatchCoverage({}, new Map([['README.md', [1]]]), projectRoot);
+
+      // Assert
+      expect(patchCoverage).toEqual({ percentage: 100, changedLines: 0, coveredLines: 0, files: [] });
+    });
+  });
+});
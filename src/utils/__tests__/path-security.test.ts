@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   validatePathSecurity,
   securePathResolve,
+  validateAllowedPath,
   validateFileExtension,
   validateTestFilePath,
   validateConfigFilePath,
@@ -66,6 +67,20 @@ describe('path-security', () => {
     });
   });
 
+  describe('validateAllowedPath', () => {
+    it('should accept paths inside an allowed directory or without a restriction', () => {
+      expect(() => validateAllowedPath('/repos/web', ['/repos'])).not.toThrow();
+      expect(() => validateAllowedPath('/repos', '/repos')).not.toThrow();
+      expect(() => validateAllowedPath('/anywhere', undefined)).not.toThrow();
+    });
+
+    it('should reject paths outside every allowed directory', () => {
+      expect(() => validateAllowedPath('/repos-old/web', ['/repos', '/work'])).toThrow(
+        'Access denied: Path "/repos-old/web" is outside allowed directories. Allowed paths: /repos, /work.'
+      );
+    });
+  });
+
   describe('validateFileExtension', () => {
     it('should accept allowed extensions', () => {
       expect(() => validateFileExtension('test.ts', ['.ts', '.js'])).not.toThrow();
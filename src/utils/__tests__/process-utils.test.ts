@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { readFileSync } from 'fs';
+import { killProcessTree, processGroupOptions, terminateProcessTree } from '../process-utils.js';
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+
+  // Orphans killed inside containers can linger as zombies until init reaps them
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return true;
+  }
+}
+
+describe('process-utils', () => {
+  it.skipIf(process.platform === 'win32')('should kill the child together with its descendants', async () => {
+    // Arrange
+    const child = spawn('sh', ['-c', 'sleep 30 & echo $!; wait'], {
+      stdio: ['ignore', 'pipe', 'ignore'],
+      ...processGroupOptions()
+    });
+    const [data] = await once(child.stdout!, 'data');
+    const grandchildPid = Number(String(data).trim());
+    expect(isAlive(grandchildPid)).toBe(true);
+
+    // Act
+    terminateProcessTree(child);
+    await once(child, 'close');
+
+    // Assert
+    await expect.poll(() => isAlive(grandchildPid)).toBe(false);
+  });
+
+  it('should ignore children that already exited', async () => {
+    // Arrange
+    const child = spawn(process.execPath, ['-e', ''], { stdio: 'ignore', ...processGroupOptions() });
+    await once(child, 'close');
+
+    // Act & Assert
+    expect(() => killProcessTree(child)).not.toThrow();
+    expect(() => terminateProcessTree(child)).not.toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeTestCases, countTestCases, parseTestCases } from '../test-case-parser.js';
+
+describe('test-case-parser', () => {
+  describe('parseTestCases', () => {
+    it('should outline nested describe blocks and tests with their lines', () => {
+      // Arrange
+      const code = [
+        "import { describe, it, expect } from 'vitest';",
+        '',
+        "describe('math', () => {",
+        "  it('adds', () => {",
+        '    expect(1 + 1).toBe(2);',
+        '  });',
+        '',
+        '  describe("division", () => {',
+        "    test('divides', () => {});",
+        '  });',
+        '});',
+        "it('top level', async () => {});"
+      ].join('\n');
+
+      // Act
+      const outline = parseTestCases(code);
+
+      // Assert
+      expect(outline).toEqual([
+        {
+          type: 'describe',
+          name: 'math',
+          line: 3,
+          children: [
+            { type: 'test', name: 'adds', line: 4 },
+            {
+              type: 'describe',
+              name: 'division',
+              line: 8,
+              children: [{ type: 'test', name: 'divides', line: 9 }]
+            }
+          ]
+        },
+        { type: 'test', name: 'top level', line: 12 }
+      ]);
+      expect(countTestCases(outline)).toBe(3);
+    });
+
+    it('should flag skip, only, todo and each', () => {
+      // Arrange
+      const code = [
+        "describe.skip('skipped', () => {",
+        "  it.only('focused', () => {});",
+        "  it.todo('later');",
+        "  it.each([[1, 2], [2, 3]])('adds one to %i', (a, b) => {});",
+        '  test.each`',
+        '    a    | b',
+        '    ${1} | ${2}',
+        "  `('table $a', ({ a, b }) => {});",
+        "  it.skipIf(process.env.CI)('not on CI', () => {});",
+        "  describe.concurrent.each(['a', 'b'])('case %s', () => {});",
+        "  test.for([1])('for %i', () => {});",
+        '});'
+      ].join('\n');
+
+      // Act
+      const [suite] = parseTestCases(code);
+
+      // Assert
+      expect(suite.modifiers).toEqual(['skip']);
+      expect(suite.children?.map(({ name, line, modifiers }) => ({ name, line, modifiers }))).toEqual([
+        { name: 'focused', line: 2, modifiers: ['only'] },
+        { name: 'later', line: 3, modifiers: ['todo'] },
+        { name: 'adds one to %i', line: 4, modifiers: ['each'] },
+        { name: 'table $a', line: 5, modifiers: ['each'] },
+        { name: 'not on CI', line: 9, modifiers: undefined },
+        { name: 'case %s', line: 10, modifiers: ['each'] },
+        { name: 'for %i', line: 11, modifiers: ['each'] }
+      ]);
+    });
+
+    it('should ignore calls in comments, strings and regular expressions', () => {
+      // Arrange
+      const code = [
+        "// it('commented out', () => {})",
+        "/* describe('block comment', () => {}) */",
+        "const text = \"it('in a string', () => {})\";",
+        "const pattern = /it\\('in a regex'/;",
+        'const template = `${test("in a template")}`;',
+        "utils.test('method call', () => {});",
+        'function it(name) {}',
+        "it('real \\'quoted\\' name', () => {});"
+      ].join('\n');
+
+      // Act
+      const outline = parseTestCases(code);
+
+      // Assert
+      expect(outline).toEqual([{ type: 'test', name: "real 'quoted' name", line: 8 }]);
+    });
+
+    it('should report non-literal names as written', () => {
+      // Arrange
+      const code = [
+        'describe(Button.name, () => {',
+        '  it(`renders ${variant}`, () => {});',
+        '});'
+      ].join('\n');
+
+      // Act
+      const outline = parseTestCases(code);
+
+      // Assert
+      expect(outline[0].name).toBe('Button.name');
+      expect(outline[0].children?.[0].name).toBe('renders ${variant}');
+    });
+  });
+
+  describe('analyzeTestCases', () => {
+    it('should describe the callback of each call and map jest aliases to modifiers', () => {
+      // Arrange
+      const code = [
+        "xdescribe('legacy', () => {",
+        "  fit('arrow expression', () => expect(add(1, 1)).toBe(2));",
+        "  test('function expression', async function () {",
+        '    await assertValid(result);',
+        '  });',
+        "  it('reference', runScenario);",
+        "  it('no assertion', () => { render(<App />); });",
+        "  it('expected name is not an assertion', () => { const expected = 1; });",
+        '});'
+      ].join('\n');
+
+      // Act
+      const { calls } = analyzeTestCases(code);
+
+      // Assert
+      expect(calls.map(({ node, callee, ancestors, callback, emptyBody, hasAssertion }) => ({
+        name: node.name, modifiers: node.modifiers, callee, ancestors, callback, emptyBody, hasAssertion
+      }))).toEqual([
+        { name: 'legacy', modifiers: ['skip'], callee: 'xdescribe', ancestors: [], callback: 'inline', emptyBody: false, hasAssertion: true },
+        { name: 'arrow expression', modifiers: ['only'], callee: 'fit', ancestors: ['legacy'], callback: 'inline', emptyBody: false, hasAssertion: true },
+        { name: 'function expression', modifiers: undefined, callee: 'test', ancestors: ['legacy'], callback: 'inline', emptyBody: false, hasAssertion: true },
+        { name: 'reference', modifiers: undefined, callee: 'it', ancestors: ['legacy'], callback: 'reference', emptyBody: false, hasAssertion: false },
+        { name: 'no assertion', modifiers: undefined, callee: 'it', ancestors: ['legacy'], callback: 'inline', emptyBody: false, hasAssertion: false },
+        { name: 'expected name is not an assertion', modifiers: undefined, callee: 'it', ancestors: ['legacy'], callback: 'inline', emptyBody: false, hasAssertion: false }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { formatJUnit, formatTestSarif, parseStackFrame } from '../test-result-export.js';
+import type { ProcessedTestResult } from '../../tools/run-tests.js';
+
+const projectRoot = '/work/app';
+
+const result: ProcessedTestResult = {
+  summary: '❌ 1 of 3 tests failed',
+  command: 'npx vitest run src',
+  success: false,
+  testSummary: { totalTests: 3, passed: 1, failed: 1, skipped: 1 },
+  format: 'detailed',
+  executionTimeMs: 1234,
+  testResults: {
+    failedTests: [{
+      file: '/work/app/src/math.test.ts',
+      tests: [{
+        testName: 'math > adds <numbers>',
+        duration: 5,
+        errorType: 'AssertionError',
+        message: 'expected 3 to be 4',
+        stack: [
+          'at /work/app/src/helpers.ts:2:9',
+          '❯ src/math.test.ts:7:21'
+        ]
+      }]
+    }],
+    skippedTests: [{ file: '/work/app/src/math.test.ts', tests: [{ testName: 'math > divides' }] }],
+    passedTests: [{ file: '/work/app/src/util/format.test.ts', tests: [{ testName: 'formats', duration: 12 }] }]
+  }
+};
+
+describe('test-result-export', () => {
+  describe('formatJUnit', () => {
+    it('should write one testsuite per file with failures, skips and passes', () => {
+      // Act
+      const xml = formatJUnit(result, projectRoot, new Date('2026-01-01T00:00:00.000Z'));
+
+      // Assert
+      expect(xml).toBe([
+        '<?xml version="1.0" encoding="UTF-8" ?>',
+        '<testsuites name="vitest tests" tests="3" failures="1" errors="0" skipped="1" time="1.234">',
+        '  <testsuite name="src/math.test.ts" timestamp="2026-01-01T00:00:00.000Z" hostname="localhost" tests="2" failures="1" errors="0" skipped="1" time="0.005">',
+        '    <testcase classname="src/math.test.ts" name="math &gt; adds &lt;numbers&gt;" time="0.005">',
+        '      <failure message="expected 3 to be 4" type="AssertionError">AssertionError: expected 3 to be 4',
+        'at /work/app/src/helpers.ts:2:9',
+        '❯ src/math.test.ts:7:21</failure>',
+        '    </testcase>',
+        '    <testcase classname="src/math.test.ts" name="math &gt; divides" time="0.000">',
+        '      <skipped/>',
+        '    </testcase>',
+        '  </testsuite>',
+        '  <testsuite name="src/util/format.test.ts" timestamp="2026-01-01T00:00:00.000Z" hostname="localhost" tests="1" failures="0" errors="0" skipped="0" time="0.012">',
+        '    <testcase classname="src/util/format.test.ts" name="formats" time="0.012"/>',
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+      ].join('\n'));
+    });
+  });
+
+  describe('formatTestSarif', () => {
+    it('should locate each failed test at its stack frame in the test file', () => {
+      // Act
+      const sarif = JSON.parse(formatTestSarif(result, projectRoot));
+
+      // Assert
+      expect(sarif.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///work/app/');
+      expect(sarif.runs[0].results).toEqual([{
+        ruleId: 'test-failure',
+        level: 'error',
+        message: { text: 'Test "math > adds <numbers>" failed: AssertionError: expected 3 to be 4' },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: 'src/math.test.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 7, startColumn: 21 }
+          }
+        }]
+      }]);
+    });
+
+    it('should fall back to the test file when no stack frame is inside the project', () => {
+      // Arrange
+      const summaryResult: ProcessedTestResult = {
+        ...result,
+        testResults: {
+          failedTests: [{
+            file: '/work/app/src/math.test.ts',
+            tests: [{ testName: 'adds', errorType: 'Error', message: 'boom' }]
+          }]
+        }
+      };
+
+      // Act
+      const sarif = JSON.parse(formatTestSarif(summaryResult, projectRoot));
+
+      // Assert
+      expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'src/math.test.ts', uriBaseId: '%SRCROOT%' }
+      });
+    });
+  });
+
+  describe('parseStackFrame', () => {
+    it('should parse V8 and Vitest stack frame formats', () => {
+      // Act & Assert
+      expect(parseStackFrame('at Object.<anonymous> (/work/app/src/a.test.ts:5:20)', projectRoot))
+        .toEqual({ file: '/work/app/src/a.test.ts', line: 5, column: 20 });
+      expect(parseStackFrame('at file:///work/app/src/a%20b.test.ts:3:1', projectRoot))
+        .toEqual({ file: '/work/app/src/a b.test.ts', line: 3, column: 1 });
+      expect(parseStackFrame('❯ src/a.test.ts:9:7', projectRoot))
+        .toEqual({ file: '/work/app/src/a.test.ts', line: 9, column: 7 });
+      expect(parseStackFrame('at processTicksAndRejections (node:internal/process/task_queues:95:5)', projectRoot))
+        .toBeUndefined();
+      expect(parseStackFrame('at new Promise (<anonymous>)', projectRoot)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { checkAllVersions, generateVersionReport } from '../version-checker.js';
+import { loadVitestConfig } from '../vitest-config-loader.js';
+
+vi.mock('../vitest-config-loader.js');
+
+describe('version-checker', () => {
+  let projectRoot: string;
+
+  function installPackage(name: string, version: string) {
+    mkdirSync(join(projectRoot, 'node_modules', name), { recursive: true });
+    writeFileSync(join(projectRoot, 'node_modules', name, 'package.json'), JSON.stringify({ name, version }));
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    projectRoot = mkdtempSync(join(tmpdir(), 'vitest-mcp-versions-'));
+    installPackage('vitest', '3.2.4');
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should check the coverage provider configured in the Vitest config', async () => {
+    // Arrange
+    installPackage('@vitest/coverage-istanbul', '3.2.4');
+    writeFileSync(join(projectRoot, 'vitest.config.ts'), 'export default {};');
+    vi.mocked(loadVitestConfig).mockResolvedValue({
+      resolvedWith: 'vitest',
+      vitestVersion: '3.2.4',
+      test: {},
+      coverage: { provider: 'istanbul' }
+    });
+
+    // Act
+    const versionCheck = await checkAllVersions(projectRoot, {});
+
+    // Assert
+    expect(versionCheck.coverageProvider).toMatchObject({
+      provider: '@vitest/coverage-istanbul',
+      version: { version: '3.2.4' },
+      meetsMinimum: true
+    });
+    expect(versionCheck.warnings).toEqual([]);
+    expect(generateVersionReport(versionCheck)).toContain('✓ Coverage Provider: @vitest/coverage-istanbul v3.2.4');
+  });
+
+  it('should default to v8 and let an explicit provider override the config', async () => {
+    // Arrange
+    installPackage('@vitest/coverage-v8', '3.2.4');
+
+    // Act
+    const detected = await checkAllVersions(projectRoot, {});
+    const explicit = await checkAllVersions(projectRoot, { provider: 'istanbul' });
+
+    // Assert
+    expect(detected.coverageProvider.provider).toBe('@vitest/coverage-v8');
+    expect(detected.coverageProvider.version?.version).toBe('3.2.4');
+    expect(explicit.coverageProvider).toMatchObject({ provider: '@vitest/coverage-istanbul', version: null });
+    expect(explicit.warnings).toContain('Coverage provider (@vitest/coverage-istanbul) not found. Coverage analysis will not work.');
+  });
+
+  it('should warn when the provider minor version does not match Vitest', async () => {
+    // Arrange
+    installPackage('@vitest/coverage-v8', '3.1.0');
+
+    // Act
+    const versionCheck = await checkAllVersions(projectRoot, { provider: 'v8' });
+
+    // Assert
+    expect(versionCheck.warnings).toEqual([
+      '@vitest/coverage-v8 v3.1.0 does not match Vitest v3.2.4. Install the same major and minor version as Vitest.'
+    ]);
+  });
+
+  it('should not warn when only the provider patch version differs', async () => {
+    // Arrange
+    installPackage('@vitest/coverage-v8', '3.2.0');
+
+    // Act
+    const versionCheck = await checkAllVersions(projectRoot, { provider: 'v8' });
+
+    // Assert
+    expect(versionCheck.warnings).toEqual([]);
+  });
+
+  it('should not look up the coverage provider unless coverage is requested', async () => {
+    // Arrange
+    writeFileSync(join(projectRoot, 'vitest.config.ts'), 'export default {};');
+
+    // Act
+    const versionCheck = await checkAllVersions(projectRoot);
+
+    // Assert
+    expect(loadVitestConfig).not.toHaveBeenCalled();
+    expect(versionCheck.coverageProvider).toBeNull();
+    expect(versionCheck.warnings).toEqual([]);
+    expect(generateVersionReport(versionCheck)).not.toContain('Coverage Provider');
+  });
+});
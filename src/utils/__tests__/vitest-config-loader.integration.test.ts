@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, symlink, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { clearVitestConfigCache, loadVitestConfig } from '../vitest-config-loader.js';
+
+describe('vitest-config-loader integration', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    clearVitestConfigCache();
+    projectRoot = await mkdtemp(join(tmpdir(), 'vitest-config-loader-'));
+    // Use this repository's Vitest for the fixture project
+    await symlink(join(process.cwd(), 'node_modules'), join(projectRoot, 'node_modules'), 'dir');
+    await writeFile(join(projectRoot, 'package.json'), JSON.stringify({ name: 'fixture', type: 'module' }));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should resolve spreads and computed values that a text search cannot', async () => {
+    // Arrange
+    const configFile = join(projectRoot, 'vitest.config.ts');
+    await writeFile(
+      configFile,
+      `import { defineConfig } from 'vitest/config';
+      const base = { lines: 80 };
+      console.log('config loaded');
+      export default defineConfig({
+        test: {
+          environment: 'node',
+          testTimeout: 2 * 5000,
+          coverage: {
+            provider: 'v8',
+            thresholds: { ...base, functions: 70 + 5, perFile: true, 'src/utils/**': { 100: true } },
+          },
+        },
+      });`
+    );
+
+    // Act
+    const config = await loadVitestConfig(projectRoot, configFile);
+
+    // Assert
+    expect(config.resolvedWith).toBe('vitest');
+    expect(config.vitestVersion).toMatch(/^\d+\.\d+\.\d+/);
+    expect(config.test).toMatchObject({ environment: 'node', testTimeout: 10000, root: projectRoot });
+    expect(config.test.include).toEqual(['**/*.{test,spec}.?(c|m)[jt]s?(x)']);
+    expect(config.coverage).toMatchObject({
+      provider: 'v8',
+      thresholds: { lines: 80, functions: 75, perFile: true, 'src/utils/**': { 100: true } }
+    });
+  });
+
+  it('should resolve project names built at runtime', async () => {
+    // Arrange
+    await mkdir(join(projectRoot, 'packages', 'api'), { recursive: true });
+    await writeFile(
+      join(projectRoot, 'packages', 'api', 'vitest.config.ts'),
+      `export default { test: { name: ['api', 'unit'].join('-') } };`
+    );
+    const configFile = join(projectRoot, 'vitest.config.ts');
+    await writeFile(
+      configFile,
+      `const prefix = 'web';
+      const shared = { environment: 'node', include: ['web/**/*.test.ts'] };
+      export default { test: { projects: ['packages/*', { test: { name: \`\${prefix}-inline\`, ...shared } }] } };`
+    );
+
+    // Act
+    const config = await loadVitestConfig(projectRoot, configFile);
+
+    // Assert
+    expect(config.projects).toEqual(expect.arrayContaining([
+      { name: 'web-inline', root: projectRoot, environment: 'node', include: ['web/**/*.test.ts'] },
+      {
+        name: 'api-unit',
+        root: join(projectRoot, 'packages', 'api'),
+        configFile: join(projectRoot, 'packages', 'api', 'vitest.config.ts'),
+        environment: 'node',
+        include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+      }
+    ]));
+  });
+
+  it('should apply Vitest defaults without a config file', async () => {
+    // Act
+    const config = await loadVitestConfig(projectRoot, null);
+
+    // Assert
+    expect(config.test.environment).toBe('node');
+    expect(config.coverage.provider).toBe('v8');
+  });
+
+  it('should load the config again only after the config file changed', async () => {
+    // Arrange
+    const configFile = join(projectRoot, 'vitest.config.ts');
+    await writeFile(
+      configFile,
+      `import { appendFileSync } from 'node:fs';
+      appendFileSync('loads.txt', 'x');
+      export default { test: { environment: 'node' } };`
+    );
+
+    // Act
+    const first = await loadVitestConfig(projectRoot, configFile);
+    const second = await loadVitestConfig(projectRoot, configFile);
+    const later = new Date(Date.now() + 10000);
+    await utimes(configFile, later, later);
+    await loadVitestConfig(projectRoot, configFile);
+
+    // Assert
+    expect(second).toBe(first);
+    expect(await readFile(join(projectRoot, 'loads.txt'), 'utf-8')).toBe('xx');
+  });
+
+  it('should report errors thrown by the config', async () => {
+    // Arrange
+    const configFile = join(projectRoot, 'vitest.config.ts');
+    await writeFile(configFile, `throw new Error('missing API_URL');`);
+
+    // Act & Assert
+    await expect(loadVitestConfig(projectRoot, configFile)).rejects.toThrow(
+      /Failed to load the Vitest config: .*missing API_URL/
+    );
+  });
+
+  it('should reject when the loader output is not valid JSON', async () => {
+    // Arrange
+    const configFile = join(projectRoot, 'vitest.config.ts');
+    await writeFile(configFile, `process.stdout.write('\\n__VITEST_MCP_CONFIG__{"test":\\n'); process.exit(0);`);
+
+    // Act & Assert
+    await expect(loadVitestConfig(projectRoot, configFile)).rejects.toThrow(
+      /Failed to load the Vitest config: invalid loader output/
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  checkThresholdsMet,
+  getThresholdViolations,
+  getVitestCoverageProvider,
+  getVitestCoverageThresholds,
+  normalizeCoverageThresholds,
+  type FileCoverageCounts
+} from '../vitest-config-reader.js';
+import { findVitestConfig } from '../config-finder.js';
+import { loadVitestConfig } from '../vitest-config-loader.js';
+
+vi.mock('../config-finder.js');
+vi.mock('../vitest-config-loader.js');
+
+describe('vitest-config-reader', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findVitestConfig).mockResolvedValue('/project/vitest.config.ts');
+  });
+
+  describe('getVitestCoverageThresholds', () => {
+    it('should read thresholds from the loaded config', async () => {
+      // Arrange
+      vi.mocked(loadVitestConfig).mockResolvedValue({
+        resolvedWith: 'vitest',
+        vitestVersion: '3.2.4',
+        test: {},
+        coverage: { provider: 'v8', thresholds: { lines: 80, branches: 70 } }
+      });
+
+      // Act
+      const thresholds = await getVitestCoverageThresholds('/project');
+
+      // Assert
+      expect(loadVitestConfig).toHaveBeenCalledWith('/project', '/project/vitest.config.ts');
+      expect(thresholds).toEqual({ lines: 80, branches: 70 });
+    });
+
+    it('should return null without a config file or when the config fails to load', async () => {
+      // Arrange
+      vi.mocked(findVitestConfig).mockResolvedValueOnce(null);
+      vi.mocked(loadVitestConfig).mockRejectedValue(new Error('Failed to load the Vitest config: SyntaxError'));
+
+      // Act & Assert
+      expect(await getVitestCoverageThresholds('/project')).toBeNull();
+      expect(await getVitestCoverageThresholds('/project')).toBeNull();
+    });
+  });
+
+  describe('getVitestCoverageProvider', () => {
+    it('should read the provider from the loaded config', async () => {
+      // Arrange
+      vi.mocked(loadVitestConfig).mockResolvedValue({
+        resolvedWith: 'vitest',
+        vitestVersion: '3.2.4',
+        test: { browser: { provider: 'playwright' } },
+        coverage: { provider: 'istanbul' }
+      });
+
+      // Act
+      const provider = await getVitestCoverageProvider('/project');
+
+      // Assert
+      expect(loadVitestConfig).toHaveBeenCalledWith('/project', '/project/vitest.config.ts');
+      expect(provider).toBe('istanbul');
+    });
+
+    it('should return null for a custom provider or when the config fails to load', async () => {
+      // Arrange
+      vi.mocked(loadVitestConfig).mockResolvedValueOnce({
+        resolvedWith: 'vitest',
+        vitestVersion: '3.2.4',
+        test: {},
+        coverage: { provider: 'custom' }
+      });
+      vi.mocked(loadVitestConfig).mockRejectedValueOnce(new Error('Failed to load the Vitest config: SyntaxError'));
+
+      // Act & Assert
+      expect(await getVitestCoverageProvider('/project')).toBeNull();
+      expect(await getVitestCoverageProvider('/project')).toBeNull();
+    });
+  });
+
+  describe('normalizeCoverageThresholds', () => {
+    it('should expand 100: true and read perFile and glob thresholds', () => {
+      // Act
+      const thresholds = normalizeCoverageThresholds({
+        100: true,
+        perFile: true,
+        autoUpdate: false,
+        'src/utils/**': { lines: 95, functions: 90, perFile: true },
+        'src/legacy/**': { 100: true },
+        'src/empty/**': {}
+      });
+
+      // Assert
+      expect(thresholds).toEqual({
+        lines: 100,
+        functions: 100,
+        branches: 100,
+        statements: 100,
+        perFile: true,
+        globs: {
+          'src/utils/**': { lines: 95, functions: 90 },
+          'src/legacy/**': { lines: 100, functions: 100, branches: 100, statements: 100 }
+        }
+      });
+    });
+
+    it('should ignore values outside 0-100 and return null when nothing is set', () => {
+      // Act & Assert
+      expect(normalizeCoverageThresholds({ lines: -10, functions: 120, statements: 50 })).toEqual({ statements: 50 });
+      expect(normalizeCoverageThresholds({ autoUpdate: true })).toBeNull();
+      expect(normalizeCoverageThresholds(undefined)).toBeNull();
+    });
+  });
+
+  describe('getThresholdViolations', () => {
+    function file(path: string, covered: number, total: number): FileCoverageCounts {
+      return {
+        path,
+        covered: { lines: covered, functions: covered, branches: covered, statements: covered },
+        totals: { lines: total, functions: total, branches: total, statements: total }
+      };
+    }
+
+    const files = [file('src/api/client.ts', 9, 10), file('src/utils/format.ts', 1, 2), file('src/utils/parse.ts', 3, 4)];
+    const coverage = { lines: 81, functions: 81, branches: 81, statements: 81 };
+
+    it('should check global thresholds against the totals', () => {
+      // Act
+      const violations = getThresholdViolations(coverage, { lines: 90, functions: 80 }, files);
+
+      // Assert
+      expect(violations).toEqual([
+        {
+          metric: 'lines',
+          actual: 81,
+          required: 90,
+          file: null,
+          glob: null,
+          message: 'Coverage for lines (81%) does not meet global threshold (90%)'
+        }
+      ]);
+      expect(checkThresholdsMet(coverage, { lines: 80 }, files)).toBe(true);
+    });
+
+    it('should check glob thresholds against the files matching the glob', () => {
+      // Act
+      const violations = getThresholdViolations(coverage, { globs: { 'src/utils/**': { statements: 70 } } }, files);
+
+      // Assert
+      expect(violations).toEqual([
+        {
+          metric: 'statements',
+          actual: 66.67,
+          required: 70,
+          file: null,
+          glob: 'src/utils/**',
+          message: 'Coverage for statements (66.67%) does not meet "src/utils/**" threshold (70%)'
+        }
+      ]);
+    });
+
+    it('should check each file with perFile, also for glob thresholds', () => {
+      // Act
+      const violations = getThresholdViolations(
+        coverage,
+        { branches: 60, perFile: true, globs: { 'src/api/**': { branches: 95 } } },
+        [...files, file('src/empty.ts', 0, 0)]
+      );
+
+      // Assert
+      expect(violations.map(({ file, glob, actual, required }) => ({ file, glob, actual, required }))).toEqual([
+        { file: 'src/utils/format.ts', glob: null, actual: 50, required: 60 },
+        { file: 'src/api/client.ts', glob: 'src/api/**', actual: 90, required: 95 }
+      ]);
+      expect(violations[0].message).toBe(
+        'Coverage for branches (50%) does not meet global threshold (60%) for src/utils/format.ts'
+      );
+    });
+  });
+});
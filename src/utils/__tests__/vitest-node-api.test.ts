@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildJsonReport, createRunCapture, runWithTimeout } from '../vitest-node-api.js';
+import type { TestCaseLike, TestModuleLike, VitestInstance } from '../vitest-node-api.js';
+
+function createTestCase(
+  name: string,
+  state: 'passed' | 'failed' | 'skipped',
+  mode: 'run' | 'skip' | 'todo' = 'run'
+): Omit<TestCaseLike, 'parent'> {
+  return {
+    type: 'test',
+    name,
+    options: { mode },
+    result: () => ({ state }),
+    diagnostic: () => (state === 'skipped' ? undefined : { duration: 10, startTime: 500 })
+  };
+}
+
+function createTestModule(tests: Array<Omit<TestCaseLike, 'parent'>>, errors: Array<{ message: string }> = []): TestModuleLike {
+  const testModule: TestModuleLike = {
+    type: 'module',
+    moduleId: '/project/src/a.test.ts',
+    project: { name: '' },
+    state: () => (errors.length > 0 ? 'failed' : 'passed'),
+    errors: () => errors,
+    children: {
+      *allTests() {
+        for (const test of tests) {
+          yield { ...test, parent: testModule };
+        }
+      }
+    }
+  };
+  return testModule;
+}
+
+describe('vitest-node-api', () => {
+  describe('buildJsonReport', () => {
+    it('should count passed, skipped and todo tests like the JSON reporter', () => {
+      // Arrange
+      const testModule = createTestModule([
+        createTestCase('adds', 'passed'),
+        createTestCase('skipped', 'skipped', 'skip'),
+        createTestCase('later', 'skipped', 'todo')
+      ]);
+
+      // Act
+      const report = buildJsonReport([testModule], 100);
+
+      // Assert
+      expect(report).toMatchObject({
+        success: true,
+        numTotalTests: 3,
+        numPassedTests: 1,
+        numPendingTests: 1,
+        numTodoTests: 1,
+        numFailedTestSuites: 0
+      });
+      expect(report.testResults[0]).toMatchObject({ startTime: 500, endTime: 510, status: 'passed' });
+      expect(report.testResults[0].assertionResults.map(result => result.status)).toEqual(['passed', 'skipped', 'skipped']);
+    });
+
+    it('should mark modules that failed to load as failed suites', () => {
+      // Arrange
+      const testModule = createTestModule([], [{ message: 'Cannot find module ./missing' }]);
+
+      // Act
+      const report = buildJsonReport([testModule], 100);
+
+      // Assert
+      expect(report.success).toBe(false);
+      expect(report.numFailedTestSuites).toBe(1);
+      expect(report.testResults[0]).toMatchObject({
+        status: 'failed',
+        message: 'Cannot find module ./missing',
+        startTime: 100
+      });
+    });
+  });
+
+  describe('createRunCapture', () => {
+    it('should collect console logs, coverage and Vitest output', () => {
+      // Arrange
+      const capture = createRunCapture();
+
+      // Act
+      capture.reporter.onUserConsoleLog?.({ type: 'stdout', content: 'hello {\n' });
+      capture.reporter.onUserConsoleLog?.({ type: 'stderr', content: 'oops' });
+      capture.reporter.onCoverage?.({ toJSON: () => ({ '/project/src/a.ts': {} }) });
+      capture.streams.stderr.write('warning');
+
+      // Assert
+      expect(capture.logs).toEqual(['[stdout] hello {', '[stderr] oops']);
+      expect(capture.coverageMap).toEqual({ '/project/src/a.ts': {} });
+      expect(capture.output.join('')).toBe('warning');
+
+      capture.reset();
+      expect(capture.logs).toEqual([]);
+      expect(capture.coverageMap).toBeUndefined();
+    });
+  });
+
+  describe('progress reporting', () => {
+    it('should count finished test files and test states as the run progresses', () => {
+      // Arrange
+      const capture = createRunCapture();
+      const onProgress = vi.fn();
+      capture.onProgress = onProgress;
+
+      // Act
+      capture.reporter.onTestRunStart?.([
+        { moduleId: '/project/src/a.test.ts', project: { name: '' } },
+        { moduleId: '/project/src/b.test.ts', project: { name: '' } }
+      ]);
+      capture.reporter.onTestModuleEnd?.(createTestModule([
+        createTestCase('adds', 'passed'),
+        createTestCase('fails', 'failed'),
+        createTestCase('skipped', 'skipped', 'skip')
+      ]));
+
+      // Assert
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        completedFiles: 0, totalFiles: 2, passed: 0, failed: 0, skipped: 0
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        file: '/project/src/a.test.ts', completedFiles: 1, totalFiles: 2, passed: 1, failed: 1, skipped: 1
+      });
+
+      capture.reset();
+      expect(capture.progress.completedFiles).toBe(0);
+      expect(capture.onProgress).toBeUndefined();
+    });
+  });
+
+  describe('runWithTimeout', () => {
+    it('should cancel the current run when the timeout elapses and keep process.exitCode', async () => {
+      // Arrange
+      const vitest = { cancelCurrentRun: vi.fn(async () => {}) } as unknown as VitestInstance;
+      const exitCode = process.exitCode;
+
+      // Act
+      const { result, timedOut } = await runWithTimeout(vitest, 5, async () => {
+        process.exitCode = 1;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return 'done';
+      });
+
+      // Assert
+      expect(result).toBe('done');
+      expect(timedOut).toBe(true);
+      expect(vitest.cancelCurrentRun).toHaveBeenCalledWith('timeout');
+      expect(process.exitCode).toBe(exitCode);
+    });
+
+    it('should cancel the current run when the abort signal fires', async () => {
+      // Arrange
+      const vitest = { cancelCurrentRun: vi.fn(async () => {}) } as unknown as VitestInstance;
+      const controller = new AbortController();
+
+      // Act
+      const { timedOut, cancelled } = await runWithTimeout(vitest, 1000, async () => {
+        controller.abort();
+        return 'done';
+      }, controller.signal);
+
+      // Assert
+      expect(timedOut).toBe(false);
+      expect(cancelled).toBe(true);
+      expect(vitest.cancelCurrentRun).toHaveBeenCalledWith('cancelled');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { findCloseMatches, findWorkspaceProjects, validateProjectName } from '../workspace-projects.js';
+import { loadVitestConfig, type LoadedVitestConfig } from '../vitest-config-loader.js';
+
+vi.mock('../vitest-config-loader.js');
+
+describe('workspace-projects', () => {
+  let projectRoot: string;
+
+  async function writeProjectFile(path: string, content: string): Promise<void> {
+    await mkdir(dirname(join(projectRoot, path)), { recursive: true });
+    await writeFile(join(projectRoot, path), content);
+  }
+
+  async function createPackage(dir: string, name: string): Promise<void> {
+    await writeProjectFile(join(dir, 'package.json'), JSON.stringify({ name }));
+  }
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'workspace-projects-'));
+    vi.mocked(loadVitestConfig).mockRejectedValue(new Error('Failed to load the Vitest config: vitest is not installed'));
+  });
+
+  function mockResolvedProjects(projects: LoadedVitestConfig['projects']): void {
+    vi.mocked(loadVitestConfig).mockResolvedValue({
+      resolvedWith: 'vitest',
+      vitestVersion: '3.2.4',
+      test: { projects: [] },
+      coverage: {},
+      projects,
+    });
+  }
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  describe('findWorkspaceProjects', () => {
+    it('should take Vitest projects from the resolved config', async () => {
+      // Arrange
+      await writeProjectFile('package.json', JSON.stringify({ name: 'root', workspaces: ['packages/*'] }));
+      await createPackage('packages/api', '@acme/api');
+      await createPackage('packages/docs', '@acme/docs');
+      await writeProjectFile('vitest.config.ts', `export default { test: { projects: [...projects] } };`);
+      mockResolvedProjects([
+        {
+          name: 'api-unit',
+          root: join(projectRoot, 'packages', 'api'),
+          configFile: join(projectRoot, 'packages', 'api', 'vitest.config.ts'),
+          environment: 'node',
+          include: ['src/**/*.test.ts']
+        },
+        { name: 'browser', root: projectRoot, environment: 'jsdom' }
+      ]);
+
+      // Act
+      const projects = await findWorkspaceProjects(projectRoot);
+
+      // Assert
+      expect(loadVitestConfig).toHaveBeenCalledWith(projectRoot, join(projectRoot, 'vitest.config.ts'));
+      expect(projects).toEqual([
+        {
+          name: 'api-unit',
+          root: join('packages', 'api'),
+          source: 'test.projects',
+          configFile: join('packages', 'api', 'vitest.config.ts'),
+          environment: 'node',
+          include: ['src/**/*.test.ts']
+        },
+        {
+          name: 'browser',
+          root: '.',
+          source: 'test.projects',
+          environment: 'jsdom',
+          include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+        },
+        { name: '@acme/docs', root: 'packages/docs', source: 'package workspaces' }
+      ]);
+    });
+
+    it('should read globs and inline projects from test.projects when the config fails to load', async () => {
+      // Arrange
+      await createPackage('packages/web', '@acme/web');
+      await writeProjectFile(
+        'packages/web/vitest.config.ts',
+        `export default defineProject({ test: { name: 'web', environment: 'jsdom' } });`
+      );
+      await createPackage('packages/utils', '@acme/utils');
+      await writeProjectFile(
+        'vitest.config.ts',
+        `import { defineConfig } from 'vitest/config';
+        export default defineConfig({
+          test: {
+            include: ['src/**/*.test.ts'],
+            projects: [
+              'packages/*',
+              { extends: true, test: { name: 'unit', root: './server' } },
+              { test: { name: { label: 'e2e', color: 'blue' }, include: ['e2e/**/*.spec.ts'] } },
+            ],
+          },
+        });`
+      );
+
+      // Act
+      const projects = await findWorkspaceProjects(projectRoot);
+
+      // Assert
+      expect(projects).toEqual([
+        {
+          name: '@acme/utils',
+          root: 'packages/utils',
+          source: 'test.projects',
+          environment: 'node',
+          include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+        },
+        {
+          name: 'web',
+          root: 'packages/web',
+          source: 'test.projects',
+          configFile: 'packages/web/vitest.config.ts',
+          environment: 'jsdom',
+          include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+        },
+        { name: 'unit', root: 'server', source: 'test.projects', environment: 'node', include: ['src/**/*.test.ts'] },
+        { name: 'e2e', root: '.', source: 'test.projects', environment: 'node', include: ['e2e/**/*.spec.ts'] }
+      ]);
+    });
+
+    it('should read a vitest.workspace file when the config has no projects', async () => {
+      // Arrange
+      await writeProjectFile(
+        'apps/api/vitest.config.ts',
+        `export default { test: { name: 'api', include: ['test/**/*.test.ts'] } };`
+      );
+      await writeProjectFile('apps/README.md', '# Apps');
+      await writeProjectFile('e2e/vitest.config.e2e.ts', `export default { test: { environment: 'jsdom' } };`);
+      await createPackage('e2e', 'e2e-tests');
+      await writeProjectFile('vitest.workspace.ts', `export default defineWorkspace(['./e2e/vitest.config.e2e.ts', 'apps/*']);`);
+
+      // Act
+      const projects = await findWorkspaceProjects(projectRoot);
+
+      // Assert
+      expect(projects).toEqual([
+        {
+          name: 'e2e-tests',
+          root: 'e2e',
+          source: 'vitest.workspace',
+          configFile: 'e2e/vitest.config.e2e.ts',
+          environment: 'jsdom',
+          include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+        },
+        {
+          name: 'api',
+          root: 'apps/api',
+          source: 'vitest.workspace',
+          configFile: 'apps/api/vitest.config.ts',
+          environment: 'node',
+          include: ['test/**/*.test.ts']
+        }
+      ]);
+    });
+
+    it('should list npm and pnpm workspace packages that are not Vitest projects', async () => {
+      // Arrange
+      await writeProjectFile('package.json', JSON.stringify({ name: 'root', workspaces: ['libs/*', '!libs/legacy'] }));
+      await writeProjectFile('pnpm-workspace.yaml', `packages:\n  - 'tools/*' # scripts\nonlyBuiltDependencies:\n  - esbuild\n`);
+      await createPackage('libs/core', '@acme/core');
+      await writeProjectFile('libs/core/vitest.config.ts', `export default { test: { environment: 'happy-dom' } };`);
+      await createPackage('libs/legacy', '@acme/legacy');
+      await createPackage('tools/cli', 'cli');
+      await writeProjectFile('tools/notes/todo.md', '- nothing');
+
+      // Act
+      const projects = await findWorkspaceProjects(projectRoot);
+
+      // Assert
+      expect(projects).toEqual([
+        {
+          name: '@acme/core',
+          root: 'libs/core',
+          source: 'package workspaces',
+          configFile: 'libs/core/vitest.config.ts',
+          environment: 'happy-dom',
+          include: ['**/*.{test,spec}.?(c|m)[jt]s?(x)']
+        },
+        { name: 'cli', root: 'tools/cli', source: 'package workspaces' }
+      ]);
+    });
+
+    it('should return no projects for a single-package project', async () => {
+      // Arrange
+      await writeProjectFile('package.json', JSON.stringify({ name: 'app' }));
+      await writeProjectFile('vitest.config.ts', `export default { test: { environment: 'node' } };`);
+
+      // Act & Assert
+      expect(await findWorkspaceProjects(projectRoot)).toEqual([]);
+    });
+  });
+
+  describe('validateProjectName', () => {
+    beforeEach(async () => {
+      await writeProjectFile('package.json', JSON.stringify({ name: 'root', workspaces: ['docs'] }));
+      await createPackage('docs', 'docs');
+      await writeProjectFile('vitest.config.ts', `export default { test: { projects: names.map(createProject) } };`);
+      mockResolvedProjects(['client', 'server', 'shared-utils'].map((name) => ({ name, root: join(projectRoot, name) })));
+    });
+
+    it('should accept known names and wildcard filters', async () => {
+      // Act & Assert
+      await expect(validateProjectName(projectRoot, 'client')).resolves.toBeUndefined();
+      await expect(validateProjectName(projectRoot, 'shared-*')).resolves.toBeUndefined();
+    });
+
+    it('should suggest the closest project names', async () => {
+      // Act & Assert
+      await expect(validateProjectName(projectRoot, 'clinet')).rejects.toThrow(
+        'Unknown project "clinet". Did you mean "client"? Available projects: client, server, shared-utils. Use list_projects to see their roots.'
+      );
+    });
+
+    it('should point workspace packages without a Vitest project to target', async () => {
+      // Act & Assert
+      await expect(validateProjectName(projectRoot, 'docs')).rejects.toThrow(
+        '"docs" is a workspace package without a Vitest project; use target "docs" instead.'
+      );
+    });
+
+    it('should not check names when the config defines no projects', async () => {
+      // Arrange
+      mockResolvedProjects(undefined);
+
+      // Act & Assert
+      await expect(validateProjectName(projectRoot, 'anything')).resolves.toBeUndefined();
+    });
+
+    it('should not check names found only statically when the config fails to load', async () => {
+      // Arrange
+      vi.mocked(loadVitestConfig).mockRejectedValue(new Error('Failed to load the Vitest config: missing API_URL'));
+      await writeProjectFile('vitest.config.ts', `export default { test: { projects: [{ test: { name: 'client' } }] } };`);
+
+      // Act & Assert
+      await expect(validateProjectName(projectRoot, `client-${'e2e'}`)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findCloseMatches', () => {
+    it('should rank near misses and partial names first', () => {
+      // Act & Assert
+      expect(findCloseMatches('utils', ['shared-utils', 'server', 'client'])).toEqual(['shared-utils']);
+      expect(findCloseMatches('servr', ['client', 'server', 'serve'])).toEqual(['server', 'serve']);
+      expect(findCloseMatches('docs', ['client', 'server'])).toEqual([]);
+    });
+  });
+});
@@ -1,6 +1,27 @@
-import { join } from "path";
+import { basename, join } from "path";
 import { fileExists } from "./file-utils.js";
 
+/** Config files in the order findVitestConfig checks them */
+const CONFIG_CANDIDATES = [
+  "vitest.mcp.config.ts",
+  "vitest.config.ts",
+  "vitest.config.js",
+  "vitest.config.mjs",
+  "vite.config.ts",
+  "vite.config.js",
+  "vite.config.mjs",
+];
+
+/**
+ * The config file findVitestConfig picks, and why
+ */
+export interface VitestConfigSelection {
+  configFile: string | null;
+  reason: string;
+  /** Other config files in the project root that are not used */
+  ignoredFiles: string[];
+}
+
 /**
  * Finds the appropriate Vitest configuration file in the project root.
  * Priority order:
@@ -16,17 +37,7 @@ import { fileExists } from "./file-utils.js";
  * @returns The path to the config file or null if none found
  */
 export async function findVitestConfig(projectRoot: string): Promise<string | null> {
-  const configCandidates = [
-    "vitest.mcp.config.ts",
-    "vitest.config.ts",
-    "vitest.config.js",
-    "vitest.config.mjs",
-    "vite.config.ts",
-    "vite.config.js",
-    "vite.config.mjs",
-  ];
-
-  for (const configFile of configCandidates) {
+  for (const configFile of CONFIG_CANDIDATES) {
     const configPath = join(projectRoot, configFile);
     if (await fileExists(configPath)) {
       return configPath;
@@ -44,4 +55,34 @@ export async function findVitestConfig(projectRoot: string): Promise<string | nu
 export async function hasVitestConfig(projectRoot: string): Promise<boolean> {
   const config = await findVitestConfig(projectRoot);
   return config !== null;
-}
\ No newline at end of file
+}
+
+/**
+ * Explain which config file findVitestConfig picks for a project root
+ * @param projectRoot The root directory of the project
+ * @returns The picked config file, the reason it was picked and the config files that are ignored
+ */
+export async function explainVitestConfig(projectRoot: string): Promise<VitestConfigSelection> {
+  const present: string[] = [];
+  for (const configFile of CONFIG_CANDIDATES) {
+    if (await fileExists(join(projectRoot, configFile))) {
+      present.push(join(projectRoot, configFile));
+    }
+  }
+
+  const [configFile = null, ...ignoredFiles] = present;
+  if (!configFile) {
+    return {
+      configFile,
+      reason: `No Vitest or Vite config file found (checked ${CONFIG_CANDIDATES.join(", ")}), so Vitest's defaults apply`,
+      ignoredFiles,
+    };
+  }
+
+  const name = basename(configFile);
+  const reason =
+    name === CONFIG_CANDIDATES[0]
+      ? `${name} is the MCP-specific config and takes priority over all other config files`
+      : `${name} is the first config file found, in the order ${CONFIG_CANDIDATES.join(", ")}`;
+  return { configFile, reason, ignoredFiles };
+}
@@ -0,0 +1,299 @@
+import { readFile } from "fs/promises";
+import { dirname, relative, sep } from "path";
+import type {
+  CoverageExportFormat,
+  CoverageExportOptions,
+  RawCoverageData,
+} from "../types/coverage-types.js";
+import { describeBranchArm, findUntakenBranchArms } from "./coverage-processor.js";
+import {
+  escapeXml,
+  formatSarifLog,
+  resolveReportPath,
+  writeReport,
+  type SarifRegion,
+  type SarifResultInput,
+} from "./report-export.js";
+
+type FileCoverage = RawCoverageData["files"][string];
+
+/** Where each format is written when no path is given, next to Vitest's own reports */
+export const DEFAULT_EXPORT_PATHS: Record<CoverageExportFormat, string> = {
+  lcov: "coverage/lcov.info",
+  cobertura: "coverage/cobertura-coverage.xml",
+  sarif: "coverage/coverage.sarif",
+};
+
+/**
+ * Resolve where an export is written. The path must stay inside the project root.
+ */
+export function resolveExportPath(projectRoot: string, options: CoverageExportOptions): string {
+  return resolveReportPath(projectRoot, options, DEFAULT_EXPORT_PATHS);
+}
+
+/**
+ * Write coverage data in the given format, creating parent directories as needed
+ */
+export async function writeCoverageExport(
+  files: RawCoverageData["files"],
+  format: CoverageExportFormat,
+  outputPath: string,
+  projectRoot: string
+): Promise<void> {
+  let content: string;
+  switch (format) {
+    case "lcov":
+      content = formatLcov(files);
+      break;
+    case "cobertura":
+      content = formatCobertura(files, projectRoot);
+      break;
+    case "sarif":
+      content = await formatSarif(files, projectRoot);
+      break;
+  }
+
+  await writeReport(outputPath, content);
+}
+
+/**
+ * Format coverage as an LCOV tracefile, one record per source file
+ */
+export function formatLcov(files: RawCoverageData["files"]): string {
+  const records: string[] = [];
+
+  for (const [filePath, fileData] of Object.entries(files)) {
+    const lines = ["TN:", `SF:${filePath}`];
+
+    const functions = Object.entries(fileData.fnMap || {});
+    for (const [fnId, fn] of functions) {
+      lines.push(`FN:${fn.decl?.start?.line ?? 0},${functionName(fileData, fnId)}`);
+    }
+    for (const [fnId] of functions) {
+      lines.push(`FNDA:${fileData.f?.[fnId] ?? 0},${functionName(fileData, fnId)}`);
+    }
+    lines.push(`FNF:${functions.length}`);
+    lines.push(`FNH:${functions.filter(([fnId]) => (fileData.f?.[fnId] ?? 0) > 0).length}`);
+
+    let branchesFound = 0;
+    let branchesHit = 0;
+    for (const [branchId, counts] of Object.entries(fileData.b || {})) {
+      const line = branchLine(fileData.branchMap?.[branchId]);
+      counts.forEach((count, index) => {
+        lines.push(`BRDA:${line},${branchId},${index},${count}`);
+        branchesFound++;
+        if (count > 0) {
+          branchesHit++;
+        }
+      });
+    }
+    lines.push(`BRF:${branchesFound}`);
+    lines.push(`BRH:${branchesHit}`);
+
+    const lineHits = getLineHits(fileData);
+    for (const [line, count] of lineHits) {
+      lines.push(`DA:${line},${count}`);
+    }
+    lines.push(`LF:${lineHits.size}`);
+    lines.push(`LH:${[...lineHits.values()].filter((count) => count > 0).length}`);
+
+    lines.push("end_of_record");
+    records.push(lines.join("\n"));
+  }
+
+  return records.length > 0 ? `${records.join("\n")}\n` : "";
+}
+
+/**
+ * Format coverage as a Cobertura XML report. Files are grouped into packages
+ * by directory, as Istanbul's cobertura reporter does.
+ */
+export function formatCobertura(
+  files: RawCoverageData["files"],
+  projectRoot: string,
+  timestamp: number = Date.now()
+): string {
+  const packages = new Map<string, string[]>();
+  const totals = { lines: 0, linesCovered: 0, branches: 0, branchesCovered: 0 };
+  const packageTotals = new Map<string, typeof totals>();
+
+  for (const [filePath, fileData] of Object.entries(files)) {
+    const relativePath = relative(projectRoot, filePath).split(sep).join("/");
+    const directory = dirname(relativePath);
+    const packageName = directory === "." ? "main" : directory.replace(/\//g, ".");
+
+    const lineHits = getLineHits(fileData);
+    const branchesByLine = new Map<number, { total: number; covered: number }>();
+    for (const [branchId, counts] of Object.entries(fileData.b || {})) {
+      const line = branchLine(fileData.branchMap?.[branchId]);
+      const lineBranches = branchesByLine.get(line) ?? { total: 0, covered: 0 };
+      lineBranches.total += counts.length;
+      lineBranches.covered += counts.filter((count) => count > 0).length;
+      branchesByLine.set(line, lineBranches);
+    }
+
+    const fileTotals = {
+      lines: lineHits.size,
+      linesCovered: [...lineHits.values()].filter((count) => count > 0).length,
+      branches: [...branchesByLine.values()].reduce((sum, branch) => sum + branch.total, 0),
+      branchesCovered: [...branchesByLine.values()].reduce((sum, branch) => sum + branch.covered, 0),
+    };
+    const packageSum = packageTotals.get(packageName) ?? { lines: 0, linesCovered: 0, branches: 0, branchesCovered: 0 };
+    for (const key of Object.keys(fileTotals) as Array<keyof typeof totals>) {
+      packageSum[key] += fileTotals[key];
+      totals[key] += fileTotals[key];
+    }
+    packageTotals.set(packageName, packageSum);
+
+    const classXml = [
+      `        <class name="${escapeXml(relativePath.split("/").pop() ?? relativePath)}" filename="${escapeXml(relativePath)}" line-rate="${rate(fileTotals.linesCovered, fileTotals.lines)}" branch-rate="${rate(fileTotals.branchesCovered, fileTotals.branches)}">`,
+      "          <methods>",
+    ];
+    for (const [fnId, fn] of Object.entries(fileData.fnMap || {})) {
+      const hits = fileData.f?.[fnId] ?? 0;
+      classXml.push(
+        `            <method name="${escapeXml(functionName(fileData, fnId))}" hits="${hits}" signature="()V">`,
+        `              <lines><line number="${fn.decl?.start?.line ?? 0}" hits="${hits}"/></lines>`,
+        "            </method>"
+      );
+    }
+    classXml.push("          </methods>", "          <lines>");
+    for (const [line, hits] of lineHits) {
+      const branches = branchesByLine.get(line);
+      classXml.push(
+        branches
+          ? `            <line number="${line}" hits="${hits}" branch="true" condition-coverage="${Math.round((branches.covered / branches.total) * 100)}% (${branches.covered}/${branches.total})"/>`
+          : `            <line number="${line}" hits="${hits}" branch="false"/>`
+      );
+    }
+    classXml.push("          </lines>", "        </class>");
+
+    packages.set(packageName, [...(packages.get(packageName) ?? []), ...classXml]);
+  }
+
+  const xml = [
+    '<?xml version="1.0" ?>',
+    '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+    `<coverage lines-valid="${totals.lines}" lines-covered="${totals.linesCovered}" line-rate="${rate(totals.linesCovered, totals.lines)}" branches-valid="${totals.branches}" branches-covered="${totals.branchesCovered}" branch-rate="${rate(totals.branchesCovered, totals.branches)}" timestamp="${timestamp}" complexity="0" version="0.1">`,
+    "  <sources>",
+    `    <source>${escapeXml(projectRoot)}</source>`,
+    "  </sources>",
+    "  <packages>",
+  ];
+  for (const [packageName, classXml] of [...packages].sort(([a], [b]) => a.localeCompare(b))) {
+    const packageSum = packageTotals.get(packageName)!;
+    xml.push(
+      `    <package name="${escapeXml(packageName)}" line-rate="${rate(packageSum.linesCovered, packageSum.lines)}" branch-rate="${rate(packageSum.branchesCovered, packageSum.branches)}">`,
+      "      <classes>",
+      ...classXml,
+      "      </classes>",
+      "    </package>"
+    );
+  }
+  xml.push("  </packages>", "</coverage>");
+
+  return `${xml.join("\n")}\n`;
+}
+
+/**
+ * Format uncovered functions and branch arms as SARIF 2.1.0 warnings, located
+ * relative to the project root so code scanning tools can annotate them
+ */
+export async function formatSarif(files: RawCoverageData["files"], projectRoot: string): Promise<string> {
+  const results: SarifResultInput[] = [];
+
+  for (const [filePath, fileData] of Object.entries(files)) {
+    for (const [fnId, fn] of Object.entries(fileData.fnMap || {})) {
+      if ((fileData.f?.[fnId] ?? 0) > 0 || !fn.decl?.start?.line) {
+        continue;
+      }
+      results.push({
+        ruleId: "uncovered-function",
+        level: "warning",
+        message: `Function "${functionName(fileData, fnId)}" is never called by tests`,
+        file: filePath,
+        region: sarifRegion(fn.decl.start, fn.decl.end),
+      });
+    }
+
+    const untakenArms = findUntakenBranchArms(fileData);
+    if (untakenArms.length === 0) {
+      continue;
+    }
+    const sourceLines = await readSourceLines(filePath);
+    for (const { branch, index, line } of untakenArms) {
+      const location = branch.locations?.[index]?.start?.line ? branch.locations[index] : branch.loc;
+      results.push({
+        ruleId: "uncovered-branch",
+        level: "warning",
+        message: `Branch not covered by tests: ${describeBranchArm(branch, index, sourceLines)}`,
+        file: filePath,
+        region: sarifRegion(location?.start ?? { line }, location?.end),
+      });
+    }
+  }
+
+  return formatSarifLog(
+    [
+      { id: "uncovered-function", description: "Function not covered by tests", level: "warning" },
+      { id: "uncovered-branch", description: "Branch not covered by tests", level: "warning" },
+    ],
+    results,
+    projectRoot
+  );
+}
+
+/**
+ * Hit count per line, from the statements starting on it, in line order
+ */
+function getLineHits(fileData: FileCoverage): Map<number, number> {
+  const lineHits = new Map<number, number>();
+  for (const [stmtId, count] of Object.entries(fileData.s || {})) {
+    const line = fileData.statementMap?.[stmtId]?.start?.line;
+    if (line) {
+      lineHits.set(line, Math.max(lineHits.get(line) ?? 0, count));
+    }
+  }
+  return new Map([...lineHits].sort(([a], [b]) => a - b));
+}
+
+function functionName(fileData: FileCoverage, fnId: string): string {
+  return fileData.fnMap?.[fnId]?.name || `(anonymous_${fnId})`;
+}
+
+function branchLine(branch: FileCoverage["branchMap"][string] | undefined): number {
+  return branch?.loc?.start?.line ?? branch?.locations?.[0]?.start?.line ?? 0;
+}
+
+/**
+ * Convert an Istanbul location (1-based lines, 0-based columns) to a SARIF region
+ */
+function sarifRegion(
+  start: { line?: number; column?: number },
+  end?: { line?: number; column?: number }
+): SarifRegion {
+  const region: SarifRegion = { startLine: start.line ?? 1 };
+  if (start.column !== undefined) {
+    region.startColumn = start.column + 1;
+  }
+  if (end?.line) {
+    region.endLine = end.line;
+    // Istanbul end columns are exclusive, as are SARIF's
+    if (end.column !== undefined && end.column !== null) {
+      region.endColumn = end.column + 1;
+    }
+  }
+  return region;
+}
+
+function rate(covered: number, total: number): number {
+  return total > 0 ? Math.round((covered / total) * 10000) / 10000 : 1;
+}
+
+async function readSourceLines(filePath: string): Promise<string[]> {
+  try {
+    return (await readFile(filePath, "utf-8")).split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
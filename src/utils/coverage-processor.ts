@@ -1,6 +1,12 @@
+import { readFile } from "fs/promises";
+import { isAbsolute, relative } from "path";
 import {
+  CoverageMetrics,
   RawCoverageData,
   CoverageAnalysisResult,
+  UncoveredBranchArm,
+  UncoveredRange,
+  UncoveredSourceFile,
 } from "../types/coverage-types.js";
 import { getVitestCoverageThresholds, checkThresholdsMet, getThresholdViolations } from './vitest-config-reader.js';
 import { projectContext } from '../context/project-context.js';
@@ -40,8 +46,19 @@ interface FileBreakdownItem {
 
 export interface CoverageProcessingOptions {
   target: string;
+  /** Attach the source of uncovered ranges and branch arms */
+  includeSource?: boolean;
+  /** Root the analyzed files belong to (default: the current project root) */
+  projectRoot?: string;
 }
 
+/** Lines of surrounding code shown around each uncovered range */
+const SOURCE_CONTEXT_LINES = 2;
+/** Longer uncovered ranges (e.g. a whole untested file) are cut after this many lines */
+const MAX_RANGE_LINES = 20;
+/** Lines shown for a single branch arm */
+const MAX_BRANCH_LINES = 5;
+
 /**
  * Create a one-line summary for MCP clients
  */
@@ -88,7 +105,7 @@ export async function processCoverageData(
     const totals = extractTotals(rawData.summary);
 
     // Get thresholds from Vitest config and check if coverage meets them
-    const projectRoot = projectContext.getProjectRoot();
+    const projectRoot = options.projectRoot ?? projectContext.getProjectRoot();
     const thresholds = await getVitestCoverageThresholds(projectRoot);
     
     if (process.env.VITEST_MCP_DEBUG) {
@@ -108,10 +125,21 @@ export async function processCoverageData(
       duration: 0,
     };
 
+    const fileStats = fileEntries.map(([filePath, fileData]) => ({
+      path: filePath,
+      stats: calculateFileStats(fileData),
+    }));
+
     // Only include threshold information if thresholds are configured
     if (thresholds) {
-      const meetsThreshold = checkThresholdsMet(coverage, thresholds);
-      const thresholdViolations = getThresholdViolations(coverage, thresholds);
+      // perFile and glob thresholds are checked against the counts of each file
+      const fileCounts = fileStats.map(({ path, stats }) => ({
+        path: isAbsolute(path) ? relative(projectRoot, path) : path,
+        covered: toMetrics(stats, "covered"),
+        totals: toMetrics(stats, "total"),
+      }));
+      const meetsThreshold = checkThresholdsMet(coverage, thresholds, fileCounts);
+      const thresholdViolations = getThresholdViolations(coverage, thresholds, fileCounts);
       
       result.meetsThreshold = meetsThreshold;
       if (thresholdViolations.length > 0) {
@@ -122,39 +150,23 @@ export async function processCoverageData(
     if (format === "detailed") {
       const uncovered = await extractUncoveredItems(
         rawData.files,
-        options,
+        projectRoot,
         format
       );
       result.uncovered = uncovered;
     }
 
+    if (options.includeSource) {
+      result.uncoveredSource = await extractUncoveredSource(rawData.files, projectRoot);
+    }
+
     if (format === "detailed" && fileEntries.length > 0) {
-      const fileBreakdown: FileBreakdownItem[] = [];
-
-      for (const [filePath, fileData] of fileEntries) {
-        const fileStats = calculateFileStats(fileData);
-        fileBreakdown.push({
-          path: filePath,
-          coverage: {
-            lines: fileStats.lines.pct,
-            functions: fileStats.functions.pct,
-            branches: fileStats.branches.pct,
-            statements: fileStats.statements.pct,
-          },
-          totals: {
-            lines: fileStats.lines.total,
-            functions: fileStats.functions.total,
-            branches: fileStats.branches.total,
-            statements: fileStats.statements.total,
-          },
-          covered: {
-            lines: fileStats.lines.covered,
-            functions: fileStats.functions.covered,
-            branches: fileStats.branches.covered,
-            statements: fileStats.statements.covered,
-          },
-        });
-      }
+      const fileBreakdown: FileBreakdownItem[] = fileStats.map(({ path, stats }) => ({
+        path,
+        coverage: toMetrics(stats, "pct"),
+        totals: toMetrics(stats, "total"),
+        covered: toMetrics(stats, "covered"),
+      }));
 
       result.fileBreakdown = fileBreakdown;
     }
@@ -224,11 +236,44 @@ function calculateFileStats(fileData: CoverageFileData): {
 }
 
 /**
- * Extract uncovered items from all files
+ * Coverage percentages of some files of a fileBreakdown, from their summed counts
+ */
+export function summarizeFileBreakdown(files: NonNullable<CoverageAnalysisResult["fileBreakdown"]>): CoverageMetrics {
+  const percentage = (metric: keyof CoverageMetrics) => {
+    const total = files.reduce((sum, file) => sum + file.totals[metric], 0);
+    const covered = files.reduce((sum, file) => sum + file.covered[metric], 0);
+    return total > 0 ? Math.round((covered / total) * 100) : 0;
+  };
+
+  return {
+    lines: percentage("lines"),
+    functions: percentage("functions"),
+    branches: percentage("branches"),
+    statements: percentage("statements"),
+  };
+}
+
+/**
+ * One value (pct, total or covered) of each metric of calculateFileStats
+ */
+function toMetrics(
+  stats: ReturnType<typeof calculateFileStats>,
+  key: "pct" | "total" | "covered"
+): CoverageMetrics {
+  return {
+    lines: stats.lines[key],
+    functions: stats.functions[key],
+    branches: stats.branches[key],
+    statements: stats.statements[key],
+  };
+}
+
+/**
+ * Extract uncovered items from all files, keyed by path relative to the project root
  */
 async function extractUncoveredItems(
   files: RawCoverageData["files"],
-  options: CoverageProcessingOptions,
+  projectRoot: string,
   format: "summary" | "detailed" = "summary"
 ): Promise<{
   [filePath: string]: {
@@ -251,7 +296,7 @@ async function extractUncoveredItems(
 
   for (const [filePath, fileData] of Object.entries(files)) {
     try {
-      const fileName = filePath.split("/").pop() || filePath;
+      const fileName = isAbsolute(filePath) ? relative(projectRoot, filePath) : filePath;
 
       const fileUncovered = {
         lines: [] as number[],
@@ -322,6 +367,188 @@ async function extractUncoveredItems(
   return uncoveredByFile;
 }
 
+type FileCoverage = RawCoverageData["files"][string];
+type BranchMapping = FileCoverage["branchMap"][string];
+
+/**
+ * Collect the source of uncovered statements, merged into ranges of consecutive
+ * lines, and of branch arms that never ran
+ */
+async function extractUncoveredSource(
+  files: RawCoverageData["files"],
+  projectRoot: string
+): Promise<UncoveredSourceFile[]> {
+  const uncoveredSource: UncoveredSourceFile[] = [];
+
+  for (const [filePath, fileData] of Object.entries(files)) {
+    const spans: Array<{ start: number; end: number }> = [];
+    for (const [stmtId, count] of Object.entries(fileData.s || {})) {
+      const location = fileData.statementMap?.[stmtId];
+      const start = location?.start?.line;
+      if (count === 0 && start) {
+        spans.push({ start, end: Math.max(start, location.end?.line ?? start) });
+      }
+    }
+
+    const untakenArms = findUntakenBranchArms(fileData);
+    if (spans.length === 0 && untakenArms.length === 0) {
+      continue;
+    }
+
+    let sourceLines: string[];
+    try {
+      sourceLines = (await readFile(filePath, "utf-8")).replace(/\r?\n$/, "").split(/\r?\n/);
+    } catch {
+      // Without the source there is nothing to add to the line numbers in uncovered
+      continue;
+    }
+
+    const ranges: UncoveredRange[] = mergeLineSpans(spans).map(({ start, end }) => ({
+      startLine: start,
+      endLine: end,
+      source: formatSource(sourceLines, start, end, SOURCE_CONTEXT_LINES, MAX_RANGE_LINES),
+    }));
+
+    const branches: UncoveredBranchArm[] = untakenArms.map(({ branch, index, line }) => {
+      const endLine = branch.locations?.[index]?.end?.line ?? line;
+      return {
+        line,
+        type: branch.type ?? "branch",
+        arm: describeBranchArm(branch, index, sourceLines),
+        source: formatSource(sourceLines, line, Math.max(line, endLine), 0, MAX_BRANCH_LINES),
+      };
+    });
+
+    uncoveredSource.push({ file: relative(projectRoot, filePath), ranges, branches });
+  }
+
+  return uncoveredSource;
+}
+
+/**
+ * Find branch arms with a zero count, in source order
+ */
+export function findUntakenBranchArms(
+  fileData: FileCoverage
+): Array<{ branch: BranchMapping; index: number; line: number }> {
+  const arms: Array<{ branch: BranchMapping; index: number; line: number; column: number }> = [];
+
+  for (const [branchId, counts] of Object.entries(fileData.b || {})) {
+    const branch = fileData.branchMap?.[branchId];
+    if (!branch) {
+      continue;
+    }
+    counts.forEach((count, index) => {
+      // Implicit else arms have no location of their own; use the if statement's
+      const ownStart = branch.locations?.[index]?.start;
+      const start = ownStart?.line ? ownStart : branch.loc?.start;
+      if (count === 0 && start?.line) {
+        arms.push({ branch, index, line: start.line, column: start.column ?? 0 });
+      }
+    });
+  }
+
+  return arms.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Merge overlapping and adjacent line spans
+ */
+function mergeLineSpans(spans: Array<{ start: number; end: number }>): Array<{ start: number; end: number }> {
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end + 1) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Format lines start to end with line numbers and some context, marking the
+ * lines in the range with ">". Ranges longer than maxLines are cut.
+ */
+function formatSource(
+  sourceLines: string[],
+  start: number,
+  end: number,
+  contextLines: number,
+  maxLines: number
+): string {
+  const shownEnd = Math.min(end, start + maxLines - 1, sourceLines.length);
+  const first = Math.max(1, start - contextLines);
+  const last = shownEnd < end ? shownEnd : Math.min(sourceLines.length, end + contextLines);
+  const width = String(last).length;
+
+  const lines: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const marker = line >= start && line <= end ? ">" : " ";
+    lines.push(`${marker} ${String(line).padStart(width)} | ${sourceLines[line - 1] ?? ""}`.trimEnd());
+  }
+  if (shownEnd < end) {
+    lines.push(`  ... ${end - shownEnd} more line(s)`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describe the arm of a branch that never ran, by Istanbul branch type
+ */
+export function describeBranchArm(branch: BranchMapping, index: number, sourceLines: string[]): string {
+  switch (branch.type) {
+    case "if":
+      if (index === 0) {
+        return "if: condition never true";
+      }
+      return branch.locations?.[index]?.start?.line
+        ? "else: condition never false"
+        : "implicit else: condition never false";
+    case "cond-expr":
+      return index === 0 ? "ternary: true branch never taken" : "ternary: false branch never taken";
+    case "binary-expr": {
+      if (index === 0) {
+        return "logical expression never evaluated";
+      }
+      const operator = findLogicalOperator(branch, index, sourceLines);
+      return operator
+        ? `operand after "${operator}" never evaluated`
+        : `operand ${index + 1} of logical expression never evaluated`;
+    }
+    case "switch":
+      return `switch: case ${index + 1} never matched`;
+    case "default-arg":
+      return "default value never used";
+    case "branch":
+    case undefined:
+      return "block never executed";
+    default:
+      return `${branch.type}: arm ${index + 1} never taken`;
+  }
+}
+
+/**
+ * Read the operator (??, || or &&) between two operands of a logical expression
+ */
+function findLogicalOperator(branch: BranchMapping, index: number, sourceLines: string[]): string | undefined {
+  const previousEnd = branch.locations?.[index - 1]?.end;
+  const start = branch.locations?.[index]?.start;
+  if (!previousEnd?.line || !start?.line) {
+    return undefined;
+  }
+
+  const between: string[] = [];
+  for (let line = previousEnd.line; line <= start.line; line++) {
+    const text = sourceLines[line - 1] ?? "";
+    const from = line === previousEnd.line ? (previousEnd.column ?? 0) : 0;
+    const to = line === start.line ? (start.column ?? text.length) : text.length;
+    between.push(text.slice(from, to));
+  }
+  return between.join("\n").match(/\?\?|\|\||&&/)?.[0];
+}
+
 /**
  * Extract totals from summary
  */
@@ -1,5 +1,7 @@
 import { promises as fs } from 'fs';
-import { join, relative, resolve } from 'path';
+import { join, relative, resolve, sep } from 'path';
+import { getConfig } from '../config/config-loader.js';
+import { matchesGlob } from './glob.js';
 
 /**
  * Basic file utilities for the Vitest MCP server
@@ -36,23 +38,69 @@ export async function isDirectory(path: string): Promise<boolean> {
 }
 
 /**
- * Find test files in a directory recursively
+ * Discovery settings for findTestFiles. Omitted settings come from the
+ * `discovery` section of the configuration.
  */
-export async function findTestFiles(searchPath: string = process.cwd()): Promise<TestFile[]> {
+export interface TestDiscoveryOptions {
+  /** Globs a file must match to be a test file */
+  testPatterns?: string[];
+  /** Names or globs of files and directories to skip */
+  excludePatterns?: string[];
+  /** How many directory levels below the search path are scanned */
+  maxDepth?: number;
+  /** Directory patterns are also matched from, usually the project root. Defaults to the search path. */
+  root?: string;
+}
+
+/**
+ * Find test files in a directory recursively. A pattern matches if it matches
+ * the path relative to either the search path or the root. Exclude patterns
+ * without a slash match file and directory names at any depth, like .gitignore.
+ */
+export async function findTestFiles(
+  searchPath: string = process.cwd(),
+  options: TestDiscoveryOptions = {}
+): Promise<TestFile[]> {
   const testFiles: TestFile[] = [];
   const absoluteSearchPath = resolve(searchPath);
-  
-  async function scanDirectory(dir: string): Promise<void> {
+  const root = resolve(options.root ?? absoluteSearchPath);
+
+  const needsConfig = !options.testPatterns || !options.excludePatterns || options.maxDepth === undefined;
+  const discovery = needsConfig ? (await getConfig()).discovery : undefined;
+  const testPatterns = options.testPatterns ?? discovery?.testPatterns ?? [];
+  const excludePatterns = options.excludePatterns ?? discovery?.excludePatterns ?? [];
+  const maxDepth = options.maxDepth ?? discovery?.maxDepth ?? 0;
+
+  const candidatePaths = (fullPath: string): string[] => {
+    const paths = [relative(absoluteSearchPath, fullPath), relative(root, fullPath)];
+    return [...new Set(paths.filter((path) => !path.startsWith('..')).map((path) => path.split(sep).join('/')))];
+  };
+
+  const isExcluded = (name: string, fullPath: string): boolean =>
+    excludePatterns.some((pattern) =>
+      !pattern.includes('/')
+        ? matchesGlob(name, pattern)
+        : candidatePaths(fullPath).some((path) => matchesGlob(path, pattern))
+    );
+
+  async function scanDirectory(dir: string, depth: number): Promise<void> {
     try {
       const entries = await fs.readdir(dir, { withFileTypes: true });
       
       for (const entry of entries) {
         const fullPath = join(dir, entry.name);
-        
-        // Skip node_modules and common build directories
-        if (entry.isDirectory() && !['node_modules', 'dist', 'build', '.git'].includes(entry.name)) {
-          await scanDirectory(fullPath);
-        } else if (entry.isFile() && isTestFile(entry.name)) {
+        if (isExcluded(entry.name, fullPath)) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          if (depth < maxDepth) {
+            await scanDirectory(fullPath, depth + 1);
+          }
+        } else if (
+          entry.isFile() &&
+          testPatterns.some((pattern) => candidatePaths(fullPath).some((path) => matchesGlob(path, pattern)))
+        ) {
           const relativePath = relative(absoluteSearchPath, fullPath);
           testFiles.push({
             path: fullPath,
@@ -66,23 +114,10 @@ export async function findTestFiles(searchPath: string = process.cwd()): Promise
     }
   }
   
-  await scanDirectory(absoluteSearchPath);
+  await scanDirectory(absoluteSearchPath, 0);
   return testFiles.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
 }
 
-/**
- * Check if a filename is a test file
- */
-function isTestFile(filename: string): boolean {
-  const testPatterns = [
-    /\.test\.(js|ts|jsx|tsx)$/,
-    /\.spec\.(js|ts|jsx|tsx)$/,
-    /__tests__\/.*\.(js|ts|jsx|tsx)$/
-  ];
-  
-  return testPatterns.some(pattern => pattern.test(filename));
-}
-
 /**
  * Determine the type of test based on file path
  */
@@ -0,0 +1,168 @@
+import { execFile } from "child_process";
+import { existsSync, promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run a git command in the given directory and return its stdout
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Split NUL-separated (-z) git output, which keeps unusual file names unquoted
+ */
+function splitPaths(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Check that ref is a safe, existing commit-ish in the repository containing projectRoot
+ */
+async function verifyCommitRef(projectRoot: string, ref: string): Promise<void> {
+  // Refuse anything git could read as an option
+  if (ref.startsWith("-") || /\s/.test(ref)) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+
+  try {
+    await git(projectRoot, ["rev-parse", "--is-inside-work-tree"]);
+  } catch {
+    throw new Error(`Not a git repository: ${projectRoot}`);
+  }
+
+  try {
+    await git(projectRoot, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+}
+
+/**
+ * List files under projectRoot that changed compared to a git ref (default HEAD),
+ * including uncommitted and untracked files. Deleted files are left out.
+ * Returns absolute paths.
+ */
+export async function getChangedFiles(projectRoot: string, since = "HEAD"): Promise<string[]> {
+  await verifyCommitRef(projectRoot, since);
+
+  // --relative limits the diff to projectRoot and prints paths relative to it
+  const [diffOutput, untrackedOutput] = await Promise.all([
+    git(projectRoot, ["diff", "--name-only", "--relative", "--diff-filter=ACMR", "-z", since, "--"]),
+    git(projectRoot, ["ls-files", "--others", "--exclude-standard", "-z"]),
+  ]);
+
+  const changedFiles = new Set(
+    [...splitPaths(diffOutput), ...splitPaths(untrackedOutput)].map((file) => resolve(projectRoot, file))
+  );
+  return [...changedFiles].sort();
+}
+
+/**
+ * Get a zero-context unified diff of the files under projectRoot against a git ref
+ * (default HEAD), with paths relative to projectRoot. Untracked files are included
+ * as entirely added.
+ */
+export async function getDiff(projectRoot: string, since = "HEAD"): Promise<string> {
+  await verifyCommitRef(projectRoot, since);
+
+  const diffOptions = ["--unified=0", "--no-color", "--no-ext-diff"];
+  const [diffOutput, untrackedOutput] = await Promise.all([
+    git(projectRoot, ["diff", ...diffOptions, "--relative", since, "--"]),
+    git(projectRoot, ["ls-files", "--others", "--exclude-standard", "-z"]),
+  ]);
+
+  const untrackedDiffs: string[] = [];
+  for (const file of splitPaths(untrackedOutput)) {
+    try {
+      untrackedDiffs.push(await git(projectRoot, ["diff", ...diffOptions, "--no-index", "--", "/dev/null", file]));
+    } catch (error) {
+      // --no-index exits with 1 when the files differ, which they always do here
+      const stdout = (error as { stdout?: string }).stdout;
+      if (typeof stdout === "string") {
+        untrackedDiffs.push(stdout);
+      }
+    }
+  }
+
+  return [diffOutput, ...untrackedDiffs].join("");
+}
+
+/**
+ * Get the commit HEAD points to, or null when projectRoot is not in a git
+ * repository or has no commits yet
+ */
+export async function getHeadCommit(projectRoot: string): Promise<string | null> {
+  try {
+    return (await git(projectRoot, ["rev-parse", "--verify", "--quiet", "HEAD"])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get projectRoot's path relative to the repository root with a trailing slash,
+ * e.g. "packages/app/", or "" when it is the repository root or not in a git repository
+ */
+export async function getRepositoryPrefix(projectRoot: string): Promise<string> {
+  try {
+    return (await git(projectRoot, ["rev-parse", "--show-prefix"])).trim();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * A temporary checkout of another commit, created with `git worktree add`
+ */
+export interface Worktree {
+  /** The project root's counterpart inside the worktree */
+  projectDir: string;
+  /** Remove the worktree and its directory */
+  remove(): Promise<void>;
+}
+
+/**
+ * Check out ref into a temporary worktree, e.g. to run tests against an older commit.
+ * node_modules are not tracked, so the ones installed in the working tree are linked in.
+ */
+export async function createWorktree(projectRoot: string, ref: string): Promise<Worktree> {
+  await verifyCommitRef(projectRoot, ref);
+
+  const repoRoot = (await git(projectRoot, ["rev-parse", "--show-toplevel"])).trim();
+  const prefix = (await git(projectRoot, ["rev-parse", "--show-prefix"])).trim();
+  const worktreeDir = await fs.mkdtemp(join(tmpdir(), "vitest-mcp-worktree-"));
+
+  const remove = async () => {
+    await git(repoRoot, ["worktree", "remove", "--force", worktreeDir]).catch(() => undefined);
+    await fs.rm(worktreeDir, { recursive: true, force: true });
+    await git(repoRoot, ["worktree", "prune"]).catch(() => undefined);
+  };
+
+  try {
+    await git(repoRoot, ["worktree", "add", "--detach", "--quiet", worktreeDir, `${ref}^{commit}`]);
+
+    const projectDir = resolve(worktreeDir, prefix);
+    for (const [source, target] of [[repoRoot, worktreeDir], [projectRoot, projectDir]]) {
+      const nodeModules = join(source, "node_modules");
+      if (existsSync(nodeModules) && !existsSync(join(target, "node_modules"))) {
+        await fs.symlink(nodeModules, join(target, "node_modules"), "junction");
+      }
+    }
+
+    return { projectDir, remove };
+  } catch (error) {
+    await remove();
+    throw new Error(
+      `Failed to check out ${ref}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Minimal glob matching for test discovery. Supports `**`, `*`, `?`,
+ * `[abc]` / `[!abc]` classes and `{a,b}` alternatives (which may nest).
+ * Paths and patterns use `/` as separator.
+ */
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const glob = normalizeGlobPath(pattern);
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] !== "*") {
+        source += "[^/]*";
+        continue;
+      }
+      // "**" only spans directories as a whole path segment
+      const atSegmentStart = i === 0 || glob[i - 1] === "/";
+      const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+      if (!atSegmentStart || !atSegmentEnd) {
+        source += "[^/]*";
+        i++;
+        continue;
+      }
+      if (i + 2 === glob.length) {
+        // Trailing "/**" also matches the directory itself
+        source = i === 0 ? ".*" : `${source.slice(0, -1)}(?:/.*)?`;
+      } else {
+        source += "(?:.*/)?";
+        i++;
+      }
+      i++;
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      let characterClass = glob.slice(i + 1, end);
+      if (characterClass.startsWith("!") || characterClass.startsWith("^")) {
+        characterClass = `^/${characterClass.slice(1)}`;
+      }
+      source += `[${characterClass}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$|()\\{}]/g, "\\$&");
+    }
+  }
+  // Unclosed braces are treated as alternatives up to the end of the pattern
+  source += ")".repeat(braceDepth);
+
+  const regex = new RegExp(`^${source}$`);
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizeGlobPath(path));
+}
+
+function normalizeGlobPath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
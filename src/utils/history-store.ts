@@ -0,0 +1,164 @@
+import { promises as fs } from "fs";
+import { join, resolve } from "path";
+import { getConfig } from "../config/config-loader.js";
+import { getHeadCommit } from "./git-utils.js";
+import type { ProcessedTestResult } from "../tools/run-tests.js";
+import type { CoverageAnalysisResult } from "../types/coverage-types.js";
+
+/** Directory inside the project root holding vitest-mcp state */
+export const STATE_DIRECTORY = ".vitest-mcp";
+const HISTORY_FILE = "history.jsonl";
+
+/** How to turn on history recording, which is off by default */
+export const ENABLE_HISTORY_HINT =
+  'Enable it with "history": { "enabled": true } in .vitest-mcp.json, --history or VITEST_MCP_HISTORY=true.';
+
+interface HistoryRecordBase {
+  /** ISO 8601 time the result was recorded */
+  timestamp: string;
+  /** HEAD commit at the time of the run, null outside git repositories */
+  commit: string | null;
+  /** Target the tool was called with, relative to the project root */
+  target: string;
+}
+
+export interface TestRunHistoryRecord extends HistoryRecordBase {
+  kind: "test";
+  result: ProcessedTestResult;
+}
+
+export interface CoverageHistoryRecord extends HistoryRecordBase {
+  kind: "coverage";
+  result: CoverageAnalysisResult;
+}
+
+export type HistoryRecord = TestRunHistoryRecord | CoverageHistoryRecord;
+
+/**
+ * Append-only JSONL history of test and coverage results per project root,
+ * stored in <projectRoot>/.vitest-mcp/history.jsonl
+ */
+class HistoryStore {
+  /** Serializes writes, so pruning never races with an append */
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private recordCounts = new Map<string, number>();
+
+  /**
+   * Get the path of the history file for a project root
+   */
+  getHistoryPath(projectRoot: string): string {
+    return join(resolve(projectRoot), STATE_DIRECTORY, HISTORY_FILE);
+  }
+
+  /**
+   * Record a test run. Passed tests are kept, since trend queries need them;
+   * captured console output is not.
+   */
+  async recordTestRun(projectRoot: string, target: string, result: ProcessedTestResult): Promise<void> {
+    await this.record(projectRoot, { kind: "test", target, result: { ...result, logs: undefined } });
+  }
+
+  /**
+   * Record a coverage analysis, without the source snippets of uncovered code
+   */
+  async recordCoverage(projectRoot: string, target: string, result: CoverageAnalysisResult): Promise<void> {
+    await this.record(projectRoot, { kind: "coverage", target, result: { ...result, uncoveredSource: undefined } });
+  }
+
+  /**
+   * Read all records of a project root, oldest first. Unreadable lines are skipped.
+   */
+  async read(projectRoot: string): Promise<HistoryRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getHistoryPath(projectRoot), "utf-8");
+    } catch {
+      return [];
+    }
+
+    const records: HistoryRecord[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip lines truncated by a crash mid-write
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Check whether results should be recorded
+   */
+  async isEnabled(): Promise<boolean> {
+    const config = await getConfig();
+    return config.history.enabled;
+  }
+
+  /**
+   * Forget cached record counts (mainly for testing)
+   */
+  reset(): void {
+    this.recordCounts.clear();
+  }
+
+  /**
+   * Append a record, unless history is disabled. Failures are logged, never thrown:
+   * losing a history entry must not fail the tool call that produced it.
+   */
+  private async record(
+    projectRoot: string,
+    entry: Omit<TestRunHistoryRecord, "timestamp" | "commit"> | Omit<CoverageHistoryRecord, "timestamp" | "commit">
+  ): Promise<void> {
+    try {
+      if (!(await this.isEnabled())) {
+        return;
+      }
+
+      const record = {
+        timestamp: new Date().toISOString(),
+        commit: await getHeadCommit(projectRoot),
+        ...entry,
+      } as HistoryRecord;
+      const { maxRecords } = (await getConfig()).history;
+
+      const write = this.pendingWrite.then(() => this.append(projectRoot, record, maxRecords));
+      this.pendingWrite = write.catch(() => undefined);
+      await write;
+    } catch (error) {
+      if (process.env.VITEST_MCP_DEBUG) {
+        console.error("[DEBUG] Failed to record history:", error);
+      }
+    }
+  }
+
+  private async append(projectRoot: string, record: HistoryRecord, maxRecords: number): Promise<void> {
+    const historyPath = this.getHistoryPath(projectRoot);
+    const directory = join(resolve(projectRoot), STATE_DIRECTORY);
+    await fs.mkdir(directory, { recursive: true });
+    // Keep the state directory out of version control without touching the project's .gitignore
+    await fs.writeFile(join(directory, ".gitignore"), "*\n", { flag: "wx" }).catch(() => undefined);
+
+    await fs.appendFile(historyPath, JSON.stringify(record) + "\n");
+
+    const key = resolve(projectRoot);
+    const count = this.recordCounts.has(key)
+      ? this.recordCounts.get(key)! + 1
+      : (await this.read(projectRoot)).length;
+    this.recordCounts.set(key, count);
+
+    // Prune in batches, so the file is not rewritten on every append once full
+    if (count > maxRecords + Math.max(1, Math.floor(maxRecords / 10))) {
+      const kept = (await this.read(projectRoot)).slice(-maxRecords);
+      const tempPath = `${historyPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, kept.map((entry) => JSON.stringify(entry) + "\n").join(""));
+      await fs.rename(tempPath, historyPath);
+      this.recordCounts.set(key, kept.length);
+    }
+  }
+}
+
+export const historyStore = new HistoryStore();
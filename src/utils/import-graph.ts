@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { fileExists, isDirectory } from './file-utils.js';
+
+/**
+ * Static import graph between test files and the local modules they import.
+ * Only relative specifiers are followed; packages and path aliases are ignored.
+ */
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+
+/** TypeScript ESM imports use the emitted extension, e.g. './utils.js' for utils.ts */
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const IMPORT_PATTERNS = [
+  // import x from '...', import '...', import type { X } from '...', export * from '...'
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  // import('...'), require('...')
+  /\b(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+/**
+ * A changed file and the test files that import it, directly or transitively
+ */
+export interface AffectedTestMapping {
+  changedFile: string;
+  tests: string[];
+}
+
+/**
+ * Extract the module specifiers a file imports
+ */
+export function parseImportSpecifiers(code: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return [...specifiers];
+}
+
+/**
+ * Resolve a relative import specifier to a file on disk
+ */
+export async function resolveImport(fromFile: string, specifier: string): Promise<string | undefined> {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+    return undefined;
+  }
+
+  const base = resolve(dirname(fromFile), specifier.split('?')[0]);
+  const extension = extname(base);
+  const candidates = [
+    base,
+    ...(EMITTED_TO_SOURCE[extension] ?? []).map((sourceExtension) => base.slice(0, -extension.length) + sourceExtension),
+    ...SOURCE_EXTENSIONS.map((sourceExtension) => base + sourceExtension),
+    ...SOURCE_EXTENSIONS.map((sourceExtension) => join(base, `index${sourceExtension}`)),
+  ];
+
+  for (const candidate of candidates) {
+    if ((await fileExists(candidate)) && !(await isDirectory(candidate))) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build a reverse import graph (module -> modules importing it) reachable from the given test files
+ */
+async function buildReverseGraph(testFiles: string[]): Promise<Map<string, Set<string>>> {
+  const importers = new Map<string, Set<string>>();
+  const visited = new Set<string>();
+  const queue = [...testFiles];
+
+  while (queue.length > 0) {
+    const file = queue.pop()!;
+    if (visited.has(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    let code: string;
+    try {
+      code = await fs.readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const specifier of parseImportSpecifiers(code)) {
+      const dependency = await resolveImport(file, specifier);
+      if (!dependency) {
+        continue;
+      }
+
+      if (!importers.has(dependency)) {
+        importers.set(dependency, new Set());
+      }
+      importers.get(dependency)!.add(file);
+
+      if (!visited.has(dependency) && !dependency.includes('/node_modules/')) {
+        queue.push(dependency);
+      }
+    }
+  }
+
+  return importers;
+}
+
+/**
+ * Map each changed file to the test files that depend on it. A changed test file maps to itself.
+ * Changed files no test depends on are returned with an empty test list.
+ */
+export async function findAffectedTests(
+  changedFiles: string[],
+  testFiles: string[]
+): Promise<AffectedTestMapping[]> {
+  const importers = await buildReverseGraph(testFiles);
+  const testFileSet = new Set(testFiles);
+
+  return changedFiles.map((changedFile) => {
+    const tests = new Set<string>();
+    const visited = new Set<string>([changedFile]);
+    const queue = [changedFile];
+
+    while (queue.length > 0) {
+      const file = queue.pop()!;
+      if (testFileSet.has(file)) {
+        tests.add(file);
+      }
+      for (const importer of importers.get(file) ?? []) {
+        if (!visited.has(importer)) {
+          visited.add(importer);
+          queue.push(importer);
+        }
+      }
+    }
+
+    return { changedFile, tests: [...tests].sort() };
+  });
+}
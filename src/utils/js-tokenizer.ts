@@ -0,0 +1,282 @@
+/**
+ * Minimal JavaScript/TypeScript tokenizer for reading source files without
+ * executing them, e.g. test files and Vitest configs
+ */
+
+export interface Token {
+  type: 'identifier' | 'string' | 'template' | 'punctuator' | 'other';
+  value: string;
+  line: number;
+}
+
+const IDENTIFIER = /[\w$]+/y;
+const NUMBER = /[\w.]+/y;
+const REGEX_FLAGS = /[a-z]*/y;
+
+/** Keywords after which a slash starts a regular expression rather than a division */
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'instanceof', 'yield', 'await',
+]);
+
+/**
+ * Split source code into identifiers, string and template literals and punctuation.
+ * Comments, regular expressions and template expressions are skipped.
+ */
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const advanceTo = (end: number) => {
+    for (let k = i; k < end; k++) {
+      if (code[k] === '\n') {
+        line++;
+      }
+    }
+    i = end;
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+    const startLine = line;
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+    } else if (char === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      advanceTo(end === -1 ? code.length : end + 2);
+    } else if (char === '"' || char === "'") {
+      const end = skipString(code, i);
+      tokens.push({ type: 'string', value: unescapeString(code.slice(i + 1, end - 1)), line: startLine });
+      advanceTo(end);
+    } else if (char === '`') {
+      const end = skipTemplate(code, i);
+      tokens.push({ type: 'template', value: code.slice(i + 1, end - 1), line: startLine });
+      advanceTo(end);
+    } else if (/[A-Za-z_$0-9]/.test(char)) {
+      const pattern = /[0-9]/.test(char) ? NUMBER : IDENTIFIER;
+      pattern.lastIndex = i;
+      const value = pattern.exec(code)![0];
+      tokens.push({ type: pattern === NUMBER ? 'other' : 'identifier', value, line });
+      i += value.length;
+    } else if (char === '/' && startsExpression(tokens[tokens.length - 1])) {
+      const end = skipRegex(code, i);
+      tokens.push({ type: 'other', value: code.slice(i, end), line });
+      advanceTo(end);
+    } else {
+      tokens.push({ type: 'punctuator', value: char, line });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Whether a slash after this token starts a regular expression
+ */
+function startsExpression(previous: Token | undefined): boolean {
+  if (!previous) {
+    return true;
+  }
+  if (previous.type === 'punctuator') {
+    return !')]}'.includes(previous.value);
+  }
+  return previous.type === 'identifier' && KEYWORDS_BEFORE_EXPRESSION.has(previous.value);
+}
+
+/** Index after the closing quote of the string starting at start */
+function skipString(code: string, start: number): number {
+  const quote = code[start];
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === quote || code[i] === '\n') {
+      return i + 1;
+    }
+  }
+  return code.length;
+}
+
+/** Index after the closing backtick of the template literal starting at start */
+function skipTemplate(code: string, start: number): number {
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === '`') {
+      return i + 1;
+    } else if (code[i] === '$' && code[i + 1] === '{') {
+      i = skipExpression(code, i + 2) - 1;
+    }
+  }
+  return code.length;
+}
+
+/** Index after the brace closing a template expression that starts at start */
+function skipExpression(code: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"' || char === "'") {
+      i = skipString(code, i) - 1;
+    } else if (char === '`') {
+      i = skipTemplate(code, i) - 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth-- === 0) {
+      return i + 1;
+    }
+  }
+  return code.length;
+}
+
+/** Index after the flags of the regular expression starting at start */
+function skipRegex(code: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < code.length; i++) {
+    const char = code[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '\n') {
+      return i;
+    } else if (char === '/' && !inClass) {
+      REGEX_FLAGS.lastIndex = i + 1;
+      return i + 1 + REGEX_FLAGS.exec(code)![0].length;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Index of the bracket closing the (, [ or { at openIndex, or -1
+ */
+export function findClosingBracket(tokens: Token[], openIndex: number): number {
+  let depth = 0;
+  for (let j = openIndex; j < tokens.length; j++) {
+    if (tokens[j].type !== 'punctuator') {
+      continue;
+    }
+    if ('([{'.includes(tokens[j].value)) {
+      depth++;
+    } else if (')]}'.includes(tokens[j].value) && --depth === 0) {
+      return j;
+    }
+  }
+  return -1;
+}
+
+export type LiteralValue = string | number | boolean | null | LiteralValue[] | { [key: string]: LiteralValue };
+
+/**
+ * Value of the string, number, boolean, array or object literal starting at
+ * index, or undefined when the expression there is not a plain literal.
+ * Properties and elements that are not literals themselves are left out.
+ */
+export function readLiteral(tokens: Token[], index: number): LiteralValue | undefined {
+  return parseLiteral(tokens, index).value;
+}
+
+function parseLiteral(tokens: Token[], index: number): { value: LiteralValue | undefined; next: number } {
+  const end = findExpressionEnd(tokens, index);
+  const token = tokens[index];
+  let value: LiteralValue | undefined;
+  let next = index + 1;
+
+  if (token?.type === 'string' || (token?.type === 'template' && !token.value.includes('${'))) {
+    value = token.value;
+  } else if (token?.type === 'identifier' && ['true', 'false', 'null'].includes(token.value)) {
+    value = token.value === 'null' ? null : token.value === 'true';
+  } else if (token?.type === 'other' && /^\d/.test(token.value) && !isNaN(Number(token.value))) {
+    value = Number(token.value);
+  } else if (token?.type === 'punctuator' && (token.value === '[' || token.value === '{')) {
+    const close = findClosingBracket(tokens, index);
+    if (close === -1) {
+      return { value: undefined, next: tokens.length };
+    }
+    value = token.value === '[' ? readElements(tokens, index + 1, close) : readProperties(tokens, index + 1, close);
+    next = close + 1;
+  }
+
+  // `as const` and `satisfies` keep the literal
+  const isTypeAssertion = tokens[next]?.type === 'identifier' && ['as', 'satisfies'].includes(tokens[next].value);
+  return { value: next === end || isTypeAssertion ? value : undefined, next: end };
+}
+
+function readElements(tokens: Token[], start: number, close: number): LiteralValue[] {
+  const elements: LiteralValue[] = [];
+  for (let j = start; j < close; ) {
+    const { value, next } = parseLiteral(tokens, j);
+    if (value !== undefined) {
+      elements.push(value);
+    }
+    j = tokens[next]?.value === ',' ? next + 1 : Math.max(next, j + 1);
+  }
+  return elements;
+}
+
+function readProperties(tokens: Token[], start: number, close: number): { [key: string]: LiteralValue } {
+  const properties: { [key: string]: LiteralValue } = {};
+  for (let j = start; j < close; ) {
+    const key = tokens[j];
+    let next: number;
+    if (key.type !== 'punctuator' && tokens[j + 1]?.value === ':') {
+      const property = parseLiteral(tokens, j + 2);
+      if (property.value !== undefined) {
+        properties[key.value] = property.value;
+      }
+      next = property.next;
+    } else {
+      // Shorthand, spread, computed keys and methods
+      next = findExpressionEnd(tokens, j);
+    }
+    j = tokens[next]?.value === ',' ? next + 1 : Math.max(next, j + 1);
+  }
+  return properties;
+}
+
+/**
+ * Index of the comma, semicolon or closing bracket that ends the expression starting at index
+ */
+function findExpressionEnd(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let j = index; j < tokens.length; j++) {
+    const { type, value } = tokens[j];
+    if (type !== 'punctuator') {
+      continue;
+    }
+    if ('([{'.includes(value)) {
+      depth++;
+    } else if (')]}'.includes(value)) {
+      if (depth === 0) {
+        return j;
+      }
+      depth--;
+    } else if ((value === ',' || value === ';') && depth === 0) {
+      return j;
+    }
+  }
+  return tokens.length;
+}
+
+function unescapeString(value: string): string {
+  return value.replace(/\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[\s\S])/g, (_, escape: string) => {
+    if (escape.startsWith('u{')) {
+      return String.fromCodePoint(parseInt(escape.slice(2, -1), 16));
+    }
+    if (/^[ux][0-9a-fA-F]/.test(escape) && escape.length > 1) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\n': '' };
+    return simple[escape] ?? escape;
+  });
+}
@@ -0,0 +1,6 @@
+/**
+ * Round to two decimal places, e.g. for percentage point deltas and mean durations
+ */
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -4,6 +4,7 @@
 
 import { 
   RunTestsResult, 
+  ShardRunResult,
   ProcessedTestResult, 
   TestFormat, 
   TestResultContext, 
@@ -12,7 +13,8 @@ import {
   TestResults,
   FailedTestDetails,
   FailedTestSummary,
-  SkippedTest
+  SkippedTest,
+  PassedTest
 } from '../tools/run-tests.js';
 import { readFile } from 'fs/promises';
 // Performance imports temporarily removed for build compatibility
@@ -20,7 +22,7 @@ import { readFile } from 'fs/promises';
 /**
  * JSON test result structure from Vitest JSON reporter
  */
-interface VitestJsonResult {
+export interface VitestJsonResult {
   version: string;
   success: boolean;
   numTotalTestSuites: number;
@@ -38,7 +40,7 @@ interface VitestJsonResult {
   testResults: TestSuiteResult[];
 }
 
-interface TestSuiteResult {
+export interface TestSuiteResult {
   name: string;
   status: 'passed' | 'failed' | 'skipped';
   startTime: number;
@@ -47,7 +49,7 @@ interface TestSuiteResult {
   assertionResults: AssertionResult[];
 }
 
-interface AssertionResult {
+export interface AssertionResult {
   ancestorTitles: string[];
   title: string;
   fullName: string;
@@ -73,9 +75,11 @@ interface ParsedError {
  * Main output processor implementation
  */
 export class VitestOutputProcessor implements OutputProcessor {
-  async process(result: RunTestsResult, format: TestFormat, _context: TestResultContext): Promise<ProcessedTestResult> {
-    // Parse JSON data for all formats since we always use JSON reporter
-    const jsonData = this.parseVitestJson(result.stdout);
+  async process(result: RunTestsResult, format: TestFormat, context: TestResultContext): Promise<ProcessedTestResult> {
+    // Parse JSON data for all formats since we always use JSON reporter,
+    // unless the run already produced a structured report in-process
+    const jsonData = result.jsonReport ??
+      (result.shards ? this.mergeShardResults(result.shards) : this.parseVitestJson(result.stdout));
     
     if (process.env.VITEST_MCP_DEBUG) {
       console.error('[DEBUG] Processing output:');
@@ -107,7 +111,7 @@ export class VitestOutputProcessor implements OutputProcessor {
     }
 
     // Generate test results from JSON
-    const testResults = await this.generateTestResults(jsonData, format);
+    const testResults = await this.generateTestResults(jsonData, format, context.includePassedTests);
 
     // Create a one-line summary for MCP clients
     const summaryLine = this.createSummaryLine(summary, result.exitCode === 0);
@@ -122,8 +126,8 @@ export class VitestOutputProcessor implements OutputProcessor {
       executionTimeMs: Math.round((result.duration || 0) * 100) / 100  // Total operation duration in milliseconds
     };
 
-    // Only include testResults if there are failures or skipped tests
-    if (testResults && (testResults.failedTests || testResults.skippedTests)) {
+    // Only include testResults if there are failures, skipped tests or requested passed tests
+    if (testResults && (testResults.failedTests || testResults.skippedTests || testResults.passedTests)) {
       processedResult.testResults = testResults;
     }
 
@@ -160,6 +164,32 @@ export class VitestOutputProcessor implements OutputProcessor {
     return parts.join(', ') + ` (${summary.totalTests} total)`;
   }
 
+  /**
+   * Parse the JSON report of every shard and merge them into one report.
+   * A shard without a report (crash, timeout) makes the merged run unsuccessful.
+   */
+  private mergeShardResults(shards: ShardRunResult[]): VitestJsonResult | null {
+    const reports: VitestJsonResult[] = [];
+    for (const shard of shards) {
+      const report = this.parseVitestJson(shard.stdout);
+      if (report) {
+        reports.push(report);
+      } else if (process.env.VITEST_MCP_DEBUG) {
+        console.error(`[DEBUG] No JSON report found for shard ${shard.index}/${shards.length}`);
+      }
+    }
+
+    if (reports.length === 0) {
+      return null;
+    }
+
+    const merged = mergeVitestJsonResults(reports);
+    if (reports.length < shards.length) {
+      merged.success = false;
+    }
+    return merged;
+  }
+
   /**
    * Parse Vitest JSON output with improved robustness
    */
@@ -768,7 +798,8 @@ export class VitestOutputProcessor implements OutputProcessor {
    */
   private async generateTestResults(
     jsonData: VitestJsonResult | null,
-    format: TestFormat
+    format: TestFormat,
+    includePassedTests = false
   ): Promise<TestResults | undefined> {
     if (!jsonData) {
       return undefined;
@@ -779,6 +810,7 @@ export class VitestOutputProcessor implements OutputProcessor {
     // Process failed tests
     const failedTestsByFile = new Map<string, Array<FailedTestDetails | FailedTestSummary>>();
     const skippedTestsByFile = new Map<string, Array<SkippedTest>>();
+    const passedTestsByFile = new Map<string, Array<PassedTest>>();
 
     for (const suite of jsonData.testResults || []) {
       const filePath = suite.name;
@@ -831,6 +863,15 @@ export class VitestOutputProcessor implements OutputProcessor {
           };
           
           skippedTestsByFile.get(filePath)!.push(skippedTest);
+        } else if (assertion.status === 'passed' && includePassedTests) {
+          if (!passedTestsByFile.has(filePath)) {
+            passedTestsByFile.set(filePath, []);
+          }
+
+          passedTestsByFile.get(filePath)!.push({
+            testName,
+            duration: assertion.duration
+          });
         }
       }
     }
@@ -850,8 +891,15 @@ export class VitestOutputProcessor implements OutputProcessor {
       }));
     }
 
-    // Return undefined if no failures or skipped tests
-    if (!testResults.failedTests && !testResults.skippedTests) {
+    if (passedTestsByFile.size > 0) {
+      testResults.passedTests = Array.from(passedTestsByFile.entries()).map(([file, tests]) => ({
+        file,
+        tests
+      }));
+    }
+
+    // Return undefined if no failures, skipped or requested passed tests
+    if (!testResults.failedTests && !testResults.skippedTests && !testResults.passedTests) {
       return undefined;
     }
 
@@ -859,6 +907,36 @@ export class VitestOutputProcessor implements OutputProcessor {
   }
 }
 
+/**
+ * Merge the JSON reports of several Vitest runs (e.g. shards) into one report
+ */
+export function mergeVitestJsonResults(reports: VitestJsonResult[]): VitestJsonResult {
+  const sum = (field: keyof VitestJsonResult): number | undefined => {
+    const values = reports
+      .map((report) => report[field])
+      .filter((value): value is number => typeof value === 'number');
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) : undefined;
+  };
+
+  return {
+    version: reports[0]?.version ?? '',
+    success: reports.length > 0 && reports.every((report) => report.success),
+    numTotalTestSuites: sum('numTotalTestSuites') ?? 0,
+    numPassedTestSuites: sum('numPassedTestSuites') ?? 0,
+    numFailedTestSuites: sum('numFailedTestSuites') ?? 0,
+    numPendingTestSuites: sum('numPendingTestSuites'),
+    numTotalTests: sum('numTotalTests') ?? 0,
+    numPassedTests: sum('numPassedTests') ?? 0,
+    numFailedTests: sum('numFailedTests') ?? 0,
+    numSkippedTests: sum('numSkippedTests'),
+    numPendingTests: sum('numPendingTests'),
+    numTodoTests: sum('numTodoTests'),
+    startTime: Math.min(...reports.map((report) => report.startTime)),
+    endTime: Math.max(...reports.map((report) => report.endTime)),
+    testResults: reports.flatMap((report) => report.testResults),
+  };
+}
+
 /**
  * Create and export a default processor instance
  */
@@ -0,0 +1,189 @@
+import { readFile } from "fs/promises";
+import { relative } from "path";
+import type { PatchCoverage, PatchCoverageFile, RawCoverageData } from "../types/coverage-types.js";
+
+/** Longer source lines (e.g. minified code) are cut in uncovered line snippets */
+const MAX_SNIPPET_LENGTH = 200;
+
+/**
+ * Extract the added and modified lines of each file in a unified diff, as line
+ * numbers in the new version. Deleted files are left out. Paths are returned as
+ * written in the diff, without the "b/" prefix.
+ */
+export function parseUnifiedDiff(diff: string): Map<string, number[]> {
+  const changedLines = new Map<string, number[]>();
+  let currentLines: number[] | undefined;
+  let newLine = 0;
+  // Lines left in the current hunk, so "--- "/"+++ " headers are not read as content
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (line.startsWith("+")) {
+        currentLines?.push(newLine);
+        newLine++;
+        newRemaining--;
+      } else if (line.startsWith("-")) {
+        oldRemaining--;
+      } else if (line.startsWith(" ") || line === "") {
+        newLine++;
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    if (line.startsWith("+++ ")) {
+      const path = parseDiffPath(line.slice(4));
+      currentLines = path ? (changedLines.get(path) ?? []) : undefined;
+      if (path && currentLines) {
+        changedLines.set(path, currentLines);
+      }
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      oldRemaining = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      newRemaining = hunk[3] === undefined ? 1 : Number(hunk[3]);
+    }
+  }
+
+  for (const [path, lines] of changedLines) {
+    if (lines.length === 0) {
+      changedLines.delete(path);
+    }
+  }
+  return changedLines;
+}
+
+/**
+ * Parse the path of a "+++ " header, or return undefined for /dev/null
+ */
+function parseDiffPath(header: string): string | undefined {
+  let path = header.split("\t")[0].trimEnd();
+  if (path.startsWith('"') && path.endsWith('"')) {
+    path = unquoteGitPath(path.slice(1, -1));
+  }
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return path.startsWith("b/") ? path.slice(2) : path;
+}
+
+/**
+ * Decode the C-style escapes git uses for quoted paths, e.g. "sp\303\251cial.ts"
+ */
+function unquoteGitPath(quoted: string): string {
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, '"': 34, "\\": 92, a: 7, b: 8, f: 12, v: 11 };
+  const bytes: number[] = [];
+  for (let i = 0; i < quoted.length; i++) {
+    if (quoted[i] !== "\\") {
+      bytes.push(...Buffer.from(quoted[i]));
+      continue;
+    }
+    const octal = quoted.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[quoted[i + 1]] ?? quoted.charCodeAt(i + 1));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/**
+ * Intersect changed lines with the statement coverage of each file. A changed line
+ * counts when a statement starts on it, as in Istanbul's line coverage, and is
+ * covered when one of those statements ran.
+ *
+ * Diff paths must be relative to projectRoot; see stripDiffPathPrefix for diffs
+ * written relative to the repository root.
+ */
+export async function calculatePatchCoverage(
+  files: RawCoverageData["files"],
+  changedLines: Map<string, number[]>,
+  projectRoot: string
+): Promise<PatchCoverage> {
+  const patchFiles: PatchCoverageFile[] = [];
+
+  for (const [filePath, fileData] of Object.entries(files)) {
+    const lines = changedLines.get(toDiffPath(relative(projectRoot, filePath)));
+    if (!lines) {
+      continue;
+    }
+
+    const lineHits = new Map<number, number>();
+    for (const [statementId, count] of Object.entries(fileData.s || {})) {
+      const line = fileData.statementMap?.[statementId]?.start?.line;
+      if (line) {
+        lineHits.set(line, Math.max(lineHits.get(line) ?? 0, count));
+      }
+    }
+
+    const changedStatementLines = [...new Set(lines)].filter((line) => lineHits.has(line)).sort((a, b) => a - b);
+    if (changedStatementLines.length === 0) {
+      continue;
+    }
+
+    const uncoveredLines = changedStatementLines.filter((line) => lineHits.get(line) === 0);
+    const sourceLines = uncoveredLines.length > 0 ? await readSourceLines(filePath) : [];
+    const coveredLines = changedStatementLines.length - uncoveredLines.length;
+
+    patchFiles.push({
+      file: relative(projectRoot, filePath),
+      changedLines: changedStatementLines.length,
+      coveredLines,
+      percentage: Math.round((coveredLines / changedStatementLines.length) * 100),
+      uncovered: uncoveredLines.map((line) => ({
+        line,
+        source: (sourceLines[line - 1] ?? "").trim().slice(0, MAX_SNIPPET_LENGTH),
+      })),
+    });
+  }
+
+  patchFiles.sort((a, b) => a.file.localeCompare(b.file));
+  const changed = patchFiles.reduce((sum, file) => sum + file.changedLines, 0);
+  const covered = patchFiles.reduce((sum, file) => sum + file.coveredLines, 0);
+
+  return {
+    percentage: changed > 0 ? Math.round((covered / changed) * 100) : 100,
+    changedLines: changed,
+    coveredLines: covered,
+    files: patchFiles,
+  };
+}
+
+/**
+ * Re-key changed lines from paths relative to the repository root to paths relative
+ * to the project root, given the project's prefix inside the repository
+ * (e.g. "packages/app/"). Paths without the prefix are kept as they are, so a diff
+ * that is already relative to the project root still matches.
+ */
+export function stripDiffPathPrefix(changedLines: Map<string, number[]>, prefix: string): Map<string, number[]> {
+  if (!prefix) {
+    return changedLines;
+  }
+  const normalizedPrefix = prefix.endsWith("/") ? prefix : `${prefix}/`;
+  const stripped = new Map<string, number[]>();
+  for (const [path, lines] of changedLines) {
+    stripped.set(path.startsWith(normalizedPrefix) ? path.slice(normalizedPrefix.length) : path, lines);
+  }
+  return stripped;
+}
+
+function toDiffPath(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+async function readSourceLines(filePath: string): Promise<string[]> {
+  try {
+    return (await readFile(filePath, "utf-8")).split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
@@ -121,6 +121,32 @@ export function securePathResolve(projectRoot: string, userPath: string): string
   }
 }
 
+/**
+ * ! Security: Enforces the safety.allowedPaths restriction on project roots
+ * @param resolvedPath - Absolute path of the project root
+ * @param allowedPaths - Configured allowed directories; no restriction when unset
+ * @throws Error if the path is outside every allowed directory
+ */
+export function validateAllowedPath(resolvedPath: string, allowedPaths: string | string[] | undefined): void {
+  if (!allowedPaths) {
+    return;
+  }
+
+  const paths = Array.isArray(allowedPaths) ? allowedPaths : [allowedPaths];
+  const isAllowed = paths.some((allowedPath) => {
+    const resolvedAllowedPath = resolve(allowedPath);
+    return resolvedPath === resolvedAllowedPath || resolvedPath.startsWith(resolvedAllowedPath + '/');
+  });
+
+  if (!isAllowed) {
+    throw new Error(
+      `Access denied: Path "${resolvedPath}" is outside allowed directories. ` +
+      `Allowed paths: ${paths.join(', ')}. ` +
+      `Configure allowedPaths in your .vitest-mcp.json to change this restriction.`
+    );
+  }
+}
+
 /**
  * ! Security: Validates file extension against allowed types
  * @param filePath - Path to validate
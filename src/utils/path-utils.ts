@@ -0,0 +1,9 @@
+import { isAbsolute, relative } from "path";
+
+/**
+ * Check whether a file is the given path or inside it
+ */
+export function isWithin(path: string, file: string): boolean {
+  const relativePath = relative(path, file);
+  return relativePath === "" || (!relativePath.startsWith("..") && !isAbsolute(relativePath));
+}
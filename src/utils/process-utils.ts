@@ -0,0 +1,52 @@
+import { spawn, type ChildProcess } from "child_process";
+
+/**
+ * Spawn options that make a child the leader of its own process group, so
+ * killProcessTree can reach everything it starts (npx, shell, Vitest workers)
+ */
+export function processGroupOptions(): { detached: boolean } {
+  return { detached: process.platform !== "win32" };
+}
+
+/**
+ * Kill a child process together with all of its descendants.
+ * Expects the child to have been spawned with processGroupOptions().
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = "SIGTERM"): void {
+  if (!isRunning(child) || child.pid === undefined) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    // taskkill /T walks the tree; signals don't exist on Windows
+    spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => {
+      child.kill(signal);
+    });
+    return;
+  }
+
+  try {
+    // A negative pid signals the whole process group
+    process.kill(-child.pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+/**
+ * Kill a process tree with SIGTERM, then SIGKILL if it is still alive after the grace period
+ */
+export function terminateProcessTree(child: ChildProcess, gracePeriodMs = 2000): void {
+  if (!isRunning(child)) {
+    return;
+  }
+
+  killProcessTree(child, "SIGTERM");
+  const forceKill = setTimeout(() => killProcessTree(child, "SIGKILL"), gracePeriodMs);
+  forceKill.unref();
+  child.once("close", () => clearTimeout(forceKill));
+}
+
+function isRunning(child: ChildProcess): boolean {
+  return child.pid !== undefined && child.exitCode === null && child.signalCode === null;
+}
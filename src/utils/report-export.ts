@@ -0,0 +1,122 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, relative, sep } from "path";
+import { pathToFileURL } from "url";
+import { securePathResolve } from "./path-security.js";
+
+/**
+ * A rule of the SARIF log, referenced by the ruleId of each result
+ */
+export interface SarifRule {
+  id: string;
+  description: string;
+  level: "error" | "warning" | "note";
+}
+
+/**
+ * A location in a SARIF result. Lines are 1-based, columns 1-based with an exclusive end.
+ */
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SarifResultInput {
+  ruleId: string;
+  level: SarifRule["level"];
+  message: string;
+  file: string;  // Absolute path
+  region?: SarifRegion;
+}
+
+/**
+ * Resolve where a report is written. The path must stay inside the project root.
+ */
+export function resolveReportPath<F extends string>(
+  projectRoot: string,
+  options: { format: F; path?: string },
+  defaultPaths: Record<F, string>
+): string {
+  const formats = Object.keys(defaultPaths);
+  if (!formats.includes(options?.format)) {
+    const quoted = formats.map((format) => `"${format}"`);
+    throw new Error(
+      `Invalid export format "${options?.format}". Use ${quoted.slice(0, -1).join(", ")} or ${quoted[quoted.length - 1]}.`
+    );
+  }
+
+  const path = options.path ?? defaultPaths[options.format];
+  try {
+    return securePathResolve(projectRoot, path);
+  } catch (error) {
+    throw new Error(
+      `Invalid export path "${path}": ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Write a report, creating parent directories as needed
+ */
+export async function writeReport(outputPath: string, content: string): Promise<void> {
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, content, "utf-8");
+}
+
+/**
+ * Format a SARIF 2.1.0 log with a single run. Locations are relative to the
+ * project root so code scanning tools can map them to the repository.
+ */
+export function formatSarifLog(rules: SarifRule[], results: SarifResultInput[], projectRoot: string): string {
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "vitest-mcp",
+          informationUri: "https://github.com/djankies/vitest-mcp",
+          rules: rules.map((rule) => ({
+            id: rule.id,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: rule.level },
+          })),
+        },
+      },
+      originalUriBaseIds: {
+        "%SRCROOT%": { uri: pathToFileURL(`${projectRoot}${sep}`).href },
+      },
+      results: results.map((result) => ({
+        ruleId: result.ruleId,
+        level: result.level,
+        message: { text: result.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: relative(projectRoot, result.file).split(sep).map(encodeURIComponent).join("/"),
+              uriBaseId: "%SRCROOT%",
+            },
+            ...(result.region ? { region: result.region } : {}),
+          },
+        }],
+      })),
+    }],
+  };
+
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/**
+ * Escape text for XML attributes and content, dropping control characters XML 1.0 does not allow
+ */
+export function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter((char) => char.charCodeAt(0) >= 32 || char === "\t" || char === "\n" || char === "\r")
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,310 @@
+import { promises as fs } from 'fs';
+import { findClosingBracket, tokenize, type Token } from './js-tokenizer.js';
+
+/**
+ * Static outline of the describe/it/test calls in a test file. The file is
+ * tokenized, not executed, so names built at runtime are reported as written
+ * and tests registered in helper functions or loops are listed where they are called.
+ */
+
+export type TestCaseModifier = 'skip' | 'only' | 'todo' | 'each';
+
+export interface TestCaseNode {
+  type: 'describe' | 'test';
+  name: string;
+  /** 1-based line of the call, usable as the run_tests line option */
+  line: number;
+  modifiers?: TestCaseModifier[];
+  /** Tests and describe blocks inside a describe block */
+  children?: TestCaseNode[];
+}
+
+const TEST_FUNCTIONS: Record<string, TestCaseNode['type']> = {
+  describe: 'describe',
+  suite: 'describe',
+  it: 'test',
+  test: 'test',
+};
+
+/** Jest-style aliases: xit and xdescribe skip, fit and fdescribe focus */
+const TEST_FUNCTION_ALIASES: Record<string, { type: TestCaseNode['type']; modifier: TestCaseModifier }> = {
+  xdescribe: { type: 'describe', modifier: 'skip' },
+  xit: { type: 'test', modifier: 'skip' },
+  xtest: { type: 'test', modifier: 'skip' },
+  fdescribe: { type: 'describe', modifier: 'only' },
+  fit: { type: 'test', modifier: 'only' },
+};
+
+const MODIFIERS: Record<string, TestCaseModifier> = {
+  skip: 'skip',
+  only: 'only',
+  todo: 'todo',
+  each: 'each',
+  for: 'each',
+};
+
+/** Chained calls whose arguments come before the test name, e.g. it.each([...])('name', fn) */
+const CALLS_BEFORE_NAME = new Set(['each', 'for', 'skipIf', 'runIf']);
+
+/**
+ * Read a test file and outline its test cases. Unreadable files have no test cases.
+ */
+export async function parseTestFile(filePath: string): Promise<TestCaseNode[]> {
+  try {
+    return parseTestCases(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A describe/it/test call with the details an audit needs beyond the outline
+ */
+export interface TestCaseCall {
+  node: TestCaseNode;
+  /** Function the call starts with, e.g. "it" or "xdescribe" */
+  callee: string;
+  /** Names of the enclosing describe blocks, outermost first */
+  ancestors: string[];
+  /** "inline" for a function written in the call, "reference" for a function passed by name */
+  callback: 'none' | 'inline' | 'reference';
+  /** Whether the inline callback has an empty block body */
+  emptyBody: boolean;
+  /** Whether the inline callback calls expect, assert or a helper named like them */
+  hasAssertion: boolean;
+}
+
+/**
+ * Outline the describe blocks and tests declared in test source code
+ */
+export function parseTestCases(code: string): TestCaseNode[] {
+  return analyzeTestCases(code).outline;
+}
+
+/**
+ * Outline test source code and describe each test call found in it
+ */
+export function analyzeTestCases(code: string): { outline: TestCaseNode[]; calls: TestCaseCall[] } {
+  const tokens = tokenize(code);
+  const roots: TestCaseNode[] = [];
+  const calls: TestCaseCall[] = [];
+  const ancestorsOf = new Map<TestCaseNode, string[]>();
+  // One entry per open parenthesis, holding the test call it belongs to
+  const parens: Array<TestCaseNode | undefined> = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value === '(' && token.type === 'punctuator') {
+      parens.push(undefined);
+      continue;
+    }
+    if (token.value === ')' && token.type === 'punctuator') {
+      parens.pop();
+      continue;
+    }
+
+    const alias = token.type === 'identifier' ? TEST_FUNCTION_ALIASES[token.value] : undefined;
+    const type = token.type === 'identifier' ? (TEST_FUNCTIONS[token.value] ?? alias?.type) : undefined;
+    const previous = tokens[i - 1];
+    if (!type || previous?.value === '.' || previous?.value === 'function') {
+      continue;
+    }
+
+    const call = parseTestCall(tokens, i + 1);
+    if (!call) {
+      continue;
+    }
+    if (alias && !call.modifiers.includes(alias.modifier)) {
+      call.modifiers.unshift(alias.modifier);
+    }
+
+    const node: TestCaseNode = {
+      type,
+      name: readName(tokens, call.openIndex + 1),
+      line: token.line,
+      ...(call.modifiers.length > 0 ? { modifiers: call.modifiers } : {}),
+      ...(type === 'describe' ? { children: [] } : {}),
+    };
+
+    const parent = [...parens].reverse().find((entry) => entry !== undefined);
+    if (!parent) {
+      roots.push(node);
+    } else if (parent.children) {
+      parent.children.push(node);
+    } else {
+      // Calls inside a test body are not registered as tests
+      parens.push(undefined);
+      i = call.openIndex;
+      continue;
+    }
+
+    const ancestors = parent ? [...(ancestorsOf.get(parent) ?? []), parent.name] : [];
+    ancestorsOf.set(node, ancestors);
+    calls.push({
+      node,
+      callee: token.value,
+      ancestors,
+      ...analyzeCallback(tokens, call.openIndex),
+    });
+
+    parens.push(node);
+    i = call.openIndex;
+  }
+
+  return { outline: roots, calls };
+}
+
+/**
+ * Count the tests (not describe blocks) in an outline
+ */
+export function countTestCases(nodes: TestCaseNode[]): number {
+  return nodes.reduce(
+    (count, node) => count + (node.type === 'test' ? 1 : countTestCases(node.children ?? [])),
+    0
+  );
+}
+
+/**
+ * Parse the modifier chain after describe/it/test up to the parenthesis that opens the call
+ */
+function parseTestCall(
+  tokens: Token[],
+  start: number
+): { modifiers: TestCaseModifier[]; openIndex: number } | undefined {
+  const modifiers: TestCaseModifier[] = [];
+  let j = start;
+
+  while (tokens[j]?.value === '.' && tokens[j + 1]?.type === 'identifier') {
+    const name = tokens[j + 1].value;
+    j += 2;
+    const modifier = MODIFIERS[name];
+    if (modifier && !modifiers.includes(modifier)) {
+      modifiers.push(modifier);
+    }
+    if (CALLS_BEFORE_NAME.has(name)) {
+      if (tokens[j]?.type === 'template') {
+        j++;
+      } else if (tokens[j]?.value === '(') {
+        const close = findClosingBracket(tokens, j);
+        if (close === -1) {
+          return undefined;
+        }
+        j = close + 1;
+      } else {
+        return undefined;
+      }
+    }
+  }
+
+  return tokens[j]?.value === '(' && tokens[j].type === 'punctuator' ? { modifiers, openIndex: j } : undefined;
+}
+
+/**
+ * Find the callback among the arguments of a test call and inspect its body
+ */
+function analyzeCallback(
+  tokens: Token[],
+  openIndex: number
+): Pick<TestCaseCall, 'callback' | 'emptyBody' | 'hasAssertion'> {
+  const close = findClosingBracket(tokens, openIndex);
+  const end = close === -1 ? tokens.length : close;
+
+  // Split the arguments at top-level commas; the first one is the name
+  const args: Array<[number, number]> = [];
+  let argStart = openIndex + 1;
+  for (let j = openIndex + 1; j <= end; j++) {
+    if (j === end || (tokens[j].value === ',' && tokens[j].type === 'punctuator')) {
+      if (j > argStart) {
+        args.push([argStart, j]);
+      }
+      argStart = j + 1;
+    } else if (tokens[j].type === 'punctuator' && '([{'.includes(tokens[j].value)) {
+      const closing = findClosingBracket(tokens, j);
+      j = closing === -1 ? end - 1 : Math.min(closing, end - 1);
+    }
+  }
+
+  for (const [start, stop] of args.slice(1)) {
+    const bodyStart = findFunctionBody(tokens, start, stop);
+    if (bodyStart === undefined) {
+      continue;
+    }
+    const isBlock = tokens[bodyStart]?.value === '{' && tokens[bodyStart].type === 'punctuator';
+    const bodyEnd = isBlock ? findClosingBracket(tokens, bodyStart) : stop;
+    const body = tokens.slice(isBlock ? bodyStart + 1 : bodyStart, bodyEnd === -1 ? stop : bodyEnd);
+    return {
+      callback: 'inline',
+      emptyBody: isBlock && body.length === 0,
+      hasAssertion: body.some((token, k) =>
+        token.type === 'identifier' &&
+        /^(expect|assert)/.test(token.value) &&
+        ['(', '.', '<'].includes(body[k + 1]?.value ?? '')
+      ),
+    };
+  }
+
+  const reference = args.slice(1).some(([start, stop]) => stop - start >= 1 && tokens[start].type === 'identifier');
+  return { callback: reference ? 'reference' : 'none', emptyBody: false, hasAssertion: false };
+}
+
+/**
+ * Index of the first body token of an arrow function or function expression
+ * spanning the given tokens, or undefined when they are not a function
+ */
+function findFunctionBody(tokens: Token[], start: number, stop: number): number | undefined {
+  for (let j = start; j < stop; j++) {
+    const token = tokens[j];
+    if (token.type === 'identifier' && token.value === 'function') {
+      for (let k = j + 1; k < stop; k++) {
+        if (tokens[k].value === '(' && tokens[k].type === 'punctuator') {
+          const closing = findClosingBracket(tokens, k);
+          return closing === -1 ? undefined : closing + 1;
+        }
+      }
+      return undefined;
+    }
+    if (token.type === 'punctuator') {
+      if (token.value === '=' && tokens[j + 1]?.value === '>') {
+        return j + 2;
+      }
+      if ('([{'.includes(token.value)) {
+        const closing = findClosingBracket(tokens, j);
+        if (closing === -1) {
+          return undefined;
+        }
+        j = closing;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The first argument of a test call: the literal for strings, otherwise the expression as written
+ */
+function readName(tokens: Token[], start: number): string {
+  const first = tokens[start];
+  if (first?.type === 'string' || first?.type === 'template') {
+    return first.value;
+  }
+
+  const parts: string[] = [];
+  let depth = 0;
+  for (let j = start; j < tokens.length; j++) {
+    const { value, type } = tokens[j];
+    if (type === 'punctuator') {
+      if ('([{'.includes(value)) {
+        depth++;
+      } else if (')]}'.includes(value)) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (value === ',' && depth === 0) {
+        break;
+      }
+    }
+    parts.push(type === 'string' ? JSON.stringify(value) : value);
+  }
+  return parts.join('');
+}
@@ -0,0 +1,209 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+import { fileURLToPath } from "url";
+import type {
+  FailedTestDetails,
+  FailedTestSummary,
+  ProcessedTestResult,
+  TestExportFormat,
+  TestExportOptions,
+} from "../tools/run-tests.js";
+import {
+  escapeXml,
+  formatSarifLog,
+  resolveReportPath,
+  writeReport,
+  type SarifResultInput,
+} from "./report-export.js";
+import { isWithin } from "./path-utils.js";
+
+/** Where each format is written when no path is given */
+export const DEFAULT_TEST_EXPORT_PATHS: Record<TestExportFormat, string> = {
+  junit: "test-results/junit.xml",
+  sarif: "test-results/tests.sarif",
+};
+
+export interface StackFrame {
+  file: string;  // Absolute path
+  line: number;
+  column: number;
+}
+
+/**
+ * Resolve where a test result export is written. The path must stay inside the project root.
+ */
+export function resolveTestExportPath(projectRoot: string, options: TestExportOptions): string {
+  return resolveReportPath(projectRoot, options, DEFAULT_TEST_EXPORT_PATHS);
+}
+
+/**
+ * Write a test result in the given format, creating parent directories as needed
+ */
+export async function writeTestResultExport(
+  result: ProcessedTestResult,
+  format: TestExportFormat,
+  outputPath: string,
+  projectRoot: string
+): Promise<void> {
+  const content = format === "junit"
+    ? formatJUnit(result, projectRoot)
+    : formatTestSarif(result, projectRoot);
+  await writeReport(outputPath, content);
+}
+
+/**
+ * Format a test result as JUnit XML, one testsuite per test file. Passed tests
+ * are only included when the result lists them in testResults.passedTests.
+ */
+export function formatJUnit(result: ProcessedTestResult, projectRoot: string, timestamp: Date = new Date()): string {
+  const suites = new Map<string, { cases: string[]; tests: number; failures: number; skipped: number; time: number }>();
+  const suiteFor = (file: string) => {
+    let suite = suites.get(file);
+    if (!suite) {
+      suite = { cases: [], tests: 0, failures: 0, skipped: 0, time: 0 };
+      suites.set(file, suite);
+    }
+    return suite;
+  };
+
+  for (const { file, tests } of result.testResults?.failedTests ?? []) {
+    const suite = suiteFor(file);
+    for (const test of tests) {
+      const duration = "duration" in test ? (test.duration ?? 0) : 0;
+      suite.tests++;
+      suite.failures++;
+      suite.time += duration;
+      suite.cases.push(
+        `${testCaseOpen(file, test.testName, duration, projectRoot)}>`,
+        `      <failure message="${escapeXml(test.message)}" type="${escapeXml(test.errorType)}">${escapeXml(failureText(test))}</failure>`,
+        "    </testcase>"
+      );
+    }
+  }
+
+  for (const { file, tests } of result.testResults?.skippedTests ?? []) {
+    const suite = suiteFor(file);
+    for (const test of tests) {
+      suite.tests++;
+      suite.skipped++;
+      suite.cases.push(`${testCaseOpen(file, test.testName, 0, projectRoot)}>`, "      <skipped/>", "    </testcase>");
+    }
+  }
+
+  for (const { file, tests } of result.testResults?.passedTests ?? []) {
+    const suite = suiteFor(file);
+    for (const test of tests) {
+      suite.tests++;
+      suite.time += test.duration ?? 0;
+      suite.cases.push(`${testCaseOpen(file, test.testName, test.duration ?? 0, projectRoot)}/>`);
+    }
+  }
+
+  const { totalTests, failed, skipped } = result.testSummary;
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    `<testsuites name="vitest tests" tests="${totalTests}" failures="${failed}" errors="0" skipped="${skipped ?? 0}" time="${seconds(result.executionTimeMs)}">`,
+  ];
+  for (const [file, suite] of [...suites].sort(([a], [b]) => a.localeCompare(b))) {
+    xml.push(
+      `  <testsuite name="${escapeXml(toRelativePath(file, projectRoot))}" timestamp="${timestamp.toISOString()}" hostname="localhost" tests="${suite.tests}" failures="${suite.failures}" errors="0" skipped="${suite.skipped}" time="${seconds(suite.time)}">`,
+      ...suite.cases,
+      "  </testsuite>"
+    );
+  }
+  xml.push("</testsuites>");
+
+  return `${xml.join("\n")}\n`;
+}
+
+/**
+ * Format each failed test as a SARIF error, located at the first stack frame
+ * inside the project, or at the test file when no frame could be parsed
+ */
+export function formatTestSarif(result: ProcessedTestResult, projectRoot: string): string {
+  const results: SarifResultInput[] = [];
+
+  for (const { file, tests } of result.testResults?.failedTests ?? []) {
+    const testFile = resolve(projectRoot, file);
+    for (const test of tests) {
+      const frame = findProjectFrame(test, projectRoot, testFile);
+      results.push({
+        ruleId: "test-failure",
+        level: "error",
+        message: `Test "${test.testName}" failed: ${test.errorType}: ${test.message}`,
+        file: frame?.file ?? testFile,
+        region: frame ? { startLine: frame.line, startColumn: frame.column } : undefined,
+      });
+    }
+  }
+
+  return formatSarifLog(
+    [{ id: "test-failure", description: "Test failed", level: "error" }],
+    results,
+    projectRoot
+  );
+}
+
+/**
+ * Parse a stack trace line such as "at fn (/src/a.test.ts:5:20)" or "❯ src/a.test.ts:5:20".
+ * Relative paths are resolved from the project root.
+ */
+export function parseStackFrame(line: string, projectRoot: string): StackFrame | undefined {
+  const match = line.trim().match(/(?:^|[\s(])((?:file:\/\/)?[^\s()]+?):(\d+):(\d+)\)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  let file = match[1];
+  // Frames of node: or http: modules are not files; single letters are Windows drives
+  if (/^[a-z][a-z0-9+.-]+:/i.test(file) && !file.startsWith("file://")) {
+    return undefined;
+  }
+  if (file.startsWith("file://")) {
+    try {
+      file = fileURLToPath(file);
+    } catch {
+      return undefined;
+    }
+  }
+
+  return {
+    file: isAbsolute(file) ? file : resolve(projectRoot, file),
+    line: Number(match[2]),
+    column: Number(match[3]),
+  };
+}
+
+/**
+ * First stack frame of a failed test that points inside the project, preferring the test file itself
+ */
+function findProjectFrame(
+  test: FailedTestDetails | FailedTestSummary,
+  projectRoot: string,
+  testFile: string
+): StackFrame | undefined {
+  const frames = ("stack" in test ? (test.stack ?? []) : [])
+    .map((line) => parseStackFrame(line, projectRoot))
+    .filter((frame): frame is StackFrame => frame !== undefined && isWithin(projectRoot, frame.file));
+
+  return frames.find((frame) => frame.file === testFile) ?? frames[0];
+}
+
+function testCaseOpen(file: string, testName: string, durationMs: number, projectRoot: string): string {
+  return `    <testcase classname="${escapeXml(toRelativePath(file, projectRoot))}" name="${escapeXml(testName)}" time="${seconds(durationMs)}"`;
+}
+
+function failureText(test: FailedTestDetails | FailedTestSummary): string {
+  const lines = [`${test.errorType}: ${test.message}`];
+  if ("stack" in test && test.stack?.length) {
+    lines.push(...test.stack);
+  }
+  return lines.join("\n");
+}
+
+function toRelativePath(file: string, projectRoot: string): string {
+  return relative(projectRoot, resolve(projectRoot, file)).split(sep).join("/");
+}
+
+function seconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
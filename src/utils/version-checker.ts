@@ -5,6 +5,7 @@
 import { spawn } from 'child_process';
 import { resolve } from 'path';
 import { readFile } from 'fs/promises';
+import { getVitestCoverageProvider, type CoverageProviderName } from './vitest-config-reader.js';
 
 export interface VersionInfo {
   version: string;
@@ -22,6 +23,8 @@ export interface VersionRequirements {
       coverage: string;
       coverageThresholds: string;
       coverageMapInJson: string;
+      lineFilter: string;
+      nodeApi: string;
     };
   };
   coverageProvider: {
@@ -40,7 +43,9 @@ export const VERSION_REQUIREMENTS: VersionRequirements = {
       jsonReporter: '0.10.0',
       coverage: '0.10.0', 
       coverageThresholds: '0.20.0',
-      coverageMapInJson: '3.0.0'
+      coverageMapInJson: '3.0.0',
+      lineFilter: '3.0.0',
+      nodeApi: '3.0.0'
     }
   },
   coverageProvider: {
@@ -48,6 +53,14 @@ export const VERSION_REQUIREMENTS: VersionRequirements = {
   }
 };
 
+/**
+ * Package implementing each Vitest coverage provider
+ */
+export const COVERAGE_PROVIDER_PACKAGES: Record<CoverageProviderName, string> = {
+  v8: '@vitest/coverage-v8',
+  istanbul: '@vitest/coverage-istanbul'
+};
+
 /**
  * Parse a semantic version string into components
  */
@@ -174,9 +187,14 @@ export async function getCoverageProviderVersion(projectRoot: string, provider:
 }
 
 /**
- * Comprehensive version check for all dependencies
+ * Comprehensive version check for all dependencies. The coverage provider is only
+ * checked when coverage is requested, since finding it may mean loading the Vitest
+ * config; it is read from the config unless given, defaulting to v8 like Vitest does.
  */
-export async function checkAllVersions(projectRoot: string): Promise<{
+export async function checkAllVersions(
+  projectRoot: string,
+  coverage?: { provider?: CoverageProviderName }
+): Promise<{
   vitest: {
     version: VersionInfo | null;
     meetsMinimum: boolean;
@@ -184,11 +202,12 @@ export async function checkAllVersions(projectRoot: string): Promise<{
     supportedFeatures: string[];
     missingFeatures: string[];
   };
+  /** null when coverage was not requested */
   coverageProvider: {
     version: VersionInfo | null;
     meetsMinimum: boolean;
     provider: string;
-  };
+  } | null;
   warnings: string[];
   errors: string[];
 }> {
@@ -217,11 +236,6 @@ export async function checkAllVersions(projectRoot: string): Promise<{
     }
   }
 
-  // Check coverage provider
-  const coverageVersion = await getCoverageProviderVersion(projectRoot);
-  const coverageMeetsMinimum = coverageVersion ? 
-    meetsMinimumVersion(coverageVersion.version, VERSION_REQUIREMENTS.coverageProvider.minimum) : false;
-
   // Generate warnings and errors
   if (!vitestVersion) {
     errors.push('Vitest not found. Please install vitest as a dependency.');
@@ -231,10 +245,28 @@ export async function checkAllVersions(projectRoot: string): Promise<{
     warnings.push(`Vitest version ${vitestVersion.version} works but ${VERSION_REQUIREMENTS.vitest.recommended}+ is recommended for full feature support.`);
   }
 
-  if (!coverageVersion) {
-    warnings.push('Coverage provider (@vitest/coverage-v8) not found. Coverage analysis will not work.');
-  } else if (!coverageMeetsMinimum) {
-    warnings.push(`Coverage provider version ${coverageVersion.version} is below recommended ${VERSION_REQUIREMENTS.coverageProvider.minimum}.`);
+  let coverageProvider = null;
+  if (coverage) {
+    const providerName = coverage.provider ?? (await getVitestCoverageProvider(projectRoot)) ?? 'v8';
+    const coveragePackage = COVERAGE_PROVIDER_PACKAGES[providerName];
+    const coverageVersion = await getCoverageProviderVersion(projectRoot, coveragePackage);
+    const coverageMeetsMinimum = coverageVersion ?
+      meetsMinimumVersion(coverageVersion.version, VERSION_REQUIREMENTS.coverageProvider.minimum) : false;
+
+    if (!coverageVersion) {
+      warnings.push(`Coverage provider (${coveragePackage}) not found. Coverage analysis will not work.`);
+    } else if (!coverageMeetsMinimum) {
+      warnings.push(`Coverage provider version ${coverageVersion.version} is below recommended ${VERSION_REQUIREMENTS.coverageProvider.minimum}.`);
+    } else if (vitestVersion && (coverageVersion.major !== vitestVersion.major || coverageVersion.minor !== vitestVersion.minor)) {
+      // Patch releases are interchangeable; a different minor may not match Vitest's coverage API
+      warnings.push(`${coveragePackage} v${coverageVersion.version} does not match Vitest v${vitestVersion.version}. Install the same major and minor version as Vitest.`);
+    }
+
+    coverageProvider = {
+      version: coverageVersion,
+      meetsMinimum: coverageMeetsMinimum,
+      provider: coveragePackage
+    };
   }
 
   if (missingFeatures.length > 0) {
@@ -249,11 +281,7 @@ export async function checkAllVersions(projectRoot: string): Promise<{
       supportedFeatures,
       missingFeatures
     },
-    coverageProvider: {
-      version: coverageVersion,
-      meetsMinimum: coverageMeetsMinimum,
-      provider: '@vitest/coverage-v8'
-    },
+    coverageProvider,
     warnings,
     errors
   };
@@ -281,10 +309,10 @@ export function generateVersionReport(versionCheck: Awaited<ReturnType<typeof ch
   }
   
   // Coverage provider status
-  if (versionCheck.coverageProvider.version) {
-    lines.push(`✓ Coverage Provider: v${versionCheck.coverageProvider.version.version}`);
-  } else {
-    lines.push('⚠ Coverage Provider: Not found (coverage analysis disabled)');
+  if (versionCheck.coverageProvider?.version) {
+    lines.push(`✓ Coverage Provider: ${versionCheck.coverageProvider.provider} v${versionCheck.coverageProvider.version.version}`);
+  } else if (versionCheck.coverageProvider) {
+    lines.push(`⚠ Coverage Provider: ${versionCheck.coverageProvider.provider} not found (coverage analysis disabled)`);
   }
   
   // Warnings
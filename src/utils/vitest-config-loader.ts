@@ -0,0 +1,274 @@
+import { spawn } from 'child_process';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import { processGroupOptions, terminateProcessTree } from './process-utils.js';
+
+/**
+ * The test and coverage settings of a project's Vitest config, as Vitest sees them
+ */
+export interface LoadedVitestConfig {
+  /**
+   * "vitest": resolved by Vitest's resolveConfig, with Vitest's defaults applied.
+   * "vite": read with Vite's loadConfigFromFile (Vitest before 2.1), as written in the config.
+   */
+  resolvedWith: 'vitest' | 'vite';
+  vitestVersion: string | null;
+  test: Record<string, unknown>;
+  coverage: Record<string, unknown>;
+  /**
+   * The projects Vitest resolved from test.projects or a vitest.workspace file.
+   * Absent when the config defines none or Vitest can't resolve them (before 2.1).
+   */
+  projects?: ResolvedVitestProject[];
+}
+
+/**
+ * A Vitest project with its own resolved config
+ */
+export interface ResolvedVitestProject {
+  name: string;
+  /** Absolute path */
+  root: string;
+  /** Absolute path; absent for inline projects */
+  configFile?: string;
+  environment?: string;
+  include?: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Loaded configs by project root and config file, with the modification time of the
+ * config file they were loaded at. Tools called repeatedly, or reading several settings
+ * in one call, start the loader once. Pending loads are shared; failed loads are not cached.
+ */
+const configCache = new Map<string, { modified: number; config: Promise<LoadedVitestConfig> }>();
+
+/** Prefix of the result line, so output of the config itself (console.log) is ignored */
+const RESULT_MARKER = '__VITEST_MCP_CONFIG__';
+
+/**
+ * Test options reported from the resolved config. Coverage is reported separately and in full.
+ */
+const TEST_OPTIONS = [
+  'name',
+  'root',
+  'include',
+  'exclude',
+  'includeSource',
+  'environment',
+  'globals',
+  'pool',
+  'isolate',
+  'fileParallelism',
+  'testTimeout',
+  'hookTimeout',
+  'retry',
+  'bail',
+  'setupFiles',
+  'globalSetup',
+  'reporters',
+  'passWithNoTests',
+  'typecheck',
+  'browser',
+  'projects',
+  'workspace',
+];
+
+/**
+ * Runs in a child process with the project root as cwd, so evaluating the config
+ * (and any code it runs) can't affect the server. Vitest and Vite are loaded from
+ * the project's own node_modules.
+ */
+const LOADER_SCRIPT = `
+import { readdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const [root, configFile, testOptionsJson] = process.argv.slice(1);
+const testOptions = JSON.parse(testOptionsJson);
+
+function report(result) {
+  const replacer = (_key, value) => {
+    if (value instanceof RegExp) return String(value);
+    if (typeof value === 'function') return '[Function' + (value.name ? ' ' + value.name : '') + ']';
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const prototype = Object.getPrototypeOf(value);
+      if (prototype !== null && prototype !== Object.prototype) return '[' + (value.constructor?.name ?? 'Object') + ']';
+    }
+    return value;
+  };
+  process.stdout.write('\\n${RESULT_MARKER}' + JSON.stringify(result, replacer) + '\\n');
+}
+
+function pick(source, keys) {
+  const picked = {};
+  for (const key of keys) {
+    if (source?.[key] !== undefined) picked[key] = source[key];
+  }
+  return picked;
+}
+
+function hasWorkspaceFile() {
+  return readdirSync(root).some((name) => /^vitest\\.workspace\\.((c|m)?[jt]s|json)$/.test(name));
+}
+
+// Creating a Vitest instance resolves each project's config, including names built at runtime
+async function resolveProjects(vitestNode) {
+  const vitest = await vitestNode.createVitest(
+    'test',
+    { root, config: configFile || false, watch: false },
+    { logLevel: 'silent', clearScreen: false }
+  );
+  try {
+    return vitest.projects.map((project) => ({
+      name: project.config.name ?? '',
+      root: project.config.root,
+      configFile: (project.vite ?? project.server)?.config?.configFile,
+      environment: project.config.environment,
+      include: project.config.include,
+    }));
+  } finally {
+    await vitest.close();
+  }
+}
+
+try {
+  const projectRequire = createRequire(join(root, 'package.json'));
+  let vitestVersion = null;
+  try {
+    vitestVersion = projectRequire('vitest/package.json').version;
+  } catch {}
+
+  const vitestNode = await import(pathToFileURL(projectRequire.resolve('vitest/node')).href);
+  if (typeof vitestNode.resolveConfig === 'function') {
+    const { vitestConfig } = await vitestNode.resolveConfig(
+      { root, config: configFile || false, mode: 'test' },
+      { logLevel: 'silent', clearScreen: false }
+    );
+    const { coverage, ...test } = vitestConfig;
+    const projects = test.projects || test.workspace || hasWorkspaceFile()
+      ? await resolveProjects(vitestNode).catch(() => undefined)
+      : undefined;
+    report({ resolvedWith: 'vitest', vitestVersion, test: pick(test, testOptions), coverage: coverage ?? {}, projects });
+  } else {
+    const vitestRequire = createRequire(projectRequire.resolve('vitest/node'));
+    const vite = await import(pathToFileURL(vitestRequire.resolve('vite')).href);
+    const loaded = configFile
+      ? await vite.loadConfigFromFile({ command: 'serve', mode: 'test' }, configFile, root, 'silent')
+      : null;
+    const { coverage, ...test } = loaded?.config?.test ?? {};
+    report({ resolvedWith: 'vite', vitestVersion, test: pick(test, testOptions), coverage: coverage ?? {} });
+  }
+} catch (error) {
+  report({ error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+}
+`;
+
+/**
+ * Load a project's Vitest config in a child process and return its effective test and coverage settings.
+ * Results are cached until the config file changes; files the config imports are not watched.
+ * @param projectRoot The root directory of the project, which must have Vitest installed
+ * @param configFile The config file to load, or null for Vitest's defaults
+ * @throws Error when Vitest is not installed, the config fails to load or loading times out
+ */
+export async function loadVitestConfig(
+  projectRoot: string,
+  configFile: string | null,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<LoadedVitestConfig> {
+  const key = `${resolve(projectRoot)}\0${configFile ?? ''}`;
+  const modified = configFile ? await stat(configFile).then((stats) => stats.mtimeMs, () => 0) : 0;
+
+  const cached = configCache.get(key);
+  if (cached && cached.modified === modified) {
+    return await cached.config;
+  }
+
+  const entry = { modified, config: runConfigLoader(projectRoot, configFile, timeoutMs) };
+  configCache.set(key, entry);
+  entry.config.catch(() => {
+    if (configCache.get(key) === entry) {
+      configCache.delete(key);
+    }
+  });
+  return await entry.config;
+}
+
+/**
+ * Forget loaded configs (mainly for testing)
+ */
+export function clearVitestConfigCache(): void {
+  configCache.clear();
+}
+
+function runConfigLoader(
+  projectRoot: string,
+  configFile: string | null,
+  timeoutMs: number
+): Promise<LoadedVitestConfig> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(
+      process.execPath,
+      ['--input-type=module', '-e', LOADER_SCRIPT, projectRoot, configFile ?? '', JSON.stringify(TEST_OPTIONS)],
+      {
+        cwd: projectRoot,
+        env: { ...process.env, NODE_ENV: process.env.NODE_ENV ?? 'test' },
+        stdio: ['ignore', 'pipe', 'pipe'],
+        ...processGroupOptions(),
+      }
+    );
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessTree(child);
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start the Vitest config loader: ${error.message}`));
+    });
+
+    child.on('close', () => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`Loading the Vitest config timed out after ${timeoutMs / 1000} seconds`));
+        return;
+      }
+
+      const resultLine = stdout
+        .split('\n')
+        .reverse()
+        .find((line) => line.startsWith(RESULT_MARKER));
+      if (!resultLine) {
+        reject(new Error(`Failed to load the Vitest config: ${stderr.trim() || 'no output from the loader'}`));
+        return;
+      }
+
+      let result: LoadedVitestConfig | { error: string };
+      try {
+        result = JSON.parse(resultLine.slice(RESULT_MARKER.length)) as LoadedVitestConfig | { error: string };
+      } catch (error) {
+        reject(new Error(`Failed to load the Vitest config: invalid loader output (${error instanceof Error ? error.message : String(error)})`));
+        return;
+      }
+      if ('error' in result) {
+        reject(new Error(`Failed to load the Vitest config: ${result.error}`));
+        return;
+      }
+      resolvePromise(result);
+    });
+  });
+}
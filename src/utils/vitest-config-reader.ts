@@ -1,13 +1,23 @@
-import { readFile } from 'fs/promises';
 import { findVitestConfig } from './config-finder.js';
+import { loadVitestConfig } from './vitest-config-loader.js';
+import { matchesGlob } from './glob.js';
+import type { CoverageMetrics, ThresholdMetric, ThresholdViolation } from '../types/coverage-types.js';
+
+export type CoverageProviderName = 'v8' | 'istanbul';
 
 export interface VitestCoverageThresholds {
   lines?: number;
   functions?: number;
   branches?: number;
   statements?: number;
+  /** Check every file against the thresholds instead of the totals, including for glob thresholds */
+  perFile?: boolean;
+  /** Thresholds for the files matching a glob pattern, keyed by the pattern */
+  globs?: Record<string, VitestCoverageThresholds>;
 }
 
+const THRESHOLD_METRICS = ['lines', 'functions', 'branches', 'statements'] as const;
+
 /**
  * Extract coverage thresholds from Vitest configuration
  * @param projectRoot The root directory of the project
@@ -15,159 +25,199 @@ export interface VitestCoverageThresholds {
  */
 export async function getVitestCoverageThresholds(projectRoot: string): Promise<VitestCoverageThresholds | null> {
   try {
-    // Find the Vitest config file
     const configPath = await findVitestConfig(projectRoot);
     if (!configPath) {
       return null;
     }
 
-    // Read the config file
-    const configContent = await readFile(configPath, 'utf-8');
-
-    // Extract thresholds using regex patterns
-    // Look for patterns like:
-    // thresholds: { lines: 80, functions: 80, ... }
-    // or coverage: { thresholds: { lines: 80, ... } }
-    
-    // First try to find thresholds object
-    const thresholdsMatch = configContent.match(/thresholds\s*:\s*{([^}]+)}/);
-    if (!thresholdsMatch) {
-      return null;
+    // Load the config with Vitest itself, so spreads, nested objects and computed values are resolved
+    const config = await loadVitestConfig(projectRoot, configPath);
+    return normalizeCoverageThresholds(config.coverage.thresholds);
+  } catch (error) {
+    // Gracefully handle any errors - if we can't read thresholds, we proceed without them
+    if (process.env.VITEST_MCP_DEBUG) {
+      console.error('Failed to read Vitest config thresholds:', error);
     }
+    return null;
+  }
+}
 
-    const thresholdsContent = thresholdsMatch[1];
-    const thresholds: VitestCoverageThresholds = {};
+/**
+ * Turn the coverage.thresholds option of a Vitest config into thresholds.
+ * `100: true` sets every metric to 100; other keys than the metrics, perFile,
+ * autoUpdate and 100 are glob patterns with their own thresholds.
+ * @param value The coverage.thresholds option
+ * @returns The thresholds or null if none are set
+ */
+export function normalizeCoverageThresholds(value: unknown): VitestCoverageThresholds | null {
+  if (!isRecord(value)) {
+    return null;
+  }
 
-    // Extract individual threshold values with safe parsing
-    const lineMatch = thresholdsContent.match(/lines\s*:\s*(\d+)/);
-    if (lineMatch) {
-      const value = parseInt(lineMatch[1], 10);
-      if (!isNaN(value) && value >= 0 && value <= 100) {
-        thresholds.lines = value;
-      }
+  const thresholds: VitestCoverageThresholds = {};
+  for (const metric of THRESHOLD_METRICS) {
+    const threshold = value[100] === true ? 100 : value[metric];
+    // Negative thresholds (maximum number of uncovered items) are not supported
+    if (typeof threshold === 'number' && threshold >= 0 && threshold <= 100) {
+      thresholds[metric] = threshold;
     }
+  }
+  if (value.perFile === true) {
+    thresholds.perFile = true;
+  }
 
-    const functionsMatch = thresholdsContent.match(/functions\s*:\s*(\d+)/);
-    if (functionsMatch) {
-      const value = parseInt(functionsMatch[1], 10);
-      if (!isNaN(value) && value >= 0 && value <= 100) {
-        thresholds.functions = value;
-      }
+  const globs: Record<string, VitestCoverageThresholds> = {};
+  for (const [pattern, globValue] of Object.entries(value)) {
+    if ((THRESHOLD_METRICS as readonly string[]).includes(pattern) || ['perFile', 'autoUpdate', '100'].includes(pattern)) {
+      continue;
     }
-
-    const branchesMatch = thresholdsContent.match(/branches\s*:\s*(\d+)/);
-    if (branchesMatch) {
-      const value = parseInt(branchesMatch[1], 10);
-      if (!isNaN(value) && value >= 0 && value <= 100) {
-        thresholds.branches = value;
-      }
+    const globThresholds = normalizeCoverageThresholds(globValue);
+    // Glob thresholds can't be nested, and Vitest only reads perFile from the top level
+    delete globThresholds?.globs;
+    delete globThresholds?.perFile;
+    if (globThresholds && Object.keys(globThresholds).length > 0) {
+      globs[pattern] = globThresholds;
     }
+  }
+  if (Object.keys(globs).length > 0) {
+    thresholds.globs = globs;
+  }
 
-    const statementsMatch = thresholdsContent.match(/statements\s*:\s*(\d+)/);
-    if (statementsMatch) {
-      const value = parseInt(statementsMatch[1], 10);
-      if (!isNaN(value) && value >= 0 && value <= 100) {
-        thresholds.statements = value;
-      }
-    }
+  return Object.keys(thresholds).length > 0 ? thresholds : null;
+}
 
-    // Return null if no thresholds were found
-    if (Object.keys(thresholds).length === 0) {
+/**
+ * Read the coverage provider from Vitest configuration
+ * @param projectRoot The root directory of the project
+ * @returns 'v8' or 'istanbul', or null without a config file, for a custom provider or when the config fails to load
+ */
+export async function getVitestCoverageProvider(projectRoot: string): Promise<CoverageProviderName | null> {
+  try {
+    const configPath = await findVitestConfig(projectRoot);
+    if (!configPath) {
       return null;
     }
 
-    return thresholds;
+    const config = await loadVitestConfig(projectRoot, configPath);
+    const provider = config.coverage.provider;
+    return provider === 'v8' || provider === 'istanbul' ? provider : null;
   } catch (error) {
-    // Gracefully handle any errors - if we can't read thresholds, we proceed without them
     if (process.env.VITEST_MCP_DEBUG) {
-      console.error('Failed to read Vitest config thresholds:', error);
+      console.error('Failed to read Vitest coverage provider:', error);
     }
     return null;
   }
 }
 
+/**
+ * Covered and total counts of one file, for per-file and glob thresholds
+ */
+export interface FileCoverageCounts {
+  /** Relative to the project root */
+  path: string;
+  covered: CoverageMetrics;
+  totals: CoverageMetrics;
+}
+
 /**
  * Check if coverage meets the configured thresholds
  * @param coverage The actual coverage percentages
  * @param thresholds The configured thresholds
+ * @param files Coverage counts of each file, needed for perFile and glob thresholds
  * @returns true if all thresholds are met, false otherwise
  */
 export function checkThresholdsMet(
-  coverage: { lines: number; functions: number; branches: number; statements: number },
-  thresholds: VitestCoverageThresholds | null
+  coverage: CoverageMetrics,
+  thresholds: VitestCoverageThresholds | null,
+  files: FileCoverageCounts[] = []
 ): boolean {
-  try {
-    // If no thresholds are configured, consider them met
-    if (!thresholds || typeof thresholds !== 'object') {
-      return true;
-    }
-
-    // Check each threshold with safe comparison
-    if (thresholds.lines !== undefined && 
-        typeof thresholds.lines === 'number' && 
-        coverage.lines < thresholds.lines) {
-      return false;
-    }
-
-    if (thresholds.functions !== undefined && 
-        typeof thresholds.functions === 'number' && 
-        coverage.functions < thresholds.functions) {
-      return false;
-    }
-
-    if (thresholds.branches !== undefined && 
-        typeof thresholds.branches === 'number' && 
-        coverage.branches < thresholds.branches) {
-      return false;
-    }
-
-    if (thresholds.statements !== undefined && 
-        typeof thresholds.statements === 'number' && 
-        coverage.statements < thresholds.statements) {
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    // If any error occurs during threshold checking, default to met
-    if (process.env.VITEST_MCP_DEBUG) {
-      console.error('Error checking thresholds:', error);
-    }
-    return true;
-  }
+  return getThresholdViolations(coverage, thresholds, files).length === 0;
 }
 
 /**
- * Get threshold violations as an array of messages
+ * Get the threshold violations, checked the way Vitest checks them: global thresholds
+ * against all files, glob thresholds against the files matching the glob, and with
+ * perFile against each file instead of the total
  * @param coverage The actual coverage percentages
  * @param thresholds The configured thresholds
- * @returns Array of violation messages
+ * @param files Coverage counts of each file, needed for perFile and glob thresholds
+ * @returns The violations, one per metric and scope (or file with perFile)
  */
 export function getThresholdViolations(
-  coverage: { lines: number; functions: number; branches: number; statements: number },
-  thresholds: VitestCoverageThresholds | null
-): string[] {
+  coverage: CoverageMetrics,
+  thresholds: VitestCoverageThresholds | null,
+  files: FileCoverageCounts[] = []
+): ThresholdViolation[] {
   if (!thresholds) {
     return [];
   }
 
-  const violations: string[] = [];
-
-  if (thresholds.lines !== undefined && coverage.lines < thresholds.lines) {
-    violations.push(`Line coverage (${coverage.lines}%) is below threshold (${thresholds.lines}%)`);
+  const scopes: Array<{ glob: string | null; thresholds: VitestCoverageThresholds; files: FileCoverageCounts[] }> = [
+    { glob: null, thresholds, files },
+    ...Object.entries(thresholds.globs ?? {}).map(([glob, globThresholds]) => ({
+      glob,
+      thresholds: globThresholds,
+      files: files.filter((file) => matchesGlob(file.path, glob)),
+    })),
+  ];
+
+  const violations: ThresholdViolation[] = [];
+  for (const scope of scopes) {
+    // Like Vitest, perFile applies to every scope and is only read from the top level
+    const summaries: Array<{ file: string | null; coverage: CoverageMetrics }> = thresholds.perFile
+      ? scope.files.map((file) => ({ file: file.path, coverage: toPercentages(file.covered, file.totals) }))
+      : [{ file: null, coverage: scope.glob === null ? coverage : sumPercentages(scope.files) }];
+
+    for (const summary of summaries) {
+      for (const metric of THRESHOLD_METRICS) {
+        const required = scope.thresholds[metric];
+        const actual = summary.coverage[metric];
+        if (required === undefined || actual >= required) {
+          continue;
+        }
+        violations.push({
+          metric,
+          actual,
+          required,
+          file: summary.file,
+          glob: scope.glob,
+          message:
+            `Coverage for ${metric} (${actual}%) does not meet ${scope.glob === null ? 'global' : `"${scope.glob}"`} threshold (${required}%)` +
+            (summary.file ? ` for ${summary.file}` : ''),
+        });
+      }
+    }
   }
 
-  if (thresholds.functions !== undefined && coverage.functions < thresholds.functions) {
-    violations.push(`Function coverage (${coverage.functions}%) is below threshold (${thresholds.functions}%)`);
-  }
+  return violations;
+}
 
-  if (thresholds.branches !== undefined && coverage.branches < thresholds.branches) {
-    violations.push(`Branch coverage (${coverage.branches}%) is below threshold (${thresholds.branches}%)`);
+/**
+ * Coverage percentages of a set of files combined; metrics without items count as fully covered
+ */
+function sumPercentages(files: FileCoverageCounts[]): CoverageMetrics {
+  const covered = { lines: 0, functions: 0, branches: 0, statements: 0 };
+  const totals = { lines: 0, functions: 0, branches: 0, statements: 0 };
+  for (const file of files) {
+    for (const metric of THRESHOLD_METRICS) {
+      covered[metric] += file.covered[metric];
+      totals[metric] += file.totals[metric];
+    }
   }
+  return toPercentages(covered, totals);
+}
 
-  if (thresholds.statements !== undefined && coverage.statements < thresholds.statements) {
-    violations.push(`Statement coverage (${coverage.statements}%) is below threshold (${thresholds.statements}%)`);
-  }
+function toPercentages(covered: CoverageMetrics, totals: CoverageMetrics): CoverageMetrics {
+  const percentage = (metric: ThresholdMetric) =>
+    totals[metric] > 0 ? Math.round((covered[metric] / totals[metric]) * 10000) / 100 : 100;
+  return {
+    lines: percentage('lines'),
+    functions: percentage('functions'),
+    branches: percentage('branches'),
+    statements: percentage('statements'),
+  };
+}
 
-  return violations;
-}
\ No newline at end of file
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
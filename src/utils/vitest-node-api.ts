@@ -0,0 +1,477 @@
+/**
+ * Helpers for driving Vitest in-process through its programmatic Node API (vitest/node)
+ */
+
+import { createRequire } from 'module';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import type { AssertionResult, TestSuiteResult, VitestJsonResult } from './output-processor.js';
+
+/**
+ * Minimal structural types for the parts of the Vitest Node API we use.
+ * Vitest is loaded from the target project at runtime, so we can't rely on its typings.
+ */
+export interface SerializedErrorLike {
+  message?: string;
+  stack?: string;
+  name?: string;
+}
+
+export interface TestSuiteLike {
+  type: 'suite';
+  name: string;
+  parent: TestSuiteLike | TestModuleLike;
+}
+
+export interface TestCaseLike {
+  type: 'test';
+  name: string;
+  parent: TestSuiteLike | TestModuleLike;
+  location?: { line: number; column: number };
+  options: { mode: 'run' | 'only' | 'skip' | 'todo'; each?: boolean };
+  result(): {
+    state: 'passed' | 'failed' | 'skipped' | 'pending';
+    errors?: ReadonlyArray<SerializedErrorLike>;
+  };
+  diagnostic(): { duration: number; startTime: number } | undefined;
+}
+
+export interface TestModuleLike {
+  type: 'module';
+  moduleId: string;
+  project: { name: string };
+  state(): 'pending' | 'queued' | 'passed' | 'failed' | 'skipped';
+  errors(): ReadonlyArray<SerializedErrorLike>;
+  children: { allTests(): Iterable<TestCaseLike> };
+}
+
+export interface TestSpecificationLike {
+  moduleId: string;
+  project: { name: string };
+}
+
+export interface UserConsoleLogLike {
+  content: string;
+  type: 'stdout' | 'stderr';
+}
+
+/**
+ * Reporter hooks we implement; Vitest calls them in the server process
+ */
+export interface InProcessReporter {
+  onUserConsoleLog?: (log: UserConsoleLogLike) => void;
+  onCoverage?: (coverage: unknown) => void;
+  onTestRunStart?: (specifications: ReadonlyArray<TestSpecificationLike>) => void;
+  onTestModuleEnd?: (testModule: TestModuleLike) => void;
+}
+
+/**
+ * Running totals of a test run, updated as each test file finishes
+ */
+export interface RunProgress {
+  /** Test file that just finished; unset for the update sent when the run starts */
+  file?: string;
+  completedFiles: number;
+  totalFiles: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestRunResultLike {
+  testModules: TestModuleLike[];
+  unhandledErrors: unknown[];
+}
+
+export interface VitestInstance {
+  start(filters?: string[]): Promise<TestRunResultLike>;
+  getRelevantTestSpecifications(filters?: string[]): Promise<TestSpecificationLike[]>;
+  runTestSpecifications(
+    specifications: TestSpecificationLike[],
+    allTestsRun?: boolean
+  ): Promise<TestRunResultLike>;
+  setGlobalTestNamePattern(pattern: string | RegExp): void;
+  resetGlobalTestNamePattern(): void;
+  cancelCurrentRun(reason: string): Promise<void>;
+  onFilterWatchedSpecification?(fn: (specification: TestSpecificationLike) => boolean): void;
+  close(): Promise<void>;
+}
+
+export interface VitestNodeModule {
+  createVitest(
+    mode: 'test',
+    options: Record<string, unknown>,
+    viteOverrides?: Record<string, unknown>,
+    vitestOptions?: Record<string, unknown>
+  ): Promise<VitestInstance>;
+}
+
+/**
+ * Options for a one-shot in-process run, mirroring the CLI flags of the spawn path
+ */
+export interface InProcessRunOptions {
+  /** Absolute file paths, optionally suffixed with :line */
+  files: string[];
+  testNamePattern?: string;
+  project?: string;
+  timeout: number;
+  /** Vitest coverage options; enables coverage collection when set */
+  coverage?: Record<string, unknown>;
+  /** Called when the run starts and after each test file finishes */
+  onProgress?: (progress: RunProgress) => void;
+  /** Cancels the run when aborted */
+  signal?: AbortSignal;
+}
+
+export interface InProcessRunResult {
+  report: VitestJsonResult;
+  logs: string[];
+  /** Output Vitest itself printed during the run (warnings, errors) */
+  output: string;
+  timedOut: boolean;
+  /** Whether the run was stopped through the abort signal */
+  cancelled: boolean;
+  /** Istanbul coverage map (coverage-final.json structure) when coverage was collected */
+  coverageMap?: Record<string, unknown>;
+}
+
+/**
+ * Reporter plus captured streams for an in-process Vitest instance
+ */
+export interface RunCapture {
+  reporter: InProcessReporter;
+  streams: { stdout: PassThrough; stderr: PassThrough };
+  logs: string[];
+  output: string[];
+  coverageMap?: Record<string, unknown>;
+  progress: RunProgress;
+  onProgress?: (progress: RunProgress) => void;
+  reset(): void;
+}
+
+/**
+ * Vite overrides for in-process instances: no screen clearing, only errors logged
+ */
+export const IN_PROCESS_VITE_OVERRIDES = { clearScreen: false, logLevel: 'error' };
+
+/**
+ * Load vitest/node from the project's own node_modules, so the project's Vitest version is used
+ */
+export async function loadVitestNode(projectRoot: string): Promise<VitestNodeModule> {
+  const projectRequire = createRequire(join(projectRoot, 'package.json'));
+
+  let entryPath: string;
+  try {
+    entryPath = projectRequire.resolve('vitest/node');
+  } catch {
+    throw new Error(`Vitest not found in project: ${projectRoot}. Install it with: npm install --save-dev vitest`);
+  }
+
+  const vitestNode = await import(pathToFileURL(entryPath).href) as Partial<VitestNodeModule>;
+  if (typeof vitestNode.createVitest !== 'function') {
+    throw new Error('The installed Vitest version does not provide createVitest in vitest/node');
+  }
+
+  return vitestNode as VitestNodeModule;
+}
+
+/**
+ * Capture console logs, coverage and Vitest's own output.
+ * Vitest must never write to our stdout, it carries the MCP protocol.
+ */
+export function createRunCapture(): RunCapture {
+  const capture: RunCapture = {
+    reporter: {
+      onUserConsoleLog: (log) => {
+        capture.logs.push(formatConsoleLog(log));
+      },
+      onCoverage: (coverage) => {
+        const coverageMap = coverage as { toJSON?: () => Record<string, unknown> } | undefined;
+        capture.coverageMap = coverageMap?.toJSON?.();
+      },
+      onTestRunStart: (specifications) => {
+        capture.progress = { ...emptyProgress(), totalFiles: specifications.length };
+        capture.onProgress?.({ ...capture.progress });
+      },
+      onTestModuleEnd: (testModule) => {
+        const { progress } = capture;
+        for (const testCase of testModule.children.allTests()) {
+          const state = testCase.result().state;
+          if (state === 'passed') {
+            progress.passed++;
+          } else if (state === 'failed') {
+            progress.failed++;
+          } else {
+            progress.skipped++;
+          }
+        }
+        progress.completedFiles++;
+        capture.onProgress?.({ ...progress, file: testModule.moduleId });
+      },
+    },
+    streams: { stdout: new PassThrough(), stderr: new PassThrough() },
+    logs: [],
+    output: [],
+    progress: emptyProgress(),
+    reset: () => {
+      capture.logs.length = 0;
+      capture.output.length = 0;
+      capture.coverageMap = undefined;
+      capture.progress = emptyProgress();
+      capture.onProgress = undefined;
+    },
+  };
+
+  capture.streams.stdout.on('data', (chunk: Buffer) => capture.output.push(chunk.toString('utf8')));
+  capture.streams.stderr.on('data', (chunk: Buffer) => capture.output.push(chunk.toString('utf8')));
+
+  return capture;
+}
+
+function emptyProgress(): RunProgress {
+  return { completedFiles: 0, totalFiles: 0, passed: 0, failed: 0, skipped: 0 };
+}
+
+/**
+ * Run tests on a Vitest instance, cancelling the run when it exceeds the timeout
+ * or the abort signal fires
+ */
+export async function runWithTimeout<T>(
+  vitest: VitestInstance,
+  timeout: number,
+  run: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ result: T; timedOut: boolean; cancelled: boolean }> {
+  let timedOut = false;
+  let cancelled = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    vitest.cancelCurrentRun('timeout').catch(() => undefined);
+  }, timeout);
+  const onAbort = () => {
+    cancelled = true;
+    vitest.cancelCurrentRun('cancelled').catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // Vitest flags failed runs on process.exitCode, which belongs to the server here
+  const exitCode = process.exitCode;
+  try {
+    const pending = run();
+    if (signal?.aborted) {
+      onAbort();
+    }
+    const result = await pending;
+    return { result, timedOut, cancelled };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    process.exitCode = exitCode;
+  }
+}
+
+/**
+ * Run Vitest once in-process, equivalent to `vitest run <files>`, and close the instance afterwards
+ */
+export async function runVitestInProcess(
+  projectRoot: string,
+  options: InProcessRunOptions
+): Promise<InProcessRunResult> {
+  const { createVitest } = await loadVitestNode(projectRoot);
+  const capture = createRunCapture();
+  capture.onProgress = options.onProgress;
+  const startTime = Date.now();
+
+  const vitest = await createVitest(
+    'test',
+    {
+      root: projectRoot,
+      watch: false,
+      reporters: [capture.reporter],
+      includeTaskLocation: true,
+      disableConsoleIntercept: false,
+      ...(options.testNamePattern ? { testNamePattern: options.testNamePattern } : {}),
+      ...(options.project ? { project: options.project } : {}),
+      ...(options.coverage ? { coverage: options.coverage, passWithNoTests: true } : {}),
+    },
+    IN_PROCESS_VITE_OVERRIDES,
+    capture.streams
+  );
+
+  try {
+    const { result, timedOut, cancelled } = await runWithTimeout(vitest, options.timeout, async () => {
+      try {
+        return await vitest.start(options.files);
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'VITEST_FILES_NOT_FOUND') {
+          throw error;
+        }
+        capture.output.push(`${(error as Error).message}\n`);
+        return { testModules: [], unhandledErrors: [] };
+      }
+    }, options.signal);
+
+    return {
+      report: buildJsonReport(result.testModules, startTime, result.unhandledErrors),
+      logs: [...capture.logs],
+      output: capture.output.join(''),
+      timedOut,
+      cancelled,
+      coverageMap: capture.coverageMap,
+    };
+  } finally {
+    await vitest.close();
+  }
+}
+
+/**
+ * A test file Vitest resolved from its include/exclude, dir and projects config
+ */
+export interface VitestTestFile {
+  /** Absolute path */
+  file: string;
+  /** Workspace project the file belongs to; empty for an unnamed root project */
+  project: string;
+}
+
+/**
+ * List the test files Vitest would run, per project, without running them
+ */
+export async function listVitestTestFiles(projectRoot: string): Promise<VitestTestFile[]> {
+  const { createVitest } = await loadVitestNode(projectRoot);
+  const capture = createRunCapture();
+
+  const vitest = await createVitest(
+    'test',
+    { root: projectRoot, watch: false, reporters: [capture.reporter] },
+    IN_PROCESS_VITE_OVERRIDES,
+    capture.streams
+  );
+
+  try {
+    const specifications = await vitest.getRelevantTestSpecifications();
+    const files = new Map<string, VitestTestFile>();
+    for (const specification of specifications) {
+      const file = { file: specification.moduleId, project: specification.project.name };
+      files.set(`${file.project}\0${file.file}`, file);
+    }
+    return [...files.values()];
+  } finally {
+    await vitest.close();
+  }
+}
+
+/**
+ * Convert test modules from an in-process run into the JSON reporter structure,
+ * so results flow through the same output processing as spawned runs
+ */
+export function buildJsonReport(
+  testModules: ReadonlyArray<TestModuleLike>,
+  startTime: number,
+  unhandledErrors: ReadonlyArray<unknown> = []
+): VitestJsonResult {
+  const testResults: TestSuiteResult[] = [];
+  let numTotalTests = 0;
+  let numPassedTests = 0;
+  let numFailedTests = 0;
+  let numPendingTests = 0;
+  let numTodoTests = 0;
+  let numFailedTestSuites = 0;
+
+  for (const testModule of testModules) {
+    const assertionResults: AssertionResult[] = [];
+    let moduleStart = Number.POSITIVE_INFINITY;
+    let moduleEnd = 0;
+
+    for (const testCase of testModule.children.allTests()) {
+      const assertion = toAssertionResult(testCase);
+      assertionResults.push(assertion);
+      numTotalTests++;
+
+      if (testCase.options.mode === 'todo') {
+        numTodoTests++;
+      } else if (assertion.status === 'passed') {
+        numPassedTests++;
+      } else if (assertion.status === 'failed') {
+        numFailedTests++;
+      } else {
+        numPendingTests++;
+      }
+
+      const diagnostic = testCase.diagnostic();
+      if (diagnostic) {
+        moduleStart = Math.min(moduleStart, diagnostic.startTime);
+        moduleEnd = Math.max(moduleEnd, diagnostic.startTime + diagnostic.duration);
+      }
+    }
+
+    const moduleFailed =
+      testModule.state() === 'failed' || assertionResults.some((assertion) => assertion.status === 'failed');
+    if (moduleFailed) {
+      numFailedTestSuites++;
+    }
+
+    const suiteStart = moduleStart === Number.POSITIVE_INFINITY ? startTime : moduleStart;
+    testResults.push({
+      name: testModule.moduleId,
+      status: moduleFailed ? 'failed' : 'passed',
+      startTime: suiteStart,
+      endTime: Math.max(moduleEnd, suiteStart),
+      message: testModule.errors()[0]?.message ?? '',
+      assertionResults,
+    });
+  }
+
+  return {
+    version: '',
+    success:
+      testModules.length > 0 &&
+      numFailedTestSuites === 0 &&
+      numFailedTests === 0 &&
+      unhandledErrors.length === 0,
+    numTotalTestSuites: testModules.length,
+    numPassedTestSuites: testModules.length - numFailedTestSuites,
+    numFailedTestSuites,
+    numTotalTests,
+    numPassedTests,
+    numFailedTests,
+    numPendingTests,
+    numTodoTests,
+    startTime,
+    endTime: Date.now(),
+    testResults,
+  };
+}
+
+/**
+ * Convert a single test case into a JSON reporter assertion result
+ */
+function toAssertionResult(testCase: TestCaseLike): AssertionResult {
+  const ancestorTitles: string[] = [];
+  let parent = testCase.parent;
+  while (parent.type === 'suite') {
+    ancestorTitles.unshift(parent.name);
+    parent = parent.parent;
+  }
+
+  const result = testCase.result();
+  const status = result.state === 'passed' || result.state === 'failed' ? result.state : 'skipped';
+
+  return {
+    ancestorTitles,
+    title: testCase.name,
+    fullName: [...ancestorTitles, testCase.name].join(' '),
+    status,
+    duration: testCase.diagnostic()?.duration,
+    failureMessages: (result.errors || []).map((error) => error.stack || error.message || 'Unknown error'),
+  };
+}
+
+/**
+ * Format a captured console log the same way as spawned log capture
+ */
+export function formatConsoleLog(log: UserConsoleLogLike): string {
+  const prefix = log.type === 'stderr' ? '[stderr]' : '[stdout]';
+  return `${prefix} ${log.content.replace(/\n$/, '')}`;
+}
@@ -0,0 +1,492 @@
+import { readFile, readdir } from 'fs/promises';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { fileExists, isDirectory } from './file-utils.js';
+import { findVitestConfig } from './config-finder.js';
+import { matchesGlob } from './glob.js';
+import { readLiteral, tokenize, type LiteralValue, type Token } from './js-tokenizer.js';
+import { loadVitestConfig } from './vitest-config-loader.js';
+
+/**
+ * Discovery of the projects of a monorepo: Vitest projects from the test.projects
+ * array of the Vitest config or a Vitest workspace file, and npm/yarn/pnpm workspace
+ * packages. Vitest projects are taken from the config as Vitest resolves it; when it
+ * can't be loaded, configs are read without executing them, so projects built at
+ * runtime are not found.
+ */
+
+export type WorkspaceProjectSource = 'test.projects' | 'vitest.workspace' | 'package workspaces';
+
+export interface WorkspaceProject {
+  name: string;
+  /** Relative to the project root, "." for the root itself */
+  root: string;
+  source: WorkspaceProjectSource;
+  /** Config file of the project, relative to the project root. Absent for inline projects */
+  configFile?: string;
+  environment?: string;
+  include?: string[];
+}
+
+const WORKSPACE_FILES = [
+  'vitest.workspace.ts',
+  'vitest.workspace.mts',
+  'vitest.workspace.js',
+  'vitest.workspace.mjs',
+  'vitest.workspace.cjs',
+  'vitest.workspace.json',
+];
+
+/** Vitest's defaults for projects that do not configure them */
+const DEFAULT_ENVIRONMENT = 'node';
+const DEFAULT_INCLUDE = ['**/*.{test,spec}.?(c|m)[jt]s?(x)'];
+
+/** Config files a projects glob can point to, e.g. vitest.config.e2e.ts */
+const CONFIG_FILE_NAME = /^(vite|vitest)(\.[\w-]+)*\.(c|m)?[jt]s$/;
+
+/** How deep project globs are expanded when they contain ** */
+const MAX_GLOB_DEPTH = 5;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'coverage', 'build']);
+
+interface TestOptions {
+  name?: string;
+  root?: string;
+  environment?: string;
+  include?: string[];
+}
+
+/**
+ * Find the Vitest projects and workspace packages of a project root.
+ * Workspace packages that are also Vitest projects are listed once, as Vitest projects.
+ */
+export async function findWorkspaceProjects(projectRoot: string): Promise<WorkspaceProject[]> {
+  return (await discoverProjects(projectRoot)).projects;
+}
+
+/**
+ * Check a run_tests/analyze_coverage project name against the Vitest projects of the resolved config.
+ * Names are not checked when the config can't be loaded or defines no projects; Vitest reports them then.
+ * @throws Error with close matches when the name is unknown
+ */
+export async function validateProjectName(projectRoot: string, project: string): Promise<void> {
+  const { projects, resolved } = await discoverProjects(projectRoot);
+  const names = projects.filter((entry) => entry.source !== 'package workspaces').map((entry) => entry.name);
+  if (!resolved || names.length === 0 || names.some((name) => matchesProjectFilter(name, project))) {
+    return;
+  }
+
+  const workspacePackage = projects.find((entry) => entry.source === 'package workspaces' && entry.name === project);
+  const suggestions = findCloseMatches(project, names);
+  let hint = '';
+  if (workspacePackage) {
+    hint = ` "${project}" is a workspace package without a Vitest project; use target "${workspacePackage.root}" instead.`;
+  } else if (suggestions.length > 0) {
+    hint = ` Did you mean ${suggestions.map((name) => `"${name}"`).join(' or ')}?`;
+  }
+
+  throw new Error(
+    `Unknown project "${project}".${hint} Available projects: ${names.join(', ')}. Use list_projects to see their roots.`
+  );
+}
+
+/**
+ * Find the projects of a project root, and whether the Vitest projects come from the resolved config
+ */
+async function discoverProjects(projectRoot: string): Promise<{ projects: WorkspaceProject[]; resolved: boolean }> {
+  const rootConfig = await findVitestConfig(projectRoot);
+  const resolvedProjects = await loadResolvedProjects(projectRoot, rootConfig);
+  const projects = resolvedProjects ?? (await findStaticProjects(projectRoot, rootConfig));
+
+  const knownRoots = new Set(projects.map((project) => project.root));
+  for (const packageDir of await findWorkspacePackages(projectRoot)) {
+    const root = relative(projectRoot, packageDir) || '.';
+    if (knownRoots.has(root)) {
+      continue;
+    }
+    knownRoots.add(root);
+
+    const configFile = await findVitestConfig(packageDir);
+    const test = configFile ? readTestOptions(await readTokens(configFile)) : undefined;
+    projects.push({
+      name: (await readPackageName(packageDir)) ?? basename(packageDir),
+      root,
+      source: 'package workspaces',
+      ...(configFile
+        ? {
+            configFile: relative(projectRoot, configFile),
+            environment: test?.environment ?? DEFAULT_ENVIRONMENT,
+            include: test?.include ?? DEFAULT_INCLUDE,
+          }
+        : {}),
+    });
+  }
+
+  return { projects, resolved: resolvedProjects !== undefined };
+}
+
+/**
+ * The Vitest projects of the config as Vitest resolves them, or undefined when the
+ * config can't be loaded or Vitest doesn't report its projects
+ */
+async function loadResolvedProjects(
+  projectRoot: string,
+  rootConfig: string | null
+): Promise<WorkspaceProject[] | undefined> {
+  let config;
+  try {
+    config = await loadVitestConfig(projectRoot, rootConfig);
+  } catch {
+    return undefined;
+  }
+  if (!config.projects) {
+    return undefined;
+  }
+
+  const source: WorkspaceProjectSource = config.test.projects || config.test.workspace ? 'test.projects' : 'vitest.workspace';
+  return config.projects.map((project) => ({
+    name: project.name,
+    root: relative(projectRoot, project.root) || '.',
+    source,
+    ...(project.configFile ? { configFile: relative(projectRoot, project.configFile) } : {}),
+    environment: project.environment ?? DEFAULT_ENVIRONMENT,
+    include: project.include ?? DEFAULT_INCLUDE,
+  }));
+}
+
+/**
+ * The Vitest projects found by reading the config and workspace files without executing them
+ */
+async function findStaticProjects(projectRoot: string, rootConfig: string | null): Promise<WorkspaceProject[]> {
+  const rootTokens = rootConfig ? await readTokens(rootConfig) : [];
+
+  const projectsArray = findArrayProperty(rootTokens, ['projects', 'workspace']);
+  if (projectsArray) {
+    return await resolveProjectEntries(projectRoot, projectsArray, 'test.projects', rootTokens);
+  }
+  const workspaceFile = await findWorkspaceFile(projectRoot);
+  if (workspaceFile) {
+    return await resolveProjectEntries(projectRoot, await readWorkspaceFile(workspaceFile), 'vitest.workspace', rootTokens);
+  }
+  return [];
+}
+
+/**
+ * Names within a small edit distance of name, or containing it, closest first
+ */
+export function findCloseMatches(name: string, candidates: string[], limit = 3): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  return candidates
+    .map((candidate) => {
+      const lower = candidate.toLowerCase();
+      const contains = lower.includes(target) || target.includes(lower);
+      return { candidate, distance: contains ? 0 : editDistance(target, lower) };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Vitest's --project filter: the exact name, or a pattern with * wildcards
+ */
+function matchesProjectFilter(name: string, filter: string): boolean {
+  if (!filter.includes('*')) {
+    return name === filter;
+  }
+  const pattern = filter.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/**
+ * Turn the entries of a projects array into projects: globs and paths of
+ * project directories or config files, and inline project configs
+ */
+async function resolveProjectEntries(
+  projectRoot: string,
+  entries: LiteralValue[],
+  source: WorkspaceProjectSource,
+  rootTokens: Token[]
+): Promise<WorkspaceProject[]> {
+  const projects: WorkspaceProject[] = [];
+  const patterns = entries.filter((entry): entry is string => typeof entry === 'string');
+
+  for (const path of await expandGlobs(projectRoot, patterns)) {
+    const isProjectDir = await isDirectory(path);
+    if (!isProjectDir && !CONFIG_FILE_NAME.test(basename(path))) {
+      continue;
+    }
+    const configFile = isProjectDir ? await findVitestConfig(path) : path;
+    const projectDir = isProjectDir ? path : dirname(path);
+    const test = configFile ? readTestOptions(await readTokens(configFile)) : undefined;
+    const root = test?.root ? resolve(projectDir, test.root) : projectDir;
+
+    projects.push({
+      name: test?.name ?? (await readPackageName(root)) ?? basename(root),
+      root: relative(projectRoot, root) || '.',
+      source,
+      ...(configFile ? { configFile: relative(projectRoot, configFile) } : {}),
+      environment: test?.environment ?? DEFAULT_ENVIRONMENT,
+      include: test?.include ?? DEFAULT_INCLUDE,
+    });
+  }
+
+  // Inline configs; `extends: true` inherits the options of the root config
+  const rootTest = readTestOptions(rootTokens);
+  for (const entry of entries) {
+    if (!isObject(entry)) {
+      continue;
+    }
+    const test = toTestOptions(entry.test);
+    const inherited = entry.extends === true ? rootTest : undefined;
+    const rootOption = typeof entry.root === 'string' ? entry.root : test?.root;
+    const root = rootOption ? resolve(projectRoot, rootOption) : projectRoot;
+
+    projects.push({
+      name: test?.name ?? (await readPackageName(root)) ?? basename(root),
+      root: relative(projectRoot, root) || '.',
+      source,
+      environment: test?.environment ?? inherited?.environment ?? DEFAULT_ENVIRONMENT,
+      include: test?.include ?? inherited?.include ?? DEFAULT_INCLUDE,
+    });
+  }
+
+  return projects;
+}
+
+/**
+ * The test options of a Vitest config: the first `test: { ... }` object literal
+ */
+function readTestOptions(tokens: Token[]): TestOptions | undefined {
+  for (let i = 0; i < tokens.length - 2; i++) {
+    if (tokens[i].value === 'test' && tokens[i + 1].value === ':' && tokens[i + 2].value === '{') {
+      const options = toTestOptions(readLiteral(tokens, i + 2));
+      if (options) {
+        return options;
+      }
+    }
+  }
+  return undefined;
+}
+
+function toTestOptions(value: LiteralValue | undefined): TestOptions | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  // name can also be { label, color }
+  const name = isObject(value.name) ? value.name.label : value.name;
+  const include = Array.isArray(value.include)
+    ? value.include.filter((pattern): pattern is string => typeof pattern === 'string')
+    : undefined;
+
+  return {
+    name: typeof name === 'string' ? name : undefined,
+    root: typeof value.root === 'string' ? value.root : undefined,
+    environment: typeof value.environment === 'string' ? value.environment : undefined,
+    include: include && include.length > 0 ? include : undefined,
+  };
+}
+
+/**
+ * Elements of the first array literal assigned to one of the given property names
+ */
+function findArrayProperty(tokens: Token[], names: string[]): LiteralValue[] | undefined {
+  for (let i = 0; i < tokens.length - 2; i++) {
+    if (names.includes(tokens[i].value) && tokens[i + 1].value === ':' && tokens[i + 2].value === '[') {
+      const value = readLiteral(tokens, i + 2);
+      if (Array.isArray(value)) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function findWorkspaceFile(projectRoot: string): Promise<string | undefined> {
+  for (const name of WORKSPACE_FILES) {
+    if (await fileExists(join(projectRoot, name))) {
+      return join(projectRoot, name);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Entries of a vitest.workspace file: the default export, optionally wrapped in defineWorkspace()
+ */
+async function readWorkspaceFile(workspaceFile: string): Promise<LiteralValue[]> {
+  if (workspaceFile.endsWith('.json')) {
+    try {
+      const entries: unknown = JSON.parse(await readFile(workspaceFile, 'utf-8'));
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  const tokens = await readTokens(workspaceFile);
+  const exportIndex = tokens.findIndex(
+    (token, i) =>
+      (token.value === 'default' && tokens[i - 1]?.value === 'export') ||
+      (token.value === 'exports' && tokens[i + 1]?.value === '=')
+  );
+  if (exportIndex === -1) {
+    return [];
+  }
+
+  // Skip `=` and wrappers such as defineWorkspace(
+  let i = exportIndex + 1;
+  while (i < tokens.length && (tokens[i].type === 'identifier' || tokens[i].value === '(' || tokens[i].value === '=')) {
+    i++;
+  }
+  const value = tokens[i]?.value === '[' ? readLiteral(tokens, i) : undefined;
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Directories of the packages listed in package.json workspaces (npm, yarn) or pnpm-workspace.yaml
+ */
+async function findWorkspacePackages(projectRoot: string): Promise<string[]> {
+  const patterns: string[] = [];
+
+  try {
+    const packageJson = JSON.parse(await readFile(join(projectRoot, 'package.json'), 'utf-8'));
+    const workspaces = Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces.filter((pattern: unknown): pattern is string => typeof pattern === 'string'));
+    }
+  } catch {
+    // No package.json or no workspaces
+  }
+
+  try {
+    patterns.push(...parsePnpmWorkspace(await readFile(join(projectRoot, 'pnpm-workspace.yaml'), 'utf-8')));
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const packages: string[] = [];
+  for (const path of await expandGlobs(projectRoot, patterns)) {
+    if ((await isDirectory(path)) && (await fileExists(join(path, 'package.json')))) {
+      packages.push(path);
+    }
+  }
+  return packages;
+}
+
+/**
+ * The `packages:` list of a pnpm-workspace.yaml
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-/.test(line)) {
+      patterns.push(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2'));
+    } else if (inPackages && /^\S/.test(line)) {
+      break;
+    }
+  }
+  return patterns.filter(Boolean);
+}
+
+/**
+ * Absolute paths of the files and directories matching the patterns, relative
+ * to baseDir. Patterns starting with ! exclude matches.
+ */
+async function expandGlobs(baseDir: string, patterns: string[]): Promise<string[]> {
+  const normalize = (pattern: string) => pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!')).map(normalize);
+  const excludes = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => normalize(pattern.slice(1)));
+  const matches: string[] = [];
+
+  const globs = includes.filter((pattern) => /[*?[{]/.test(pattern));
+  for (const pattern of includes.filter((pattern) => !globs.includes(pattern))) {
+    if (await fileExists(resolve(baseDir, pattern))) {
+      matches.push(resolve(baseDir, pattern));
+    }
+  }
+
+  if (globs.length > 0) {
+    const maxDepth = Math.max(
+      ...globs.map((pattern) => (pattern.includes('**') ? MAX_GLOB_DEPTH : pattern.split('/').length))
+    );
+    for (const path of await listEntries(baseDir, maxDepth)) {
+      const relativePath = relative(baseDir, path);
+      if (globs.some((pattern) => matchesGlob(relativePath, pattern))) {
+        matches.push(path);
+      }
+    }
+  }
+
+  return [...new Set(matches)].filter(
+    (path) => !excludes.some((pattern) => matchesGlob(relative(baseDir, path), pattern))
+  );
+}
+
+async function listEntries(dir: string, maxDepth: number, depth = 1): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const paths: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const path = join(dir, entry.name);
+    paths.push(path);
+    if (entry.isDirectory() && depth < maxDepth) {
+      paths.push(...(await listEntries(path, maxDepth, depth + 1)));
+    }
+  }
+  return paths;
+}
+
+async function readTokens(filePath: string): Promise<Token[]> {
+  try {
+    return tokenize(await readFile(filePath, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+async function readPackageName(dir: string): Promise<string | undefined> {
+  try {
+    const { name } = JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'));
+    return typeof name === 'string' ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: LiteralValue | undefined): value is { [key: string]: LiteralValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}